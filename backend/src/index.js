@@ -1,10 +1,11 @@
+// Load environment variables before any module reads process.env
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import compression from 'compression';
 import rateLimit from 'express-rate-limit';
-import dotenv from 'dotenv';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
@@ -15,9 +16,8 @@ import fileRoutes from './routes/files.js';
 import fullStackBuilderRoutes from './routes/fullStackBuilder.js';
 import firebaseRoutes from './routes/firebase.js';
 import textToAppRoutes from './routes/textToApp.js';
-
-// Load environment variables
-dotenv.config();
+import sessionRoutes from './routes/sessions.js';
+import chatRoutes from './routes/chats.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -39,11 +39,20 @@ app.use(helmet({
 }));
 
 // Rate limiting
+// Inline completions fire on typing pauses, so they get their own per-minute
+// budget instead of using up the one shared by every other route
+const completionLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: parseInt(process.env.COMPLETION_RATE_LIMIT_PER_MINUTE || '60', 10),
+  message: 'Too many completion requests from this IP, please slow down.'
+});
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 100, // limit each IP to 100 requests per windowMs
-  message: 'Too many requests from this IP, please try again later.'
+  message: 'Too many requests from this IP, please try again later.',
+  skip: (req) => req.path === '/ai/complete'
 });
+app.use('/api/ai/complete', completionLimiter);
 app.use('/api/', limiter);
 
 // Middleware
@@ -77,6 +86,8 @@ app.use('/api/files', fileRoutes);
 app.use('/api/fullstack', fullStackBuilderRoutes);
 app.use('/api/firebase', firebaseRoutes);
 app.use('/api/text-to-app', textToAppRoutes);
+app.use('/api/sessions', sessionRoutes);
+app.use('/api/chats', chatRoutes);
 
 // Legacy MVP alias routes for compatibility
 app.post('/importRepo', (req, res, next) => repoRoutes.handle({ ...req, url: '/import' }, res, next));
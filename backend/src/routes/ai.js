@@ -1,5 +1,22 @@
 import express from 'express';
-import { processAIRequest, getAvailableModels } from '../services/aiService.js';
+import {
+  processAIRequest,
+  streamAIRequest,
+  getAvailableModels,
+  analyzeCodebase,
+  completeCode,
+  generateDocumentation,
+  generateTests,
+  describeSelection
+} from '../services/aiService.js';
+import { listProviders } from '../services/providers/index.js';
+import { getCircuitState } from '../services/aiResilience.js';
+import { buildIndex, getIndexStatus, retrieveChunks } from '../services/indexService.js';
+import { queryUsage } from '../services/usageLedger.js';
+import { proposeCodeEdits } from '../services/codeEditService.js';
+import { StructuredOutputError } from '../services/structuredOutput.js';
+import { runAgent, getAgentRun, applyAgentProposals, rejectAgentProposals } from '../services/agentService.js';
+import { normalizeImages } from '../services/imageService.js';
 
 const router = express.Router();
 
@@ -12,26 +29,51 @@ router.post('/chat', async (req, res) => {
   try {
     const { 
       prompt, 
+      messages = [],
       model, 
       context, 
       files, 
       temperature = 0.7,
-      maxTokens = 4000 
+      maxTokens = 4000,
+      images = [],
+      imageData = null,
+      repoPath,
+      retrieval,
+      useCase,
+      fallback
     } = req.body;
     
-    if (!prompt || !model) {
+    if ((!prompt && messages.length === 0) || (!model && !useCase)) {
       return res.status(400).json({ 
-        error: 'Prompt and model are required' 
+        error: 'Prompt or messages, and model or use case are required' 
+      });
+    }
+
+    let attachedImages;
+    try {
+      attachedImages = normalizeImages([].concat(images, imageData));
+    } catch (error) {
+      return res.status(400).json({
+        error: 'Invalid image',
+        message: error.message
       });
     }
 
     const result = await processAIRequest({
+      feature: 'chat',
+      route: req.originalUrl,
       prompt,
+      messages,
       model,
       context,
       files,
       temperature,
-      maxTokens
+      maxTokens,
+      images: attachedImages,
+      repoPath,
+      retrieval,
+      useCase,
+      fallback
     });
 
     res.json({
@@ -47,6 +89,98 @@ router.post('/chat', async (req, res) => {
   }
 });
 
+/**
+ * @route POST /api/ai/chat/stream
+ * @desc Stream AI response token-by-token as server-sent events
+ * @access Public
+ */
+router.post('/chat/stream', async (req, res) => {
+  const { 
+    prompt, 
+    messages = [],
+    model, 
+    context, 
+    files, 
+    temperature = 0.7,
+    maxTokens = 4000,
+    images = [],
+    imageData = null,
+    repoPath,
+    retrieval,
+    useCase,
+    fallback
+  } = req.body;
+  
+  if ((!prompt && messages.length === 0) || (!model && !useCase)) {
+    return res.status(400).json({ 
+      error: 'Prompt or messages, and model or use case are required' 
+    });
+  }
+
+  let attachedImages;
+  try {
+    attachedImages = normalizeImages([].concat(images, imageData));
+  } catch (error) {
+    return res.status(400).json({
+      error: 'Invalid image',
+      message: error.message
+    });
+  }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+  res.flushHeaders();
+
+  // compression() buffers writes, so flush after every event
+  const sendEvent = (event, data) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    res.flush?.();
+  };
+
+  // Stop generating when the client disconnects
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  try {
+    const result = await streamAIRequest({
+      feature: 'chat',
+      route: req.originalUrl,
+      prompt,
+      messages,
+      model,
+      context,
+      files,
+      temperature,
+      maxTokens,
+      images: attachedImages,
+      repoPath,
+      retrieval,
+      useCase,
+      fallback,
+      signal: controller.signal
+    }, (token) => sendEvent('token', { content: token }));
+
+    sendEvent('done', result);
+  } catch (error) {
+    console.error('AI chat stream error:', error);
+    if (!controller.signal.aborted) {
+      sendEvent('error', { 
+        error: 'Failed to process AI request',
+        message: error.message 
+      });
+    }
+  } finally {
+    res.end();
+  }
+});
+
 /**
  * @route POST /api/ai/analyze
  * @desc Analyze codebase with AI
@@ -67,12 +201,7 @@ router.post('/analyze', async (req, res) => {
       });
     }
 
-    const result = await processAIRequest({
-      prompt: `Analyze this codebase for ${analysisType}. Focus on: ${specificFiles.join(', ')}`,
-      model,
-      context: { repoPath, analysisType, specificFiles },
-      temperature: 0.3
-    });
+    const result = await analyzeCodebase(repoPath, model, analysisType, specificFiles);
 
     res.json({
       success: true,
@@ -89,7 +218,7 @@ router.post('/analyze', async (req, res) => {
 
 /**
  * @route POST /api/ai/refactor
- * @desc Get AI suggestions for code refactoring
+ * @desc Get AI refactoring edits for one or more files as reviewable hunks
  * @access Public
  */
 router.post('/refactor', async (req, res) => {
@@ -97,31 +226,35 @@ router.post('/refactor', async (req, res) => {
     const { 
       filePath, 
       content, 
+      files,
       model, 
-      refactorType = 'general'
+      refactorType = 'general',
+      instructions,
+      selection,
+      repoPath
     } = req.body;
     
-    if (!filePath || !content || !model) {
+    const targets = getEditTargets(files, filePath, content);
+    if (targets.length === 0 || !model) {
       return res.status(400).json({ 
         error: 'File path, content, and model are required' 
       });
     }
 
-    const prompt = `Refactor this code for ${refactorType} improvements. Focus on:
+    const task = `Refactor this code for ${refactorType} improvements. Focus on:
     - Code readability
     - Performance optimization
     - Best practices
-    - Error handling
-    
-    File: ${filePath}
-    Content:
-    ${content}`;
+    - Error handling${instructions ? `\n\n    User request: ${instructions}` : ''}${describeEditScope(filePath, selection)}`;
 
-    const result = await processAIRequest({
-      prompt,
+    const result = await proposeCodeEdits({
+      files: targets,
+      task,
       model,
-      context: { filePath, refactorType },
-      temperature: 0.4
+      temperature: 0.4,
+      repoPath,
+      feature: 'refactor',
+      route: req.originalUrl
     });
 
     res.json({
@@ -130,16 +263,13 @@ router.post('/refactor', async (req, res) => {
     });
   } catch (error) {
     console.error('AI refactor error:', error);
-    res.status(500).json({ 
-      error: 'Failed to get refactoring suggestions',
-      message: error.message 
-    });
+    sendEditError(res, error, 'Failed to get refactoring suggestions');
   }
 });
 
 /**
  * @route POST /api/ai/fix
- * @desc Auto-fix code issues
+ * @desc Get AI fixes for code issues as reviewable hunks
  * @access Public
  */
 router.post('/fix', async (req, res) => {
@@ -147,31 +277,33 @@ router.post('/fix', async (req, res) => {
     const { 
       filePath, 
       content, 
+      files,
       model, 
       errorMessage,
-      errorType = 'runtime'
+      errorType = 'runtime',
+      selection,
+      repoPath
     } = req.body;
     
-    if (!filePath || !content || !model) {
+    const targets = getEditTargets(files, filePath, content);
+    if (targets.length === 0 || !model) {
       return res.status(400).json({ 
         error: 'File path, content, and model are required' 
       });
     }
 
-    const prompt = `Fix the ${errorType} error in this code:
+    const task = `Fix the ${errorType} error in this code.
     
-    Error: ${errorMessage}
-    File: ${filePath}
-    Content:
-    ${content}
-    
-    Provide the corrected code with explanations.`;
+    Error: ${errorMessage}${describeEditScope(filePath, selection)}`;
 
-    const result = await processAIRequest({
-      prompt,
+    const result = await proposeCodeEdits({
+      files: targets,
+      task,
       model,
-      context: { filePath, errorMessage, errorType },
-      temperature: 0.2
+      temperature: 0.2,
+      repoPath,
+      feature: 'fix',
+      route: req.originalUrl
     });
 
     res.json({
@@ -180,8 +312,54 @@ router.post('/fix', async (req, res) => {
     });
   } catch (error) {
     console.error('AI fix error:', error);
+    sendEditError(res, error, 'Failed to fix code issues');
+  }
+});
+
+/**
+ * @route POST /api/ai/complete
+ * @desc Inline code completion: fill in code between a prefix and suffix
+ * @access Public
+ */
+router.post('/complete', async (req, res) => {
+  const { prefix, suffix = '', filePath, language, openFiles = [], model, maxTokens } = req.body;
+
+  if (typeof prefix !== 'string' || !filePath || !model) {
+    return res.status(400).json({ 
+      error: 'Prefix, file path, and model are required' 
+    });
+  }
+
+  // Editors cancel completions that went stale; stop generating for them
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  try {
+    const result = await completeCode({
+      prefix,
+      suffix,
+      filePath,
+      language,
+      openFiles,
+      model,
+      maxTokens,
+      signal: controller.signal
+    });
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    if (controller.signal.aborted) return;
+
+    console.error('Code completion error:', error);
     res.status(500).json({ 
-      error: 'Failed to fix code issues',
+      error: 'Failed to complete code',
       message: error.message 
     });
   }
@@ -208,6 +386,58 @@ router.get('/models', async (req, res) => {
   }
 });
 
+/**
+ * @route GET /api/ai/providers
+ * @desc Get registered AI providers, their capabilities and circuit breaker state
+ * @access Public
+ */
+router.get('/providers', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: listProviders().map(provider => ({
+        ...provider,
+        circuit: getCircuitState(provider.id)
+      }))
+    });
+  } catch (error) {
+    console.error('Get providers error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get AI providers',
+      message: error.message 
+    });
+  }
+});
+
+/**
+ * @route GET /api/ai/usage
+ * @desc Get recorded AI usage and estimated cost, grouped by day, model, provider, feature or route
+ * @access Public
+ */
+router.get('/usage', async (req, res) => {
+  try {
+    const { from, to, groupBy = 'day', feature, model } = req.query;
+
+    if (!['day', 'model', 'provider', 'feature', 'route'].includes(groupBy)) {
+      return res.status(400).json({ 
+        error: 'Group by must be one of day, model, provider, feature or route' 
+      });
+    }
+
+    const usage = await queryUsage({ from, to, groupBy, feature, model });
+    res.json({
+      success: true,
+      data: usage
+    });
+  } catch (error) {
+    console.error('Get usage error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get AI usage',
+      message: error.message 
+    });
+  }
+});
+
 /**
  * @route POST /api/ai/explain
  * @desc Get AI explanation of code
@@ -219,7 +449,11 @@ router.post('/explain', async (req, res) => {
       filePath, 
       content, 
       model, 
-      explanationType = 'general'
+      explanationType = 'general',
+      instructions,
+      selection,
+      files,
+      repoPath
     } = req.body;
     
     if (!filePath || !content || !model) {
@@ -233,7 +467,7 @@ router.post('/explain', async (req, res) => {
     File: ${filePath}
     Type: ${explanationType}
     Content:
-    ${content}
+    ${content}${describeSelection(selection)}${instructions ? `\n\n    User request: ${instructions}` : ''}
     
     Provide a comprehensive explanation including:
     - What the code does
@@ -242,9 +476,14 @@ router.post('/explain', async (req, res) => {
     - Potential improvements`;
 
     const result = await processAIRequest({
+      feature: 'explain',
+      route: req.originalUrl,
       prompt,
       model,
       context: { filePath, explanationType },
+      files,
+      repoPath,
+      retrieval: false,
       temperature: 0.5
     });
 
@@ -261,20 +500,103 @@ router.post('/explain', async (req, res) => {
   }
 });
 
+/**
+ * @route POST /api/ai/test
+ * @desc Generate unit tests for code
+ * @access Public
+ */
+router.post('/test', async (req, res) => {
+  try {
+    const { filePath, content, model, instructions, selection, files, repoPath } = req.body;
+    
+    if (!filePath || !content || !model) {
+      return res.status(400).json({ 
+        error: 'File path, content, and model are required' 
+      });
+    }
+
+    const result = await generateTests(filePath, content, model, {
+      repoPath,
+      selection,
+      instructions,
+      files,
+      route: req.originalUrl
+    });
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('AI test generation error:', error);
+    res.status(500).json({ 
+      error: 'Failed to generate tests',
+      message: error.message 
+    });
+  }
+});
+
+/**
+ * @route POST /api/ai/doc
+ * @desc Generate documentation for code
+ * @access Public
+ */
+router.post('/doc', async (req, res) => {
+  try {
+    const { filePath, content, model, instructions, selection, files, repoPath } = req.body;
+    
+    if (!filePath || !content || !model) {
+      return res.status(400).json({ 
+        error: 'File path, content, and model are required' 
+      });
+    }
+
+    const result = await generateDocumentation(filePath, content, model, {
+      repoPath,
+      selection,
+      instructions,
+      files,
+      route: req.originalUrl
+    });
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('AI documentation error:', error);
+    res.status(500).json({ 
+      error: 'Failed to generate documentation',
+      message: error.message 
+    });
+  }
+});
+
 /**
  * @route POST /api/ai/vision
- * @desc Analyze UI design from image and generate code
+ * @desc Analyze UI designs from one or more images (images, or a single imageData) and generate code
  * @access Public
  */
 router.post('/vision', async (req, res) => {
   try {
     const { 
+      images = [],
       imageData, 
       prompt = 'Analyze this UI design and describe the components, layout, and styling needed to recreate it',
       model = 'gemini-2.0-pro'
     } = req.body;
     
-    if (!imageData) {
+    let attachedImages;
+    try {
+      attachedImages = normalizeImages([].concat(images, imageData));
+    } catch (error) {
+      return res.status(400).json({
+        error: 'Invalid image',
+        message: error.message
+      });
+    }
+
+    if (attachedImages.length === 0) {
       return res.status(400).json({ 
         error: 'Image data is required' 
       });
@@ -292,11 +614,13 @@ Please provide a detailed analysis including:
 Then provide the HTML/CSS/JavaScript code to recreate this design.`;
 
     const result = await processAIRequest({
+      feature: 'vision',
+      route: req.originalUrl,
       prompt: visionPrompt,
       model,
       context: { analysisType: 'ui-design' },
       temperature: 0.3,
-      imageData
+      images: attachedImages
     });
 
     res.json({
@@ -312,4 +636,248 @@ Then provide the HTML/CSS/JavaScript code to recreate this design.`;
   }
 });
 
+/**
+ * @route POST /api/ai/index
+ * @desc Build or refresh the retrieval index for a repository
+ * @access Public
+ */
+router.post('/index', async (req, res) => {
+  try {
+    const { repoPath, embeddings = true } = req.body;
+
+    if (!repoPath) {
+      return res.status(400).json({ 
+        error: 'Repository path is required' 
+      });
+    }
+
+    const status = await buildIndex(repoPath, { embeddings });
+    res.json({
+      success: true,
+      data: status
+    });
+  } catch (error) {
+    console.error('Build index error:', error);
+    res.status(500).json({ 
+      error: 'Failed to build index',
+      message: error.message 
+    });
+  }
+});
+
+/**
+ * @route GET /api/ai/index/status
+ * @desc Get retrieval index status for a repository
+ * @access Public
+ */
+router.get('/index/status', async (req, res) => {
+  try {
+    const { repoPath } = req.query;
+
+    if (!repoPath) {
+      return res.status(400).json({ 
+        error: 'Repository path is required' 
+      });
+    }
+
+    const status = await getIndexStatus(repoPath);
+    res.json({
+      success: true,
+      data: status
+    });
+  } catch (error) {
+    console.error('Index status error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get index status',
+      message: error.message 
+    });
+  }
+});
+
+/**
+ * @route GET /api/ai/index/search
+ * @desc Retrieve the code chunks most relevant to a query
+ * @access Public
+ */
+router.get('/index/search', async (req, res) => {
+  try {
+    const { repoPath, query, limit = 12, maxTokens = 4000 } = req.query;
+
+    if (!repoPath || !query) {
+      return res.status(400).json({ 
+        error: 'Repository path and query are required' 
+      });
+    }
+
+    const chunks = await retrieveChunks(repoPath, query, {
+      limit: parseInt(limit, 10),
+      maxTokens: parseInt(maxTokens, 10)
+    });
+    res.json({
+      success: true,
+      data: chunks
+    });
+  } catch (error) {
+    console.error('Index search error:', error);
+    res.status(500).json({ 
+      error: 'Failed to search index',
+      message: error.message 
+    });
+  }
+});
+
+/**
+ * @route POST /api/ai/agent/run
+ * @desc Run the tool-calling agent against a repository; writes are returned as proposals
+ * @access Public
+ */
+router.post('/agent/run', async (req, res) => {
+  try {
+    const { repoPath, prompt, model, messages = [], maxSteps } = req.body;
+
+    if (!repoPath || !prompt || !model) {
+      return res.status(400).json({ 
+        error: 'Repository path, prompt, and model are required' 
+      });
+    }
+
+    // Stop the loop when the client disconnects
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        controller.abort();
+      }
+    });
+
+    const run = await runAgent({
+      repoPath,
+      prompt,
+      model,
+      messages,
+      maxSteps,
+      signal: controller.signal
+    });
+
+    res.json({
+      success: true,
+      data: run
+    });
+  } catch (error) {
+    console.error('Agent run error:', error);
+    res.status(500).json({ 
+      error: 'Failed to run agent',
+      message: error.message 
+    });
+  }
+});
+
+/**
+ * @route GET /api/ai/agent/runs/:runId
+ * @desc Get an agent run with its transcript and proposals
+ * @access Public
+ */
+router.get('/agent/runs/:runId', (req, res) => {
+  const run = getAgentRun(req.params.runId);
+
+  if (!run) {
+    return res.status(404).json({ 
+      error: 'Agent run not found' 
+    });
+  }
+
+  res.json({
+    success: true,
+    data: run
+  });
+});
+
+/**
+ * @route POST /api/ai/agent/runs/:runId/approve
+ * @desc Apply pending proposals (all, or those listed in proposalIds) to the workspace
+ * @access Public
+ */
+router.post('/agent/runs/:runId/approve', async (req, res) => {
+  try {
+    const { proposalIds, token } = req.body;
+
+    if (!getAgentRun(req.params.runId)) {
+      return res.status(404).json({ 
+        error: 'Agent run not found' 
+      });
+    }
+
+    const run = await applyAgentProposals(req.params.runId, proposalIds, token);
+    res.json({
+      success: true,
+      data: run
+    });
+  } catch (error) {
+    console.error('Agent approve error:', error);
+    res.status(500).json({ 
+      error: 'Failed to apply agent proposals',
+      message: error.message 
+    });
+  }
+});
+
+/**
+ * @route POST /api/ai/agent/runs/:runId/reject
+ * @desc Reject pending proposals (all, or those listed in proposalIds)
+ * @access Public
+ */
+router.post('/agent/runs/:runId/reject', (req, res) => {
+  try {
+    const { proposalIds } = req.body;
+
+    if (!getAgentRun(req.params.runId)) {
+      return res.status(404).json({ 
+        error: 'Agent run not found' 
+      });
+    }
+
+    const run = rejectAgentProposals(req.params.runId, proposalIds);
+    res.json({
+      success: true,
+      data: run
+    });
+  } catch (error) {
+    console.error('Agent reject error:', error);
+    res.status(500).json({ 
+      error: 'Failed to reject agent proposals',
+      message: error.message 
+    });
+  }
+});
+
+/**
+ * Files an edit request targets: a files array, or a single filePath and content
+ */
+function getEditTargets(files, filePath, content) {
+  if (Array.isArray(files) && files.length > 0) {
+    return files.filter(file => file?.path && typeof file.content === 'string');
+  }
+  return filePath && content ? [{ path: filePath, content }] : [];
+}
+
+// Keep edits to the user's selection in the file it was made in
+function describeEditScope(filePath, selection) {
+  if (!filePath || !selection?.startLine) return '';
+  return `\n\n    In ${filePath}, only change lines ${selection.startLine}-${selection.endLine || selection.startLine} (the user's selection) unless other lines must change with them.`;
+}
+
+function sendEditError(res, error, message) {
+  if (error instanceof StructuredOutputError) {
+    return res.status(422).json({ 
+      error: message,
+      message: error.message,
+      validationErrors: error.errors
+    });
+  }
+
+  res.status(500).json({ 
+    error: message,
+    message: error.message 
+  });
+}
+
 export default router;
\ No newline at end of file
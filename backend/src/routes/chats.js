@@ -0,0 +1,242 @@
+import express from 'express';
+import {
+  createChatSession,
+  listChatSessions,
+  getChatSession,
+  updateChatSession,
+  deleteChatSession,
+  branchChatSession,
+  searchChatSessions,
+  exportChatSession
+} from '../services/chatSessionService.js';
+
+const router = express.Router();
+
+/**
+ * @route POST /api/chats
+ * @desc Start a chat session, optionally with its first messages
+ * @access Public
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { repoPath, title, model, messages } = req.body;
+
+    const session = await createChatSession({ repoPath, title, model, messages });
+    res.json({
+      success: true,
+      data: session
+    });
+  } catch (error) {
+    console.error('Create chat session error:', error);
+    res.status(500).json({
+      error: 'Failed to create chat session',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * @route GET /api/chats
+ * @desc List a repository's chat sessions, most recently updated first (omit repoPath for chats without one)
+ * @access Public
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { repoPath } = req.query;
+
+    const sessions = await listChatSessions(repoPath);
+    res.json({
+      success: true,
+      data: sessions
+    });
+  } catch (error) {
+    console.error('List chat sessions error:', error);
+    res.status(500).json({
+      error: 'Failed to list chat sessions',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * @route GET /api/chats/search
+ * @desc Search the titles and messages of a repository's chat sessions
+ * @access Public
+ */
+router.get('/search', async (req, res) => {
+  try {
+    const { repoPath, query } = req.query;
+
+    if (!query) {
+      return res.status(400).json({
+        error: 'Search query is required'
+      });
+    }
+
+    const results = await searchChatSessions(repoPath, query);
+    res.json({
+      success: true,
+      data: results
+    });
+  } catch (error) {
+    console.error('Search chat sessions error:', error);
+    res.status(500).json({
+      error: 'Failed to search chat sessions',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * @route GET /api/chats/:sessionId
+ * @desc Get a chat session with its messages
+ * @access Public
+ */
+router.get('/:sessionId', async (req, res) => {
+  try {
+    const session = await getChatSession(req.params.sessionId);
+
+    if (!session) {
+      return res.status(404).json({
+        error: 'Chat session not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: session
+    });
+  } catch (error) {
+    console.error('Get chat session error:', error);
+    res.status(500).json({
+      error: 'Failed to get chat session',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * @route PUT /api/chats/:sessionId
+ * @desc Rename a chat session, change its model or replace its messages
+ * @access Public
+ */
+router.put('/:sessionId', async (req, res) => {
+  try {
+    const { title, model, messages } = req.body;
+
+    if (!await getChatSession(req.params.sessionId)) {
+      return res.status(404).json({
+        error: 'Chat session not found'
+      });
+    }
+
+    const session = await updateChatSession(req.params.sessionId, { title, model, messages });
+    res.json({
+      success: true,
+      data: session
+    });
+  } catch (error) {
+    console.error('Update chat session error:', error);
+    res.status(500).json({
+      error: 'Failed to update chat session',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * @route DELETE /api/chats/:sessionId
+ * @desc Delete a chat session
+ * @access Public
+ */
+router.delete('/:sessionId', async (req, res) => {
+  try {
+    if (!await deleteChatSession(req.params.sessionId)) {
+      return res.status(404).json({
+        error: 'Chat session not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Chat session deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete chat session error:', error);
+    res.status(500).json({
+      error: 'Failed to delete chat session',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * @route POST /api/chats/:sessionId/branch
+ * @desc Edit a past user message in a new session that keeps the conversation before it
+ * @access Public
+ */
+router.post('/:sessionId/branch', async (req, res) => {
+  try {
+    const { messageId, content } = req.body;
+
+    if (!messageId || !content?.trim()) {
+      return res.status(400).json({
+        error: 'Message id and content are required'
+      });
+    }
+
+    if (!await getChatSession(req.params.sessionId)) {
+      return res.status(404).json({
+        error: 'Chat session not found'
+      });
+    }
+
+    const session = await branchChatSession(req.params.sessionId, messageId, content);
+    res.json({
+      success: true,
+      data: session
+    });
+  } catch (error) {
+    console.error('Branch chat session error:', error);
+    res.status(500).json({
+      error: 'Failed to branch chat session',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * @route GET /api/chats/:sessionId/export
+ * @desc Download a chat session as Markdown (format=markdown, default) or JSON (format=json)
+ * @access Public
+ */
+router.get('/:sessionId/export', async (req, res) => {
+  try {
+    const { format = 'markdown' } = req.query;
+
+    if (!['markdown', 'json'].includes(format)) {
+      return res.status(400).json({
+        error: 'Format must be markdown or json'
+      });
+    }
+
+    if (!await getChatSession(req.params.sessionId)) {
+      return res.status(404).json({
+        error: 'Chat session not found'
+      });
+    }
+
+    const { filename, contentType, content } = await exportChatSession(req.params.sessionId, format);
+    res.attachment(filename);
+    res.type(contentType);
+    res.send(content);
+  } catch (error) {
+    console.error('Export chat session error:', error);
+    res.status(500).json({
+      error: 'Failed to export chat session',
+      message: error.message
+    });
+  }
+});
+
+export default router;
@@ -1,5 +1,6 @@
 import express from 'express';
-import { searchFiles, getFileStats, createFile, deleteFile, moveFile } from '../services/fileService.js';
+import { searchFiles, getFileStats, compareFile, createFile, deleteFile, moveFile } from '../services/fileService.js';
+import { searchMentions, resolveMention } from '../services/mentionService.js';
 
 const router = express.Router();
 
@@ -32,6 +33,93 @@ router.get('/search', async (req, res) => {
   }
 });
 
+/**
+ * @route GET /api/files/mentions
+ * @desc Autocomplete @file, @folder and @symbol mentions
+ * @access Public
+ */
+router.get('/mentions', async (req, res) => {
+  try {
+    const { repoPath, query = '', type, limit = 20 } = req.query;
+    
+    if (!repoPath) {
+      return res.status(400).json({ 
+        error: 'Repository path is required' 
+      });
+    }
+
+    const results = await searchMentions(repoPath, query, { type, limit: parseInt(limit) });
+    res.json({
+      success: true,
+      data: results
+    });
+  } catch (error) {
+    console.error('Mention search error:', error);
+    res.status(500).json({ 
+      error: 'Failed to search mentions',
+      message: error.message 
+    });
+  }
+});
+
+/**
+ * @route POST /api/files/mentions/resolve
+ * @desc Get the content a mention refers to, as files to attach to a chat request
+ * @access Public
+ */
+router.post('/mentions/resolve', async (req, res) => {
+  try {
+    const { repoPath, mention } = req.body;
+    
+    if (!repoPath || !mention?.type || !mention?.path) {
+      return res.status(400).json({ 
+        error: 'Repository path and mention are required' 
+      });
+    }
+
+    const result = await resolveMention(repoPath, mention);
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Resolve mention error:', error);
+    res.status(500).json({ 
+      error: 'Failed to resolve mention',
+      message: error.message 
+    });
+  }
+});
+
+/**
+ * @route POST /api/files/compare
+ * @desc Diff proposed content, such as a chat code block, against a file
+ * @access Public
+ */
+router.post('/compare', async (req, res) => {
+  try {
+    const { repoPath, filePath, content } = req.body;
+    
+    if (!repoPath || !filePath || typeof content !== 'string') {
+      return res.status(400).json({ 
+        error: 'Repository path, file path and content are required' 
+      });
+    }
+
+    const result = await compareFile(repoPath, filePath, content);
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Compare file error:', error);
+    res.status(500).json({ 
+      error: 'Failed to compare file',
+      message: error.message 
+    });
+  }
+});
+
 /**
  * @route GET /api/files/stats
  * @desc Get file statistics
@@ -68,7 +156,7 @@ router.get('/stats', async (req, res) => {
  */
 router.post('/create', async (req, res) => {
   try {
-    const { repoPath, filePath, content = '', token } = req.body;
+    const { repoPath, filePath, content = '', token, sessionId } = req.body;
     
     if (!repoPath || !filePath) {
       return res.status(400).json({ 
@@ -76,7 +164,7 @@ router.post('/create', async (req, res) => {
       });
     }
 
-    const result = await createFile(repoPath, filePath, content, token);
+    const result = await createFile(repoPath, filePath, content, token, { sessionId });
     res.json({
       success: true,
       message: 'File created successfully',
@@ -98,7 +186,7 @@ router.post('/create', async (req, res) => {
  */
 router.delete('/delete', async (req, res) => {
   try {
-    const { repoPath, filePath, token } = req.body;
+    const { repoPath, filePath, token, sessionId } = req.body;
     
     if (!repoPath || !filePath) {
       return res.status(400).json({ 
@@ -106,7 +194,7 @@ router.delete('/delete', async (req, res) => {
       });
     }
 
-    const result = await deleteFile(repoPath, filePath, token);
+    const result = await deleteFile(repoPath, filePath, token, { sessionId });
     res.json({
       success: true,
       message: 'File deleted successfully',
@@ -128,7 +216,7 @@ router.delete('/delete', async (req, res) => {
  */
 router.put('/move', async (req, res) => {
   try {
-    const { repoPath, oldPath, newPath, token } = req.body;
+    const { repoPath, oldPath, newPath, token, sessionId } = req.body;
     
     if (!repoPath || !oldPath || !newPath) {
       return res.status(400).json({ 
@@ -136,7 +224,7 @@ router.put('/move', async (req, res) => {
       });
     }
 
-    const result = await moveFile(repoPath, oldPath, newPath, token);
+    const result = await moveFile(repoPath, oldPath, newPath, token, { sessionId });
     res.json({
       success: true,
       message: 'File moved successfully',
@@ -1,5 +1,5 @@
 import express from 'express';
-import { processAIRequest } from '../services/aiService.js';
+import { generateStructured, StructuredOutputError } from '../services/structuredOutput.js';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import fs from 'fs-extra';
@@ -33,29 +33,26 @@ Generate:
 4. Admin access controls
 5. User-specific document access patterns
 
-Return the rules in a clean, well-commented format.`;
+Return the complete Firestore rules and Storage rules, each clean and well-commented, with a short explanation of the design.`;
 
-    const response = await processAIRequest({
+    const { data: rules } = await generateStructured({
+      feature: 'firebase',
+      route: req.originalUrl,
       model: 'gemini-2.0-pro',
+      useCase: 'coding',
       prompt: aiPrompt,
       maxTokens: 2000
-    });
-
-    // Extract rules from AI response
-    const rules = extractRulesFromResponse(response.content);
+    }, SECURITY_RULES_SCHEMA, { name: 'security rules' });
 
     res.json({
       success: true,
       rules: rules.firestore,
       storageRules: rules.storage,
-      explanation: response.content
+      explanation: rules.explanation
     });
   } catch (error) {
     console.error('Error generating rules:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to generate rules'
-    });
+    sendGenerationError(res, error, 'Failed to generate rules');
   }
 });
 
@@ -84,26 +81,24 @@ For each test, provide:
 - Expected result (allow/deny)
 - Reasoning
 
-Return tests in JSON format.`;
+Return the tests as JSON.`;
 
-    const response = await processAIRequest({
+    const { data } = await generateStructured({
+      feature: 'firebase',
+      route: req.originalUrl,
       model: 'gemini-2.0-pro',
+      useCase: 'coding',
       prompt: aiPrompt,
       maxTokens: 1500
-    });
-
-    const tests = extractTestsFromResponse(response.content);
+    }, RULES_TESTS_SCHEMA, { name: 'rules tests' });
 
     res.json({
       success: true,
-      tests
+      tests: data.tests
     });
   } catch (error) {
     console.error('Error generating tests:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to generate tests'
-    });
+    sendGenerationError(res, error, 'Failed to generate tests');
   }
 });
 
@@ -202,24 +197,22 @@ Provide 3-5 specific suggestions for:
 
 Make suggestions actionable and specific.`;
 
-    const response = await processAIRequest({
+    const { data } = await generateStructured({
+      feature: 'firebase',
+      route: req.originalUrl,
       model: 'gemini-2.0-pro',
+      useCase: 'coding',
       prompt: aiPrompt,
       maxTokens: 1000
-    });
-
-    const suggestions = extractSuggestionsFromResponse(response.content);
+    }, SUGGESTIONS_SCHEMA, { name: 'suggestions' });
 
     res.json({
       success: true,
-      suggestions
+      suggestions: data.suggestions
     });
   } catch (error) {
     console.error('Error getting AI suggestions:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to get AI suggestions'
-    });
+    sendGenerationError(res, error, 'Failed to get AI suggestions');
   }
 });
 
@@ -315,13 +308,16 @@ ${prompt}
 Generate comprehensive implementation including code, tests, and documentation.`;
     }
 
-    const response = await processAIRequest({
+    const { data: result } = await generateStructured({
+      feature: 'firebase',
+      route: req.originalUrl,
       model: 'gemini-2.0-pro',
-      prompt: aiPrompt,
-      maxTokens
-    });
+      useCase: 'coding',
+      prompt: `${aiPrompt}
 
-    const result = extractGeneratedContent(response.content, category);
+Put all generated code in "code", the tests in "tests", the monthly cost estimate in "costEstimate" and the risk assessment in "riskAssessment".`,
+      maxTokens
+    }, GENERATED_CONTENT_SCHEMA, { name: `${category || 'Firebase'} generation` });
 
     res.json({
       success: true,
@@ -329,10 +325,7 @@ Generate comprehensive implementation including code, tests, and documentation.`
     });
   } catch (error) {
     console.error('Error generating with AI:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to generate with AI'
-    });
+    sendGenerationError(res, error, 'Failed to generate with AI');
   }
 });
 
@@ -404,88 +397,90 @@ router.post('/create-ai-pr', async (req, res) => {
   }
 });
 
-// Helper functions
-function extractRulesFromResponse(content) {
-  // Extract Firestore and Storage rules from AI response
-  const firestoreMatch = content.match(/rules_version = '2'[\s\S]*?service cloud\.firestore[\s\S]*?}/);
-  const storageMatch = content.match(/rules_version = '2'[\s\S]*?service firebase\.storage[\s\S]*?}/);
-
-  return {
-    firestore: firestoreMatch ? firestoreMatch[0] : '// No Firestore rules found',
-    storage: storageMatch ? storageMatch[0] : '// No Storage rules found'
-  };
-}
-
-function extractTestsFromResponse(content) {
-  try {
-    // Try to extract JSON from response
-    const jsonMatch = content.match(/\[[\s\S]*\]/);
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[0]);
-    }
-  } catch (error) {
-    console.error('Error parsing tests JSON:', error);
+// Response schemas
+const SECURITY_RULES_SCHEMA = {
+  type: 'object',
+  required: ['firestore', 'storage', 'explanation'],
+  properties: {
+    firestore: { type: 'string', pattern: 'service\\s+cloud\\.firestore' },
+    storage: { type: 'string', pattern: 'service\\s+firebase\\.storage' },
+    explanation: { type: 'string' }
   }
-
-  // Fallback to default tests
-  return [
-    {
-      id: '1',
-      name: 'Authenticated User Read',
-      description: 'Test if authenticated users can read their own documents',
-      request: {
-        method: 'get',
-        path: '/users/{uid}/profile',
-        auth: { uid: 'user123', email: 'user@example.com' }
-      },
-      expected: { allow: true }
+};
+
+const RULES_TESTS_SCHEMA = {
+  type: 'object',
+  required: ['tests'],
+  properties: {
+    tests: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['id', 'name', 'description', 'request', 'expected'],
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          description: { type: 'string' },
+          request: {
+            type: 'object',
+            required: ['method', 'path', 'auth'],
+            properties: {
+              method: { type: 'string', enum: ['get', 'list', 'create', 'update', 'delete'] },
+              path: { type: 'string' },
+              auth: { type: ['object', 'null'] },
+              data: { type: ['object', 'null'] }
+            }
+          },
+          expected: {
+            type: 'object',
+            required: ['allow'],
+            properties: {
+              allow: { type: 'boolean' },
+              reason: { type: 'string' }
+            }
+          }
+        }
+      }
     }
-  ];
-}
-
-function extractSuggestionsFromResponse(content) {
-  // Extract suggestions from AI response
-  const suggestions = content.split('\n')
-    .filter(line => line.trim().startsWith('-') || line.trim().startsWith('•'))
-    .map(line => line.replace(/^[-•]\s*/, '').trim())
-    .filter(line => line.length > 0);
-
-  return suggestions.length > 0 ? suggestions : [
-    'Implement user-based security rules',
-    'Add rate limiting to prevent abuse',
-    'Set up proper data validation',
-    'Configure indexes for better performance'
-  ];
-}
-
-function extractGeneratedContent(content, category) {
-  // Extract different types of content based on category
-  const result = {
-    code: content,
-    tests: '',
-    costEstimate: '$5-10/month',
-    riskAssessment: 'Low risk - standard implementation'
-  };
-
-  // Extract code blocks
-  const codeBlocks = content.match(/```[\s\S]*?```/g);
-  if (codeBlocks) {
-    result.code = codeBlocks.map(block => block.replace(/```/g, '')).join('\n\n');
   }
+};
 
-  // Extract test sections
-  const testMatch = content.match(/Tests?:[\s\S]*?(?=\n\n|$)/i);
-  if (testMatch) {
-    result.tests = testMatch[0];
+const SUGGESTIONS_SCHEMA = {
+  type: 'object',
+  required: ['suggestions'],
+  properties: {
+    suggestions: { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } }
   }
+};
+
+const GENERATED_CONTENT_SCHEMA = {
+  type: 'object',
+  required: ['code', 'tests', 'costEstimate', 'riskAssessment'],
+  properties: {
+    code: { type: 'string', minLength: 1 },
+    tests: { type: 'string' },
+    costEstimate: { type: 'string' },
+    riskAssessment: { type: 'string' }
+  }
+};
 
-  // Extract cost estimates
-  const costMatch = content.match(/\$[\d,]+-\$[\d,]+/);
-  if (costMatch) {
-    result.costEstimate = costMatch[0];
+// Helper functions
+function sendGenerationError(res, error, message) {
+  if (error instanceof StructuredOutputError) {
+    return res.status(422).json({
+      success: false,
+      error: message,
+      message: error.message,
+      validationErrors: error.errors
+    });
   }
 
-  return result;
+  res.status(500).json({
+    success: false,
+    error: message,
+    message: error.message
+  });
 }
 
 export default router;
\ No newline at end of file
@@ -1,5 +1,31 @@
 import express from 'express';
-import { importRepository, commitChanges, getBranches, getFiles, getFileContent, updateFile } from '../services/gitService.js';
+import {
+  importRepository,
+  commitChanges,
+  pushChanges,
+  stageChanges,
+  unstageChanges,
+  pullChanges,
+  getBranches,
+  listRepoBranches,
+  createBranch,
+  checkoutBranch,
+  renameBranch,
+  deleteBranch,
+  compareBranches,
+  getFiles,
+  getFileContent,
+  updateFile,
+  getRepoStatus,
+  getDiff,
+  getLog,
+  deepenHistory,
+  getBlame,
+  showCommit,
+  GitPullError,
+  GitBranchError
+} from '../services/gitService.js';
+import { buildIndex } from '../services/indexService.js';
 import { validateGitHubToken } from '../middleware/auth.js';
 
 const router = express.Router();
@@ -18,6 +44,10 @@ router.post('/import', async (req, res) => {
     }
 
     const result = await importRepository(repoUrl, token, branch);
+
+    // Index in the background so the first AI request can retrieve code
+    buildIndex(result.path).catch(error => console.warn('Background indexing failed:', error.message));
+
     res.json({
       success: true,
       message: 'Repository imported successfully',
@@ -39,7 +69,7 @@ router.post('/import', async (req, res) => {
  */
 router.post('/commit', async (req, res) => {
   try {
-    const { repoPath, message, files, token } = req.body;
+    const { repoPath, message, files, token, push = true } = req.body;
     
     if (!repoPath || !message || !files) {
       return res.status(400).json({ 
@@ -47,10 +77,10 @@ router.post('/commit', async (req, res) => {
       });
     }
 
-    const result = await commitChanges(repoPath, message, files, token);
+    const result = await commitChanges(repoPath, message, files, token, { push: push !== false });
     res.json({
       success: true,
-      message: 'Changes committed successfully',
+      message: result.pushed ? 'Changes committed and pushed successfully' : 'Changes committed successfully',
       data: result
     });
   } catch (error) {
@@ -62,6 +92,88 @@ router.post('/commit', async (req, res) => {
   }
 });
 
+/**
+ * @route POST /api/repos/push
+ * @desc Push the current branch to origin
+ * @access Public
+ */
+router.post('/push', async (req, res) => {
+  try {
+    const { repoPath, token } = req.body;
+
+    if (!repoPath) {
+      return res.status(400).json({ error: 'Repository path is required' });
+    }
+
+    const result = await pushChanges(repoPath, token);
+    res.json({
+      success: true,
+      message: 'Changes pushed successfully',
+      data: result
+    });
+  } catch (error) {
+    console.error('Push changes error:', error);
+    res.status(500).json({
+      error: 'Failed to push changes',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * @route POST /api/repos/stage
+ * @desc Stage files, or single hunks of them (hunk ids from the index-to-workdir diff)
+ * @access Public
+ */
+router.post('/stage', async (req, res) => {
+  try {
+    const { repoPath, files } = req.body;
+
+    if (!repoPath || !Array.isArray(files) || files.length === 0) {
+      return res.status(400).json({ error: 'Repository path and files are required' });
+    }
+
+    const staged = await stageChanges(repoPath, files);
+    res.json({
+      success: true,
+      data: staged
+    });
+  } catch (error) {
+    console.error('Stage changes error:', error);
+    res.status(500).json({
+      error: 'Failed to stage changes',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * @route POST /api/repos/unstage
+ * @desc Unstage files, or single hunks of them (hunk ids from the HEAD-to-index diff)
+ * @access Public
+ */
+router.post('/unstage', async (req, res) => {
+  try {
+    const { repoPath, files } = req.body;
+
+    if (!repoPath || !Array.isArray(files) || files.length === 0) {
+      return res.status(400).json({ error: 'Repository path and files are required' });
+    }
+
+    const unstaged = await unstageChanges(repoPath, files);
+    res.json({
+      success: true,
+      data: unstaged
+    });
+  } catch (error) {
+    console.error('Unstage changes error:', error);
+    res.status(500).json({
+      error: 'Failed to unstage changes',
+      message: error.message
+    });
+  }
+});
+
 /**
  * @route GET /api/repos/branches
  * @desc Get repository branches
@@ -89,6 +201,160 @@ router.get('/branches', async (req, res) => {
   }
 });
 
+/**
+ * @route GET /api/repos/branches/list
+ * @desc List local branches (with upstream and ahead/behind counts) and origin branches; fetch=true fetches origin first
+ * @access Public
+ */
+router.get('/branches/list', async (req, res) => {
+  try {
+    const { repoPath, token, fetch } = req.query;
+
+    if (!repoPath) {
+      return res.status(400).json({ error: 'Repository path is required' });
+    }
+
+    const branches = await listRepoBranches(repoPath, token, { fetch: fetch === 'true' });
+    res.json({
+      success: true,
+      data: branches
+    });
+  } catch (error) {
+    console.error('List branches error:', error);
+    res.status(500).json({
+      error: 'Failed to list branches',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * @route POST /api/repos/branches/create
+ * @desc Create a branch from any ref or commit (default HEAD), optionally checking it out
+ * @access Public
+ */
+router.post('/branches/create', async (req, res) => {
+  try {
+    const { repoPath, name, from, checkout } = req.body;
+
+    if (!repoPath || !name) {
+      return res.status(400).json({ error: 'Repository path and branch name are required' });
+    }
+
+    const result = await createBranch(repoPath, name, { from, checkout: Boolean(checkout) });
+    res.json({
+      success: true,
+      message: `Branch ${name} created`,
+      data: result
+    });
+  } catch (error) {
+    console.error('Create branch error:', error);
+    sendBranchError(res, error, 'Failed to create branch');
+  }
+});
+
+/**
+ * @route POST /api/repos/branches/checkout
+ * @desc Check out a local or origin branch; refuses with 409 when local changes would be overwritten unless force is true, which discards changes to those files only
+ * @access Public
+ */
+router.post('/branches/checkout', async (req, res) => {
+  try {
+    const { repoPath, name, force } = req.body;
+
+    if (!repoPath || !name) {
+      return res.status(400).json({ error: 'Repository path and branch name are required' });
+    }
+
+    const result = await checkoutBranch(repoPath, name, { force: Boolean(force) });
+    res.json({
+      success: true,
+      message: `Switched to ${name}`,
+      data: result
+    });
+  } catch (error) {
+    console.error('Checkout branch error:', error);
+    sendBranchError(res, error, 'Failed to check out branch');
+  }
+});
+
+/**
+ * @route PUT /api/repos/branches/rename
+ * @desc Rename a local branch
+ * @access Public
+ */
+router.put('/branches/rename', async (req, res) => {
+  try {
+    const { repoPath, name, newName } = req.body;
+
+    if (!repoPath || !name || !newName) {
+      return res.status(400).json({ error: 'Repository path, branch name and new name are required' });
+    }
+
+    const result = await renameBranch(repoPath, name, newName);
+    res.json({
+      success: true,
+      message: `Branch ${name} renamed to ${newName}`,
+      data: result
+    });
+  } catch (error) {
+    console.error('Rename branch error:', error);
+    sendBranchError(res, error, 'Failed to rename branch');
+  }
+});
+
+/**
+ * @route DELETE /api/repos/branches/delete
+ * @desc Delete a local branch (force to delete one that is not merged) or, with remote=true, the branch on origin
+ * @access Public
+ */
+router.delete('/branches/delete', async (req, res) => {
+  try {
+    const { repoPath, name, remote, force, token } = req.body;
+
+    if (!repoPath || !name) {
+      return res.status(400).json({ error: 'Repository path and branch name are required' });
+    }
+
+    const result = await deleteBranch(repoPath, name, { remote: Boolean(remote), force: Boolean(force), token });
+    res.json({
+      success: true,
+      message: remote ? `Branch ${name} deleted on origin` : `Branch ${name} deleted`,
+      data: result
+    });
+  } catch (error) {
+    console.error('Delete branch error:', error);
+    sendBranchError(res, error, 'Failed to delete branch');
+  }
+});
+
+/**
+ * @route GET /api/repos/branches/compare
+ * @desc Compare two refs: ahead/behind counts, the commits each lacks and the files that differ
+ * @access Public
+ */
+router.get('/branches/compare', async (req, res) => {
+  try {
+    const { repoPath, base, head } = req.query;
+
+    if (!repoPath || !base || !head) {
+      return res.status(400).json({ error: 'Repository path, base and head are required' });
+    }
+
+    const result = await compareBranches(repoPath, base, head);
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Compare branches error:', error);
+    res.status(500).json({
+      error: 'Failed to compare branches',
+      message: error.message
+    });
+  }
+});
+
 /**
  * @route GET /api/repos/files
  * @desc Get repository file tree
@@ -116,6 +382,179 @@ router.get('/files', async (req, res) => {
   }
 });
 
+/**
+ * @route GET /api/repos/status
+ * @desc Get the current branch and changed files, with staged and unstaged changes reported separately
+ * @access Public
+ */
+router.get('/status', async (req, res) => {
+  try {
+    const { repoPath } = req.query;
+
+    if (!repoPath) {
+      return res.status(400).json({ error: 'Repository path is required' });
+    }
+
+    const status = await getRepoStatus(repoPath);
+    res.json({
+      success: true,
+      data: status
+    });
+  } catch (error) {
+    console.error('Get repo status error:', error);
+    res.status(500).json({
+      error: 'Failed to get repository status',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * @route GET /api/repos/diff
+ * @desc Diff two sides (a ref or commit, 'index' or 'workdir'; default HEAD to workdir) for the whole tree or one path, as hunks and unified diffs
+ * @access Public
+ */
+router.get('/diff', async (req, res) => {
+  try {
+    const { repoPath, from, to, filePath, includeContent } = req.query;
+
+    if (!repoPath) {
+      return res.status(400).json({ error: 'Repository path is required' });
+    }
+
+    const diff = await getDiff(repoPath, { from, to, filePath, includeContent: includeContent === 'true' });
+    res.json({
+      success: true,
+      data: diff
+    });
+  } catch (error) {
+    console.error('Get diff error:', error);
+    res.status(500).json({
+      error: 'Failed to get diff',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * @route GET /api/repos/log
+ * @desc Get a page of commit history, optionally for one path or between two refs (since..ref)
+ * @access Public
+ */
+router.get('/log', async (req, res) => {
+  try {
+    const { repoPath, ref, since, filePath, skip = 0, limit = 50 } = req.query;
+
+    if (!repoPath) {
+      return res.status(400).json({ error: 'Repository path is required' });
+    }
+
+    const log = await getLog(repoPath, {
+      ref,
+      since,
+      filePath,
+      skip: Math.max(0, parseInt(skip, 10) || 0),
+      limit: Math.min(200, Math.max(1, parseInt(limit, 10) || 50))
+    });
+    res.json({
+      success: true,
+      data: log
+    });
+  } catch (error) {
+    console.error('Get log error:', error);
+    res.status(500).json({
+      error: 'Failed to get log',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * @route POST /api/repos/log/deepen
+ * @desc Fetch older commits of the current branch into a shallow clone
+ * @access Public
+ */
+router.post('/log/deepen', async (req, res) => {
+  try {
+    const { repoPath, token, depth = 100 } = req.body;
+
+    if (!repoPath) {
+      return res.status(400).json({ error: 'Repository path is required' });
+    }
+
+    const result = await deepenHistory(repoPath, token, Math.max(1, parseInt(depth, 10) || 100));
+    res.json({
+      success: true,
+      message: result.shallow ? 'Fetched older history' : 'Fetched the full history',
+      data: result
+    });
+  } catch (error) {
+    console.error('Deepen history error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch history',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * @route GET /api/repos/blame
+ * @desc Get the commit that last changed each line of a file (ref defaults to the working tree)
+ * @access Public
+ */
+router.get('/blame', async (req, res) => {
+  try {
+    const { repoPath, filePath, ref } = req.query;
+
+    if (!repoPath || !filePath) {
+      return res.status(400).json({
+        error: 'Repository path and file path are required'
+      });
+    }
+
+    const blame = await getBlame(repoPath, filePath, { ref });
+    res.json({
+      success: true,
+      data: blame
+    });
+  } catch (error) {
+    console.error('Get blame error:', error);
+    res.status(500).json({
+      error: 'Failed to get blame',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * @route GET /api/repos/show
+ * @desc Get a commit and its full diff against its first parent
+ * @access Public
+ */
+router.get('/show', async (req, res) => {
+  try {
+    const { repoPath, ref, filePath, includeContent } = req.query;
+
+    if (!repoPath || !ref) {
+      return res.status(400).json({
+        error: 'Repository path and commit are required'
+      });
+    }
+
+    const result = await showCommit(repoPath, ref, { filePath, includeContent: includeContent === 'true' });
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Show commit error:', error);
+    res.status(500).json({
+      error: 'Failed to show commit',
+      message: error.message
+    });
+  }
+});
+
 /**
  * @route GET /api/repos/file
  * @desc Get file content
@@ -152,7 +591,7 @@ router.get('/file', async (req, res) => {
  */
 router.put('/file', async (req, res) => {
   try {
-    const { repoPath, filePath, content, token } = req.body;
+    const { repoPath, filePath, content, token, sessionId } = req.body;
     
     if (!repoPath || !filePath || content === undefined) {
       return res.status(400).json({ 
@@ -160,7 +599,7 @@ router.put('/file', async (req, res) => {
       });
     }
 
-    const result = await updateFile(repoPath, filePath, content, token);
+    const result = await updateFile(repoPath, filePath, content, token, { sessionId });
     res.json({
       success: true,
       message: 'File updated successfully',
@@ -177,25 +616,41 @@ router.put('/file', async (req, res) => {
 
 /**
  * @route POST /api/repos/pull
- * @desc Pull latest changes from remote
+ * @desc Pull the current branch from origin (strategy: ff-only, merge (default) or rebase) and report incoming commits, changed files and conflicts
  * @access Public
  */
 router.post('/pull', async (req, res) => {
   try {
-    const { repoPath, token } = req.body;
+    const { repoPath, token, strategy = 'merge' } = req.body;
     
     if (!repoPath) {
       return res.status(400).json({ error: 'Repository path is required' });
     }
 
-    // This would be implemented in gitService.js
-    // const result = await pullChanges(repoPath, token);
+    if (!['ff-only', 'merge', 'rebase'].includes(strategy)) {
+      return res.status(400).json({ error: 'Strategy must be ff-only, merge or rebase' });
+    }
+
+    const result = await pullChanges(repoPath, token, { strategy });
     res.json({
       success: true,
-      message: 'Repository pulled successfully'
+      message: result.status === 'conflicts'
+        ? `Pulled with ${result.conflicts.length} conflict(s) to resolve`
+        : 'Repository pulled successfully',
+      data: result
     });
   } catch (error) {
     console.error('Pull changes error:', error);
+
+    if (error instanceof GitPullError) {
+      return res.status(409).json({
+        error: 'Cannot pull',
+        message: error.message,
+        reason: error.reason,
+        files: error.files
+      });
+    }
+
     res.status(500).json({ 
       error: 'Failed to pull changes',
       message: error.message 
@@ -203,4 +658,23 @@ router.post('/pull', async (req, res) => {
   }
 });
 
+/**
+ * Refused branch operations are 404 when the branch is missing and 409 otherwise
+ */
+function sendBranchError(res, error, fallback) {
+  if (error instanceof GitBranchError) {
+    return res.status(error.reason === 'not-found' ? 404 : 409).json({
+      error: fallback,
+      message: error.message,
+      reason: error.reason,
+      files: error.files
+    });
+  }
+
+  res.status(500).json({
+    error: fallback,
+    message: error.message
+  });
+}
+
 export default router;
\ No newline at end of file
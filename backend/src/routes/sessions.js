@@ -0,0 +1,137 @@
+import express from 'express';
+import {
+  createEditSession,
+  listEditSessions,
+  getEditSession,
+  revertEditSession,
+  EditSessionConflictError
+} from '../services/editSessionService.js';
+
+const router = express.Router();
+
+/**
+ * @route POST /api/sessions
+ * @desc Start an edit session; pass its id as sessionId to file writes to record them
+ * @access Public
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { repoPath, title, source } = req.body;
+
+    if (!repoPath) {
+      return res.status(400).json({
+        error: 'Repository path is required'
+      });
+    }
+
+    const session = await createEditSession({ repoPath, title, source });
+    res.json({
+      success: true,
+      data: session
+    });
+  } catch (error) {
+    console.error('Create edit session error:', error);
+    res.status(500).json({
+      error: 'Failed to create edit session',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * @route GET /api/sessions
+ * @desc List a repository's edit sessions, newest first
+ * @access Public
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { repoPath } = req.query;
+
+    if (!repoPath) {
+      return res.status(400).json({
+        error: 'Repository path is required'
+      });
+    }
+
+    const sessions = await listEditSessions(repoPath);
+    res.json({
+      success: true,
+      data: sessions
+    });
+  } catch (error) {
+    console.error('List edit sessions error:', error);
+    res.status(500).json({
+      error: 'Failed to list edit sessions',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * @route GET /api/sessions/:sessionId
+ * @desc Get an edit session with its changes and combined diff
+ * @access Public
+ */
+router.get('/:sessionId', async (req, res) => {
+  try {
+    const session = await getEditSession(req.params.sessionId);
+
+    if (!session) {
+      return res.status(404).json({
+        error: 'Edit session not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: session
+    });
+  } catch (error) {
+    console.error('Get edit session error:', error);
+    res.status(500).json({
+      error: 'Failed to get edit session',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * @route POST /api/sessions/:sessionId/revert
+ * @desc Revert every change of an edit session at once (409 with conflicts if files changed since, unless force is set)
+ * @access Public
+ */
+router.post('/:sessionId/revert', async (req, res) => {
+  try {
+    const { force = false } = req.body;
+
+    if (!await getEditSession(req.params.sessionId)) {
+      return res.status(404).json({
+        error: 'Edit session not found'
+      });
+    }
+
+    const result = await revertEditSession(req.params.sessionId, { force });
+    res.json({
+      success: true,
+      message: 'Edit session reverted successfully',
+      data: result
+    });
+  } catch (error) {
+    console.error('Revert edit session error:', error);
+
+    if (error instanceof EditSessionConflictError) {
+      return res.status(409).json({
+        error: 'Files changed after this session',
+        message: error.message,
+        conflicts: error.conflicts
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to revert edit session',
+      message: error.message
+    });
+  }
+});
+
+export default router;
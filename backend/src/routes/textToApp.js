@@ -1,5 +1,5 @@
 import express from 'express';
-import { processAIRequest } from '../services/aiService.js';
+import { generateStructured, StructuredOutputError } from '../services/structuredOutput.js';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import fs from 'fs-extra';
@@ -52,25 +52,22 @@ Return the plan in JSON format with this structure:
   "estimatedTime": "2-3 hours"
 }`;
 
-    const response = await processAIRequest({
+    const { data: plan } = await generateStructured({
+      feature: 'text-to-app',
+      route: req.originalUrl,
       model: 'gemini-2.0-pro',
+      useCase: 'coding',
       prompt: aiPrompt,
       maxTokens: 3000
-    });
-
-    // Extract JSON from AI response
-    const plan = extractPlanFromResponse(response.content);
+    }, APP_PLAN_SCHEMA, { name: 'app plan' });
 
     res.json({
       success: true,
-      plan
+      plan: { ...plan, id: plan.id || uuidv4() }
     });
   } catch (error) {
     console.error('Error generating app plan:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to generate app plan'
-    });
+    sendGenerationError(res, error, 'Failed to generate app plan');
   }
 });
 
@@ -119,14 +116,14 @@ Make sure the code is:
 
 Return the files as a JSON object with file paths as keys and content as values.`;
 
-    const response = await processAIRequest({
+    const { data: files } = await generateStructured({
+      feature: 'text-to-app',
+      route: req.originalUrl,
       model: 'gemini-2.0-pro',
+      useCase: 'coding',
       prompt: aiPrompt,
       maxTokens: 4000
-    });
-
-    // Extract files from AI response
-    const files = extractFilesFromResponse(response.content);
+    }, APP_FILES_SCHEMA, { name: 'app files' });
 
     res.json({
       success: true,
@@ -134,10 +131,7 @@ Return the files as a JSON object with file paths as keys and content as values.
     });
   } catch (error) {
     console.error('Error generating app:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to generate app'
-    });
+    sendGenerationError(res, error, 'Failed to generate app');
   }
 });
 
@@ -288,89 +282,129 @@ router.get('/templates', async (req, res) => {
   }
 });
 
-// Helper functions
-function extractPlanFromResponse(content) {
-  try {
-    // Try to extract JSON from the response
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[0]);
-    }
-  } catch (error) {
-    console.error('Error parsing plan JSON:', error);
-  }
-
-  // Fallback to default plan
-  return {
-    id: uuidv4(),
-    name: 'Generated App',
-    description: 'AI-generated application',
-    screens: [
-      {
-        id: 'screen1',
-        name: 'Home',
-        description: 'Main application screen',
-        components: ['Header', 'Content', 'Footer'],
-        wireframe: 'Basic layout with navigation'
+// Response schemas
+const stringArray = { type: 'array', items: { type: 'string' } };
+
+const APP_PLAN_SCHEMA = {
+  type: 'object',
+  required: ['name', 'description', 'screens', 'models', 'apis', 'functions', 'dependencies', 'tests', 'costEstimate', 'complexity', 'estimatedTime'],
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string', minLength: 1 },
+    description: { type: 'string' },
+    screens: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['id', 'name', 'description', 'components', 'wireframe'],
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          description: { type: 'string' },
+          components: stringArray,
+          wireframe: { type: 'string' }
+        }
       }
-    ],
-    models: [
-      {
-        id: 'model1',
-        name: 'User',
-        fields: [
-          { name: 'id', type: 'string', required: true, description: 'Unique identifier' },
-          { name: 'email', type: 'string', required: true, description: 'User email' }
-        ],
-        indexes: ['email'],
-        rules: ['users can read own data']
+    },
+    models: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'name', 'fields'],
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          fields: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['name', 'type', 'required', 'description'],
+              properties: {
+                name: { type: 'string' },
+                type: { type: 'string' },
+                required: { type: 'boolean' },
+                description: { type: 'string' }
+              }
+            }
+          },
+          indexes: stringArray,
+          rules: stringArray
+        }
       }
-    ],
-    apis: [
-      {
-        id: 'api1',
-        name: 'getUser',
-        method: 'GET',
-        path: '/api/users/:id',
-        description: 'Get user by ID',
-        auth: true
+    },
+    apis: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'name', 'method', 'path', 'description', 'auth'],
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          method: { type: 'string', enum: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] },
+          path: { type: 'string' },
+          description: { type: 'string' },
+          auth: { type: 'boolean' }
+        }
       }
-    ],
-    functions: [
-      {
-        id: 'func1',
-        name: 'processData',
-        trigger: 'http',
-        description: 'Process user data',
-        runtime: 'nodejs'
+    },
+    functions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'name', 'trigger', 'description', 'runtime'],
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          trigger: { type: 'string' },
+          description: { type: 'string' },
+          runtime: { type: 'string' }
+        }
       }
-    ],
-    dependencies: ['react', 'express', 'typescript'],
-    tests: [
-      {
-        id: 'test1',
-        name: 'User Creation',
-        type: 'unit',
-        description: 'Test user creation functionality'
+    },
+    dependencies: stringArray,
+    tests: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'name', 'type', 'description'],
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          type: { type: 'string', enum: ['unit', 'integration', 'e2e'] },
+          description: { type: 'string' }
+        }
       }
-    ],
-    costEstimate: '$5-10/month',
-    complexity: 'simple',
-    estimatedTime: '2-3 hours'
-  };
-}
+    },
+    costEstimate: { type: 'string' },
+    complexity: { type: 'string', enum: ['simple', 'medium', 'complex'] },
+    estimatedTime: { type: 'string' }
+  }
+};
+
+// File paths mapped to file contents
+const APP_FILES_SCHEMA = {
+  type: 'object',
+  minProperties: 1,
+  additionalProperties: { type: 'string' }
+};
+
+// Helper functions
+function sendGenerationError(res, error, message) {
+  if (error instanceof StructuredOutputError) {
+    return res.status(422).json({
+      success: false,
+      error: message,
+      message: error.message,
+      validationErrors: error.errors
+    });
+  }
 
-function extractFilesFromResponse(content) {
-  // This would parse the AI response and extract individual files
-  // For now, return a mock file structure
-  return {
-    'package.json': '{"name": "generated-app", "version": "1.0.0"}',
-    'src/App.tsx': '// Generated React app component',
-    'src/components/Home.tsx': '// Home screen component',
-    'backend/server.js': '// Express server',
-    'backend/models/User.js': '// User model',
-    'README.md': '# Generated App\n\nThis app was generated by Winky-Coder.'
-  };
+  res.status(500).json({
+    success: false,
+    error: message,
+    message: error.message
+  });
 }
 
 async function runTestsInEmulator(workspacePath, plan) {
@@ -0,0 +1,483 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { getFiles, getFileContent, updateFile } from './gitService.js';
+import { searchFiles, createFile, moveFile } from './fileService.js';
+import { createEditSession } from './editSessionService.js';
+import { processToolRequest } from './aiService.js';
+
+const DEFAULT_MAX_STEPS = 10;
+const MAX_STEPS_LIMIT = 25;
+const MAX_TOOL_OUTPUT_CHARS = 12000;
+const MAX_STORED_RUNS = 50;
+
+// Agent runs kept in memory, keyed by run id (oldest evicted first)
+const runs = new Map();
+
+const SYSTEM_PROMPT = `You are an AI coding agent working inside a git repository.
+Use the provided tools to explore the code before answering. All paths are relative to the repository root.
+Writes (createFile, updateFile, moveFile) are not applied immediately: they are queued as proposals for the user to approve.
+When updating a file, always send its complete new content.
+When you are done, reply with a short summary of what you found or changed, without calling any more tools.`;
+
+/**
+ * Tools exposed to the model. `write` tools become proposals instead of touching disk.
+ */
+const AGENT_TOOLS = [
+  {
+    name: 'getFiles',
+    description: 'List files and directories in a repository directory',
+    write: false,
+    parameters: {
+      type: 'object',
+      properties: {
+        dirPath: { type: 'string', description: 'Directory path, empty for the repository root' }
+      }
+    }
+  },
+  {
+    name: 'getFileContent',
+    description: 'Read the content of a file',
+    write: false,
+    parameters: {
+      type: 'object',
+      properties: {
+        filePath: { type: 'string', description: 'File path' }
+      },
+      required: ['filePath']
+    }
+  },
+  {
+    name: 'searchFiles',
+    description: 'Case-insensitive text search across repository files',
+    write: false,
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Text to search for' },
+        fileTypes: { type: 'array', items: { type: 'string' }, description: 'Optional extensions to limit the search, e.g. ["ts", "js"]' }
+      },
+      required: ['query']
+    }
+  },
+  {
+    name: 'createFile',
+    description: 'Propose creating a new file',
+    write: true,
+    parameters: {
+      type: 'object',
+      properties: {
+        filePath: { type: 'string', description: 'New file path' },
+        content: { type: 'string', description: 'File content' }
+      },
+      required: ['filePath', 'content']
+    }
+  },
+  {
+    name: 'updateFile',
+    description: 'Propose replacing the full content of an existing file',
+    write: true,
+    parameters: {
+      type: 'object',
+      properties: {
+        filePath: { type: 'string', description: 'File path' },
+        content: { type: 'string', description: 'Complete new file content' }
+      },
+      required: ['filePath', 'content']
+    }
+  },
+  {
+    name: 'moveFile',
+    description: 'Propose moving or renaming a file',
+    write: true,
+    parameters: {
+      type: 'object',
+      properties: {
+        oldPath: { type: 'string', description: 'Current file path' },
+        newPath: { type: 'string', description: 'New file path' }
+      },
+      required: ['oldPath', 'newPath']
+    }
+  }
+];
+
+/**
+ * Get the tools available to the agent
+ * @returns {Array} Tool definitions of { name, description, write, parameters }
+ */
+export function getAgentTools() {
+  return AGENT_TOOLS;
+}
+
+/**
+ * Run the agent loop: the model calls tools until it answers or the step limit is reached
+ * @param {Object} params - Run parameters
+ * @param {string} params.repoPath - Repository path
+ * @param {string} params.prompt - Task for the agent
+ * @param {string} params.model - Model identifier (must support tool calling)
+ * @param {Array} params.messages - Earlier conversation turns of { role: 'user' | 'assistant', content }
+ * @param {number} params.maxSteps - Maximum number of model turns
+ * @param {AbortSignal} params.signal - Optional abort signal
+ * @returns {Object} Agent run with transcript and pending proposals
+ */
+export async function runAgent(params) {
+  const { repoPath, prompt, model, messages = [], signal } = params;
+  const maxSteps = Math.min(Math.max(parseInt(params.maxSteps, 10) || DEFAULT_MAX_STEPS, 1), MAX_STEPS_LIMIT);
+
+  const run = {
+    id: `run_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    repoPath,
+    model,
+    prompt,
+    status: 'running',
+    steps: 0,
+    maxSteps,
+    answer: null,
+    error: null,
+    transcript: [],
+    proposals: [],
+    rules: [],
+    usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 },
+    createdAt: new Date().toISOString(),
+    completedAt: null
+  };
+  storeRun(run);
+
+  const conversation = [
+    { role: 'system', content: SYSTEM_PROMPT },
+    ...messages
+      .filter(message => message && ['user', 'assistant'].includes(message.role) && message.content)
+      .map(message => ({ role: message.role, content: String(message.content) })),
+    { role: 'user', content: prompt }
+  ];
+  const tools = AGENT_TOOLS.map(({ write, ...tool }) => tool);
+
+  try {
+    let lastContent = '';
+
+    while (run.steps < maxSteps) {
+      run.steps++;
+
+      const result = await processToolRequest({ model, messages: conversation, tools, signal, repoPath: run.repoPath, route: '/api/ai/agent/run' });
+      addUsage(run.usage, result.usage);
+      addRules(run.rules, result.rules);
+      lastContent = result.content || lastContent;
+
+      if (!result.toolCalls || result.toolCalls.length === 0) {
+        run.answer = result.content;
+        run.status = 'completed';
+        break;
+      }
+
+      conversation.push({ role: 'assistant', content: result.content, toolCalls: result.toolCalls });
+
+      for (const call of result.toolCalls) {
+        const entry = await executeToolCall(run, call);
+        conversation.push({ role: 'tool', toolCallId: call.id, name: call.name, content: entry.output });
+      }
+    }
+
+    if (run.status === 'running') {
+      run.status = 'max_steps';
+      run.answer = lastContent || `Stopped after reaching the limit of ${maxSteps} steps.`;
+    }
+  } catch (error) {
+    console.error(`Agent run ${run.id} error:`, error);
+    run.status = signal?.aborted ? 'aborted' : 'failed';
+    run.error = error.message;
+  }
+
+  run.completedAt = new Date().toISOString();
+  return run;
+}
+
+/**
+ * Get an agent run by id
+ * @param {string} runId - Run id
+ * @returns {Object|null} Agent run
+ */
+export function getAgentRun(runId) {
+  return runs.get(runId) || null;
+}
+
+/**
+ * Apply pending proposals of a run to the workspace, in the order they were proposed.
+ * Each approval is recorded as one edit session so it can be reverted as a whole.
+ * An update whose file changed since it was proposed fails instead of overwriting those edits.
+ * @param {string} runId - Run id
+ * @param {Array} proposalIds - Proposals to apply (all pending when omitted)
+ * @param {string} token - GitHub token
+ * @returns {Object} Updated agent run
+ */
+export async function applyAgentProposals(runId, proposalIds, token) {
+  const run = requireRun(runId);
+  const pending = selectPending(run, proposalIds);
+  if (pending.length === 0) return run;
+
+  const session = await createEditSession({
+    repoPath: run.repoPath,
+    title: run.prompt.slice(0, 120),
+    source: 'agent'
+  });
+  const options = { sessionId: session.id };
+
+  for (const proposal of pending) {
+    try {
+      if (proposal.tool === 'createFile') {
+        await createFile(run.repoPath, proposal.path, proposal.content, token, options);
+      } else if (proposal.tool === 'updateFile') {
+        await requireUnchanged(run.repoPath, proposal);
+        await updateFile(run.repoPath, proposal.path, proposal.content, token, options);
+      } else if (proposal.tool === 'moveFile') {
+        await moveFile(run.repoPath, proposal.path, proposal.newPath, token, options);
+      }
+      proposal.status = 'applied';
+      proposal.sessionId = session.id;
+    } catch (error) {
+      console.error(`Apply proposal ${proposal.id} error:`, error);
+      proposal.status = 'failed';
+      proposal.error = error.message;
+    }
+    proposal.resolvedAt = new Date().toISOString();
+  }
+
+  return run;
+}
+
+/**
+ * Reject pending proposals of a run
+ * @param {string} runId - Run id
+ * @param {Array} proposalIds - Proposals to reject (all pending when omitted)
+ * @returns {Object} Updated agent run
+ */
+export function rejectAgentProposals(runId, proposalIds) {
+  const run = requireRun(runId);
+
+  for (const proposal of selectPending(run, proposalIds)) {
+    proposal.status = 'rejected';
+    proposal.resolvedAt = new Date().toISOString();
+  }
+
+  return run;
+}
+
+/**
+ * Execute one tool call and record it in the run transcript
+ */
+async function executeToolCall(run, call) {
+  const tool = AGENT_TOOLS.find(candidate => candidate.name === call.name);
+  const startedAt = Date.now();
+  const entry = {
+    id: call.id,
+    step: run.steps,
+    tool: call.name,
+    arguments: call.arguments,
+    status: 'ok',
+    output: '',
+    proposalId: null,
+    durationMs: 0
+  };
+
+  try {
+    if (!tool) {
+      throw new Error(`Unknown tool ${call.name}`);
+    }
+
+    if (tool.write) {
+      const proposal = await createProposal(run, call);
+      entry.status = 'proposed';
+      entry.proposalId = proposal.id;
+      entry.output = `Proposal ${proposal.id} (${proposal.tool} ${proposal.path}) queued for user approval.`;
+    } else {
+      entry.output = formatToolOutput(await executeReadTool(run, call.name, call.arguments || {}));
+    }
+  } catch (error) {
+    entry.status = 'error';
+    entry.output = `Error: ${error.message}`;
+  }
+
+  entry.durationMs = Date.now() - startedAt;
+  run.transcript.push(entry);
+  return entry;
+}
+
+/**
+ * Run a read-only tool. Reads see pending proposals so the agent can build on its own edits.
+ */
+async function executeReadTool(run, name, args) {
+  switch (name) {
+    case 'getFiles': {
+      const dirPath = resolveWorkspacePath(run.repoPath, args.dirPath || '');
+      const files = await getFiles(run.repoPath, dirPath);
+      return files
+        .filter(file => file.name !== '.git')
+        .map(({ name: fileName, path: filePath, type, size }) => ({ name: fileName, path: filePath, type, size }));
+    }
+    case 'getFileContent': {
+      const filePath = resolveWorkspacePath(run.repoPath, requireArg(args, 'filePath'));
+      const pending = findPendingContent(run, filePath);
+      if (pending !== null) {
+        return { path: filePath, content: pending, pendingApproval: true };
+      }
+      const file = await getFileContent(run.repoPath, filePath);
+      return { path: file.path, content: file.content };
+    }
+    case 'searchFiles': {
+      const query = requireArg(args, 'query');
+      const results = await searchFiles(run.repoPath, query, Array.isArray(args.fileTypes) ? args.fileTypes : []);
+      return results.slice(0, 20).map(result => ({
+        path: result.path,
+        matchCount: result.matchCount,
+        matches: result.matches.slice(0, 5)
+      }));
+    }
+    default:
+      throw new Error(`Unknown tool ${name}`);
+  }
+}
+
+/**
+ * Validate a write tool call and queue it as a proposal
+ */
+async function createProposal(run, call) {
+  const args = call.arguments || {};
+  const proposal = {
+    id: `prop_${run.proposals.length + 1}`,
+    toolCallId: call.id,
+    tool: call.name,
+    path: null,
+    newPath: null,
+    content: null,
+    originalContent: null,
+    status: 'pending',
+    error: null,
+    sessionId: null,
+    createdAt: new Date().toISOString(),
+    resolvedAt: null
+  };
+
+  if (call.name === 'moveFile') {
+    proposal.path = resolveWorkspacePath(run.repoPath, requireArg(args, 'oldPath'));
+    proposal.newPath = resolveWorkspacePath(run.repoPath, requireArg(args, 'newPath'));
+    if (!await fs.pathExists(path.join(run.repoPath, proposal.path)) && findPendingContent(run, proposal.path) === null) {
+      throw new Error('Source file does not exist');
+    }
+  } else {
+    proposal.path = resolveWorkspacePath(run.repoPath, requireArg(args, 'filePath'));
+    if (typeof args.content !== 'string') {
+      throw new Error('content is required');
+    }
+    proposal.content = args.content;
+
+    const fullPath = path.join(run.repoPath, proposal.path);
+    const exists = await fs.pathExists(fullPath);
+    if (call.name === 'createFile' && exists) {
+      throw new Error('File already exists');
+    }
+
+    if (call.name === 'updateFile') {
+      // The update builds on an earlier pending proposal for the file, or on the file on disk
+      const pending = findPendingContent(run, proposal.path);
+      if (pending === null && !exists) {
+        throw new Error('File does not exist; use createFile to add it');
+      }
+      proposal.originalContent = pending ?? await fs.readFile(fullPath, 'utf8');
+    }
+  }
+
+  run.proposals.push(proposal);
+  return proposal;
+}
+
+/**
+ * Refuse an update when the file is missing or no longer holds the content it was proposed against
+ */
+async function requireUnchanged(repoPath, proposal) {
+  const fullPath = path.join(repoPath, proposal.path);
+  if (!await fs.pathExists(fullPath)) {
+    throw new Error('File no longer exists');
+  }
+  if (await fs.readFile(fullPath, 'utf8') !== proposal.originalContent) {
+    throw new Error('File changed since this edit was proposed; rerun the agent to update it');
+  }
+}
+
+/**
+ * Latest pending content proposed for a path, or null
+ */
+function findPendingContent(run, filePath) {
+  for (let i = run.proposals.length - 1; i >= 0; i--) {
+    const proposal = run.proposals[i];
+    if (proposal.status === 'pending' && proposal.path === filePath && proposal.content !== null) {
+      return proposal.content;
+    }
+  }
+  return null;
+}
+
+/**
+ * Normalize a repository-relative path, rejecting paths that escape the repository
+ */
+function resolveWorkspacePath(repoPath, filePath) {
+  const root = path.resolve(repoPath);
+  const fullPath = path.resolve(root, String(filePath).replace(/^[/\\]+/, ''));
+
+  if (fullPath !== root && !fullPath.startsWith(root + path.sep)) {
+    throw new Error(`Path ${filePath} is outside the repository`);
+  }
+
+  return path.relative(root, fullPath);
+}
+
+function requireArg(args, name) {
+  if (args[name] === undefined || args[name] === null || args[name] === '') {
+    throw new Error(`${name} is required`);
+  }
+  return args[name];
+}
+
+function formatToolOutput(value) {
+  const text = JSON.stringify(value, null, 2);
+  if (text.length <= MAX_TOOL_OUTPUT_CHARS) return text;
+  return `${text.slice(0, MAX_TOOL_OUTPUT_CHARS)}\n... [truncated ${text.length - MAX_TOOL_OUTPUT_CHARS} characters]`;
+}
+
+function addUsage(total, usage) {
+  if (!usage) return;
+  total.promptTokens += usage.promptTokens || 0;
+  total.completionTokens += usage.completionTokens || 0;
+  total.totalTokens += usage.totalTokens || 0;
+  total.costUsd = Math.round((total.costUsd + (usage.costUsd || 0)) * 1e8) / 1e8;
+}
+
+// Rules matched in later steps add their newly involved files to what was applied before
+function addRules(applied, rules) {
+  for (const rule of rules || []) {
+    const existing = applied.find(entry => entry.title === rule.title);
+    if (existing) {
+      existing.files = [...new Set([...existing.files, ...rule.files])];
+    } else {
+      applied.push({ ...rule, files: [...rule.files] });
+    }
+  }
+}
+
+function selectPending(run, proposalIds) {
+  return run.proposals.filter(proposal =>
+    proposal.status === 'pending' && (!proposalIds || proposalIds.includes(proposal.id))
+  );
+}
+
+function requireRun(runId) {
+  const run = runs.get(runId);
+  if (!run) {
+    throw new Error(`Agent run ${runId} not found`);
+  }
+  return run;
+}
+
+function storeRun(run) {
+  runs.set(run.id, run);
+  if (runs.size > MAX_STORED_RUNS) {
+    runs.delete(runs.keys().next().value);
+  }
+}
@@ -0,0 +1,236 @@
+// Network failures worth retrying on the same provider
+const RETRYABLE_NETWORK_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EAI_AGAIN', 'EPIPE']);
+
+// Failures that rule out one provider but may succeed on another
+const FALLBACK_NETWORK_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND']);
+const FALLBACK_STATUSES = new Set([401, 403, 404]);
+
+// Circuit breaker state, keyed by provider id
+const circuits = new Map();
+
+const getRetryConfig = () => ({
+  retries: parseInt(process.env.AI_MAX_RETRIES || '2', 10),
+  baseDelayMs: parseInt(process.env.AI_RETRY_BASE_DELAY_MS || '500', 10),
+  maxDelayMs: parseInt(process.env.AI_RETRY_MAX_DELAY_MS || '20000', 10)
+});
+
+const getCircuitConfig = () => ({
+  failureThreshold: parseInt(process.env.AI_CIRCUIT_FAILURE_THRESHOLD || '5', 10),
+  cooldownMs: parseInt(process.env.AI_CIRCUIT_COOLDOWN_MS || '30000', 10)
+});
+
+/**
+ * Get the HTTP status of a provider error (axios or Gemini SDK)
+ * @param {Error} error - Provider error
+ * @returns {number|null} HTTP status
+ */
+export function getErrorStatus(error) {
+  return error?.response?.status || error?.status || null;
+}
+
+/**
+ * Whether an error is transient and the same call may succeed if retried
+ * (rate limits, server errors, dropped connections)
+ * @param {Error} error - Provider error
+ * @returns {boolean}
+ */
+export function isRetryableError(error) {
+  if (isAbortError(error)) return false;
+
+  const status = getErrorStatus(error);
+  if (status) return status === 408 || status === 429 || status >= 500;
+
+  return RETRYABLE_NETWORK_CODES.has(error?.code);
+}
+
+/**
+ * Whether another model should be tried after this error
+ * @param {Error} error - Provider error
+ * @returns {boolean}
+ */
+export function shouldFallback(error) {
+  if (isAbortError(error)) return false;
+
+  return isRetryableError(error) ||
+    FALLBACK_STATUSES.has(getErrorStatus(error)) ||
+    FALLBACK_NETWORK_CODES.has(error?.code);
+}
+
+/**
+ * Whether an error counts against the provider's circuit breaker
+ * (the provider is overloaded or unreachable, not misconfigured)
+ * @param {Error} error - Provider error
+ * @returns {boolean}
+ */
+export function isProviderFailure(error) {
+  return isRetryableError(error) || FALLBACK_NETWORK_CODES.has(error?.code);
+}
+
+/**
+ * Delay requested by the provider before retrying, in milliseconds.
+ * Reads the Retry-After header (seconds or HTTP date) or Gemini's RetryInfo detail.
+ * @param {Error} error - Provider error
+ * @returns {number|null} Delay in milliseconds
+ */
+export function getRetryAfterMs(error) {
+  const header = error?.response?.headers?.['retry-after'];
+  if (header) {
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+
+    const date = Date.parse(header);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  const retryInfo = (error?.errorDetails || []).find(detail => detail?.['@type']?.endsWith('RetryInfo'));
+  if (retryInfo?.retryDelay) {
+    const seconds = parseFloat(retryInfo.retryDelay);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+  }
+
+  return null;
+}
+
+/**
+ * Call fn, retrying transient failures with exponential backoff and jitter.
+ * A Retry-After longer than the maximum delay is not waited out: the error is
+ * thrown so the caller can fall back to another model instead.
+ * @param {Function} fn - Async function to call
+ * @param {Object} options - Retry options
+ * @param {AbortSignal} options.signal - Abort signal that cancels waiting
+ * @param {Function} options.canRetry - Returns false when retrying is no longer safe (e.g. output already streamed)
+ * @param {Function} options.onRetry - Called with (error, attempt, delayMs) before each retry
+ * @returns {*} Result of fn
+ */
+export async function withRetry(fn, options = {}) {
+  const { signal, canRetry = () => true, onRetry } = options;
+  const { retries, baseDelayMs, maxDelayMs } = getRetryConfig();
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries || !isRetryableError(error) || !canRetry() || signal?.aborted) {
+        throw error;
+      }
+
+      const retryAfter = getRetryAfterMs(error);
+      if (retryAfter !== null && retryAfter > maxDelayMs) {
+        throw error;
+      }
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const delay = retryAfter ?? Math.round(backoff / 2 + Math.random() * backoff / 2);
+
+      onRetry?.(error, attempt + 1, delay);
+      await sleep(delay, signal);
+    }
+  }
+}
+
+/**
+ * Whether the circuit for a provider lets a request through.
+ * After the cooldown an open circuit lets one trial request through (half-open).
+ * @param {string} providerId - Provider id
+ * @returns {boolean}
+ */
+export function isCircuitClosed(providerId) {
+  const circuit = circuits.get(providerId);
+  if (!circuit || circuit.state === 'closed') return true;
+
+  if (circuit.state === 'open' && Date.now() >= circuit.openedUntil) {
+    circuit.state = 'half-open';
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Record a successful call, closing the provider's circuit
+ * @param {string} providerId - Provider id
+ */
+export function recordSuccess(providerId) {
+  circuits.set(providerId, { state: 'closed', failures: 0, openedUntil: null });
+}
+
+/**
+ * Record a failed call; the circuit opens after repeated failures or a failed trial
+ * @param {string} providerId - Provider id
+ */
+export function recordFailure(providerId) {
+  const { failureThreshold, cooldownMs } = getCircuitConfig();
+  const circuit = circuits.get(providerId) || { state: 'closed', failures: 0, openedUntil: null };
+
+  circuit.failures++;
+  if (circuit.state === 'half-open' || circuit.failures >= failureThreshold) {
+    circuit.state = 'open';
+    circuit.openedUntil = Date.now() + cooldownMs;
+    console.warn(`Circuit opened for provider ${providerId} after ${circuit.failures} failure(s)`);
+  }
+
+  circuits.set(providerId, circuit);
+}
+
+/**
+ * Record a failed call. Only provider failures count against the circuit; any
+ * other outcome of a half-open trial ends the trial: an error the provider
+ * answered (e.g. a 400) closes the circuit, an aborted trial lets the next
+ * request try again.
+ * @param {string} providerId - Provider id
+ * @param {Error} error - Error of the call
+ */
+export function recordError(providerId, error) {
+  if (isProviderFailure(error)) {
+    recordFailure(providerId);
+    return;
+  }
+
+  const circuit = circuits.get(providerId);
+  if (circuit?.state !== 'half-open') return;
+
+  if (isAbortError(error)) {
+    circuit.state = 'open';
+    circuit.openedUntil = Date.now();
+  } else {
+    recordSuccess(providerId);
+  }
+}
+
+/**
+ * Get the circuit state of a provider
+ * @param {string} providerId - Provider id
+ * @returns {Object} { state, failures, openedUntil }
+ */
+export function getCircuitState(providerId) {
+  const circuit = circuits.get(providerId) || { state: 'closed', failures: 0, openedUntil: null };
+  return {
+    state: circuit.state,
+    failures: circuit.failures,
+    openedUntil: circuit.openedUntil ? new Date(circuit.openedUntil).toISOString() : null
+  };
+}
+
+function isAbortError(error) {
+  return error?.name === 'AbortError' || error?.name === 'CanceledError' || error?.code === 'ERR_CANCELED';
+}
+
+function sleep(ms, signal) {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason || new Error('Aborted'));
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason || new Error('Aborted'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
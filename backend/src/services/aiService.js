@@ -1,294 +1,495 @@
-import axios from 'axios';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-
-// AI Model configurations
-const AI_MODELS = {
-  // Gemini Models (Vision + Text)
-  'gemini-2.0-pro': {
-    provider: 'gemini',
-    model: 'gemini-2.0-flash-exp',
-    apiKey: process.env.GEMINI_API_KEY,
-    baseUrl: 'https://generativelanguage.googleapis.com/v1beta/models',
-    supportsVision: true,
-    useCase: 'vision'
-  },
-  'gemini-1.5-flash': {
-    provider: 'gemini',
-    model: 'gemini-1.5-flash',
-    apiKey: process.env.GEMINI_API_KEY,
-    baseUrl: 'https://generativelanguage.googleapis.com/v1beta/models',
-    supportsVision: false,
-    useCase: 'coding'
-  },
-  
-  // OpenRouter Free Models
-  'deepseek-r1t2-chimera': {
-    provider: 'openrouter',
-    model: 'tngtech/deepseek-r1t2-chimera:free',
-    apiKey: process.env.OPENROUTER_API_KEY,
-    baseUrl: 'https://openrouter.ai/api/v1',
-    supportsVision: false,
-    useCase: 'coding'
-  },
-  'qwen3-coder': {
-    provider: 'openrouter',
-    model: 'qwen/qwen3-coder:free',
-    apiKey: process.env.OPENROUTER_API_KEY,
-    baseUrl: 'https://openrouter.ai/api/v1',
-    supportsVision: false,
-    useCase: 'coding'
-  },
-  'deepseek-r1-0528': {
-    provider: 'openrouter',
-    model: 'deepseek/deepseek-r1-0528:free',
-    apiKey: process.env.OPENROUTER_API_KEY,
-    baseUrl: 'https://openrouter.ai/api/v1',
-    supportsVision: false,
-    useCase: 'coding'
-  },
-  'deepseek-r1-qwen3-8b': {
-    provider: 'openrouter',
-    model: 'deepseek/deepseek-r1-0528-qwen3-8b:free',
-    apiKey: process.env.OPENROUTER_API_KEY,
-    baseUrl: 'https://openrouter.ai/api/v1',
-    supportsVision: false,
-    useCase: 'coding'
-  }
-};
+import { getProvider } from './providers/index.js';
+import { getModelDefinition, listModels, getFallbackChain } from './modelCatalog.js';
+import { retrieveChunks } from './indexService.js';
+import { assemblePrompt, resolveMaxOutputTokens } from './tokenBudget.js';
+import {
+  withRetry,
+  shouldFallback,
+  getErrorStatus,
+  isCircuitClosed,
+  recordSuccess,
+  recordError
+} from './aiResilience.js';
+import { recordUsage } from './usageLedger.js';
+import { createRedactor } from './redactionService.js';
+import { resolveRepoRules } from './rulesService.js';
+import { normalizeImages } from './imageService.js';
+
+const COMPLETION_INSTRUCTION = 'You are a code completion engine. The user sends a file with the cursor marked as <|cursor|>. ' +
+  'Reply with only the code to insert at the cursor: no explanation, no Markdown fences, and no code that is already ' +
+  'before or after the cursor. Prefer completing the current line or block. Reply with nothing if no insertion fits.';
+
+// Characters of code kept before and after the cursor for completions
+const COMPLETION_PREFIX_CHARS = 6000;
+const COMPLETION_SUFFIX_CHARS = 2000;
+
+const CITATION_INSTRUCTION = 'Repository excerpts are labelled with their file path and line range. ' +
+  'When your answer relies on one, cite it as `path:startLine-endLine`.';
+
+// Lets the chat offer "show diff" and "create file" on code blocks that hold a whole file
+const CODE_BLOCK_INSTRUCTION = 'When a code block holds the complete contents of a file, put its path after the language ' +
+  'in the opening fence, for example ```ts src/utils/format.ts';
+const CODE_BLOCK_FEATURES = new Set(['chat', 'test']);
 
 /**
  * Get available AI models
  * @returns {Array} List of available models
  */
 export async function getAvailableModels() {
-  return Object.keys(AI_MODELS).map(key => ({
-    id: key,
-    name: key.replace(/-/g, ' ').replace(/\b\w/g, l => l.toUpperCase()),
-    provider: AI_MODELS[key].provider,
-    model: AI_MODELS[key].model,
-    available: !!AI_MODELS[key].apiKey
-  }));
+  return listModels();
 }
 
 /**
- * Process AI request with selected model
- * @param {Object} params - Request parameters
- * @returns {Object} AI response
+ * Resolve and validate the configuration and provider adapter for a model
+ * @param {string} model - Model identifier
+ * @param {Array} images - Attached images (optional)
+ * @returns {Object} Model configuration and provider adapter
  */
-export async function processAIRequest(params) {
-  const { prompt, model, context, files, temperature = 0.7, maxTokens = 4000, imageData = null } = params;
-  
-  if (!AI_MODELS[model]) {
+function resolveModel(model, images = []) {
+  const modelConfig = getModelDefinition(model);
+
+  if (!modelConfig) {
     throw new Error(`Model ${model} not supported`);
   }
 
-  const modelConfig = AI_MODELS[model];
-  
-  if (!modelConfig.apiKey) {
+  if (!modelConfig.available) {
     throw new Error(`API key not configured for model ${model}`);
   }
 
   // Validate vision support
-  if (imageData && !modelConfig.supportsVision) {
+  if (images.length > 0 && !modelConfig.supportsVision) {
     throw new Error(`Model ${model} does not support vision capabilities`);
   }
 
-  try {
-    switch (modelConfig.provider) {
-      case 'gemini':
-        return await processGeminiRequest(modelConfig, prompt, context, files, temperature, imageData);
-      case 'openrouter':
-        return await processOpenRouterRequest(modelConfig, prompt, context, files, temperature, maxTokens);
-      default:
-        throw new Error(`Provider ${modelConfig.provider} not implemented`);
+  return { modelConfig, provider: getProvider(modelConfig.provider) };
+}
+
+/**
+ * Resolve the models to try, in order: the requested model, then its use case's
+ * fallback chain. Unavailable models and models lacking vision (when images
+ * are attached) are skipped.
+ * @returns {Array} Candidates of { modelConfig, provider }
+ */
+function resolveCandidates(request) {
+  const { model, useCase, fallback, images } = request;
+
+  if (model && !getModelDefinition(model)) {
+    throw new Error(`Model ${model} not supported`);
+  }
+  if (!model && !useCase) {
+    throw new Error('A model or use case is required');
+  }
+
+  // Without fallback the requested model must be usable as-is
+  if (model && fallback === false) {
+    return [resolveModel(model, images)];
+  }
+
+  // Requests with images fall back along the vision chain
+  const chain = getFallbackChain(useCase || (images.length > 0 ? 'vision' : getModelDefinition(model).useCase));
+  const ids = [...new Set([model, ...chain].filter(Boolean))];
+
+  const candidates = ids
+    .map(id => getModelDefinition(id))
+    .filter(modelConfig => modelConfig && modelConfig.available && (images.length === 0 || modelConfig.supportsVision))
+    .map(modelConfig => ({ modelConfig, provider: getProvider(modelConfig.provider) }));
+
+  if (candidates.length === 0) {
+    // Surface the specific reason for the requested model
+    if (model) resolveModel(model, images);
+    throw new Error(`No available model for ${useCase ? `use case ${useCase}` : `model ${model}`}`);
+  }
+
+  return candidates;
+}
+
+/**
+ * Call each candidate model in turn until one answers.
+ * Instructions from the repository's rules file are added as a system message.
+ * Secrets are redacted before any provider sees the request and restored in the
+ * answer. Transient failures are retried with backoff; providers that keep failing
+ * are skipped by their circuit breaker. Every model call is recorded in the usage ledger.
+ * @param {Object} params - Request parameters
+ * @param {Function} call - (provider, modelConfig, request, redactor) => result
+ * @param {Object} options - { label for errors, canFallback() returning false once output was streamed }
+ * @returns {Object} Result with the answering model, usage with its estimated costUsd, attempts, budget report, citations and applied rules
+ */
+async function runWithFallback(params, call, options) {
+  const { label, canFallback = () => true } = options;
+  const normalized = normalizeRequest(params);
+  const candidates = resolveCandidates(normalized);
+  const citations = await attachRetrievedContext(normalized, candidates[0].modelConfig);
+  const rules = await attachRepoRules(normalized);
+  if (CODE_BLOCK_FEATURES.has(normalized.feature)) {
+    normalized.history.unshift({ role: 'system', content: CODE_BLOCK_INSTRUCTION });
+  }
+  const redactor = await redactRequest(normalized);
+  const attempts = [];
+  let lastError = null;
+
+  for (const { modelConfig, provider } of candidates) {
+    let fitted;
+    try {
+      fitted = assemblePrompt(normalized, modelConfig);
+    } catch (error) {
+      attempts.push({ model: modelConfig.id, provider: provider.id, status: null, error: error.message });
+      lastError = error;
+      continue;
+    }
+
+    // Checked last: a half-open circuit lets only this call through
+    if (!isCircuitClosed(provider.id)) {
+      attempts.push({ model: modelConfig.id, provider: provider.id, status: null, error: `Circuit open for provider ${provider.id}` });
+      continue;
+    }
+    const { request, report } = fitted;
+    const startedAt = Date.now();
+
+    try {
+      const result = await withRetry(() => call(provider, modelConfig, request, redactor), {
+        signal: normalized.signal,
+        canRetry: canFallback,
+        onRetry: (error, attempt, delay) => console.warn(
+          `Retrying model ${modelConfig.id} (attempt ${attempt}) in ${delay}ms after: ${error.message}`
+        )
+      });
+      recordSuccess(provider.id);
+      const { costUsd } = recordUsage({
+        feature: normalized.feature,
+        route: normalized.route,
+        modelConfig,
+        usage: result.usage,
+        latencyMs: Date.now() - startedAt
+      });
+
+      return {
+        ...result,
+        usage: { ...result.usage, costUsd },
+        content: redactor.restore(result.content),
+        modelId: modelConfig.id,
+        requestedModel: normalized.model || null,
+        fallbackUsed: attempts.length > 0,
+        attempts,
+        budget: report,
+        ...(citations ? { citations: includedCitations(citations, request.files) } : {}),
+        ...(rules ? { rules } : {})
+      };
+    } catch (error) {
+      console.error(`${label} error for model ${modelConfig.id}:`, error);
+      recordError(provider.id, error);
+      recordUsage({
+        feature: normalized.feature,
+        route: normalized.route,
+        modelConfig,
+        latencyMs: Date.now() - startedAt,
+        error
+      });
+      attempts.push({ model: modelConfig.id, provider: provider.id, status: getErrorStatus(error), error: error.message });
+      lastError = error;
+
+      if (!shouldFallback(error) || !canFallback()) {
+        break;
+      }
     }
-  } catch (error) {
-    console.error(`AI request error for model ${model}:`, error);
-    throw new Error(`Failed to process AI request: ${error.message}`);
   }
+
+  const message = attempts.length > 1
+    ? `All models failed (${attempts.map(attempt => `${attempt.model}: ${attempt.error}`).join('; ')})`
+    : lastError?.message || attempts[0]?.error;
+  throw new Error(`Failed to ${label}: ${message}`);
 }
 
 /**
- * Process Gemini request
+ * Process AI request with selected model
+ * @param {Object} params - Request parameters
+ * @param {string} params.prompt - New user message (optional when messages ends with a user turn)
+ * @param {Array} params.messages - Conversation history of { role: 'system' | 'user' | 'assistant', content }
+ * @param {string} params.model - Preferred model (optional when useCase is given)
+ * @param {string} params.useCase - Fallback chain to use ('coding' | 'vision'); defaults to 'vision' with images, otherwise the model's use case
+ * @param {boolean} params.fallback - Set to false to only try the requested model
+ * @param {string} params.repoPath - Repository to retrieve relevant code from and whose rules apply (optional)
+ * @param {Array} params.rulePaths - Files the request is about, for matching scoped rules; attached files are included automatically
+ * @param {Object|boolean} params.retrieval - Retrieval options { query, paths, maxTokens }, or false to disable
+ * @param {Object} params.responseFormat - { type: 'json', name, schema } to use the provider's JSON mode when it has one
+ * @param {Array} params.images - Images as data URLs or base64 (PNG, JPEG, GIF or WebP) for vision models; imageData takes a single one
+ * @param {string} params.feature - Product feature making the call, for the usage ledger (chat, text-to-app, firebase, ...)
+ * @param {string} params.route - API route making the call, for the usage ledger
+ * @returns {Object} AI response with the answering model (modelId), attempts, a token budget report, citations when code was retrieved, and the rules applied
  */
-async function processGeminiRequest(config, prompt, context, files, temperature, imageData = null) {
-  const genAI = new GoogleGenerativeAI(config.apiKey);
-  const model = genAI.getGenerativeModel({ 
-    model: config.model,
-    generationConfig: {
-      temperature,
-      maxOutputTokens: 4000,
+export async function processAIRequest(params) {
+  return runWithFallback(
+    params,
+    (provider, modelConfig, request) => provider.complete(modelConfig, request),
+    { label: 'process AI request' }
+  );
+}
+
+/**
+ * Stream AI request with selected model.
+ * Falls back to another model only until the first token has been sent.
+ * @param {Object} params - Request parameters (same as processAIRequest, plus an optional AbortSignal)
+ * @param {Function} onToken - Called with each chunk of generated text as it arrives
+ * @returns {Object} Final AI response with the full content and usage
+ */
+export async function streamAIRequest(params, onToken) {
+  let emitted = false;
+  const emit = token => {
+    emitted = true;
+    onToken(token);
+  };
+
+  return runWithFallback(params, async (provider, modelConfig, request, redactor) => {
+    const restorer = redactor.createStreamRestorer(emit);
+
+    // Models without streaming answer in one chunk
+    if (!modelConfig.supportsStreaming || typeof provider.stream !== 'function') {
+      const result = await provider.complete(modelConfig, request);
+      restorer.push(result.content);
+      restorer.flush();
+      return result;
     }
-  });
 
-  // Build context from files and context
-  let fullPrompt = prompt;
-  
-  if (context) {
-    fullPrompt = `Context: ${JSON.stringify(context)}\n\n${prompt}`;
+    const result = await provider.stream(modelConfig, request, restorer.push);
+    restorer.flush();
+    return result;
+  }, { label: 'stream AI request', canFallback: () => !emitted });
+}
+
+/**
+ * Run one tool-calling turn with selected model
+ * @param {Object} params - Request parameters
+ * @param {string} params.model - Model identifier
+ * @param {Array} params.messages - Agent messages of { role: 'system' | 'user' | 'assistant' | 'tool', content, toolCalls?, toolCallId?, name? }
+ * @param {Array} params.tools - Tool definitions of { name, description, parameters } (JSON schema)
+ * @param {string} params.repoPath - Repository whose rules and .winkyignore apply (optional)
+ * @param {string} params.feature - Product feature making the call, for the usage ledger (defaults to 'agent')
+ * @param {string} params.route - API route making the call, for the usage ledger
+ * @returns {Object} AI response with any requested tool calls and the rules applied
+ */
+export async function processToolRequest(params) {
+  const { model, messages, tools, temperature = 0.2, maxTokens = 4000, signal, repoPath, feature = 'agent', route } = params;
+  const { modelConfig, provider } = resolveModel(model);
+
+  if (!provider.capabilities.tools) {
+    throw new Error(`Model ${model} does not support tool calling`);
   }
-  
-  if (files && files.length > 0) {
-    const fileContext = files.map(file => 
-      `File: ${file.path}\nContent:\n${file.content}\n`
-    ).join('\n');
-    fullPrompt = `${fileContext}\n\n${fullPrompt}`;
+
+  const rules = await resolveRepoRules(repoPath, getToolCallPaths(messages));
+  const redactor = await createRedactor({ repoPath, feature, route });
+
+  if (!isCircuitClosed(provider.id)) {
+    throw new Error(`Provider ${provider.id} is temporarily unavailable after repeated failures`);
   }
 
-  let result;
-  
-  // Handle vision requests
-  if (imageData && config.supportsVision) {
-    // Convert base64 to Uint8Array for Gemini
-    const imageBytes = Buffer.from(imageData.split(',')[1], 'base64');
-    
-    const imagePart = {
-      inlineData: {
-        data: imageBytes.toString('base64'),
-        mimeType: 'image/jpeg' // Adjust based on actual image type
-      }
+  const startedAt = Date.now();
+  try {
+    const result = await withRetry(() => provider.completeWithTools(modelConfig, {
+      messages: redactToolMessages(rules ? withRulesMessage(messages, rules.instruction) : messages, redactor),
+      tools,
+      temperature,
+      maxTokens: resolveMaxOutputTokens(maxTokens, modelConfig),
+      signal
+    }), { signal });
+    recordSuccess(provider.id);
+    const { costUsd } = recordUsage({ feature, route, modelConfig, usage: result.usage, latencyMs: Date.now() - startedAt });
+    return {
+      ...result,
+      usage: { ...result.usage, costUsd },
+      content: redactor.restore(result.content),
+      toolCalls: result.toolCalls?.map(call => ({ ...call, arguments: redactor.restoreValue(call.arguments) })),
+      ...(rules ? { rules: rules.applied } : {})
     };
-    
-    result = await model.generateContent([fullPrompt, imagePart]);
-  } else {
-    result = await model.generateContent(fullPrompt);
+  } catch (error) {
+    console.error(`AI tool request error for model ${model}:`, error);
+    recordError(provider.id, error);
+    recordUsage({ feature, route, modelConfig, latencyMs: Date.now() - startedAt, error });
+    throw new Error(`Failed to process AI tool request: ${error.message}`);
   }
-  
-  const response = await result.response;
-  
-  return {
-    content: response.text(),
-    model: config.model,
-    provider: 'gemini',
-    usage: {
-      promptTokens: response.usageMetadata?.promptTokenCount || 0,
-      completionTokens: response.usageMetadata?.candidatesTokenCount || 0,
-      totalTokens: response.usageMetadata?.totalTokenCount || 0
-    }
-  };
 }
 
 /**
- * Process OpenRouter request
+ * Redact everything a normalized request sends to a provider
+ * @returns {Object} Redactor that restores the placeholders in the answer
  */
-async function processOpenRouterRequest(config, prompt, context, files, temperature, maxTokens) {
-  const messages = buildMessages(prompt, context, files);
-  
-  const response = await axios.post(`${config.baseUrl}/chat/completions`, {
-    model: config.model,
-    messages,
-    temperature,
-    max_tokens: maxTokens,
-    stream: false
-  }, {
-    headers: {
-      'Authorization': `Bearer ${config.apiKey}`,
-      'Content-Type': 'application/json'
-    }
-  });
+async function redactRequest(request) {
+  const redactor = await createRedactor({ repoPath: request.repoPath, feature: request.feature, route: request.route });
 
-  return {
-    content: response.data.choices[0].message.content,
-    model: config.model,
-    provider: 'openrouter',
-    usage: response.data.usage
-  };
+  request.prompt = redactor.redactText(request.prompt, 'prompt');
+  request.history = request.history.map(message => ({
+    ...message,
+    content: redactor.redactText(message.content, `history:${message.role}`)
+  }));
+  request.context = redactor.redactValue(request.context, 'context');
+  request.files = request.files?.map(file => redactor.redactFile(file));
+
+  return redactor;
 }
 
 /**
- * Process Qwen request
+ * Redact agent messages. Output of tools that read an ignored path is withheld entirely.
  */
-async function processQwenRequest(config, prompt, context, files, temperature) {
-  const messages = buildMessages(prompt, context, files);
-  
-  const response = await axios.post(`${config.baseUrl}/services/aigc/text-generation/generation`, {
-    model: config.model,
-    input: {
-      messages
-    },
-    parameters: {
-      temperature,
-      max_tokens: 4000
+function redactToolMessages(messages, redactor) {
+  const callPaths = new Map();
+
+  return messages.map(message => {
+    if (message.role === 'tool') {
+      const filePath = callPaths.get(message.toolCallId);
+      return {
+        ...message,
+        content: filePath
+          ? redactor.redactFile({ path: filePath, content: message.content }).content
+          : redactor.redactText(message.content, `tool:${message.name || message.toolCallId}`)
+      };
     }
-  }, {
-    headers: {
-      'Authorization': `Bearer ${config.apiKey}`,
-      'Content-Type': 'application/json'
+
+    for (const call of message.toolCalls || []) {
+      const filePath = call.arguments?.filePath || call.arguments?.path;
+      if (filePath) callPaths.set(call.id, filePath);
     }
+
+    return {
+      ...message,
+      content: redactor.redactText(message.content, `history:${message.role}`),
+      ...(message.toolCalls ? {
+        toolCalls: message.toolCalls.map(call => ({ ...call, arguments: redactor.redactValue(call.arguments, `tool:${call.name}`) }))
+      } : {})
+    };
   });
+}
 
-  return {
-    content: response.data.output.text,
-    model: config.model,
-    provider: 'qwen',
-    usage: {
-      promptTokens: response.data.usage?.input_tokens || 0,
-      completionTokens: response.data.usage?.output_tokens || 0,
-      totalTokens: response.data.usage?.total_tokens || 0
-    }
-  };
+/**
+ * Paths the agent has touched through its tool calls so far
+ */
+function getToolCallPaths(messages) {
+  return messages.flatMap(message => (message.toolCalls || []).flatMap(call => [
+    call.arguments?.filePath,
+    call.arguments?.oldPath,
+    call.arguments?.newPath
+  ]));
 }
 
 /**
- * Process DeepSeek request
+ * Add a system message after the leading system messages of a conversation
  */
-async function processDeepSeekRequest(config, prompt, context, files, temperature, maxTokens) {
-  const messages = buildMessages(prompt, context, files);
-  
-  const response = await axios.post(`${config.baseUrl}/chat/completions`, {
-    model: config.model,
-    messages,
-    temperature,
-    max_tokens: maxTokens,
-    stream: false
-  }, {
-    headers: {
-      'Authorization': `Bearer ${config.apiKey}`,
-      'Content-Type': 'application/json'
+function withRulesMessage(messages, instruction) {
+  const index = messages.findIndex(message => message.role !== 'system');
+  const at = index === -1 ? messages.length : index;
+  return [...messages.slice(0, at), { role: 'system', content: instruction }, ...messages.slice(at)];
+}
+
+/**
+ * Only cite retrieved chunks that survived budgeting
+ */
+function includedCitations(citations, files) {
+  const included = new Set(files.map(file => file.path));
+  return citations.filter(citation =>
+    included.has(`${citation.path}:${citation.startLine}-${citation.endLine}`)
+  );
+}
+
+/**
+ * Normalize request parameters, splitting conversation history from the current turn
+ */
+function normalizeRequest(params) {
+  const {
+    prompt,
+    messages = [],
+    model,
+    useCase,
+    fallback = true,
+    context,
+    files,
+    temperature = 0.7,
+    maxTokens = 4000,
+    images = [],
+    imageData = null,
+    signal,
+    repoPath,
+    retrieval = {},
+    responseFormat = null,
+    rulePaths = [],
+    feature,
+    route
+  } = params;
+
+  const history = messages
+    .filter(message => message && ['system', 'user', 'assistant'].includes(message.role) && message.content)
+    .map(message => ({ role: message.role, content: String(message.content) }));
+
+  // Without an explicit prompt the last user message is the current turn
+  let currentPrompt = prompt;
+  if (!currentPrompt) {
+    const last = history[history.length - 1];
+    if (!last || last.role !== 'user') {
+      throw new Error('A prompt or a conversation ending with a user message is required');
     }
-  });
+    currentPrompt = history.pop().content;
+  }
 
   return {
-    content: response.data.choices[0].message.content,
-    model: config.model,
-    provider: 'deepseek',
-    usage: response.data.usage
+    prompt: currentPrompt,
+    history,
+    model,
+    useCase,
+    fallback,
+    context,
+    files,
+    temperature,
+    maxTokens,
+    images: normalizeImages([].concat(images, imageData)),
+    signal,
+    repoPath,
+    retrieval,
+    responseFormat,
+    rulePaths,
+    feature,
+    route
   };
 }
 
 /**
- * Build messages array for chat-based models
+ * Retrieve the repository chunks most relevant to the request and add them as files.
+ * Uses at most a quarter of the model's context window.
+ * @returns {Array|null} Citations of { path, startLine, endLine, score }, or null when retrieval is off
  */
-function buildMessages(prompt, context, files) {
-  const messages = [];
-  
-  // Add system message with context
-  if (context) {
-    messages.push({
-      role: 'system',
-      content: `You are an AI coding assistant. Context: ${JSON.stringify(context)}`
-    });
-  }
-  
-  // Add file contents as context
-  if (files && files.length > 0) {
-    const fileContext = files.map(file => 
-      `File: ${file.path}\nContent:\n${file.content}`
-    ).join('\n\n');
-    
-    messages.push({
-      role: 'user',
-      content: `Here are the relevant files:\n\n${fileContext}`
-    });
-  }
-  
-  // Add the main prompt
-  messages.push({
-    role: 'user',
-    content: prompt
+async function attachRetrievedContext(request, modelConfig) {
+  if (!request.repoPath || request.retrieval === false) return null;
+
+  const { query = request.prompt, paths = [], maxTokens = 6000 } = request.retrieval;
+  const chunks = await retrieveChunks(request.repoPath, query, {
+    paths,
+    maxTokens: Math.min(maxTokens, Math.floor(modelConfig.contextWindow / 4))
   });
-  
-  return messages;
+
+  request.files = [
+    ...(request.files || []),
+    ...chunks.map(chunk => ({
+      path: `${chunk.path}:${chunk.startLine}-${chunk.endLine}`,
+      content: chunk.content
+    }))
+  ];
+  request.history.unshift({ role: 'system', content: CITATION_INSTRUCTION });
+
+  return chunks.map(({ path, startLine, endLine, score }) => ({ path, startLine, endLine, score }));
+}
+
+/**
+ * Add the repository rules that apply to the request's files as a system message
+ * @returns {Array|null} Applied rules of { title, globs, files }, or null when none apply
+ */
+async function attachRepoRules(request) {
+  if (!request.repoPath) return null;
+
+  const rules = await resolveRepoRules(request.repoPath, [
+    ...request.rulePaths,
+    ...(request.files || []).map(file => file.path),
+    request.context?.filePath,
+    request.context?.currentFile
+  ]);
+  if (!rules) return null;
+
+  request.history.unshift({ role: 'system', content: rules.instruction });
+  return rules.applied;
 }
 
 /**
@@ -296,9 +497,10 @@ function buildMessages(prompt, context, files) {
  * @param {string} repoPath - Repository path
  * @param {string} model - AI model to use
  * @param {string} analysisType - Type of analysis
- * @returns {Object} Analysis result
+ * @param {Array} specificFiles - Files or directories to focus on (optional)
+ * @returns {Object} Analysis result with citations
  */
-export async function analyzeCodebase(repoPath, model, analysisType = 'general') {
+export async function analyzeCodebase(repoPath, model, analysisType = 'general', specificFiles = []) {
   const prompt = `Analyze this codebase for ${analysisType} improvements. 
   Focus on:
   - Code quality and best practices
@@ -307,29 +509,107 @@ export async function analyzeCodebase(repoPath, model, analysisType = 'general')
   - Architecture improvements
   - Documentation needs
   
-  Provide specific, actionable recommendations.`;
+  Provide specific, actionable recommendations.${specificFiles.length > 0 ? `\n  Focus on these files: ${specificFiles.join(', ')}` : ''}`;
   
   return await processAIRequest({
     prompt,
     model,
-    context: { repoPath, analysisType },
+    context: { analysisType, specificFiles },
+    repoPath,
+    retrieval: {
+      query: `${analysisType} ${specificFiles.join(' ')}`,
+      paths: specificFiles
+    },
+    feature: 'analyze',
+    route: '/api/ai/analyze',
     temperature: 0.3
   });
 }
 
+/**
+ * Complete code at the cursor (fill-in-the-middle)
+ * @param {Object} params - Completion parameters
+ * @param {string} params.prefix - Code before the cursor
+ * @param {string} params.suffix - Code after the cursor
+ * @param {string} params.filePath - Path of the file being edited
+ * @param {string} params.language - Editor language id (optional)
+ * @param {Array} params.openFiles - Other open files of { path, content } for context (optional)
+ * @param {string} params.model - AI model to use
+ * @param {number} params.maxTokens - Completion length limit (default 128)
+ * @param {AbortSignal} params.signal - Cancels the request when the completion is no longer needed
+ * @returns {Object} { completion, model, modelId, usage }
+ */
+export async function completeCode(params) {
+  const { prefix = '', suffix = '', filePath, language, openFiles = [], model, maxTokens = 128, signal } = params;
+
+  const before = prefix.slice(-COMPLETION_PREFIX_CHARS);
+  const after = suffix.slice(0, COMPLETION_SUFFIX_CHARS);
+
+  const result = await processAIRequest({
+    prompt: `File: ${filePath}${language ? ` (${language})` : ''}\n${before}<|cursor|>${after}`,
+    messages: [{ role: 'system', content: COMPLETION_INSTRUCTION }],
+    files: openFiles
+      .filter(file => file?.path && file.path !== filePath && typeof file.content === 'string')
+      .map(file => ({ path: file.path, content: file.content })),
+    model,
+    fallback: false,
+    retrieval: false,
+    temperature: 0.2,
+    maxTokens,
+    signal,
+    feature: 'completion',
+    route: '/api/ai/complete'
+  });
+
+  return {
+    completion: cleanCompletion(result.content, before, after),
+    model: result.model,
+    modelId: result.modelId,
+    usage: result.usage
+  };
+}
+
+/**
+ * Strip fences, cursor markers and text the model repeated from around the cursor
+ */
+function cleanCompletion(content, prefix, suffix) {
+  let text = (content || '').replace(/<\|cursor\|>/g, '');
+
+  const fenced = text.match(/^\s*```[\w-]*\n([\s\S]*?)\n?```\s*$/);
+  if (fenced) text = fenced[1];
+
+  // Models sometimes restate the current line before continuing it
+  const currentLine = prefix.slice(prefix.lastIndexOf('\n') + 1);
+  if (currentLine.trim() && text.startsWith(currentLine)) {
+    text = text.slice(currentLine.length);
+  }
+
+  // Drop the longest tail that duplicates the start of the suffix
+  for (let length = Math.min(text.length, suffix.length); length > 0; length--) {
+    if (text.endsWith(suffix.slice(0, length)) && suffix.slice(0, length).trim()) {
+      text = text.slice(0, -length);
+      break;
+    }
+  }
+
+  return text.trim() ? text : '';
+}
+
 /**
  * Generate code documentation
  * @param {string} filePath - File path
  * @param {string} content - File content
  * @param {string} model - AI model to use
+ * @param {Object} options - { repoPath, selection, instructions, files for extra context, route } (optional)
  * @returns {Object} Documentation result
  */
-export async function generateDocumentation(filePath, content, model) {
+export async function generateDocumentation(filePath, content, model, options = {}) {
+  const { repoPath, selection, instructions, files, route } = options;
   const prompt = `Generate comprehensive documentation for this code file:
   
   File: ${filePath}
   Content:
-  ${content}
+  ${content}${describeSelection(selection)}${instructions ? `\n\nUser request: ${instructions}` : ''}
   
   Include:
   - Function/class descriptions
@@ -343,6 +623,54 @@ export async function generateDocumentation(filePath, content, model) {
     prompt,
     model,
     context: { filePath },
+    files,
+    repoPath,
+    retrieval: false,
+    feature: 'documentation',
+    route,
     temperature: 0.4
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Generate unit tests for code
+ * @param {string} filePath - File path
+ * @param {string} content - File content
+ * @param {string} model - AI model to use
+ * @param {Object} options - { repoPath, selection, instructions, files for extra context, route } (optional)
+ * @returns {Object} Test generation result
+ */
+export async function generateTests(filePath, content, model, options = {}) {
+  const { repoPath, selection, instructions, files, route } = options;
+  const prompt = `Write unit tests for this code:
+  
+  File: ${filePath}
+  Content:
+  ${content}${describeSelection(selection)}${instructions ? `\n\nUser request: ${instructions}` : ''}
+  
+  Use the test framework and conventions this project already uses; if none is apparent, pick the standard one for the language.
+  Cover normal behaviour, edge cases and error handling.
+  Reply with the complete test file in one code block labelled with the path it should be saved to.`;
+  
+  return await processAIRequest({
+    prompt,
+    model,
+    context: { filePath },
+    files,
+    repoPath,
+    retrieval: false,
+    feature: 'test',
+    route,
+    temperature: 0.3
+  });
+}
+
+/**
+ * Point a prompt at the lines the user selected in the editor
+ * @param {Object} selection - { startLine, endLine, text } (optional)
+ * @returns {string} Prompt text to append, empty without a selection
+ */
+export function describeSelection(selection) {
+  if (!selection?.text?.trim() || !selection.startLine) return '';
+  return `\n\nFocus on the selected lines ${selection.startLine}-${selection.endLine || selection.startLine}:\n${selection.text}`;
+}
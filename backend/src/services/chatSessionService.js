@@ -0,0 +1,344 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { getDataPath } from './dataDir.js';
+
+// One JSON file per chat session
+const chatsDir = () => getDataPath('chat-sessions');
+
+const DEFAULT_TITLE = 'New chat';
+const MAX_TITLE_LENGTH = 60;
+
+// Characters of context either side of a search match
+const SNIPPET_RADIUS = 60;
+const MAX_MATCHES_PER_SESSION = 3;
+
+// Session files are rewritten in order so concurrent saves are never lost
+let writeQueue = Promise.resolve();
+
+/**
+ * Start a chat session
+ * @param {Object} params - Session parameters
+ * @param {string} params.repoPath - Repository the chat is about (optional)
+ * @param {string} params.title - Title; derived from the first user message when omitted
+ * @param {string} params.model - Model the chat uses
+ * @param {Array} params.messages - Messages of { id, role, content, timestamp, ... } (optional)
+ * @returns {Object} Chat session
+ */
+export async function createChatSession({ repoPath, title, model, messages = [] }) {
+  try {
+    const normalized = normalizeMessages(messages);
+    const session = {
+      id: `chat_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      repoPath: repoPath || null,
+      title: title?.trim() || deriveTitle(normalized),
+      model: model || null,
+      parentId: null,
+      branchedFrom: null,
+      messages: normalized,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    };
+
+    await enqueue(() => saveSession(session));
+    return session;
+  } catch (error) {
+    console.error('Create chat session error:', error);
+    throw new Error(`Failed to create chat session: ${error.message}`);
+  }
+}
+
+/**
+ * List the chat sessions of a repository, most recently updated first
+ * @param {string} repoPath - Repository path; omit for chats without a repository
+ * @returns {Array} Session summaries
+ */
+export async function listChatSessions(repoPath) {
+  try {
+    const sessions = await loadRepoSessions(repoPath);
+    return sessions.map(summarizeSession);
+  } catch (error) {
+    console.error('List chat sessions error:', error);
+    throw new Error(`Failed to list chat sessions: ${error.message}`);
+  }
+}
+
+/**
+ * Get a chat session with its messages
+ * @param {string} sessionId - Session id
+ * @returns {Object|null} Chat session, or null if it does not exist
+ */
+export async function getChatSession(sessionId) {
+  return loadSession(sessionId);
+}
+
+/**
+ * Update a chat session's title, model or messages. Messages replace the
+ * stored conversation. A session still using the default title takes one
+ * from its first user message.
+ * @param {string} sessionId - Session id
+ * @param {Object} updates - { title, model, messages } (each optional)
+ * @returns {Object} Updated chat session
+ */
+export async function updateChatSession(sessionId, updates) {
+  try {
+    return await enqueue(async () => {
+      const session = await requireSession(sessionId);
+      const { title, model, messages } = updates;
+
+      if (messages) session.messages = normalizeMessages(messages);
+      if (model) session.model = model;
+      if (title?.trim()) {
+        session.title = title.trim();
+      } else if (session.title === DEFAULT_TITLE) {
+        session.title = deriveTitle(session.messages);
+      }
+      session.updatedAt = new Date().toISOString();
+
+      await saveSession(session);
+      return session;
+    });
+  } catch (error) {
+    console.error('Update chat session error:', error);
+    throw new Error(`Failed to update chat session: ${error.message}`);
+  }
+}
+
+/**
+ * Delete a chat session. Branches made from it are kept.
+ * @param {string} sessionId - Session id
+ * @returns {boolean} Whether a session was deleted
+ */
+export async function deleteChatSession(sessionId) {
+  try {
+    return await enqueue(async () => {
+      if (!await loadSession(sessionId)) return false;
+      await fs.remove(sessionFile(sessionId));
+      return true;
+    });
+  } catch (error) {
+    console.error('Delete chat session error:', error);
+    throw new Error(`Failed to delete chat session: ${error.message}`);
+  }
+}
+
+/**
+ * Branch a conversation at one of its user messages: the new session keeps
+ * the messages before it and ends with the edited message, ready for a new
+ * reply. The original session is left unchanged.
+ * @param {string} sessionId - Session to branch from
+ * @param {string} messageId - User message being edited
+ * @param {string} content - Edited message content
+ * @returns {Object} The new chat session
+ */
+export async function branchChatSession(sessionId, messageId, content) {
+  try {
+    const source = await requireSession(sessionId);
+    const index = source.messages.findIndex(message => message.id === messageId);
+    if (index === -1) {
+      throw new Error(`Message ${messageId} not found in chat session ${sessionId}`);
+    }
+
+    const original = source.messages[index];
+    if (original.role !== 'user') {
+      throw new Error('Only user messages can be edited');
+    }
+
+    const session = {
+      id: `chat_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      repoPath: source.repoPath,
+      title: `${source.title} (branch)`,
+      model: source.model,
+      parentId: source.id,
+      branchedFrom: { sessionId: source.id, messageId },
+      messages: [
+        ...source.messages.slice(0, index),
+        {
+          ...original,
+          id: `msg_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+          content,
+          timestamp: new Date().toISOString()
+        }
+      ],
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    };
+
+    await enqueue(() => saveSession(session));
+    return session;
+  } catch (error) {
+    console.error('Branch chat session error:', error);
+    throw new Error(`Failed to branch chat session: ${error.message}`);
+  }
+}
+
+/**
+ * Search the titles and messages of a repository's chat sessions
+ * @param {string} repoPath - Repository path; omit for chats without a repository
+ * @param {string} query - Text to find (case-insensitive)
+ * @returns {Array} Session summaries with matches: [{ messageId, role, snippet }], most recent first
+ */
+export async function searchChatSessions(repoPath, query) {
+  try {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+
+    const results = [];
+    for (const session of await loadRepoSessions(repoPath)) {
+      const matches = session.messages
+        .filter(message => message.content.toLowerCase().includes(needle))
+        .slice(0, MAX_MATCHES_PER_SESSION)
+        .map(message => ({ messageId: message.id, role: message.role, snippet: getSnippet(message.content, needle) }));
+
+      if (matches.length > 0 || session.title.toLowerCase().includes(needle)) {
+        results.push({ ...summarizeSession(session), matches });
+      }
+    }
+
+    return results;
+  } catch (error) {
+    console.error('Search chat sessions error:', error);
+    throw new Error(`Failed to search chat sessions: ${error.message}`);
+  }
+}
+
+/**
+ * Export a chat session as Markdown or JSON
+ * @param {string} sessionId - Session id
+ * @param {string} format - 'markdown' or 'json'
+ * @returns {Object} { filename, contentType, content }
+ */
+export async function exportChatSession(sessionId, format = 'markdown') {
+  try {
+    const session = await requireSession(sessionId);
+    const slug = session.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'chat';
+
+    if (format === 'json') {
+      return {
+        filename: `${slug}.json`,
+        contentType: 'application/json',
+        content: JSON.stringify(session, null, 2)
+      };
+    }
+
+    const header = [
+      `# ${session.title}`,
+      '',
+      ...(session.repoPath ? [`- Repository: ${session.repoPath}`] : []),
+      ...(session.model ? [`- Model: ${session.model}`] : []),
+      `- Created: ${session.createdAt}`,
+      `- Updated: ${session.updatedAt}`
+    ];
+    const body = session.messages.map(message => {
+      const speaker = message.role === 'user' ? 'You' : `Assistant${message.model ? ` (${message.model})` : ''}`;
+      return `## ${speaker}${message.timestamp ? ` — ${message.timestamp}` : ''}\n\n${message.content}`;
+    });
+
+    return {
+      filename: `${slug}.md`,
+      contentType: 'text/markdown',
+      content: `${[header.join('\n'), ...body].join('\n\n')}\n`
+    };
+  } catch (error) {
+    console.error('Export chat session error:', error);
+    throw new Error(`Failed to export chat session: ${error.message}`);
+  }
+}
+
+/**
+ * Keep well-formed user and assistant messages, without transient UI state
+ */
+function normalizeMessages(messages) {
+  if (!Array.isArray(messages)) {
+    throw new Error('Messages must be an array');
+  }
+
+  return messages
+    .filter(message => message && ['user', 'assistant'].includes(message.role) && typeof message.content === 'string')
+    .map(({ streaming, ...message }) => ({
+      ...message,
+      id: message.id || `msg_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      timestamp: message.timestamp || new Date().toISOString()
+    }));
+}
+
+/**
+ * Title a chat after the first line of its first user message
+ */
+function deriveTitle(messages) {
+  const first = messages.find(message => message.role === 'user' && message.content.trim());
+  if (!first) return DEFAULT_TITLE;
+
+  const line = first.content.trim().split('\n')[0].trim();
+  return line.length > MAX_TITLE_LENGTH ? `${line.slice(0, MAX_TITLE_LENGTH - 1)}…` : line;
+}
+
+/**
+ * Text around the first match in a message, on one line
+ */
+function getSnippet(content, needle) {
+  const index = content.toLowerCase().indexOf(needle);
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(content.length, index + needle.length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${content.slice(start, end).replace(/\s+/g, ' ')}${end < content.length ? '…' : ''}`;
+}
+
+function summarizeSession(session) {
+  const last = session.messages[session.messages.length - 1];
+  return {
+    id: session.id,
+    repoPath: session.repoPath,
+    title: session.title,
+    model: session.model,
+    parentId: session.parentId,
+    branchedFrom: session.branchedFrom,
+    messageCount: session.messages.length,
+    preview: last ? last.content.slice(0, 120).replace(/\s+/g, ' ') : '',
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt
+  };
+}
+
+async function loadRepoSessions(repoPath) {
+  await fs.ensureDir(chatsDir());
+  const entries = await fs.readdir(chatsDir());
+  const target = repoPath ? path.resolve(repoPath) : null;
+  const sessions = [];
+
+  for (const entry of entries.filter(name => name.endsWith('.json'))) {
+    const session = await fs.readJson(path.join(chatsDir(), entry)).catch(() => null);
+    if (session && (session.repoPath ? path.resolve(session.repoPath) : null) === target) {
+      sessions.push(session);
+    }
+  }
+
+  return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+async function loadSession(sessionId) {
+  if (!/^chat_[\w-]+$/.test(sessionId || '')) return null;
+  const file = sessionFile(sessionId);
+  return await fs.pathExists(file) ? fs.readJson(file) : null;
+}
+
+async function requireSession(sessionId) {
+  const session = await loadSession(sessionId);
+  if (!session) {
+    throw new Error(`Chat session ${sessionId} not found`);
+  }
+  return session;
+}
+
+async function saveSession(session) {
+  await fs.ensureDir(chatsDir());
+  await fs.writeJson(sessionFile(session.id), session);
+}
+
+function sessionFile(sessionId) {
+  return path.join(chatsDir(), `${sessionId}.json`);
+}
+
+function enqueue(task) {
+  const result = writeQueue.then(task);
+  writeQueue = result.catch(() => {});
+  return result;
+}
@@ -0,0 +1,337 @@
+import { generateStructured } from './structuredOutput.js';
+
+// Unchanged lines shown around each change in unified diffs
+const DIFF_CONTEXT_LINES = 3;
+
+// Largest line-count product diffed line by line; bigger changes become one hunk
+const MAX_DIFF_CELLS = 4_000_000;
+
+const EDIT_INSTRUCTIONS = `Return your changes as edits to line ranges of the original files.
+- startLine and endLine are the inclusive, 1-based numbers of the original lines to replace
+- replacement is the new text for those lines, without line-number prefixes; an empty string deletes them
+- To insert lines without replacing any, set endLine to startLine - 1 (the text goes before startLine)
+- Edits to the same file must not overlap
+- Keep each edit as small as possible and explain it in one sentence
+- Return an empty edits list if nothing should change`;
+
+const CODE_EDITS_SCHEMA = {
+  type: 'object',
+  required: ['summary', 'edits'],
+  properties: {
+    summary: { type: 'string' },
+    edits: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['filePath', 'startLine', 'endLine', 'replacement', 'explanation'],
+        properties: {
+          filePath: { type: 'string' },
+          startLine: { type: 'integer' },
+          endLine: { type: 'integer' },
+          replacement: { type: 'string' },
+          explanation: { type: 'string' }
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Ask the AI for edits to one or more files, returned as reviewable hunks.
+ * The model edits line ranges of numbered file contents; ranges that fall
+ * outside a file or overlap are sent back for repair.
+ * @param {Object} params - Edit parameters
+ * @param {Array} params.files - Files of { path, content } the AI may edit
+ * @param {string} params.task - What to change
+ * @param {string} params.model - AI model to use
+ * @param {number} params.temperature - Sampling temperature (optional)
+ * @param {string} params.repoPath - Repository whose rules apply to the files (optional)
+ * @param {string} params.feature - Product feature making the call, for the usage ledger
+ * @param {string} params.route - API route making the call, for the usage ledger
+ * @returns {Object} { summary, files: [{ path, originalContent, newContent, hunks, diff }], model, modelId, usage, attempts, rules }
+ */
+export async function proposeCodeEdits(params) {
+  const { files, task, model, temperature = 0.3, repoPath, feature, route } = params;
+  const byPath = new Map(files.map(file => [file.path, file]));
+
+  const numbered = files.map(file => {
+    const lines = splitLines(file.content);
+    const width = String(lines.length).length;
+    return `File: ${file.path}\n${lines.map((line, i) => `${String(i + 1).padStart(width)}| ${line}`).join('\n')}`;
+  }).join('\n\n');
+
+  const { data, response, attempts } = await generateStructured({
+    prompt: `${task}\n\nEach line below is prefixed with its line number and "| ".\n\n${numbered}\n\n${EDIT_INSTRUCTIONS}`,
+    model,
+    repoPath,
+    retrieval: false,
+    rulePaths: files.map(file => file.path),
+    temperature,
+    maxTokens: 8000,
+    feature,
+    route
+  }, CODE_EDITS_SCHEMA, {
+    name: 'code edit list',
+    validate: result => validateEdits(result.edits, byPath)
+  });
+
+  const editedFiles = [];
+  let hunkCount = 0;
+
+  for (const file of files) {
+    const hunks = data.edits
+      .filter(edit => edit.filePath === file.path)
+      .sort((a, b) => a.startLine - b.startLine)
+      .map(edit => ({
+        id: `hunk_${++hunkCount}`,
+        startLine: edit.startLine,
+        endLine: edit.endLine,
+        oldText: splitLines(file.content).slice(edit.startLine - 1, edit.endLine).join('\n'),
+        newText: edit.replacement.replace(/\r?\n$/, ''),
+        explanation: edit.explanation
+      }))
+      .filter(hunk => hunk.oldText !== hunk.newText);
+
+    if (hunks.length === 0) continue;
+
+    editedFiles.push({
+      path: file.path,
+      originalContent: file.content,
+      newContent: applyHunks(file.content, hunks),
+      hunks,
+      diff: formatUnifiedDiff(file.path, file.content, hunks)
+    });
+  }
+
+  return {
+    summary: data.summary,
+    files: editedFiles,
+    model: response.model,
+    modelId: response.modelId,
+    usage: response.usage,
+    attempts,
+    ...(response.rules ? { rules: response.rules } : {})
+  };
+}
+
+/**
+ * Apply hunks (line-range replacements of the original content) to content
+ * @param {string} content - Original file content
+ * @param {Array} hunks - Hunks of { startLine, endLine, newText }
+ * @returns {string} Edited content
+ */
+export function applyHunks(content, hunks) {
+  const lines = content.split('\n');
+
+  // Apply from the bottom so earlier line numbers stay valid
+  for (const hunk of [...hunks].sort((a, b) => b.startLine - a.startLine)) {
+    lines.splice(hunk.startLine - 1, hunk.endLine - hunk.startLine + 1, ...toLines(hunk.newText));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Compute hunks that turn one text into another, line by line
+ * @param {string} before - Original content
+ * @param {string} after - New content
+ * @returns {Array} Hunks of { startLine, endLine, oldText, newText }, sorted by startLine
+ */
+export function diffLines(before, after) {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // Common prefix and suffix never need the table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n === 0 && m === 0) return [];
+  if (n * m > MAX_DIFF_CELLS) {
+    return [toHunk(a, start, endA, b.slice(start, endB))];
+  }
+
+  // lcs[i * (m + 1) + j] = longest common subsequence of a[start + i..] and b[start + j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = a[start + i] === b[start + j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const hunks = [];
+  const pushHunk = (from, to, added) => {
+    // A single blank line reads the same as no lines in hunk text, so take in an unchanged neighbour
+    const lastEnd = hunks.length > 0 ? hunks[hunks.length - 1].endLine : 0;
+    if ((to - from === 1 && a[from] === '') || (added.length === 1 && added[0] === '')) {
+      if (from > lastEnd) {
+        return hunks.push(toHunk(a, from - 1, to, [a[from - 1], ...added]));
+      }
+      if (to < a.length) {
+        return hunks.push(toHunk(a, from, to + 1, [...added, a[to]]));
+      }
+    }
+    hunks.push(toHunk(a, from, to, added));
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[start + i] === b[start + j]) {
+      i++;
+      j++;
+      continue;
+    }
+
+    const from = i;
+    const added = [];
+    while ((i < n || j < m) && !(i < n && j < m && a[start + i] === b[start + j])) {
+      if (j >= m || (i < n && lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+        i++;
+      } else {
+        added.push(b[start + j]);
+        j++;
+      }
+    }
+    pushHunk(start + from, start + i, added);
+  }
+
+  return hunks;
+}
+
+/**
+ * Format hunks as a unified diff, merging hunks whose context overlaps
+ * @param {string} filePath - File path for the diff header
+ * @param {string} content - Original file content
+ * @param {Array} hunks - Hunks sorted by startLine
+ * @param {Object} paths - Header paths when the file was added, deleted or renamed (optional)
+ * @param {string|null} paths.from - Original path, null for an added file
+ * @param {string|null} paths.to - New path, null for a deleted file
+ * @returns {string} Unified diff
+ */
+export function formatUnifiedDiff(filePath, content, hunks, paths = {}) {
+  const { from = filePath, to = filePath } = paths;
+  const lines = splitLines(content);
+  const output = [
+    `--- ${from === null ? '/dev/null' : `a/${from}`}`,
+    `+++ ${to === null ? '/dev/null' : `b/${to}`}`
+  ];
+
+  const groups = [];
+  for (const hunk of hunks) {
+    const group = groups[groups.length - 1];
+    if (group && hunk.startLine - group[group.length - 1].endLine <= DIFF_CONTEXT_LINES * 2 + 1) {
+      group.push(hunk);
+    } else {
+      groups.push([hunk]);
+    }
+  }
+
+  let offset = 0;
+  for (const group of groups) {
+    const from = Math.max(1, group[0].startLine - DIFF_CONTEXT_LINES);
+    const to = Math.min(lines.length, group[group.length - 1].endLine + DIFF_CONTEXT_LINES);
+    const body = [];
+    let oldCount = 0;
+    let newCount = 0;
+    let line = from;
+
+    for (const hunk of group) {
+      for (; line < hunk.startLine; line++, oldCount++, newCount++) {
+        body.push(` ${lines[line - 1]}`);
+      }
+      for (const removed of toLines(hunk.oldText)) {
+        body.push(`-${removed}`);
+        oldCount++;
+      }
+      for (const added of toLines(hunk.newText)) {
+        body.push(`+${added}`);
+        newCount++;
+      }
+      line = hunk.endLine + 1;
+    }
+    for (; line <= to; line++, oldCount++, newCount++) {
+      body.push(` ${lines[line - 1]}`);
+    }
+
+    const oldStart = oldCount > 0 ? from : from - 1;
+    const newStart = (newCount > 0 ? from : from - 1) + offset;
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`, ...body);
+    offset += newCount - oldCount;
+  }
+
+  return `${output.join('\n')}\n`;
+}
+
+/**
+ * Check that edits name known files and valid, non-overlapping line ranges
+ */
+function validateEdits(edits, byPath) {
+  const errors = [];
+  const ranges = new Map();
+
+  edits.forEach((edit, index) => {
+    const location = `$.edits[${index}]`;
+    const file = byPath.get(edit.filePath);
+    if (!file) {
+      errors.push(`${location}.filePath: ${edit.filePath} is not one of the provided files`);
+      return;
+    }
+
+    const lineCount = splitLines(file.content).length;
+    if (edit.startLine < 1 || edit.startLine > lineCount + 1) {
+      errors.push(`${location}.startLine: must be between 1 and ${lineCount + 1}`);
+    } else if (edit.endLine < edit.startLine - 1 || edit.endLine > lineCount) {
+      errors.push(`${location}.endLine: must be between ${edit.startLine - 1} and ${lineCount}`);
+    } else {
+      if (!ranges.has(edit.filePath)) ranges.set(edit.filePath, []);
+      ranges.get(edit.filePath).push({ ...edit, index });
+    }
+  });
+
+  for (const fileEdits of ranges.values()) {
+    fileEdits.sort((a, b) => a.startLine - b.startLine);
+    for (let i = 1; i < fileEdits.length; i++) {
+      if (fileEdits[i].startLine <= fileEdits[i - 1].endLine) {
+        errors.push(`$.edits[${fileEdits[i].index}]: overlaps $.edits[${fileEdits[i - 1].index}] in ${fileEdits[i].filePath}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Split content into lines, not counting the empty line after a final newline
+ */
+function splitLines(content) {
+  if (content === '') return [];
+  const lines = content.split('\n');
+  if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Build a hunk replacing lines [from, to) (0-based) of the original
+ */
+function toHunk(lines, from, to, added) {
+  return {
+    startLine: from + 1,
+    endLine: to,
+    oldText: lines.slice(from, to).join('\n'),
+    newText: added.join('\n')
+  };
+}
+
+function toLines(text) {
+  return text === '' ? [] : text.split('\n');
+}
@@ -0,0 +1,17 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Chat and edit sessions, indexes and the usage and redaction logs live here
+const DEFAULT_DATA_DIR = path.join(__dirname, '../../data');
+
+/**
+ * Resolve a path inside the runtime data directory (DATA_DIR)
+ * @param {...string} segments - Path segments below the data directory
+ * @returns {string} Absolute path
+ */
+export function getDataPath(...segments) {
+  return path.resolve(process.env.DATA_DIR || DEFAULT_DATA_DIR, ...segments);
+}
@@ -0,0 +1,381 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { markIndexStale } from './indexService.js';
+import { diffLines, formatUnifiedDiff } from './codeEditService.js';
+import { getDataPath } from './dataDir.js';
+
+// One JSON file per edit session
+const sessionsDir = () => getDataPath('edit-sessions');
+
+// Session files are rewritten in order so concurrent changes are never lost
+let writeQueue = Promise.resolve();
+
+/**
+ * Raised when files touched by a session changed after it, so reverting
+ * would overwrite newer work
+ */
+export class EditSessionConflictError extends Error {
+  /**
+   * @param {string} message - Error message
+   * @param {Array} conflicts - Conflicts of { path, reason }
+   */
+  constructor(message, conflicts = []) {
+    super(message);
+    this.name = 'EditSessionConflictError';
+    this.conflicts = conflicts;
+  }
+}
+
+/**
+ * Start an edit session that groups file changes so they can be reviewed and
+ * reverted together
+ * @param {Object} params - Session parameters
+ * @param {string} params.repoPath - Repository path
+ * @param {string} params.title - What the changes are for
+ * @param {string} params.source - What made the changes (agent, refactor, fix, ...)
+ * @returns {Object} Edit session
+ */
+export async function createEditSession({ repoPath, title, source = 'manual' }) {
+  try {
+    const session = {
+      id: `session_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      repoPath,
+      title: title || 'Untitled changes',
+      source,
+      status: 'open',
+      changes: [],
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      revertedAt: null
+    };
+
+    await enqueue(() => saveSession(session));
+    return session;
+  } catch (error) {
+    console.error('Create edit session error:', error);
+    throw new Error(`Failed to create edit session: ${error.message}`);
+  }
+}
+
+/**
+ * Get an edit session that can still take changes, throwing otherwise.
+ * Writers call this before touching a file so a bad session id fails early.
+ * @param {string} sessionId - Session id
+ * @returns {Object} Edit session
+ */
+export async function requireOpenEditSession(sessionId) {
+  const session = await requireSession(sessionId);
+  if (session.status !== 'open') {
+    throw new Error(`Edit session ${sessionId} has been reverted`);
+  }
+  return session;
+}
+
+/**
+ * Record a file change in an edit session
+ * @param {string} sessionId - Session id
+ * @param {Object} change - Change details
+ * @param {string} change.type - create, update, delete or move
+ * @param {string} change.path - File path (the source path for a move)
+ * @param {string} change.newPath - Destination path of a move
+ * @param {string|Buffer|null} change.before - Content before the change, null if the file did not exist
+ * @param {string|Buffer|null} change.after - Content after the change, null if the file was removed
+ * @returns {Object} Recorded change
+ */
+export function recordFileChange(sessionId, { type, path: filePath, newPath = null, before, after }) {
+  return enqueue(async () => {
+    const session = await requireOpenEditSession(sessionId);
+    const change = {
+      id: `change_${session.changes.length + 1}`,
+      type,
+      path: filePath,
+      newPath,
+      before: encodeContent(before),
+      after: encodeContent(after),
+      timestamp: new Date().toISOString()
+    };
+
+    session.changes.push(change);
+    session.updatedAt = change.timestamp;
+    await saveSession(session);
+    return change;
+  });
+}
+
+/**
+ * List the edit sessions of a repository, newest first
+ * @param {string} repoPath - Repository path
+ * @returns {Array} Session summaries
+ */
+export async function listEditSessions(repoPath) {
+  try {
+    await fs.ensureDir(sessionsDir());
+    const entries = await fs.readdir(sessionsDir());
+    const sessions = [];
+
+    for (const entry of entries.filter(name => name.endsWith('.json'))) {
+      const session = await fs.readJson(path.join(sessionsDir(), entry)).catch(() => null);
+      if (session && path.resolve(session.repoPath) === path.resolve(repoPath)) {
+        sessions.push(summarizeSession(session));
+      }
+    }
+
+    return sessions.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  } catch (error) {
+    console.error('List edit sessions error:', error);
+    throw new Error(`Failed to list edit sessions: ${error.message}`);
+  }
+}
+
+/**
+ * Get an edit session with the net effect of its changes on each file and
+ * their combined unified diff
+ * @param {string} sessionId - Session id
+ * @returns {Object|null} Session summary with changes, files: [{ path, oldPath, status, binary, before, after, diff }]
+ *   and diff; binary files have no content or diff
+ */
+export async function getEditSession(sessionId) {
+  const session = await loadSession(sessionId);
+  if (!session) return null;
+
+  const files = getNetChanges(session).map(file => {
+    if (isBinaryContent(file.before) || isBinaryContent(file.after)) {
+      return { ...file, binary: true, before: null, after: null, diff: '' };
+    }
+    return {
+      ...file,
+      binary: false,
+      diff: formatUnifiedDiff(file.path || file.oldPath, file.before || '', diffLines(file.before || '', file.after || ''), {
+        from: file.oldPath,
+        to: file.path
+      })
+    };
+  });
+
+  return {
+    ...summarizeSession(session),
+    changes: session.changes.map(({ before, after, ...change }) => change),
+    files,
+    diff: files.map(file => file.diff).join('')
+  };
+}
+
+/**
+ * Revert every change of an edit session at once. Files changed after the
+ * session are reported as conflicts unless force is set. If any write fails,
+ * files already restored are put back as they were.
+ * @param {string} sessionId - Session id
+ * @param {Object} options - Revert options
+ * @param {boolean} options.force - Overwrite files changed after the session
+ * @returns {Object} Reverted session summary with the restored and removed paths
+ */
+export async function revertEditSession(sessionId, { force = false } = {}) {
+  return enqueue(async () => {
+    const session = await requireSession(sessionId);
+    if (session.status !== 'open') {
+      throw new Error(`Edit session ${sessionId} has already been reverted`);
+    }
+
+    const files = getNetChanges(session);
+    const fullPath = filePath => path.join(session.repoPath, filePath);
+    const readCurrent = async filePath =>
+      await fs.pathExists(fullPath(filePath)) ? fs.readFile(fullPath(filePath)) : null;
+
+    // Files must still look the way the session left them
+    const conflicts = [];
+    const sessionPaths = new Set(files.map(file => file.path).filter(Boolean));
+    for (const file of files) {
+      if (file.path) {
+        const current = await readCurrent(file.path);
+        if (current === null) {
+          conflicts.push({ path: file.path, reason: 'File was deleted after the session' });
+        } else if (!current.equals(decodeContent(file.after))) {
+          conflicts.push({ path: file.path, reason: 'File was modified after the session' });
+        }
+      }
+      if (file.oldPath && !sessionPaths.has(file.oldPath) && await fs.pathExists(fullPath(file.oldPath))) {
+        conflicts.push({ path: file.oldPath, reason: 'A file was created at this path after the session' });
+      }
+    }
+
+    if (conflicts.length > 0 && !force) {
+      throw new EditSessionConflictError(
+        `${conflicts.length} file(s) changed after this session`,
+        conflicts
+      );
+    }
+
+    // Snapshot every path we are about to touch so a failure can be undone
+    const touched = [...new Set(files.flatMap(file => [file.path, file.oldPath]).filter(Boolean))];
+    const snapshot = new Map();
+    for (const filePath of touched) {
+      snapshot.set(filePath, await readCurrent(filePath));
+    }
+
+    try {
+      for (const file of files.filter(file => file.path)) {
+        await fs.remove(fullPath(file.path));
+        await removeEmptyParents(session.repoPath, file.path);
+      }
+      for (const file of files.filter(file => file.oldPath)) {
+        await fs.ensureDir(path.dirname(fullPath(file.oldPath)));
+        await fs.writeFile(fullPath(file.oldPath), decodeContent(file.before));
+      }
+    } catch (error) {
+      for (const [filePath, content] of snapshot) {
+        await (content === null
+          ? fs.remove(fullPath(filePath))
+          : fs.outputFile(fullPath(filePath), content)
+        ).catch(restoreError => console.error(`Restore ${filePath} error:`, restoreError));
+      }
+      console.error('Revert edit session error:', error);
+      throw new Error(`Failed to revert edit session: ${error.message}`);
+    }
+
+    markIndexStale(session.repoPath);
+    session.status = 'reverted';
+    session.revertedAt = new Date().toISOString();
+    session.updatedAt = session.revertedAt;
+    await saveSession(session);
+
+    return {
+      ...summarizeSession(session),
+      restored: files.filter(file => file.oldPath).map(file => file.oldPath),
+      removed: files.filter(file => file.path && file.path !== file.oldPath).map(file => file.path),
+      conflicts
+    };
+  });
+}
+
+/**
+ * Reduce a session's changes to each file's state before and after the session.
+ * path is where the file is now (null if removed); oldPath is where it was
+ * (null if the session created it).
+ */
+function getNetChanges(session) {
+  const files = new Map();
+  const removed = [];
+
+  const take = (filePath, before) => {
+    const file = files.get(filePath) || { oldPath: filePath, before };
+    files.delete(filePath);
+    return file;
+  };
+
+  for (const change of session.changes) {
+    if (change.type === 'move') {
+      const file = take(change.path, change.before);
+      const replaced = files.get(change.newPath);
+      if (replaced) removed.push({ ...replaced, after: null });
+      files.set(change.newPath, { ...file, after: change.after });
+    } else if (change.type === 'delete') {
+      const file = take(change.path, change.before);
+      if (file.oldPath === null) continue;
+      files.set(change.path, { ...file, after: null });
+    } else {
+      const file = files.get(change.path) || { oldPath: change.before === null ? null : change.path, before: change.before };
+      files.set(change.path, { ...file, after: change.after });
+    }
+  }
+
+  return [
+    ...[...files].map(([filePath, file]) => ({ ...file, path: file.after === null ? null : filePath })),
+    ...removed.map(file => ({ ...file, path: null }))
+  ]
+    .filter(file => file.path !== file.oldPath || !sameContent(file.before, file.after))
+    .map(file => ({
+      path: file.path,
+      oldPath: file.oldPath,
+      status: getStatus(file),
+      before: file.before,
+      after: file.after
+    }));
+}
+
+/**
+ * Content as stored in a session file: text as a string, anything that is not
+ * valid UTF-8 as { base64 } so binary files survive the JSON round trip
+ */
+function encodeContent(content) {
+  if (content === null || content === undefined || typeof content === 'string') return content ?? null;
+  const text = content.toString('utf8');
+  return Buffer.from(text, 'utf8').equals(content) ? text : { base64: content.toString('base64') };
+}
+
+function decodeContent(content) {
+  return typeof content === 'string' ? Buffer.from(content, 'utf8') : Buffer.from(content.base64, 'base64');
+}
+
+function isBinaryContent(content) {
+  return content !== null && typeof content === 'object';
+}
+
+function sameContent(a, b) {
+  if (a === null || b === null) return a === b;
+  return decodeContent(a).equals(decodeContent(b));
+}
+
+/**
+ * Remove directories left empty by a removed file, up to the repository root
+ */
+async function removeEmptyParents(repoPath, filePath) {
+  let dir = path.dirname(filePath);
+  while (dir !== '.' && dir !== path.sep) {
+    const fullDir = path.join(repoPath, dir);
+    if (!await fs.pathExists(fullDir) || (await fs.readdir(fullDir)).length > 0) return;
+    await fs.remove(fullDir);
+    dir = path.dirname(dir);
+  }
+}
+
+function getStatus(file) {
+  if (file.oldPath === null) return 'added';
+  if (file.path === null) return 'deleted';
+  if (file.path !== file.oldPath) return 'renamed';
+  return 'modified';
+}
+
+function summarizeSession(session) {
+  const paths = new Set(session.changes.flatMap(change => [change.path, change.newPath]).filter(Boolean));
+  return {
+    id: session.id,
+    repoPath: session.repoPath,
+    title: session.title,
+    source: session.source,
+    status: session.status,
+    changeCount: session.changes.length,
+    fileCount: paths.size,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    revertedAt: session.revertedAt
+  };
+}
+
+async function loadSession(sessionId) {
+  if (!/^session_[\w-]+$/.test(sessionId || '')) return null;
+  const file = sessionFile(sessionId);
+  return await fs.pathExists(file) ? fs.readJson(file) : null;
+}
+
+async function requireSession(sessionId) {
+  const session = await loadSession(sessionId);
+  if (!session) {
+    throw new Error(`Edit session ${sessionId} not found`);
+  }
+  return session;
+}
+
+async function saveSession(session) {
+  await fs.ensureDir(sessionsDir());
+  await fs.writeJson(sessionFile(session.id), session);
+}
+
+function sessionFile(sessionId) {
+  return path.join(sessionsDir(), `${sessionId}.json`);
+}
+
+function enqueue(task) {
+  const result = writeQueue.then(task);
+  writeQueue = result.catch(() => {});
+  return result;
+}
@@ -0,0 +1,123 @@
+import axios from 'axios';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+
+// Registered embedding providers, keyed by provider id
+const embeddingProviders = new Map();
+
+/**
+ * Register an embedding provider
+ *
+ * A provider is an object with:
+ * - id, name
+ * - batchSize: maximum texts per embed() call
+ * - isConfigured(): whether credentials/endpoints are present
+ * - model(): embedding model name (stored with the index so stale vectors are detected)
+ * - embed(texts): resolves to one vector (number[]) per text
+ *
+ * @param {Object} provider - Embedding provider
+ * @returns {Object} The registered provider
+ */
+export function registerEmbeddingProvider(provider) {
+  if (!provider?.id || typeof provider.embed !== 'function') {
+    throw new Error('Embedding provider must have an id and implement embed()');
+  }
+
+  embeddingProviders.set(provider.id, {
+    batchSize: 32,
+    isConfigured: () => true,
+    model: () => provider.id,
+    ...provider
+  });
+
+  return embeddingProviders.get(provider.id);
+}
+
+/**
+ * Get the embedding provider selected by EMBEDDING_PROVIDER, if it is configured
+ * @param {string} id - Provider id (defaults to EMBEDDING_PROVIDER)
+ * @returns {Object|null} Embedding provider, or null when embeddings are disabled
+ */
+export function getEmbeddingProvider(id = process.env.EMBEDDING_PROVIDER) {
+  if (!id || id === 'none') return null;
+
+  const provider = embeddingProviders.get(id);
+  if (!provider) {
+    throw new Error(`Embedding provider ${id} not registered`);
+  }
+
+  return provider.isConfigured() ? provider : null;
+}
+
+/**
+ * Embed texts in batches
+ * @param {Object} provider - Embedding provider
+ * @param {Array} texts - Texts to embed
+ * @returns {Array} One vector per text
+ */
+export async function embedTexts(provider, texts) {
+  try {
+    const vectors = [];
+    for (let i = 0; i < texts.length; i += provider.batchSize) {
+      vectors.push(...await provider.embed(texts.slice(i, i + provider.batchSize)));
+    }
+    return vectors;
+  } catch (error) {
+    console.error(`Embedding error for provider ${provider.id}:`, error);
+    throw new Error(`Failed to embed texts: ${error.message}`);
+  }
+}
+
+/**
+ * Cosine similarity of two vectors
+ */
+export function cosineSimilarity(a, b) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+// Built-in embedding providers
+registerEmbeddingProvider({
+  id: 'gemini',
+  name: 'Google Gemini Embeddings',
+  batchSize: 100,
+  isConfigured: () => !!process.env.GEMINI_API_KEY,
+  model: () => process.env.GEMINI_EMBEDDING_MODEL || 'text-embedding-004',
+  async embed(texts) {
+    const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
+    const model = genAI.getGenerativeModel({ model: this.model() });
+    const result = await model.batchEmbedContents({
+      requests: texts.map(text => ({ content: { role: 'user', parts: [{ text }] } }))
+    });
+    return result.embeddings.map(embedding => embedding.values);
+  }
+});
+
+registerEmbeddingProvider({
+  id: 'openai-compatible',
+  name: 'OpenAI-Compatible Embeddings',
+  batchSize: 64,
+  isConfigured: () => !!process.env.OPENAI_COMPATIBLE_BASE_URL && !!process.env.OPENAI_COMPATIBLE_EMBEDDING_MODEL,
+  model: () => process.env.OPENAI_COMPATIBLE_EMBEDDING_MODEL,
+  async embed(texts) {
+    const apiKey = process.env.OPENAI_COMPATIBLE_API_KEY;
+    const response = await axios.post(`${process.env.OPENAI_COMPATIBLE_BASE_URL}/embeddings`, {
+      model: this.model(),
+      input: texts
+    }, {
+      headers: {
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+        'Content-Type': 'application/json'
+      }
+    });
+    return response.data.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+});
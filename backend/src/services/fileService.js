@@ -1,6 +1,9 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { glob } from 'glob';
+import { markIndexStale } from './indexService.js';
+import { requireOpenEditSession, recordFileChange } from './editSessionService.js';
+import { diffLines, formatUnifiedDiff } from './codeEditService.js';
 
 /**
  * Search files in repository
@@ -126,17 +129,59 @@ export async function getFileStats(repoPath, filePath) {
   }
 }
 
+/**
+ * Compare proposed content with a file on disk, as hunks that can be reviewed
+ * and applied like AI code edits. A missing file compares as empty.
+ * @param {string} repoPath - Repository path
+ * @param {string} filePath - File path
+ * @param {string} content - Proposed file content
+ * @returns {Object} { path, exists, originalContent, newContent, hunks, diff }
+ */
+export async function compareFile(repoPath, filePath, content) {
+  try {
+    const fullPath = path.resolve(repoPath, filePath);
+    const relative = path.relative(path.resolve(repoPath), fullPath);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error('Path is outside the repository');
+    }
+
+    const exists = await fs.pathExists(fullPath);
+    const originalContent = exists ? await fs.readFile(fullPath, 'utf8') : '';
+    const hunks = diffLines(originalContent, content).map((hunk, index) => ({
+      id: `hunk_${index + 1}`,
+      ...hunk,
+      explanation: describeHunk(hunk)
+    }));
+
+    return {
+      path: filePath,
+      exists,
+      originalContent,
+      newContent: content,
+      hunks,
+      diff: formatUnifiedDiff(filePath, originalContent, hunks, exists ? {} : { from: null })
+    };
+  } catch (error) {
+    console.error('Compare file error:', error);
+    throw new Error(`Failed to compare file: ${error.message}`);
+  }
+}
+
 /**
  * Create a new file
  * @param {string} repoPath - Repository path
  * @param {string} filePath - File path
  * @param {string} content - File content
  * @param {string} token - GitHub token
+ * @param {Object} options - Creation options
+ * @param {string} options.sessionId - Edit session to record the change in (optional)
  * @returns {Object} Creation result
  */
-export async function createFile(repoPath, filePath, content = '', token) {
+export async function createFile(repoPath, filePath, content = '', token, options = {}) {
   try {
+    const { sessionId } = options;
     const fullPath = path.join(repoPath, filePath);
+    if (sessionId) await requireOpenEditSession(sessionId);
     
     // Check if file already exists
     if (await fs.pathExists(fullPath)) {
@@ -150,6 +195,11 @@ export async function createFile(repoPath, filePath, content = '', token) {
     await fs.writeFile(fullPath, content, 'utf8');
     
     const stats = await fs.stat(fullPath);
+    markIndexStale(repoPath);
+
+    if (sessionId) {
+      await recordFileChange(sessionId, { type: 'create', path: filePath, before: null, after: content });
+    }
     
     return {
       path: filePath,
@@ -168,10 +218,13 @@ export async function createFile(repoPath, filePath, content = '', token) {
  * @param {string} repoPath - Repository path
  * @param {string} filePath - File path
  * @param {string} token - GitHub token
+ * @param {Object} options - Deletion options
+ * @param {string} options.sessionId - Edit session to record the change in (optional)
  * @returns {Object} Deletion result
  */
-export async function deleteFile(repoPath, filePath, token) {
+export async function deleteFile(repoPath, filePath, token, options = {}) {
   try {
+    const { sessionId } = options;
     const fullPath = path.join(repoPath, filePath);
     
     if (!await fs.pathExists(fullPath)) {
@@ -179,9 +232,16 @@ export async function deleteFile(repoPath, filePath, token) {
     }
     
     const stats = await fs.stat(fullPath);
+    if (sessionId) await requireOpenEditSession(sessionId);
+    const before = sessionId ? await fs.readFile(fullPath) : null;
     
     // Delete file
     await fs.remove(fullPath);
+    markIndexStale(repoPath);
+
+    if (sessionId) {
+      await recordFileChange(sessionId, { type: 'delete', path: filePath, before, after: null });
+    }
     
     return {
       path: filePath,
@@ -201,10 +261,13 @@ export async function deleteFile(repoPath, filePath, token) {
  * @param {string} oldPath - Old file path
  * @param {string} newPath - New file path
  * @param {string} token - GitHub token
+ * @param {Object} options - Move options
+ * @param {string} options.sessionId - Edit session to record the change in (optional)
  * @returns {Object} Move result
  */
-export async function moveFile(repoPath, oldPath, newPath, token) {
+export async function moveFile(repoPath, oldPath, newPath, token, options = {}) {
   try {
+    const { sessionId } = options;
     const oldFullPath = path.join(repoPath, oldPath);
     const newFullPath = path.join(repoPath, newPath);
     
@@ -216,11 +279,19 @@ export async function moveFile(repoPath, oldPath, newPath, token) {
       throw new Error('Destination file already exists');
     }
     
+    if (sessionId) await requireOpenEditSession(sessionId);
+    const content = sessionId ? await fs.readFile(oldFullPath) : null;
+    
     // Ensure destination directory exists
     await fs.ensureDir(path.dirname(newFullPath));
     
     // Move file
     await fs.move(oldFullPath, newFullPath);
+    markIndexStale(repoPath);
+
+    if (sessionId) {
+      await recordFileChange(sessionId, { type: 'move', path: oldPath, newPath, before: content, after: content });
+    }
     
     const stats = await fs.stat(newFullPath);
     
@@ -345,4 +416,19 @@ export async function getFileTree(repoPath, dirPath = '') {
     console.error('Get file tree error:', error);
     throw new Error(`Failed to get file tree: ${error.message}`);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Summarise a hunk for the review list, e.g. "Replace 3 lines with 5"
+ */
+function describeHunk(hunk) {
+  const count = text => (text === '' ? 0 : text.split('\n').length);
+  const lines = n => `${n} line${n === 1 ? '' : 's'}`;
+  const removed = count(hunk.oldText);
+  const added = count(hunk.newText);
+
+  if (removed === 0) return `Add ${lines(added)}`;
+  if (added === 0) return `Remove ${lines(removed)}`;
+  if (added === removed) return `Change ${lines(removed)}`;
+  return `Replace ${lines(removed)} with ${added}`;
+}
@@ -1,8 +1,49 @@
-import { clone, log, add, commit, push, pull, listBranches, listFiles, readBlob } from 'isomorphic-git';
+import {
+  clone,
+  log,
+  add,
+  remove,
+  commit,
+  push,
+  fetch,
+  merge,
+  checkout,
+  branch,
+  deleteBranch as deleteLocalBranch,
+  renameBranch as renameLocalBranch,
+  deleteRef,
+  currentBranch,
+  resolveRef,
+  readCommit,
+  findMergeBase,
+  isDescendent,
+  statusMatrix,
+  walk,
+  writeRef,
+  writeBlob,
+  updateIndex,
+  resetIndex,
+  expandOid,
+  isIgnored,
+  TREE,
+  STAGE,
+  WORKDIR,
+  getConfig,
+  setConfig,
+  listBranches,
+  listFiles,
+  readBlob,
+  readTree
+} from 'isomorphic-git';
 import http from 'isomorphic-git/http/node';
+import diff3Merge from 'diff3';
+import crypto from 'crypto';
 import fs from 'fs-extra';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { markIndexStale } from './indexService.js';
+import { applyHunks, diffLines, formatUnifiedDiff } from './codeEditService.js';
+import { requireOpenEditSession, recordFileChange } from './editSessionService.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -13,131 +54,1564 @@ const REPOS_DIR = path.join(__dirname, '../../repos');
 // Ensure repos directory exists
 fs.ensureDirSync(REPOS_DIR);
 
+const COMMIT_AUTHOR = {
+  name: 'Winky-Coder',
+  email: 'winky-coder@example.com'
+};
+
+const PULL_STRATEGIES = ['ff-only', 'merge', 'rebase'];
+
+// Incoming commits listed in a pull result
+const MAX_PULLED_COMMITS = 50;
+
+// Diff sides that are not refs: the staging area and the working tree
+const DIFF_INDEX = 'index';
+const DIFF_WORKDIR = 'workdir';
+
+// Commits walked per side when counting how far branches are ahead or behind
+const MAX_COMPARED_COMMITS = 5000;
+
+// Ahead and behind commits listed in a branch comparison
+const MAX_COMPARE_COMMITS = 50;
+
+// Commits per page of a log
+const DEFAULT_LOG_LIMIT = 50;
+
+// Commits fetched per request when deepening a shallow clone
+const DEFAULT_DEEPEN_DEPTH = 100;
+
+// Git's id for a tree with nothing in it; root and shallow boundary commits are diffed against it
+const EMPTY_TREE_OID = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+/**
+ * Raised when a pull cannot start: local changes would be overwritten, a
+ * merge is unfinished, HEAD is detached or the branches diverged under ff-only
+ */
+export class GitPullError extends Error {
+  /**
+   * @param {string} message - Error message
+   * @param {string} reason - 'local-changes' | 'merge-in-progress' | 'detached-head' | 'diverged' | 'local-merges'
+   * @param {Array} files - Files the reason applies to
+   */
+  constructor(message, reason, files = []) {
+    super(message);
+    this.name = 'GitPullError';
+    this.reason = reason;
+    this.files = files;
+  }
+}
+
+/**
+ * Import a GitHub repository
+ * @param {string} repoUrl - GitHub repository URL
+ * @param {string} token - GitHub personal access token
+ * @param {string} branch - Branch to clone
+ * @returns {Object} Repository information
+ */
+export async function importRepository(repoUrl, token, branch = 'main') {
+  try {
+    // Extract repo name from URL
+    const repoName = repoUrl.split('/').pop().replace('.git', '');
+    const repoPath = path.join(REPOS_DIR, repoName);
+    
+    // Remove existing directory if it exists
+    if (await fs.pathExists(repoPath)) {
+      await fs.remove(repoPath);
+    }
+
+    // Clone repository
+    await clone({
+      fs,
+      http,
+      dir: repoPath,
+      url: repoUrl,
+      ref: branch,
+      depth: 1,
+      onAuth: () => ({
+        username: token,
+        password: 'x-oauth-basic'
+      })
+    });
+
+    // Get repository info
+    const branches = await listBranches({ fs, dir: repoPath });
+    const files = await listFiles({ fs, dir: repoPath });
+
+    return {
+      name: repoName,
+      path: repoPath,
+      url: repoUrl,
+      branch,
+      branches: branches.map(b => b.replace('refs/heads/', '')),
+      fileCount: files.length,
+      importedAt: new Date().toISOString()
+    };
+  } catch (error) {
+    console.error('Import repository error:', error);
+    throw new Error(`Failed to import repository: ${error.message}`);
+  }
+}
+
+/**
+ * Commit changes and push them, unless options.push is false.
+ * Listed files are staged whole (deleted files are removed) unless they
+ * already have staged changes, which are committed as staged so that hunks
+ * staged on their own are not widened to the whole file. Only listed files
+ * are committed; changes staged to other files stay staged. While a merge is
+ * being concluded listed files are always staged and the whole index is
+ * committed.
+ * @param {string} repoPath - Repository path
+ * @param {string} message - Commit message
+ * @param {Array} files - Array of file changes
+ * @param {string} token - GitHub token
+ * @param {Object} options - Commit options
+ * @param {boolean} options.push - Push after committing (default true)
+ * @returns {Object} Commit result: { commitHash, message, files, pushed, pushedAt }
+ */
+export async function commitChanges(repoPath, message, files, token, options = {}) {
+  const { push: shouldPush = true } = options;
+
+  try {
+    // Add files to staging; during a merge they are always staged, which marks their conflicts resolved
+    const mergeHead = await readGitFile(repoPath, 'MERGE_HEAD');
+    const paths = files.map(file => file.path);
+    const matrix = paths.length > 0 ? await statusMatrix({ fs, dir: repoPath, filepaths: paths }) : [];
+    for (const [filePath, head, workdir, stage] of matrix) {
+      if (paths.includes(filePath) && (mergeHead || !getStagedChange(head, workdir, stage))) {
+        await stageFile(repoPath, filePath);
+      }
+    }
+
+    // Changes staged to files that were not listed are left out of the commit and staged again after it
+    const held = mergeHead ? [] : await holdStagedChanges(repoPath, paths);
+    let commitHash;
+    try {
+      if (!mergeHead && !await hasStagedChanges(repoPath)) {
+        throw new Error('Nothing to commit; stage some changes first');
+      }
+
+      // Commit changes; a merge left with conflicts by a pull is concluded with both parents
+      commitHash = await commit({
+        fs,
+        dir: repoPath,
+        author: COMMIT_AUTHOR,
+        message,
+        ...(mergeHead ? { parent: [await resolveRef({ fs, dir: repoPath, ref: 'HEAD' }), mergeHead] } : {})
+      });
+    } finally {
+      await restoreStagedChanges(repoPath, held);
+    }
+    if (mergeHead) {
+      await clearMergeState(repoPath);
+    }
+
+    // Push changes
+    if (shouldPush) {
+      await push({
+        fs,
+        http,
+        dir: repoPath,
+        onAuth: () => ({
+          username: token,
+          password: 'x-oauth-basic'
+        })
+      });
+    }
+
+    return {
+      commitHash,
+      message,
+      files: files.map(f => f.path),
+      pushed: shouldPush,
+      pushedAt: shouldPush ? new Date().toISOString() : null
+    };
+  } catch (error) {
+    console.error('Commit changes error:', error);
+    throw new Error(`Failed to commit changes: ${error.message}`);
+  }
+}
+
+/**
+ * Push the current branch to origin
+ * @param {string} repoPath - Repository path
+ * @param {string} token - GitHub token
+ * @returns {Object} Push result: { branch, head, pushedAt }
+ */
+export async function pushChanges(repoPath, token) {
+  try {
+    const branch = await currentBranch({ fs, dir: repoPath });
+    if (!branch) {
+      throw new Error('HEAD is detached; check out a branch before pushing');
+    }
+
+    await push({
+      fs,
+      http,
+      dir: repoPath,
+      ref: branch,
+      onAuth: () => ({
+        username: token,
+        password: 'x-oauth-basic'
+      })
+    });
+
+    return {
+      branch,
+      head: await resolveRef({ fs, dir: repoPath, ref: 'HEAD' }),
+      pushedAt: new Date().toISOString()
+    };
+  } catch (error) {
+    console.error('Push changes error:', error);
+    throw new Error(`Failed to push changes: ${error.message}`);
+  }
+}
+
+/**
+ * Stage files, or only some of their hunks
+ * @param {string} repoPath - Repository path
+ * @param {Array} files - Files of { path, hunks (optional) }, where hunks are ids from the
+ *   index-to-workdir diff of the file; without hunks the whole file is staged
+ * @returns {Array} Paths staged
+ */
+export async function stageChanges(repoPath, files) {
+  try {
+    for (const file of files) {
+      if (!file.hunks) {
+        await stageFile(repoPath, file.path);
+        continue;
+      }
+
+      const fileDiff = await getFileDiff(repoPath, DIFF_INDEX, DIFF_WORKDIR, file.path);
+      const selected = selectHunks(fileDiff, file.hunks);
+      if (selected.length === fileDiff.hunks.length) {
+        await stageFile(repoPath, file.path);
+      } else if (selected.length > 0) {
+        await writeIndexContent(repoPath, file.path, applyHunks(fileDiff.originalContent, selected));
+      }
+    }
+    return files.map(file => file.path);
+  } catch (error) {
+    console.error('Stage changes error:', error);
+    throw new Error(`Failed to stage changes: ${error.message}`);
+  }
+}
+
+/**
+ * Unstage files, or only some of their hunks, leaving the working tree as it is
+ * @param {string} repoPath - Repository path
+ * @param {Array} files - Files of { path, hunks (optional) }, where hunks are ids from the
+ *   HEAD-to-index diff of the file; without hunks the whole file is unstaged
+ * @returns {Array} Paths unstaged
+ */
+export async function unstageChanges(repoPath, files) {
+  try {
+    for (const file of files) {
+      if (!file.hunks) {
+        await resetIndex({ fs, dir: repoPath, filepath: file.path });
+        continue;
+      }
+
+      // The index keeps the staged hunks that were not picked
+      const fileDiff = await getFileDiff(repoPath, 'HEAD', DIFF_INDEX, file.path);
+      const selected = selectHunks(fileDiff, file.hunks);
+      const kept = fileDiff.hunks.filter(hunk => !selected.includes(hunk));
+      if (kept.length === 0) {
+        await resetIndex({ fs, dir: repoPath, filepath: file.path });
+      } else if (selected.length > 0) {
+        await writeIndexContent(repoPath, file.path, applyHunks(fileDiff.originalContent, kept));
+      }
+    }
+    return files.map(file => file.path);
+  } catch (error) {
+    console.error('Unstage changes error:', error);
+    throw new Error(`Failed to unstage changes: ${error.message}`);
+  }
+}
+
+/**
+ * Stage a file's working-tree content, or its deletion
+ */
+async function stageFile(repoPath, filePath) {
+  if (await fs.pathExists(path.join(repoPath, filePath))) {
+    await add({ fs, dir: repoPath, filepath: filePath });
+  } else {
+    await remove({ fs, dir: repoPath, filepath: filePath });
+  }
+}
+
+async function writeIndexContent(repoPath, filePath, content) {
+  const oid = await writeBlob({ fs, dir: repoPath, blob: Buffer.from(content, 'utf8') });
+  await updateIndex({ fs, dir: repoPath, filepath: filePath, oid, add: true });
+}
+
+/**
+ * Reset the index entries of staged files outside filePaths to HEAD,
+ * returning their staged entries ({ filePath, oid, mode }, with a null oid
+ * for a staged deletion)
+ */
+async function holdStagedChanges(repoPath, filePaths) {
+  const matrix = await statusMatrix({ fs, dir: repoPath });
+  const heldPaths = matrix
+    .filter(([filePath, head, workdir, stage]) => !filePaths.includes(filePath) && getStagedChange(head, workdir, stage))
+    .map(([filePath]) => filePath);
+  if (heldPaths.length === 0) return [];
+
+  const entries = await walk({
+    fs,
+    dir: repoPath,
+    trees: [STAGE()],
+    map: async (filePath, [entry]) => {
+      if (!heldPaths.includes(filePath) || await entry.type() !== 'blob') return undefined;
+      return { filePath, oid: await entry.oid(), mode: await entry.mode() };
+    }
+  });
+
+  const held = heldPaths.map(filePath => entries.find(entry => entry.filePath === filePath) || { filePath, oid: null });
+  for (const { filePath } of held) {
+    await resetIndex({ fs, dir: repoPath, filepath: filePath });
+  }
+  return held;
+}
+
+/**
+ * Put index entries taken out by holdStagedChanges back
+ */
+async function restoreStagedChanges(repoPath, held) {
+  for (const { filePath, oid, mode } of held) {
+    if (oid) {
+      await updateIndex({ fs, dir: repoPath, filepath: filePath, oid, mode, add: true });
+    } else {
+      await updateIndex({ fs, dir: repoPath, filepath: filePath, remove: true, force: true });
+    }
+  }
+}
+
+async function hasStagedChanges(repoPath) {
+  const matrix = await statusMatrix({ fs, dir: repoPath });
+  return matrix.some(([, head, workdir, stage]) => getStagedChange(head, workdir, stage));
+}
+
+/**
+ * The diff of one file, with its content, for staging hunks
+ */
+async function getFileDiff(repoPath, from, to, filePath) {
+  const { files } = await getDiff(repoPath, { from, to, filePath, includeContent: true });
+  const fileDiff = files.find(file => file.path === filePath);
+  if (!fileDiff) {
+    throw new Error(`${filePath} has no changes to stage or unstage`);
+  }
+  if (fileDiff.binary) {
+    throw new Error(`${filePath} is binary; stage or unstage the whole file`);
+  }
+  return fileDiff;
+}
+
+function selectHunks(fileDiff, hunkIds) {
+  const unknown = hunkIds.filter(id => !fileDiff.hunks.some(hunk => hunk.id === id));
+  if (unknown.length > 0) {
+    throw new Error(`${fileDiff.path} changed since its diff was loaded; unknown hunks ${unknown.join(', ')}`);
+  }
+  return fileDiff.hunks.filter(hunk => hunkIds.includes(hunk.id));
+}
+
+/**
+ * Pull the current branch from origin.
+ *
+ * Strategies:
+ * - 'ff-only': only fast-forward; fails when local commits diverged
+ * - 'merge' (default): fast-forward, or merge upstream with a merge commit
+ * - 'rebase': fast-forward, or replay local commits on top of upstream
+ *
+ * Conflicting files are written with standard conflict markers and listed in
+ * the result. A conflicted merge is concluded by the next commit, which gets
+ * both parents. A rebase never leaves the branch half replayed: when a local
+ * commit conflicts, the branch goes back to its original head and upstream is
+ * merged instead (strategy 'merge', rebaseConflictAt naming that commit). A
+ * rebase refuses local merge commits, whose merged-in work it would drop.
+ *
+ * @param {string} repoPath - Repository path
+ * @param {string} token - GitHub token
+ * @param {Object} options - Pull options
+ * @param {string} options.strategy - 'ff-only' | 'merge' | 'rebase'
+ * @returns {Object} Pull result: { branch, strategy, status ('up-to-date' | 'fast-forward' | 'merged' |
+ *   'rebased' | 'conflicts'), previousHead, head, upstream, commits, files, conflicts, rebaseConflictAt, pulledAt }
+ */
+export async function pullChanges(repoPath, token, options = {}) {
+  const { strategy = 'merge' } = options;
+
+  try {
+    if (!PULL_STRATEGIES.includes(strategy)) {
+      throw new Error(`Unknown pull strategy ${strategy}; use ${PULL_STRATEGIES.join(', ')}`);
+    }
+
+    const branch = await currentBranch({ fs, dir: repoPath });
+    if (!branch) {
+      throw new GitPullError('HEAD is detached; check out a branch before pulling', 'detached-head');
+    }
+    if (await readGitFile(repoPath, 'MERGE_HEAD')) {
+      throw new GitPullError('A merge is in progress; resolve its conflicts and commit before pulling', 'merge-in-progress');
+    }
+
+    const localChanges = await getLocalChanges(repoPath);
+    if (localChanges.tracked.length > 0) {
+      throw new GitPullError(
+        `Commit or discard your changes before pulling: ${localChanges.tracked.join(', ')}`,
+        'local-changes',
+        localChanges.tracked
+      );
+    }
+
+    const url = await getConfig({ fs, dir: repoPath, path: 'remote.origin.url' });
+    await fetch({
+      fs,
+      http,
+      dir: repoPath,
+      remote: 'origin',
+      ref: branch,
+      singleBranch: true,
+      onAuth: () => ({
+        username: token,
+        password: 'x-oauth-basic'
+      })
+    });
+
+    const remoteRef = `refs/remotes/origin/${branch}`;
+    const ours = await resolveRef({ fs, dir: repoPath, ref: 'HEAD' });
+    const theirs = await resolveRef({ fs, dir: repoPath, ref: remoteRef });
+    const result = {
+      branch,
+      strategy,
+      status: 'up-to-date',
+      previousHead: ours,
+      head: ours,
+      upstream: theirs,
+      commits: [],
+      files: [],
+      conflicts: [],
+      rebaseConflictAt: null,
+      pulledAt: new Date().toISOString()
+    };
+
+    if (ours === theirs || await isDescendent({ fs, dir: repoPath, oid: ours, ancestor: theirs })) {
+      return result;
+    }
+
+    const [base] = await findMergeBase({ fs, dir: repoPath, oids: [ours, theirs] });
+    if (!base) {
+      throw new Error(`${branch} and origin/${branch} share no history in this clone`);
+    }
+
+    result.commits = (await listCommitsSince(repoPath, theirs, base, MAX_PULLED_COMMITS)).map(summarizeCommit);
+    result.files = await listChangedFiles(repoPath, base, theirs);
+
+    // Files the pull would add must not clobber untracked work
+    const clobbered = localChanges.untracked.filter(file => result.files.some(change => change.path === file));
+    if (clobbered.length > 0) {
+      throw new GitPullError(
+        `Move or remove these untracked files before pulling: ${clobbered.join(', ')}`,
+        'local-changes',
+        clobbered
+      );
+    }
+
+    if (base === ours) {
+      await merge({ fs, dir: repoPath, ours: branch, theirs: remoteRef, fastForwardOnly: true });
+      await checkout({ fs, dir: repoPath, ref: branch });
+      result.status = 'fast-forward';
+    } else if (strategy === 'ff-only') {
+      throw new GitPullError(
+        `${branch} and origin/${branch} have diverged; pull with merge or rebase`,
+        'diverged'
+      );
+    } else if (strategy === 'merge') {
+      Object.assign(result, await mergeUpstream(repoPath, branch, remoteRef, theirs, `Merge branch '${branch}' of ${url}`));
+    } else {
+      const rebased = await rebaseOnto(repoPath, branch, ours, theirs, base);
+      Object.assign(result, rebased.status === 'conflicts'
+        ? {
+          ...await mergeUpstream(repoPath, branch, remoteRef, theirs, `Merge branch '${branch}' of ${url}`),
+          strategy: 'merge',
+          rebaseConflictAt: rebased.conflictAt
+        }
+        : rebased);
+    }
+
+    result.head = await resolveRef({ fs, dir: repoPath, ref: 'HEAD' });
+    markIndexStale(repoPath);
+    return result;
+  } catch (error) {
+    console.error('Pull changes error:', error);
+    if (error instanceof GitPullError) throw error;
+    throw new Error(`Failed to pull changes: ${error.message}`);
+  }
+}
+
+/**
+ * Merge upstream into the branch. On conflict the merge result, with conflict
+ * markers, is left in the working tree and MERGE_HEAD records upstream.
+ */
+async function mergeUpstream(repoPath, branch, remoteRef, theirs, message) {
+  try {
+    await merge({
+      fs,
+      dir: repoPath,
+      ours: branch,
+      theirs: remoteRef,
+      message,
+      author: COMMIT_AUTHOR,
+      abortOnConflict: false
+    });
+    await checkout({ fs, dir: repoPath, ref: branch });
+    return { status: 'merged' };
+  } catch (error) {
+    if (error.code !== 'MergeConflictError') throw error;
+
+    const { filepaths, deleteByUs, deleteByTheirs } = error.data;
+    await fs.writeFile(path.join(repoPath, '.git', 'MERGE_HEAD'), `${theirs}\n`);
+    await fs.writeFile(path.join(repoPath, '.git', 'MERGE_MSG'), `${message}\n`);
+
+    const conflicts = [];
+    for (const filePath of filepaths) {
+      const type = deleteByUs.includes(filePath)
+        ? 'deleted-locally'
+        : deleteByTheirs.includes(filePath) ? 'deleted-upstream' : 'both-modified';
+      conflicts.push({ path: filePath, type, markers: await countConflictMarkers(repoPath, filePath) });
+    }
+    return { status: 'conflicts', conflicts };
+  }
+}
+
+/**
+ * Replay local commits on top of upstream. At the first commit that conflicts
+ * the branch is reset to its original head and { status: 'conflicts',
+ * conflictAt } is returned, so the caller can merge instead.
+ */
+async function rebaseOnto(repoPath, branch, ours, theirs, base) {
+  const local = (await listCommitsSince(repoPath, ours, base)).reverse();
+
+  // Replaying only first parents would drop whatever a local merge brought in
+  const merges = local.filter(entry => entry.parents.length > 1);
+  if (merges.length > 0) {
+    throw new GitPullError(
+      `${branch} has local merge commits that a rebase would drop; pull with merge instead: ` +
+        merges.map(entry => `${entry.oid.slice(0, 7)} ${entry.subject}`).join(', '),
+      'local-merges'
+    );
+  }
+
+  // ORIG_HEAD keeps the original commits reachable, as git rebase does
+  await fs.writeFile(path.join(repoPath, '.git', 'ORIG_HEAD'), `${ours}\n`);
+  await resetBranch(repoPath, branch, theirs);
+
+  for (const entry of local) {
+    const head = await resolveRef({ fs, dir: repoPath, ref: 'HEAD' });
+    const { commit: original } = await readCommit({ fs, dir: repoPath, oid: entry.oid });
+    const changes = await listChangedFiles(repoPath, entry.parents[0], entry.oid);
+    let conflicted = false;
+
+    for (const change of changes) {
+      const [baseContent, localContent, upstreamContent] = await Promise.all([
+        readContentAt(repoPath, entry.parents[0], change.path),
+        readContentAt(repoPath, entry.oid, change.path),
+        readContentAt(repoPath, head, change.path)
+      ]);
+      const merged = mergeContents(baseContent, upstreamContent, localContent, 'HEAD', entry.oid.slice(0, 7));
+      if (merged.conflict) {
+        conflicted = true;
+        break;
+      }
+
+      const fullPath = path.join(repoPath, change.path);
+      if (merged.content === null) {
+        await fs.remove(fullPath);
+        await remove({ fs, dir: repoPath, filepath: change.path });
+      } else {
+        await fs.ensureDir(path.dirname(fullPath));
+        await fs.writeFile(fullPath, merged.content);
+        await add({ fs, dir: repoPath, filepath: change.path });
+      }
+    }
+
+    if (conflicted) {
+      await resetBranch(repoPath, branch, ours);
+      return { status: 'conflicts', conflictAt: summarizeCommit(entry) };
+    }
+
+    await commit({
+      fs,
+      dir: repoPath,
+      message: original.message,
+      author: original.author,
+      committer: COMMIT_AUTHOR
+    });
+  }
+
+  return { status: 'rebased' };
+}
+
+/**
+ * Point a branch at a commit and check it out, replacing the working tree
+ */
+async function resetBranch(repoPath, branch, oid) {
+  await writeRef({ fs, dir: repoPath, ref: `refs/heads/${branch}`, value: oid, force: true });
+  await checkout({ fs, dir: repoPath, ref: branch, force: true });
+}
+
+/**
+ * Three-way merge of one file's content (null = absent)
+ * @returns {Object} { content, conflict: type or null, markers }
+ */
+function mergeContents(base, ours, theirs, ourLabel, theirLabel) {
+  if (equalContent(ours, theirs)) return { content: ours, conflict: null, markers: 0 };
+  if (equalContent(base, ours)) return { content: theirs, conflict: null, markers: 0 };
+  if (equalContent(base, theirs)) return { content: ours, conflict: null, markers: 0 };
+
+  if (ours === null) return { content: theirs, conflict: 'deleted-upstream', markers: 0 };
+  if (theirs === null) return { content: ours, conflict: 'deleted-locally', markers: 0 };
+
+  const type = base === null ? 'both-added' : 'both-modified';
+  if (isBinary(ours) || isBinary(theirs) || (base && isBinary(base))) {
+    return { content: ours, conflict: type, markers: 0 };
+  }
+
+  const lines = content => content.toString('utf8').match(/[^\n]*\n|[^\n]+$/g) || [];
+  let text = '';
+  let markers = 0;
+  for (const region of diff3Merge(lines(ours), lines(base || Buffer.alloc(0)), lines(theirs))) {
+    if (region.ok) {
+      text += region.ok.join('');
+    } else {
+      markers++;
+      const side = hunk => hunk.join('') + (hunk.length && !hunk[hunk.length - 1].endsWith('\n') ? '\n' : '');
+      text += `<<<<<<< ${ourLabel}\n${side(region.conflict.a)}=======\n${side(region.conflict.b)}>>>>>>> ${theirLabel}\n`;
+    }
+  }
+
+  return { content: Buffer.from(text, 'utf8'), conflict: markers > 0 ? type : null, markers };
+}
+
+function equalContent(a, b) {
+  if (a === null || b === null) return a === b;
+  return a.equals(b);
+}
+
+function isBinary(content) {
+  return content.subarray(0, 8000).includes(0);
+}
+
+/**
+ * Tracked files with uncommitted (staged or unstaged) changes, and untracked files
+ */
+async function getLocalChanges(repoPath) {
+  const matrix = await statusMatrix({ fs, dir: repoPath });
+  const tracked = [];
+  const untracked = [];
+
+  for (const [filePath, head, workdir, stage] of matrix) {
+    if (head === 0 && stage === 0) {
+      untracked.push(filePath);
+    } else if (head !== 1 || workdir !== 1 || stage !== 1) {
+      tracked.push(filePath);
+    }
+  }
+
+  return { tracked, untracked };
+}
+
+/**
+ * Commits reachable from tip along first parents, back to (not including) stop
+ */
+async function listCommitsSince(repoPath, tip, stop, limit = Infinity) {
+  const commits = [];
+  let oid = tip;
+
+  while (oid && oid !== stop && commits.length < limit) {
+    const { commit: entry } = await readCommit({ fs, dir: repoPath, oid });
+    commits.push({
+      oid,
+      subject: entry.message.split('\n')[0],
+      message: entry.message,
+      author: entry.author.name,
+      date: new Date(entry.author.timestamp * 1000).toISOString(),
+      parents: entry.parent
+    });
+    oid = entry.parent[0];
+  }
+
+  return commits;
+}
+
+function summarizeCommit({ oid, subject, author, date }) {
+  return { oid, subject, author, date };
+}
+
+/**
+ * Files that differ between two commits, as { path, type: 'added' | 'modified' | 'deleted' }
+ */
+async function listChangedFiles(repoPath, fromOid, toOid) {
+  const changes = await walk({
+    fs,
+    dir: repoPath,
+    trees: [TREE({ ref: fromOid }), TREE({ ref: toOid })],
+    map: async (filePath, [before, after]) => {
+      if (filePath === '.') return undefined;
+
+      const [beforeType, afterType] = await Promise.all([before?.type(), after?.type()]);
+      if (beforeType === 'tree' || afterType === 'tree') return undefined;
+
+      const [beforeOid, afterOid] = await Promise.all([before?.oid(), after?.oid()]);
+      if (beforeOid === afterOid) return undefined;
+
+      return { path: filePath, type: !before ? 'added' : !after ? 'deleted' : 'modified' };
+    }
+  });
+
+  return changes.filter(Boolean);
+}
+
+async function readContentAt(repoPath, oid, filePath) {
+  try {
+    const { blob } = await readBlob({ fs, dir: repoPath, oid, filepath: filePath });
+    return Buffer.from(blob);
+  } catch (error) {
+    if (error.code === 'NotFoundError') return null;
+    throw error;
+  }
+}
+
+async function countConflictMarkers(repoPath, filePath) {
+  const fullPath = path.join(repoPath, filePath);
+  if (!await fs.pathExists(fullPath)) return 0;
+  const content = await fs.readFile(fullPath, 'utf8');
+  return (content.match(/^<{7}( |$)/gm) || []).length;
+}
+
+async function readGitFile(repoPath, name) {
+  const file = path.join(repoPath, '.git', name);
+  return await fs.pathExists(file) ? (await fs.readFile(file, 'utf8')).trim() : null;
+}
+
+async function clearMergeState(repoPath) {
+  await fs.remove(path.join(repoPath, '.git', 'MERGE_HEAD'));
+  await fs.remove(path.join(repoPath, '.git', 'MERGE_MSG'));
+}
+
+/**
+ * Raised when a branch operation is refused: the branch exists or is missing,
+ * is checked out, is not merged, or switching would overwrite local changes
+ */
+export class GitBranchError extends Error {
+  /**
+   * @param {string} message - Error message
+   * @param {string} reason - 'exists' | 'not-found' | 'current-branch' | 'not-merged' | 'local-changes' |
+   *   'merge-in-progress' | 'detached-head'
+   * @param {Array} files - Files the reason applies to
+   */
+  constructor(message, reason, files = []) {
+    super(message);
+    this.name = 'GitBranchError';
+    this.reason = reason;
+    this.files = files;
+  }
+}
+
+/**
+ * Get repository branches
+ * @param {string} repoUrl - Repository URL
+ * @param {string} token - GitHub token
+ * @returns {Array} List of branches
+ */
+export async function getBranches(repoUrl, token) {
+  try {
+    const repoName = repoUrl.split('/').pop().replace('.git', '');
+    const repoPath = path.join(REPOS_DIR, repoName);
+
+    if (!await fs.pathExists(repoPath)) {
+      throw new Error('Repository not found. Please import it first.');
+    }
+
+    const branches = await listBranches({ fs, dir: repoPath });
+    return branches.map(b => b.replace('refs/heads/', ''));
+  } catch (error) {
+    console.error('Get branches error:', error);
+    throw new Error(`Failed to get branches: ${error.message}`);
+  }
+}
+
+/**
+ * List local branches, with their upstream and how far they are ahead of and
+ * behind it, and the remote branches of origin. Imports are shallow clones, so
+ * counts that reach the end of the fetched history are marked incomplete.
+ * @param {string} repoPath - Repository path
+ * @param {string} token - GitHub token (needed to fetch)
+ * @param {Object} options - List options
+ * @param {boolean} options.fetch - Fetch origin first, pruning deleted remote branches
+ * @returns {Object} { current, local: [{ name, oid, current, upstream, ahead, behind, complete }],
+ *   remote: [{ name, branch, oid }], fetchedAt }
+ */
+export async function listRepoBranches(repoPath, token, options = {}) {
+  const { fetch: shouldFetch = false } = options;
+
+  try {
+    if (shouldFetch) {
+      await fetch({
+        fs,
+        http,
+        dir: repoPath,
+        remote: 'origin',
+        tags: false,
+        prune: true,
+        onAuth: () => ({
+          username: token,
+          password: 'x-oauth-basic'
+        })
+      });
+    }
+
+    const current = await currentBranch({ fs, dir: repoPath }) || null;
+    const remoteNames = (await listBranches({ fs, dir: repoPath, remote: 'origin' })).filter(name => name !== 'HEAD');
+    const remote = await Promise.all(remoteNames.sort().map(async name => ({
+      name: `origin/${name}`,
+      branch: name,
+      oid: await resolveRef({ fs, dir: repoPath, ref: `refs/remotes/origin/${name}` })
+    })));
+
+    const local = [];
+    for (const name of (await listBranches({ fs, dir: repoPath })).sort()) {
+      const oid = await resolveRef({ fs, dir: repoPath, ref: `refs/heads/${name}` });
+      const upstream = await getUpstream(repoPath, name, remoteNames);
+      const counts = upstream
+        ? await countAheadBehind(repoPath, oid, await resolveRef({ fs, dir: repoPath, ref: `refs/remotes/${upstream}` }))
+        : { ahead: 0, behind: 0, complete: true };
+
+      local.push({ name, oid, current: name === current, upstream, ...counts });
+    }
+
+    return {
+      current,
+      local,
+      remote,
+      fetchedAt: shouldFetch ? new Date().toISOString() : null
+    };
+  } catch (error) {
+    console.error('List branches error:', error);
+    throw new Error(`Failed to list branches: ${error.message}`);
+  }
+}
+
+/**
+ * Create a branch at any ref or commit. Branching from an origin branch makes
+ * it the new branch's upstream.
+ * @param {string} repoPath - Repository path
+ * @param {string} name - New branch name
+ * @param {Object} options - Create options
+ * @param {string} options.from - Start point (default 'HEAD')
+ * @param {boolean} options.checkout - Check the new branch out, protecting local changes
+ * @returns {Object} { name, oid, from, upstream, checkedOut }
+ */
+export async function createBranch(repoPath, name, options = {}) {
+  const { from = 'HEAD', checkout: shouldCheckout = false } = options;
+
+  try {
+    if (await branchExists(repoPath, name)) {
+      throw new GitBranchError(`Branch ${name} already exists`, 'exists');
+    }
+
+    const oid = await resolveCommitish(repoPath, from);
+    await branch({ fs, dir: repoPath, ref: name, object: oid });
+
+    const remoteBranch = from.replace(/^(refs\/remotes\/)?origin\//, '');
+    const upstream = remoteBranch !== from && await remoteBranchExists(repoPath, remoteBranch) ? `origin/${remoteBranch}` : null;
+    if (upstream) {
+      await setConfig({ fs, dir: repoPath, path: `branch.${name}.remote`, value: 'origin' });
+      await setConfig({ fs, dir: repoPath, path: `branch.${name}.merge`, value: `refs/heads/${remoteBranch}` });
+    }
+
+    if (shouldCheckout) {
+      await checkoutBranch(repoPath, name);
+    }
+
+    return { name, oid, from, upstream, checkedOut: shouldCheckout };
+  } catch (error) {
+    console.error('Create branch error:', error);
+    if (error instanceof GitBranchError) throw error;
+    throw new Error(`Failed to create branch: ${error.message}`);
+  }
+}
+
+/**
+ * Check out a branch. An origin branch without a local one gets a local
+ * tracking branch. Local changes that the switch would overwrite stop it
+ * unless options.force is set, which discards the changes to those files
+ * only; changes to every other file are kept.
+ * @param {string} repoPath - Repository path
+ * @param {string} name - Branch name
+ * @param {Object} options - Checkout options
+ * @param {boolean} options.force - Discard conflicting local changes
+ * @returns {Object} { branch, head, previousBranch, created, discarded }
+ */
+export async function checkoutBranch(repoPath, name, options = {}) {
+  const { force = false } = options;
+
+  try {
+    if (await readGitFile(repoPath, 'MERGE_HEAD')) {
+      throw new GitBranchError('A merge is in progress; resolve its conflicts and commit before switching branches', 'merge-in-progress');
+    }
+
+    const isLocal = await branchExists(repoPath, name);
+    if (!isLocal && !await remoteBranchExists(repoPath, name)) {
+      throw new GitBranchError(`Branch ${name} does not exist locally or on origin`, 'not-found');
+    }
+
+    const previousBranch = await currentBranch({ fs, dir: repoPath }) || null;
+    let conflicts = await tryCheckout(repoPath, name, isLocal);
+    const discarded = force ? conflicts : [];
+    if (conflicts.length > 0 && force) {
+      await discardFileChanges(repoPath, conflicts);
+      conflicts = await tryCheckout(repoPath, name, isLocal);
+    }
+    if (conflicts.length > 0) {
+      throw new GitBranchError(
+        `Commit or discard your changes before switching to ${name}: ${conflicts.join(', ')}`,
+        'local-changes',
+        conflicts
+      );
+    }
+    markIndexStale(repoPath);
+
+    return {
+      branch: name,
+      head: await resolveRef({ fs, dir: repoPath, ref: 'HEAD' }),
+      previousBranch,
+      created: !isLocal,
+      discarded
+    };
+  } catch (error) {
+    console.error('Checkout branch error:', error);
+    if (error instanceof GitBranchError) throw error;
+    throw new Error(`Failed to check out branch: ${error.message}`);
+  }
+}
+
+/**
+ * Check out a branch unless local changes would be overwritten
+ * @returns {Array} Paths whose local changes stopped the checkout
+ */
+async function tryCheckout(repoPath, name, isLocal) {
+  try {
+    await checkout({ fs, dir: repoPath, ref: name, remote: 'origin' });
+    return [];
+  } catch (error) {
+    if (error.code !== 'CheckoutConflictError') throw error;
+
+    // Checkout creates the tracking branch before it checks for conflicts
+    if (!isLocal && await branchExists(repoPath, name)) {
+      await deleteLocalBranch({ fs, dir: repoPath, ref: name });
+    }
+    return error.data.filepaths;
+  }
+}
+
+/**
+ * Put files back to their HEAD content in the working tree and index,
+ * deleting those HEAD does not have
+ */
+async function discardFileChanges(repoPath, filePaths) {
+  const head = await resolveRef({ fs, dir: repoPath, ref: 'HEAD' });
+
+  for (const filePath of filePaths) {
+    const fullPath = path.join(repoPath, filePath);
+    try {
+      const { blob } = await readBlob({ fs, dir: repoPath, oid: head, filepath: filePath });
+      await fs.outputFile(fullPath, Buffer.from(blob));
+    } catch (error) {
+      if (error.code !== 'NotFoundError') throw error;
+      await fs.remove(fullPath);
+    }
+    await resetIndex({ fs, dir: repoPath, filepath: filePath });
+  }
+}
+
+/**
+ * Rename a local branch, keeping its upstream
+ * @param {string} repoPath - Repository path
+ * @param {string} name - Current branch name
+ * @param {string} newName - New branch name
+ * @returns {Object} { name, previousName, current }
+ */
+export async function renameBranch(repoPath, name, newName) {
+  try {
+    if (!await branchExists(repoPath, name)) {
+      throw new GitBranchError(`Branch ${name} does not exist`, 'not-found');
+    }
+    if (await branchExists(repoPath, newName)) {
+      throw new GitBranchError(`Branch ${newName} already exists`, 'exists');
+    }
+
+    const isCurrent = await currentBranch({ fs, dir: repoPath }) === name;
+    await renameLocalBranch({ fs, dir: repoPath, ref: newName, oldref: name, checkout: isCurrent });
+
+    for (const key of ['remote', 'merge']) {
+      const value = await getConfig({ fs, dir: repoPath, path: `branch.${name}.${key}` });
+      if (value !== undefined) {
+        await setConfig({ fs, dir: repoPath, path: `branch.${newName}.${key}`, value });
+        await setConfig({ fs, dir: repoPath, path: `branch.${name}.${key}`, value: undefined });
+      }
+    }
+
+    return { name: newName, previousName: name, current: isCurrent };
+  } catch (error) {
+    console.error('Rename branch error:', error);
+    if (error instanceof GitBranchError) throw error;
+    throw new Error(`Failed to rename branch: ${error.message}`);
+  }
+}
+
+/**
+ * Delete a local branch, or a branch on origin. A local branch must not be
+ * checked out and, unless options.force is set, must be merged into HEAD or
+ * its upstream.
+ * @param {string} repoPath - Repository path
+ * @param {string} name - Branch name
+ * @param {Object} options - Delete options
+ * @param {boolean} options.remote - Delete the branch on origin instead of the local one
+ * @param {boolean} options.force - Delete a local branch that is not merged
+ * @param {string} options.token - GitHub token (needed for remote deletes)
+ * @returns {Object} { name, remote, oid }
+ */
+export async function deleteBranch(repoPath, name, options = {}) {
+  const { remote = false, force = false, token } = options;
+
+  try {
+    if (remote) {
+      if (!await remoteBranchExists(repoPath, name)) {
+        throw new GitBranchError(`Branch ${name} does not exist on origin`, 'not-found');
+      }
+
+      const oid = await resolveRef({ fs, dir: repoPath, ref: `refs/remotes/origin/${name}` });
+      await push({
+        fs,
+        http,
+        dir: repoPath,
+        remote: 'origin',
+        // The local branch may already be gone, so name the remote-tracking ref
+        ref: `refs/remotes/origin/${name}`,
+        remoteRef: `refs/heads/${name}`,
+        delete: true,
+        onAuth: () => ({
+          username: token,
+          password: 'x-oauth-basic'
+        })
+      });
+      await deleteRef({ fs, dir: repoPath, ref: `refs/remotes/origin/${name}` });
+      return { name, remote: true, oid };
+    }
+
+    if (!await branchExists(repoPath, name)) {
+      throw new GitBranchError(`Branch ${name} does not exist`, 'not-found');
+    }
+    if (await currentBranch({ fs, dir: repoPath }) === name) {
+      throw new GitBranchError(`Branch ${name} is checked out; switch to another branch first`, 'current-branch');
+    }
+
+    const oid = await resolveRef({ fs, dir: repoPath, ref: `refs/heads/${name}` });
+    if (!force) {
+      const upstream = await getUpstream(repoPath, name);
+      const targets = ['HEAD', ...(upstream ? [`refs/remotes/${upstream}`] : [])];
+      let merged = false;
+      for (const target of targets) {
+        const targetOid = await resolveRef({ fs, dir: repoPath, ref: target });
+        if (targetOid === oid || await isDescendent({ fs, dir: repoPath, oid: targetOid, ancestor: oid }).catch(() => false)) {
+          merged = true;
+          break;
+        }
+      }
+      if (!merged) {
+        throw new GitBranchError(`Branch ${name} is not fully merged; delete it with force to discard its commits`, 'not-merged');
+      }
+    }
+
+    await deleteLocalBranch({ fs, dir: repoPath, ref: name });
+    return { name, remote: false, oid };
+  } catch (error) {
+    console.error('Delete branch error:', error);
+    if (error instanceof GitBranchError) throw error;
+    throw new Error(`Failed to delete branch: ${error.message}`);
+  }
+}
+
+/**
+ * Compare two refs: the commits each has that the other lacks and the files
+ * that differ between them
+ * @param {string} repoPath - Repository path
+ * @param {string} base - Base ref or commit
+ * @param {string} head - Compared ref or commit
+ * @returns {Object} { base, head, baseOid, headOid, ahead, behind, complete, aheadCommits, behindCommits, files }
+ */
+export async function compareBranches(repoPath, base, head) {
+  try {
+    const [baseOid, headOid] = await Promise.all([resolveCommitish(repoPath, base), resolveCommitish(repoPath, head)]);
+    const [baseHistory, headHistory] = await Promise.all([collectAncestors(repoPath, baseOid), collectAncestors(repoPath, headOid)]);
+
+    const only = (history, other) => [...history.commits.values()]
+      .filter(entry => !other.commits.has(entry.oid))
+      .sort((a, b) => b.date.localeCompare(a.date));
+    const aheadCommits = only(headHistory, baseHistory);
+    const behindCommits = only(baseHistory, headHistory);
+
+    return {
+      base,
+      head,
+      baseOid,
+      headOid,
+      ahead: aheadCommits.length,
+      behind: behindCommits.length,
+      complete: baseHistory.complete && headHistory.complete,
+      aheadCommits: aheadCommits.slice(0, MAX_COMPARE_COMMITS),
+      behindCommits: behindCommits.slice(0, MAX_COMPARE_COMMITS),
+      files: baseOid === headOid ? [] : await listChangedFiles(repoPath, baseOid, headOid)
+    };
+  } catch (error) {
+    console.error('Compare branches error:', error);
+    throw new Error(`Failed to compare branches: ${error.message}`);
+  }
+}
+
+async function branchExists(repoPath, name) {
+  return (await listBranches({ fs, dir: repoPath })).includes(name);
+}
+
+async function remoteBranchExists(repoPath, name) {
+  return (await listBranches({ fs, dir: repoPath, remote: 'origin' })).includes(name);
+}
+
 /**
- * Import a GitHub repository
- * @param {string} repoUrl - GitHub repository URL
- * @param {string} token - GitHub personal access token
- * @param {string} branch - Branch to clone
- * @returns {Object} Repository information
+ * The origin branch a local branch tracks, as 'origin/<name>': from its
+ * config, or the origin branch of the same name
  */
-export async function importRepository(repoUrl, token, branch = 'main') {
+async function getUpstream(repoPath, name, remoteNames = null) {
+  const remotes = remoteNames || await listBranches({ fs, dir: repoPath, remote: 'origin' });
+  const remote = await getConfig({ fs, dir: repoPath, path: `branch.${name}.remote` });
+  const merge = await getConfig({ fs, dir: repoPath, path: `branch.${name}.merge` });
+  const tracked = remote === 'origin' && merge ? merge.replace(/^refs\/heads\//, '') : name;
+  return remotes.includes(tracked) ? `origin/${tracked}` : null;
+}
+
+async function countAheadBehind(repoPath, oid, upstreamOid) {
+  if (oid === upstreamOid) return { ahead: 0, behind: 0, complete: true };
+
+  const [local, upstream] = await Promise.all([collectAncestors(repoPath, oid), collectAncestors(repoPath, upstreamOid)]);
+  return {
+    ahead: [...local.commits.keys()].filter(entry => !upstream.commits.has(entry)).length,
+    behind: [...upstream.commits.keys()].filter(entry => !local.commits.has(entry)).length,
+    complete: local.complete && upstream.complete
+  };
+}
+
+/**
+ * Commits reachable from a commit, breadth first. The walk stops at the edge
+ * of a shallow clone or after MAX_COMPARED_COMMITS, and then is not complete.
+ */
+async function collectAncestors(repoPath, oid) {
+  const commits = new Map();
+  const queue = [oid];
+  let complete = true;
+
+  while (queue.length > 0) {
+    const next = queue.shift();
+    if (commits.has(next)) continue;
+    if (commits.size >= MAX_COMPARED_COMMITS) {
+      complete = false;
+      break;
+    }
+
+    let entry;
+    try {
+      ({ commit: entry } = await readCommit({ fs, dir: repoPath, oid: next }));
+    } catch (error) {
+      if (error.code !== 'NotFoundError') throw error;
+      complete = false;
+      continue;
+    }
+
+    commits.set(next, summarizeCommit({
+      oid: next,
+      subject: entry.message.split('\n')[0],
+      author: entry.author.name,
+      date: new Date(entry.author.timestamp * 1000).toISOString()
+    }));
+    queue.push(...entry.parent);
+  }
+
+  return { commits, complete };
+}
+
+/**
+ * Paginated commit history, newest first
+ * @param {string} repoPath - Repository path
+ * @param {Object} options - Log options (optional)
+ * @param {string} options.ref - Branch, tag or commit to list history from (default HEAD)
+ * @param {string} options.since - Leave out commits reachable from this ref, as in since..ref (optional)
+ * @param {string} options.filePath - Only commits that changed this file or directory (optional)
+ * @param {number} options.skip - Matching commits to skip (default 0)
+ * @param {number} options.limit - Commits per page (default 50)
+ * @returns {Object} { ref, since, path, oid, commits: [{ oid, subject, message, author, email, date,
+ *   parents, boundary }], skip, limit, hasMore, complete }
+ */
+export async function getLog(repoPath, options = {}) {
+  const { ref = 'HEAD', since = '', filePath = '', skip = 0, limit = DEFAULT_LOG_LIMIT } = options;
+
   try {
-    // Extract repo name from URL
-    const repoName = repoUrl.split('/').pop().replace('.git', '');
-    const repoPath = path.join(REPOS_DIR, repoName);
-    
-    // Remove existing directory if it exists
-    if (await fs.pathExists(repoPath)) {
-      await fs.remove(repoPath);
+    const target = filePath.replace(/^\.?\/+|\/+$/g, '');
+    const oid = await resolveCommitish(repoPath, ref);
+    const excluded = since
+      ? await collectAncestors(repoPath, await resolveCommitish(repoPath, since))
+      : { commits: new Map(), complete: true };
+
+    const history = await walkHistory(repoPath, oid, { exclude: excluded.commits, filePath: target, skip, limit });
+
+    return {
+      ref,
+      since: since || null,
+      path: target || null,
+      oid,
+      commits: history.commits,
+      skip,
+      limit,
+      hasMore: history.hasMore,
+      complete: history.complete && excluded.complete
+    };
+  } catch (error) {
+    console.error('Get log error:', error);
+    throw new Error(`Failed to get log: ${error.message}`);
+  }
+}
+
+/**
+ * Fetch older history of the current branch into a shallow clone
+ * @param {string} repoPath - Repository path
+ * @param {string} token - GitHub token
+ * @param {number} depth - Commits to fetch beyond the current shallow boundary (default 100)
+ * @returns {Object} { branch, depth, shallow } where shallow is false once the full history is present
+ */
+export async function deepenHistory(repoPath, token, depth = DEFAULT_DEEPEN_DEPTH) {
+  try {
+    const branch = await currentBranch({ fs, dir: repoPath });
+    if (!branch) {
+      throw new Error('HEAD is detached; check out a branch to fetch its history');
     }
 
-    // Clone repository
-    await clone({
+    await fetch({
       fs,
       http,
       dir: repoPath,
-      url: repoUrl,
+      remote: 'origin',
       ref: branch,
-      depth: 1,
+      singleBranch: true,
+      tags: false,
+      depth,
+      relative: true,
       onAuth: () => ({
         username: token,
         password: 'x-oauth-basic'
       })
     });
 
-    // Get repository info
-    const branches = await listBranches({ fs, dir: repoPath });
-    const files = await listFiles({ fs, dir: repoPath });
-
     return {
-      name: repoName,
-      path: repoPath,
-      url: repoUrl,
       branch,
-      branches: branches.map(b => b.replace('refs/heads/', '')),
-      fileCount: files.length,
-      importedAt: new Date().toISOString()
+      depth,
+      shallow: Boolean(await readGitFile(repoPath, 'shallow'))
     };
   } catch (error) {
-    console.error('Import repository error:', error);
-    throw new Error(`Failed to import repository: ${error.message}`);
+    console.error('Deepen history error:', error);
+    throw new Error(`Failed to fetch history: ${error.message}`);
   }
 }
 
 /**
- * Commit and push changes
+ * Which commit last changed each line of a file
  * @param {string} repoPath - Repository path
- * @param {string} message - Commit message
- * @param {Array} files - Array of file changes
- * @param {string} token - GitHub token
- * @returns {Object} Commit result
+ * @param {string} filePath - File path
+ * @param {Object} options - Blame options (optional)
+ * @param {string} options.ref - Branch, tag or commit to blame the file at, or 'workdir' (default) for
+ *   the file on disk, whose uncommitted lines have no commit
+ * @returns {Object} { path, ref, lineCount, ranges: [{ startLine, endLine, oid }], commits: { [oid]:
+ *   { oid, subject, message, author, email, date, parents, boundary } }, complete }
  */
-export async function commitChanges(repoPath, message, files, token) {
+export async function getBlame(repoPath, filePath, options = {}) {
+  const { ref = DIFF_WORKDIR } = options;
+
   try {
-    // Add files to staging
-    for (const file of files) {
-      await add({
-        fs,
-        dir: repoPath,
-        filepath: file.path
-      });
+    const target = filePath.replace(/^\.?\/+|\/+$/g, '');
+    const cache = {};
+    let content;
+    let startOid = null;
+
+    if (ref === DIFF_WORKDIR) {
+      const fullPath = path.join(repoPath, target);
+      if (!await fs.pathExists(fullPath)) {
+        throw new Error(`File not found: ${target}`);
+      }
+      content = await fs.readFile(fullPath);
+      startOid = await resolveRef({ fs, dir: repoPath, ref: 'HEAD' }).catch(() => null);
+    } else {
+      startOid = await resolveCommitish(repoPath, ref);
+      content = await readContentAt(repoPath, startOid, target);
+      if (!content) {
+        throw new Error(`File not found: ${target} at ${ref}`);
+      }
+    }
+    if (isBinary(content)) {
+      throw new Error(`Cannot blame binary file ${target}`);
     }
 
-    // Commit changes
-    const commitHash = await commit({
-      fs,
-      dir: repoPath,
-      author: {
-        name: 'Winky-Coder',
-        email: 'winky-coder@example.com'
-      },
-      message
-    });
+    const text = content.toString('utf8');
+    const owners = new Array(countFileLines(text)).fill(null);
+    const commits = {};
+    let complete = true;
 
-    // Push changes
-    await push({
-      fs,
-      http,
-      dir: repoPath,
-      onAuth: () => ({
-        username: token,
-        password: 'x-oauth-basic'
-      })
+    // Lines still looking for their commit, keyed by the commit whose version of the file holds them
+    const pending = new Map();
+    const addPending = async (oid, lines) => {
+      if (lines.length === 0) return;
+      if (!pending.has(oid)) {
+        const { commit: entry } = await readCommit({ fs, dir: repoPath, oid, cache });
+        pending.set(oid, { entry, lines: [] });
+      }
+      pending.get(oid).lines.push(...lines);
+    };
+
+    // Lines as [line in the final file, line in the version being examined]
+    const lines = owners.map((owner, index) => [index + 1, index + 1]);
+    if (ref === DIFF_WORKDIR) {
+      // Lines that differ from HEAD are not committed yet and keep a null owner
+      const head = startOid ? await readBlobAt(repoPath, startOid, target, cache) : null;
+      if (head) {
+        const mapping = mapLines(head.text, text);
+        await addPending(startOid, lines.filter(([, at]) => mapping[at - 1]).map(([line, at]) => [line, mapping[at - 1]]));
+      }
+    } else {
+      await addPending(startOid, lines);
+    }
+
+    while (pending.size > 0) {
+      // Newest commit first, so each line stops at the latest commit that introduced it
+      const [oid, { entry, lines: remaining }] = [...pending.entries()]
+        .reduce((newest, item) => (item[1].entry.committer.timestamp > newest[1].entry.committer.timestamp ? item : newest));
+      pending.delete(oid);
+
+      const current = await readBlobAt(repoPath, oid, target, cache);
+      let unassigned = remaining;
+      let boundary = false;
+
+      for (const parent of entry.parent) {
+        if (unassigned.length === 0) break;
+
+        let before;
+        try {
+          before = await readBlobAt(repoPath, parent, target, cache);
+        } catch (error) {
+          if (error.code !== 'NotFoundError') throw error;
+          // The parent is past the edge of a shallow clone
+          boundary = true;
+          complete = false;
+          continue;
+        }
+        if (!before) continue;
+
+        // An unchanged file passes every line on as is
+        const mapping = before.oid === current.oid ? null : mapLines(before.text, current.text);
+        const passed = unassigned.filter(([, at]) => !mapping || mapping[at - 1]);
+        await addPending(parent, passed.map(([line, at]) => [line, mapping ? mapping[at - 1] : at]));
+        unassigned = unassigned.filter(([, at]) => mapping && !mapping[at - 1]);
+      }
+
+      if (unassigned.length > 0) {
+        commits[oid] = { ...toLogEntry(oid, entry), boundary };
+        for (const [line] of unassigned) owners[line - 1] = oid;
+      }
+    }
+
+    // Consecutive lines from the same commit form one range
+    const ranges = [];
+    owners.forEach((oid, index) => {
+      const last = ranges[ranges.length - 1];
+      if (last && last.oid === oid) {
+        last.endLine = index + 1;
+      } else {
+        ranges.push({ startLine: index + 1, endLine: index + 1, oid });
+      }
     });
 
-    return {
-      commitHash,
-      message,
-      files: files.map(f => f.path),
-      pushedAt: new Date().toISOString()
-    };
+    return { path: target, ref, lineCount: owners.length, ranges, commits, complete };
   } catch (error) {
-    console.error('Commit changes error:', error);
-    throw new Error(`Failed to commit changes: ${error.message}`);
+    console.error('Get blame error:', error);
+    throw new Error(`Failed to get blame: ${error.message}`);
   }
 }
 
 /**
- * Get repository branches
- * @param {string} repoUrl - Repository URL
- * @param {string} token - GitHub token
- * @returns {Array} List of branches
+ * A commit with its full diff against its first parent
+ * @param {string} repoPath - Repository path
+ * @param {string} ref - Commit id (full or abbreviated), branch or tag
+ * @param {Object} options - Diff options (optional)
+ * @param {string} options.filePath - Only diff this file or directory (optional)
+ * @param {boolean} options.includeContent - Include each file's content on both sides (default false)
+ * @returns {Object} { commit: { oid, subject, message, author, email, date, parents, boundary }, ...the
+ *   getDiff result from the first parent (or an empty tree for root and shallow boundary commits) }
  */
-export async function getBranches(repoUrl, token) {
+export async function showCommit(repoPath, ref, options = {}) {
+  const { filePath = '', includeContent = false } = options;
+
   try {
-    const repoName = repoUrl.split('/').pop().replace('.git', '');
-    const repoPath = path.join(REPOS_DIR, repoName);
+    const oid = await resolveCommitish(repoPath, ref);
+    const { commit: entry } = await readCommit({ fs, dir: repoPath, oid });
 
-    if (!await fs.pathExists(repoPath)) {
-      throw new Error('Repository not found. Please import it first.');
+    // Like git, treat a commit whose parent was not fetched as having none
+    let parent = entry.parent[0] || EMPTY_TREE_OID;
+    let boundary = false;
+    if (entry.parent.length > 0) {
+      try {
+        await readCommit({ fs, dir: repoPath, oid: parent });
+      } catch (error) {
+        if (error.code !== 'NotFoundError') throw error;
+        parent = EMPTY_TREE_OID;
+        boundary = true;
+      }
     }
 
-    const branches = await listBranches({ fs, dir: repoPath });
-    return branches.map(b => b.replace('refs/heads/', ''));
+    const diff = await getDiff(repoPath, { from: parent, to: oid, filePath, includeContent });
+    return { commit: { ...toLogEntry(oid, entry), boundary }, ...diff };
   } catch (error) {
-    console.error('Get branches error:', error);
-    throw new Error(`Failed to get branches: ${error.message}`);
+    console.error('Show commit error:', error);
+    throw new Error(`Failed to show commit: ${error.message}`);
+  }
+}
+
+/**
+ * Commits reachable from tip, newest commit time first, leaving out those in
+ * exclude. With a path, only commits that changed it are kept, and a commit
+ * that took the path unchanged from a parent only follows that parent, as
+ * git log does. The page is the limit commits after the first skip matches.
+ */
+async function walkHistory(repoPath, tip, { exclude, filePath, skip, limit }) {
+  const cache = {};
+  const queue = [];
+  const seen = new Set();
+  const commits = [];
+  let matched = 0;
+  let complete = true;
+
+  const enqueue = async oid => {
+    if (seen.has(oid) || exclude.has(oid)) return;
+    seen.add(oid);
+    try {
+      const { commit: entry } = await readCommit({ fs, dir: repoPath, oid, cache });
+      queue.push({ oid, entry });
+    } catch (error) {
+      if (error.code !== 'NotFoundError') throw error;
+      complete = false;
+    }
+  };
+
+  await enqueue(tip);
+  while (queue.length > 0 && commits.length <= limit) {
+    const next = queue.reduce((newest, item, index) => (
+      item.entry.committer.timestamp > queue[newest].entry.committer.timestamp ? index : newest
+    ), 0);
+    const { oid, entry } = queue.splice(next, 1)[0];
+
+    let parents = entry.parent;
+    let changed = true;
+    if (filePath) {
+      const pathOid = await readPathOid(repoPath, oid, filePath, cache);
+      const parentOids = await Promise.all(entry.parent.map(parent => readPathOid(repoPath, parent, filePath, cache)));
+      const same = parentOids.indexOf(pathOid);
+      if (same !== -1) {
+        parents = [entry.parent[same]];
+        changed = false;
+      } else {
+        changed = entry.parent.length > 0 || pathOid !== null;
+      }
+    }
+
+    if (changed) {
+      if (matched >= skip) commits.push(toLogEntry(oid, entry));
+      matched++;
+    }
+    for (const parent of parents) await enqueue(parent);
+  }
+
+  return { commits: commits.slice(0, limit), hasMore: commits.length > limit, complete };
+}
+
+function toLogEntry(oid, entry) {
+  return {
+    oid,
+    subject: entry.message.split('\n')[0],
+    message: entry.message.trim(),
+    author: entry.author.name,
+    email: entry.author.email,
+    date: new Date(entry.author.timestamp * 1000).toISOString(),
+    parents: entry.parent
+  };
+}
+
+/**
+ * Object id of a file or directory in a commit, null when it does not exist
+ * there or the commit was never fetched
+ */
+async function readPathOid(repoPath, oid, filePath, cache) {
+  const dirPath = path.posix.dirname(filePath);
+  try {
+    const { tree } = await readTree({ fs, dir: repoPath, oid, filepath: dirPath === '.' ? undefined : dirPath, cache });
+    return tree.find(entry => entry.path === path.posix.basename(filePath))?.oid || null;
+  } catch (error) {
+    if (error.code === 'NotFoundError' || error.code === 'ObjectTypeError') return null;
+    throw error;
+  }
+}
+
+/**
+ * A file's blob id and text in a commit, null when the commit does not have
+ * it. Throws NotFoundError when the commit itself is missing.
+ */
+async function readBlobAt(repoPath, oid, filePath, cache) {
+  await readCommit({ fs, dir: repoPath, oid, cache });
+  try {
+    const { oid: blobOid, blob } = await readBlob({ fs, dir: repoPath, oid, filepath: filePath, cache });
+    return { oid: blobOid, text: Buffer.from(blob).toString('utf8') };
+  } catch (error) {
+    if (error.code === 'NotFoundError' || error.code === 'ObjectTypeError') return null;
+    throw error;
+  }
+}
+
+/**
+ * For each line of after, the line of before it was kept from, or 0 when it
+ * was added or changed
+ */
+function mapLines(before, after) {
+  const mapping = new Array(countFileLines(after)).fill(0);
+  const countLines = text => text === '' ? 0 : text.split('\n').length;
+  let oldLine = 1;
+  let newLine = 1;
+
+  for (const hunk of diffLines(before, after)) {
+    while (oldLine < hunk.startLine) mapping[newLine++ - 1] = oldLine++;
+    oldLine = hunk.endLine + 1;
+    newLine += countLines(hunk.newText);
   }
+  while (newLine <= mapping.length) mapping[newLine++ - 1] = oldLine++;
+
+  return mapping;
+}
+
+// Lines in a file, not counting the empty one after a trailing newline
+function countFileLines(text) {
+  if (text === '') return 0;
+  const lines = text.split('\n');
+  return lines[lines.length - 1] === '' ? lines.length - 1 : lines.length;
 }
 
 /**
@@ -226,11 +1700,17 @@ export async function getFileContent(repoPath, filePath) {
  * @param {string} filePath - File path
  * @param {string} content - New content
  * @param {string} token - GitHub token
+ * @param {Object} options - Update options
+ * @param {string} options.sessionId - Edit session to record the change in (optional)
  * @returns {Object} Update result
  */
-export async function updateFile(repoPath, filePath, content, token) {
+export async function updateFile(repoPath, filePath, content, token, options = {}) {
   try {
+    const { sessionId } = options;
     const fullPath = path.join(repoPath, filePath);
+
+    if (sessionId) await requireOpenEditSession(sessionId);
+    const before = sessionId && await fs.pathExists(fullPath) ? await fs.readFile(fullPath) : null;
     
     // Ensure directory exists
     await fs.ensureDir(path.dirname(fullPath));
@@ -245,6 +1725,12 @@ export async function updateFile(repoPath, filePath, content, token) {
       filepath: filePath
     });
 
+    markIndexStale(repoPath);
+
+    if (sessionId) {
+      await recordFileChange(sessionId, { type: 'update', path: filePath, before, after: content });
+    }
+
     return {
       path: filePath,
       updated: true,
@@ -258,9 +1744,12 @@ export async function updateFile(repoPath, filePath, content, token) {
 }
 
 /**
- * Get repository status
+ * Get repository status: the checked-out branch and every changed file, with
+ * its staged change (index against HEAD) and unstaged change (working tree
+ * against the index) reported separately
  * @param {string} repoPath - Repository path
- * @returns {Object} Repository status
+ * @returns {Object} Repository status: { branch, head, lastCommit, merging, branches, fileCount, path,
+ *   files: [{ path, staged, unstaged, conflicted }], summary: { staged, unstaged, untracked, conflicted }, clean }
  */
 export async function getRepoStatus(repoPath) {
   try {
@@ -272,15 +1761,222 @@ export async function getRepoStatus(repoPath) {
 
     const branches = await listBranches({ fs, dir: repoPath });
     const files = await listFiles({ fs, dir: repoPath });
+    const matrix = await statusMatrix({ fs, dir: repoPath });
+
+    const changes = [];
+    for (const [filePath, head, workdir, stage] of matrix) {
+      const staged = getStagedChange(head, workdir, stage);
+      const unstaged = getUnstagedChange(head, workdir, stage);
+      if (!staged && !unstaged) continue;
+
+      changes.push({
+        path: filePath,
+        staged,
+        unstaged,
+        conflicted: unstaged === 'modified' && await countConflictMarkers(repoPath, filePath) > 0
+      });
+    }
 
     return {
+      branch: await currentBranch({ fs, dir: repoPath }) || null,
+      head: logResult[0]?.oid || null,
       lastCommit: logResult[0],
+      merging: Boolean(await readGitFile(repoPath, 'MERGE_HEAD')),
       branches: branches.map(b => b.replace('refs/heads/', '')),
       fileCount: files.length,
-      path: repoPath
+      path: repoPath,
+      files: changes,
+      summary: {
+        staged: changes.filter(change => change.staged).length,
+        unstaged: changes.filter(change => change.unstaged && change.unstaged !== 'untracked').length,
+        untracked: changes.filter(change => change.unstaged === 'untracked').length,
+        conflicted: changes.filter(change => change.conflicted).length
+      },
+      clean: changes.length === 0
     };
   } catch (error) {
     console.error('Get repo status error:', error);
     throw new Error(`Failed to get repository status: ${error.message}`);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Diff two sides of a repository, each a ref or commit, 'index' or 'workdir'.
+ * HEAD to workdir shows every uncommitted change, HEAD to index the staged
+ * ones and index to workdir the unstaged ones. Untracked files are included
+ * when the working tree is compared with a side that lacks them. Hunks are
+ * line ranges of the `from` content, as in AI code edits; a hunk's id is
+ * derived from its range and text, so it stays the same only while the hunk does.
+ * @param {string} repoPath - Repository path
+ * @param {Object} options - Diff options
+ * @param {string} options.from - Old side (default 'HEAD')
+ * @param {string} options.to - New side (default 'workdir')
+ * @param {string} options.filePath - Only diff this file or directory (optional)
+ * @param {boolean} options.includeContent - Add each text file's originalContent and newContent
+ * @returns {Object} { from, to, fromOid, toOid, files: [{ path, status ('added' | 'modified' | 'deleted' |
+ *   'untracked'), binary, additions, deletions, hunks, diff }], additions, deletions }
+ */
+export async function getDiff(repoPath, options = {}) {
+  const { from = 'HEAD', to = DIFF_WORKDIR, filePath = '', includeContent = false } = options;
+
+  try {
+    const target = filePath.replace(/^\.?\/+|\/+$/g, '');
+    const [fromSide, toSide] = await Promise.all([resolveDiffSide(repoPath, from), resolveDiffSide(repoPath, to)]);
+    const includesWorkdir = fromSide.walker === DIFF_WORKDIR || toSide.walker === DIFF_WORKDIR;
+    // New working-tree files compared with a commit are untracked unless staged
+    const indexed = toSide.walker === DIFF_WORKDIR && fromSide.walker === 'tree'
+      ? new Set(await listFiles({ fs, dir: repoPath }))
+      : null;
+
+    const changes = await walk({
+      fs,
+      dir: repoPath,
+      trees: [fromSide.tree, toSide.tree],
+      map: async (entryPath, [before, after]) => {
+        if (entryPath === '.') return undefined;
+
+        // Only walk toward and below the requested path
+        if (target && entryPath !== target && !entryPath.startsWith(`${target}/`) && !target.startsWith(`${entryPath}/`)) {
+          return null;
+        }
+
+        // Untracked entries of the working tree follow .gitignore
+        if (includesWorkdir && (!before || !after) && await isIgnored({ fs, dir: repoPath, filepath: entryPath })) {
+          return null;
+        }
+
+        const [beforeType, afterType] = await Promise.all([before?.type(), after?.type()]);
+        const beforeBlob = beforeType === 'blob' ? before : null;
+        const afterBlob = afterType === 'blob' ? after : null;
+        if (!beforeBlob && !afterBlob) return undefined;
+        if (target && entryPath !== target && !entryPath.startsWith(`${target}/`)) return undefined;
+
+        const [beforeOid, afterOid] = await Promise.all([beforeBlob?.oid(), afterBlob?.oid()]);
+        if (beforeOid === afterOid) return undefined;
+
+        const status = !beforeBlob
+          ? (toSide.walker === DIFF_WORKDIR && fromSide.walker !== DIFF_WORKDIR && !indexed?.has(entryPath) ? 'untracked' : 'added')
+          : !afterBlob ? 'deleted' : 'modified';
+        return { path: entryPath, status, before: beforeBlob, after: afterBlob };
+      }
+    });
+
+    const files = [];
+    for (const change of changes.filter(Boolean).sort((a, b) => a.path.localeCompare(b.path))) {
+      const [beforeContent, afterContent] = await Promise.all([
+        readWalkerContent(repoPath, change.before),
+        readWalkerContent(repoPath, change.after)
+      ]);
+      files.push(toFileDiff(change.path, change.status, beforeContent, afterContent, includeContent));
+    }
+
+    return {
+      from,
+      to,
+      fromOid: fromSide.oid,
+      toOid: toSide.oid,
+      files,
+      additions: files.reduce((total, file) => total + file.additions, 0),
+      deletions: files.reduce((total, file) => total + file.deletions, 0)
+    };
+  } catch (error) {
+    console.error('Get diff error:', error);
+    throw new Error(`Failed to get diff: ${error.message}`);
+  }
+}
+
+/**
+ * Change between HEAD and the index for one statusMatrix row
+ */
+function getStagedChange(head, workdir, stage) {
+  if (head === 0) return stage === 0 ? null : 'added';
+  if (stage === 0) return 'deleted';
+  if (stage === 3 || (stage === 2 && workdir === 2)) return 'modified';
+  return null;
+}
+
+/**
+ * Change between the index and the working tree for one statusMatrix row
+ */
+function getUnstagedChange(head, workdir, stage) {
+  if (stage === 0) return workdir === 0 ? null : 'untracked';
+  if (workdir === 0) return 'deleted';
+  if (stage === 1 && workdir === 2) return 'modified';
+  if (stage === 3) return 'modified';
+  return null;
+}
+
+/**
+ * Walker and commit oid for one side of a diff
+ */
+async function resolveDiffSide(repoPath, side) {
+  if (side === DIFF_INDEX) return { walker: DIFF_INDEX, tree: STAGE(), oid: null };
+  if (side === DIFF_WORKDIR) return { walker: DIFF_WORKDIR, tree: WORKDIR(), oid: null };
+
+  const oid = await resolveCommitish(repoPath, side);
+  return { walker: 'tree', tree: TREE({ ref: oid }), oid };
+}
+
+/**
+ * Commit oid of a branch, tag, remote branch ('origin/main') or full or abbreviated commit id
+ */
+async function resolveCommitish(repoPath, ref) {
+  try {
+    return await resolveRef({ fs, dir: repoPath, ref });
+  } catch (error) {
+    if (/^[0-9a-f]{4,39}$/i.test(ref)) {
+      return expandOid({ fs, dir: repoPath, oid: ref.toLowerCase() });
+    }
+    throw new Error(`Unknown ref ${ref}`);
+  }
+}
+
+/**
+ * Content of a walked file; index entries only know their blob id
+ */
+async function readWalkerContent(repoPath, entry) {
+  if (!entry) return null;
+
+  const content = await entry.content();
+  if (content) return Buffer.from(content);
+
+  const { blob } = await readBlob({ fs, dir: repoPath, oid: await entry.oid() });
+  return Buffer.from(blob);
+}
+
+/**
+ * Id of a hunk derived from its position and text, so an id taken from an
+ * older diff no longer matches once that hunk changes or moves
+ */
+function getHunkId(filePath, hunk) {
+  const key = `${filePath}\n${hunk.startLine}\n${hunk.endLine}\n${hunk.oldText}\n${hunk.newText}`;
+  return `hunk_${crypto.createHash('sha1').update(key).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * One file of a diff, with hunks and a unified diff unless it is binary
+ */
+function toFileDiff(filePath, status, before, after, includeContent) {
+  if ((before && isBinary(before)) || (after && isBinary(after))) {
+    return { path: filePath, status, binary: true, additions: 0, deletions: 0, hunks: [], diff: '' };
+  }
+
+  const beforeText = before ? before.toString('utf8') : '';
+  const afterText = after ? after.toString('utf8') : '';
+  const hunks = diffLines(beforeText, afterText).map(hunk => ({ id: getHunkId(filePath, hunk), ...hunk }));
+  const countLines = text => text === '' ? 0 : text.split('\n').length;
+
+  return {
+    path: filePath,
+    status,
+    binary: false,
+    additions: hunks.reduce((total, hunk) => total + countLines(hunk.newText), 0),
+    deletions: hunks.reduce((total, hunk) => total + countLines(hunk.oldText), 0),
+    hunks,
+    diff: formatUnifiedDiff(filePath, beforeText, hunks, {
+      ...(before ? {} : { from: null }),
+      ...(after ? {} : { to: null })
+    }),
+    ...(includeContent ? { originalContent: beforeText, newContent: afterText } : {})
+  };
+}
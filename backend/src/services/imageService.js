@@ -0,0 +1,99 @@
+// Image types every vision provider accepts, identified by their leading bytes
+const IMAGE_SIGNATURES = [
+  { mimeType: 'image/png', offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/jpeg', offset: 0, bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/gif', offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] },
+  // RIFF....WEBP
+  { mimeType: 'image/webp', offset: 8, bytes: [0x57, 0x45, 0x42, 0x50], prefix: [0x52, 0x49, 0x46, 0x46] }
+];
+
+const SUPPORTED_TYPES = new Set(IMAGE_SIGNATURES.map(signature => signature.mimeType));
+
+const MAX_IMAGES = 8;
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+const DATA_URL_PATTERN = /^data:([\w.+-]+\/[\w.+-]+)?((?:;[\w-]+=[^;,]*)*);base64,(.*)$/s;
+
+/**
+ * Detect an image's MIME type from its leading bytes
+ * @param {Buffer} buffer - Image bytes
+ * @returns {string|null} MIME type, or null when the format is not recognised
+ */
+export function sniffImageType(buffer) {
+  const matches = (bytes, offset) => bytes.every((byte, index) => buffer[offset + index] === byte);
+
+  const signature = IMAGE_SIGNATURES.find(candidate =>
+    buffer.length >= candidate.offset + candidate.bytes.length &&
+    matches(candidate.bytes, candidate.offset) &&
+    (!candidate.prefix || matches(candidate.prefix, 0))
+  );
+  return signature?.mimeType || null;
+}
+
+/**
+ * Normalize one image from a data URL, bare base64 or { data, mimeType }.
+ * The type is taken from the image bytes when they are recognised and from
+ * the data URL or mimeType otherwise.
+ * @param {string|Object} input - Image
+ * @returns {Object} { mimeType, data (base64), dataUrl, size }
+ */
+export function normalizeImage(input) {
+  let declaredType = null;
+  let data = input;
+
+  if (input && typeof input === 'object') {
+    declaredType = input.mimeType || null;
+    data = input.data;
+  }
+  if (typeof data !== 'string' || !data) {
+    throw new Error('Image must be a data URL or base64 string');
+  }
+
+  const dataUrl = data.match(DATA_URL_PATTERN);
+  if (dataUrl) {
+    declaredType = dataUrl[1] || declaredType;
+    data = dataUrl[3];
+  } else if (data.startsWith('data:')) {
+    throw new Error('Image data URLs must be base64 encoded');
+  }
+
+  data = data.replace(/\s+/g, '');
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(data)) {
+    throw new Error('Image data is not valid base64');
+  }
+
+  const buffer = Buffer.from(data, 'base64');
+  if (buffer.length === 0) {
+    throw new Error('Image is empty');
+  }
+  if (buffer.length > MAX_IMAGE_BYTES) {
+    throw new Error(`Image is larger than ${MAX_IMAGE_BYTES / (1024 * 1024)}MB`);
+  }
+
+  const mimeType = sniffImageType(buffer) || declaredType?.toLowerCase();
+  if (!SUPPORTED_TYPES.has(mimeType)) {
+    throw new Error(`Unsupported image type ${mimeType || 'unknown'}; use PNG, JPEG, GIF or WebP`);
+  }
+
+  return { mimeType, data, dataUrl: `data:${mimeType};base64,${data}`, size: buffer.length };
+}
+
+/**
+ * Normalize the images of a request
+ * @param {Array} inputs - Images as data URLs, bare base64 or { data, mimeType }
+ * @returns {Array} Normalized images of { mimeType, data, dataUrl, size }
+ */
+export function normalizeImages(inputs = []) {
+  const images = (Array.isArray(inputs) ? inputs : [inputs]).filter(Boolean);
+  if (images.length > MAX_IMAGES) {
+    throw new Error(`At most ${MAX_IMAGES} images can be sent at once`);
+  }
+
+  return images.map((image, index) => {
+    try {
+      return normalizeImage(image);
+    } catch (error) {
+      throw new Error(images.length > 1 ? `Image ${index + 1}: ${error.message}` : error.message);
+    }
+  });
+}
@@ -0,0 +1,401 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { glob } from 'glob';
+import { getEmbeddingProvider, embedTexts, cosineSimilarity } from './embeddingService.js';
+import { createRedactor } from './redactionService.js';
+import { getDataPath } from './dataDir.js';
+
+// Base directory for persisted codebase indexes
+const indexDir = () => getDataPath('indexes');
+
+const INDEX_VERSION = 1;
+const CHUNK_LINES = 60;
+const CHUNK_OVERLAP = 10;
+const MAX_FILE_SIZE = 512 * 1024;
+
+// BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const IGNORE_PATTERNS = [
+  '**/node_modules/**',
+  '**/.git/**',
+  '**/dist/**',
+  '**/build/**',
+  '**/.next/**',
+  '**/coverage/**',
+  '**/*.lock',
+  '**/package-lock.json'
+];
+
+const BINARY_EXTENSIONS = new Set([
+  '.png', '.jpg', '.jpeg', '.gif', '.ico', '.webp', '.svg', '.pdf', '.zip', '.tar', '.gz', '.rar', '.7z',
+  '.woff', '.woff2', '.ttf', '.eot', '.otf', '.mp3', '.mp4', '.wav', '.avi', '.mov', '.exe', '.dll', '.so'
+]);
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'was', 'our', 'out', 'use',
+  'this', 'that', 'with', 'from', 'have', 'what', 'how', 'why', 'does', 'into', 'its', 'let', 'var', 'const'
+]);
+
+// Loaded indexes, keyed by absolute repository path
+const indexCache = new Map();
+
+// Repositories whose files changed since their index was built
+const staleRepos = new Set();
+
+/**
+ * Split text into search terms, breaking camelCase and snake_case identifiers
+ * @param {string} text - Text to tokenize
+ * @returns {Array} Lowercase terms
+ */
+export function tokenize(text) {
+  return (text || '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term));
+}
+
+/**
+ * Build (or incrementally refresh) the index for a repository.
+ * Chunks of unchanged files are reused from the previous index.
+ * @param {string} repoPath - Repository path
+ * @param {Object} options - Build options
+ * @param {boolean} options.embeddings - Compute embeddings when a provider is configured (default true)
+ * @returns {Object} Index status
+ */
+export async function buildIndex(repoPath, options = {}) {
+  try {
+    const root = path.resolve(repoPath);
+    if (!await fs.pathExists(root)) {
+      throw new Error('Repository path does not exist');
+    }
+
+    const previous = await loadIndex(root);
+    const previousChunks = new Map();
+    for (const chunk of previous?.chunks || []) {
+      if (!previousChunks.has(chunk.path)) previousChunks.set(chunk.path, []);
+      previousChunks.get(chunk.path).push(chunk);
+    }
+
+    const files = await listIndexableFiles(root);
+    const chunks = [];
+    const fileMeta = {};
+    let reusedFiles = 0;
+
+    for (const { relativePath, stats } of files) {
+      const meta = { size: stats.size, mtimeMs: stats.mtimeMs };
+      const old = previous?.files?.[relativePath];
+
+      if (old && old.size === meta.size && old.mtimeMs === meta.mtimeMs && previousChunks.has(relativePath)) {
+        chunks.push(...previousChunks.get(relativePath));
+        reusedFiles++;
+      } else {
+        const content = await fs.readFile(path.join(root, relativePath), 'utf8');
+        if (content.includes('\u0000')) continue;
+        chunks.push(...chunkFile(relativePath, content));
+      }
+
+      fileMeta[relativePath] = meta;
+    }
+
+    const index = {
+      version: INDEX_VERSION,
+      repoPath: root,
+      builtAt: new Date().toISOString(),
+      files: fileMeta,
+      chunks,
+      embedding: null,
+      ...computeCollectionStats(chunks)
+    };
+
+    if (options.embeddings !== false) {
+      await embedChunks(index, previous);
+    }
+
+    await saveIndex(index);
+    staleRepos.delete(root);
+
+    return summarizeIndex(index, { reusedFiles });
+  } catch (error) {
+    console.error('Build index error:', error);
+    throw new Error(`Failed to build index: ${error.message}`);
+  }
+}
+
+/**
+ * Get index status for a repository
+ * @param {string} repoPath - Repository path
+ * @returns {Object} Index status ({ indexed: false } when no index exists)
+ */
+export async function getIndexStatus(repoPath) {
+  const index = await loadIndex(path.resolve(repoPath));
+  return index
+    ? { ...summarizeIndex(index), stale: staleRepos.has(index.repoPath) }
+    : { repoPath, indexed: false };
+}
+
+/**
+ * Retrieve the chunks most relevant to a query, within a token budget.
+ * Builds the index on first use and refreshes it after files change.
+ * @param {string} repoPath - Repository path
+ * @param {string} query - Search query
+ * @param {Object} options - Retrieval options
+ * @param {number} options.maxTokens - Token budget for the returned chunks (default 4000)
+ * @param {number} options.limit - Maximum number of chunks (default 12)
+ * @param {Array} options.paths - Restrict retrieval to these files or directories
+ * @returns {Array} Chunks of { path, startLine, endLine, content, score }
+ */
+export async function retrieveChunks(repoPath, query, options = {}) {
+  const { maxTokens = 4000, limit = 12, paths = [] } = options;
+
+  try {
+    const root = path.resolve(repoPath);
+    let index = await loadIndex(root);
+    if (!index || staleRepos.has(root)) {
+      await buildIndex(root);
+      index = await loadIndex(root);
+    }
+
+    const candidates = paths.length > 0
+      ? index.chunks.filter(chunk => paths.some(p => chunk.path === p || chunk.path.startsWith(`${p.replace(/\/$/, '')}/`)))
+      : index.chunks;
+
+    const scores = await scoreChunks(index, candidates, query);
+    const ranked = candidates
+      .map((chunk, i) => ({ chunk, score: scores[i] }))
+      .sort((a, b) => b.score - a.score);
+
+    // Nothing matched: fall back to the top of each file, shallowest paths first
+    if (ranked.length > 0 && ranked[0].score <= 0) {
+      ranked.sort((a, b) =>
+        a.chunk.startLine - b.chunk.startLine ||
+        a.chunk.path.split('/').length - b.chunk.path.split('/').length ||
+        a.chunk.path.localeCompare(b.chunk.path)
+      );
+    }
+
+    const selected = [];
+    let budget = maxTokens;
+    for (const { chunk, score } of ranked) {
+      if (selected.length >= limit) break;
+
+      const tokens = estimateTokens(chunk.content);
+      if (tokens > budget) continue;
+
+      // Skip chunks overlapping one already selected from the same file
+      const overlaps = selected.some(other =>
+        other.path === chunk.path && other.startLine <= chunk.endLine && chunk.startLine <= other.endLine
+      );
+      if (overlaps) continue;
+
+      budget -= tokens;
+      selected.push({
+        path: chunk.path,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        content: chunk.content,
+        score: Math.round(score * 1000) / 1000
+      });
+    }
+
+    return selected;
+  } catch (error) {
+    console.error('Retrieve chunks error:', error);
+    throw new Error(`Failed to retrieve context: ${error.message}`);
+  }
+}
+
+/**
+ * Mark a repository's index as out of date so the next retrieval refreshes it
+ * @param {string} repoPath - Repository path
+ */
+export function markIndexStale(repoPath) {
+  staleRepos.add(path.resolve(repoPath));
+}
+
+/**
+ * Score candidate chunks with BM25, blended with embedding similarity when available
+ */
+async function scoreChunks(index, candidates, query) {
+  const terms = [...new Set(tokenize(query))];
+
+  const bm25 = candidates.map(chunk => {
+    let score = 0;
+    for (const term of terms) {
+      const tf = chunk.terms[term];
+      if (!tf) continue;
+
+      const df = index.docFreq[term] || 0;
+      const idf = Math.log(1 + (index.chunkCount - df + 0.5) / (df + 0.5));
+      const norm = BM25_K1 * (1 - BM25_B + BM25_B * chunk.length / index.avgChunkLength);
+      score += idf * (tf * (BM25_K1 + 1)) / (tf + norm);
+    }
+    return score;
+  });
+
+  const provider = index.embedding ? getEmbeddingProvider(index.embedding.provider) : null;
+  if (!provider || provider.model() !== index.embedding.model || !query.trim()) {
+    return bm25;
+  }
+
+  try {
+    const redactor = await createRedactor({ repoPath: index.repoPath, feature: 'index' });
+    const [queryVector] = await embedTexts(provider, [redactor.redactText(query, 'query')]);
+    const maxBm25 = Math.max(...bm25, 0) || 1;
+
+    return candidates.map((chunk, i) => {
+      const vector = index.embedding.vectors[chunk.id];
+      const similarity = vector ? cosineSimilarity(queryVector, vector) : 0;
+      return 0.5 * (bm25[i] / maxBm25) + 0.5 * Math.max(similarity, 0);
+    });
+  } catch (error) {
+    // Keyword ranking still works without the embedding provider
+    console.warn('Embedding query failed, using keyword ranking only:', error.message);
+    return bm25;
+  }
+}
+
+/**
+ * Compute embeddings for chunks, reusing vectors for unchanged chunks
+ */
+async function embedChunks(index, previous) {
+  const provider = getEmbeddingProvider();
+  if (!provider) return;
+
+  const reusable = previous?.embedding?.provider === provider.id && previous.embedding.model === provider.model()
+    ? previous.embedding.vectors
+    : {};
+
+  const vectors = {};
+  const missing = [];
+  for (const chunk of index.chunks) {
+    if (reusable[chunk.id]) {
+      vectors[chunk.id] = reusable[chunk.id];
+    } else {
+      missing.push(chunk);
+    }
+  }
+
+  // Chunks leave the backend for the embedding provider, so redact them first
+  const redactor = await createRedactor({ repoPath: index.repoPath, feature: 'index' });
+  const embedded = await embedTexts(provider, missing.map(chunk => `${chunk.path}\n${redactor.redactFile(chunk).content}`));
+  missing.forEach((chunk, i) => {
+    vectors[chunk.id] = embedded[i];
+  });
+
+  index.embedding = { provider: provider.id, model: provider.model(), vectors };
+}
+
+/**
+ * Split a file into overlapping line windows
+ */
+function chunkFile(relativePath, content) {
+  const lines = content.split('\n');
+  const chunks = [];
+  const step = CHUNK_LINES - CHUNK_OVERLAP;
+
+  for (let start = 0; start < lines.length; start += step) {
+    const end = Math.min(start + CHUNK_LINES, lines.length);
+    const text = lines.slice(start, end).join('\n');
+
+    if (text.trim()) {
+      // Path terms make file names searchable
+      const terms = tokenize(`${relativePath}\n${text}`);
+      const termCounts = {};
+      for (const term of terms) {
+        termCounts[term] = (termCounts[term] || 0) + 1;
+      }
+
+      chunks.push({
+        id: crypto.createHash('sha1').update(`${relativePath}\n${text}`).digest('hex').slice(0, 16),
+        path: relativePath,
+        startLine: start + 1,
+        endLine: end,
+        content: text,
+        length: terms.length,
+        terms: termCounts
+      });
+    }
+
+    if (end === lines.length) break;
+  }
+
+  return chunks;
+}
+
+function computeCollectionStats(chunks) {
+  const docFreq = {};
+  let totalLength = 0;
+
+  for (const chunk of chunks) {
+    totalLength += chunk.length;
+    for (const term of Object.keys(chunk.terms)) {
+      docFreq[term] = (docFreq[term] || 0) + 1;
+    }
+  }
+
+  return {
+    chunkCount: chunks.length,
+    avgChunkLength: chunks.length ? totalLength / chunks.length : 0,
+    docFreq
+  };
+}
+
+async function listIndexableFiles(root) {
+  const matches = await glob('**/*', { cwd: root, nodir: true, dot: true, ignore: IGNORE_PATTERNS });
+  const files = [];
+
+  for (const relativePath of matches.sort()) {
+    if (BINARY_EXTENSIONS.has(path.extname(relativePath).toLowerCase())) continue;
+
+    const stats = await fs.stat(path.join(root, relativePath));
+    if (stats.size === 0 || stats.size > MAX_FILE_SIZE) continue;
+
+    files.push({ relativePath: relativePath.split(path.sep).join('/'), stats });
+  }
+
+  return files;
+}
+
+function summarizeIndex(index, extra = {}) {
+  return {
+    repoPath: index.repoPath,
+    indexed: true,
+    builtAt: index.builtAt,
+    fileCount: Object.keys(index.files).length,
+    chunkCount: index.chunkCount,
+    embeddings: index.embedding ? { provider: index.embedding.provider, model: index.embedding.model } : null,
+    ...extra
+  };
+}
+
+function estimateTokens(text) {
+  return Math.ceil((text || '').length / 4);
+}
+
+function indexFilePath(root) {
+  const key = crypto.createHash('sha1').update(root).digest('hex');
+  return path.join(indexDir(), `${key}.json`);
+}
+
+async function loadIndex(root) {
+  if (indexCache.has(root)) return indexCache.get(root);
+
+  const file = indexFilePath(root);
+  if (!await fs.pathExists(file)) return null;
+
+  const index = await fs.readJson(file);
+  if (index.version !== INDEX_VERSION) return null;
+
+  indexCache.set(root, index);
+  return index;
+}
+
+async function saveIndex(index) {
+  await fs.ensureDir(indexDir());
+  await fs.writeJson(indexFilePath(index.repoPath), index);
+  indexCache.set(index.repoPath, index);
+}
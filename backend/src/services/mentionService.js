@@ -0,0 +1,234 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { glob } from 'glob';
+
+const IGNORE_PATTERNS = [
+  '**/node_modules/**',
+  '**/.git/**',
+  '**/dist/**',
+  '**/build/**',
+  '**/.next/**',
+  '**/coverage/**'
+];
+
+const SOURCE_EXTENSIONS = new Set([
+  '.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx', '.vue', '.svelte',
+  '.py', '.go', '.rb', '.java', '.kt', '.rs', '.php', '.cs', '.swift'
+]);
+
+// Declarations recognised as @symbol mentions, tried in order on each line
+const SYMBOL_PATTERNS = [
+  { kind: 'class', pattern: /^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?(?:public\s+)?class\s+([A-Za-z_$][\w$]*)/ },
+  { kind: 'interface', pattern: /^\s*(?:export\s+)?(?:public\s+)?interface\s+([A-Za-z_$][\w$]*)/ },
+  { kind: 'type', pattern: /^\s*(?:export\s+)?type\s+([A-Za-z_$][\w$]*)\s*(?:<[^=]*>)?\s*=/ },
+  { kind: 'enum', pattern: /^\s*(?:export\s+)?(?:const\s+)?enum\s+([A-Za-z_$][\w$]*)/ },
+  { kind: 'function', pattern: /^\s*(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/ },
+  { kind: 'function', pattern: /^\s*(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:\([^)]*\)|[A-Za-z_$][\w$]*)\s*(?::[^=]+)?=>/ },
+  { kind: 'function', pattern: /^\s*(?:async\s+)?def\s+([A-Za-z_]\w*)/ },
+  { kind: 'function', pattern: /^\s*func\s+(?:\([^)]*\)\s*)?([A-Za-z_]\w*)/ },
+  { kind: 'function', pattern: /^\s*(?:pub\s+)?(?:async\s+)?fn\s+([A-Za-z_]\w*)/ }
+];
+
+const MAX_SYMBOL_FILE_SIZE = 256 * 1024;
+const MAX_MENTION_FILE_SIZE = 64 * 1024;
+const MAX_FOLDER_FILES = 20;
+const MAX_SYMBOL_LINES = 200;
+
+// Repository listings are reused for a short while so typing stays responsive
+const CACHE_TTL_MS = 30000;
+const listingCache = new Map();
+
+/**
+ * Find files, folders and symbols matching what the user typed after @
+ * @param {string} repoPath - Repository path
+ * @param {string} query - Text typed after @ (may be empty)
+ * @param {Object} options - { type: 'file' | 'folder' | 'symbol' to search only that kind, limit }
+ * @returns {Array} Candidates of { type, path, name, line?, kind? }, best match first
+ */
+export async function searchMentions(repoPath, query = '', options = {}) {
+  const { type, limit = 20 } = options;
+
+  try {
+    const listing = await getListing(repoPath);
+    const needle = query.toLowerCase();
+
+    const candidates = [
+      ...(!type || type === 'folder' ? listing.folders.map(folder => ({ type: 'folder', path: folder, name: path.posix.basename(folder) })) : []),
+      ...(!type || type === 'file' ? listing.files.map(file => ({ type: 'file', path: file, name: path.posix.basename(file) })) : []),
+      ...(!type || type === 'symbol' ? listing.symbols.map(symbol => ({ type: 'symbol', ...symbol })) : [])
+    ];
+
+    return candidates
+      .map(candidate => ({ candidate, score: scoreMention(candidate, needle) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score || a.candidate.path.length - b.candidate.path.length || a.candidate.path.localeCompare(b.candidate.path))
+      .slice(0, limit)
+      .map(({ candidate }) => candidate);
+  } catch (error) {
+    console.error('Search mentions error:', error);
+    throw new Error(`Failed to search mentions: ${error.message}`);
+  }
+}
+
+/**
+ * Load the content a mention refers to, ready to send as chat files.
+ * Folders contribute their first text files; symbols contribute their declaration.
+ * @param {string} repoPath - Repository path
+ * @param {Object} mention - { type, path, line? }
+ * @returns {Object} { files: [{ path, content }], omitted } where omitted counts folder files left out
+ */
+export async function resolveMention(repoPath, mention) {
+  try {
+    const { type, path: mentionPath, line } = mention;
+    const fullPath = resolveInRepo(repoPath, mentionPath);
+
+    if (type === 'folder') {
+      const entries = (await glob('**/*', { cwd: fullPath, nodir: true, dot: true, ignore: IGNORE_PATTERNS, posix: true })).sort();
+      const files = [];
+      let omitted = 0;
+
+      for (const entry of entries) {
+        const content = files.length < MAX_FOLDER_FILES ? await readTextFile(path.join(fullPath, entry)) : null;
+        if (content === null) {
+          omitted++;
+          continue;
+        }
+        files.push({ path: path.posix.join(mentionPath, entry), content });
+      }
+
+      return { files, omitted };
+    }
+
+    const content = await readTextFile(fullPath);
+    if (content === null) {
+      throw new Error(`${mentionPath} is not a text file under ${MAX_MENTION_FILE_SIZE / 1024}KB`);
+    }
+
+    if (type === 'symbol') {
+      const lines = content.split('\n');
+      const start = Math.max(1, Math.min(line || 1, lines.length));
+      const end = findDeclarationEnd(lines, start - 1) + 1;
+      return {
+        files: [{ path: `${mentionPath}:${start}-${end}`, content: lines.slice(start - 1, end).join('\n') }],
+        omitted: 0
+      };
+    }
+
+    return { files: [{ path: mentionPath, content }], omitted: 0 };
+  } catch (error) {
+    console.error('Resolve mention error:', error);
+    throw new Error(`Failed to resolve mention: ${error.message}`);
+  }
+}
+
+/**
+ * List a repository's folders, files and declared symbols, cached briefly
+ */
+async function getListing(repoPath) {
+  const cached = listingCache.get(repoPath);
+  if (cached && Date.now() - cached.builtAt < CACHE_TTL_MS) return cached;
+
+  const entries = await glob('**/*', { cwd: repoPath, dot: true, mark: true, ignore: IGNORE_PATTERNS, posix: true });
+  const folders = entries.filter(entry => entry.endsWith('/')).map(entry => entry.slice(0, -1)).sort();
+  const files = entries.filter(entry => !entry.endsWith('/')).sort();
+  const symbols = [];
+
+  for (const file of files) {
+    if (!SOURCE_EXTENSIONS.has(path.extname(file).toLowerCase())) continue;
+
+    try {
+      const fullPath = path.join(repoPath, file);
+      if ((await fs.stat(fullPath)).size > MAX_SYMBOL_FILE_SIZE) continue;
+
+      const lines = (await fs.readFile(fullPath, 'utf8')).split('\n');
+      lines.forEach((text, index) => {
+        for (const { kind, pattern } of SYMBOL_PATTERNS) {
+          const match = text.match(pattern);
+          if (match) {
+            symbols.push({ path: file, name: match[1], line: index + 1, kind });
+            break;
+          }
+        }
+      });
+    } catch (error) {
+      console.warn(`Error reading symbols from ${file}:`, error.message);
+    }
+  }
+
+  const listing = { builtAt: Date.now(), folders, files, symbols };
+  listingCache.set(repoPath, listing);
+  return listing;
+}
+
+/**
+ * Rank a candidate: exact name, name prefix, name substring, then (for files and folders) path substring
+ */
+function scoreMention(candidate, needle) {
+  if (!needle) return candidate.type === 'symbol' ? 0 : 1;
+
+  const name = candidate.name.toLowerCase();
+  if (name === needle) return 4;
+  if (name.startsWith(needle)) return 3;
+  if (name.includes(needle)) return 2;
+  return candidate.type !== 'symbol' && candidate.path.toLowerCase().includes(needle) ? 1 : 0;
+}
+
+/**
+ * Find the last line of the declaration starting at a line: the line that
+ * closes its braces, or the end of its indented block for Python
+ */
+function findDeclarationEnd(lines, startIndex) {
+  const limit = Math.min(lines.length - 1, startIndex + MAX_SYMBOL_LINES - 1);
+  const declaration = lines[startIndex];
+
+  if (/^\s*(?:async\s+)?(?:def|class)\s[^{]*:\s*$/.test(declaration)) {
+    const indent = declaration.match(/^\s*/)[0].length;
+    let end = startIndex;
+    for (let i = startIndex + 1; i <= limit; i++) {
+      if (!lines[i].trim()) continue;
+      if (lines[i].match(/^\s*/)[0].length <= indent) break;
+      end = i;
+    }
+    return end;
+  }
+
+  let depth = 0;
+  let opened = false;
+  for (let i = startIndex; i <= limit; i++) {
+    for (const char of lines[i]) {
+      if (char === '{') {
+        depth++;
+        opened = true;
+      } else if (char === '}') {
+        depth--;
+      }
+    }
+    if (opened && depth <= 0) return i;
+    // Declarations without a body end on their first line
+    if (!opened && /;\s*$/.test(lines[i])) return i;
+  }
+  return limit;
+}
+
+/**
+ * Read a file as text, or null when it is too large or binary
+ */
+async function readTextFile(fullPath) {
+  const stats = await fs.stat(fullPath);
+  if (!stats.isFile() || stats.size > MAX_MENTION_FILE_SIZE) return null;
+
+  const content = await fs.readFile(fullPath, 'utf8');
+  return content.includes('\u0000') ? null : content;
+}
+
+/**
+ * Resolve a repository-relative path, refusing paths that escape the repository
+ */
+function resolveInRepo(repoPath, relativePath) {
+  const fullPath = path.resolve(repoPath, relativePath || '');
+  const relative = path.relative(path.resolve(repoPath), fullPath);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error('Path is outside the repository');
+  }
+  return fullPath;
+}
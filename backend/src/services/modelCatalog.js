@@ -0,0 +1,192 @@
+import { getProvider } from './providers/index.js';
+
+/**
+ * @typedef {Object} ModelDefinition
+ * @property {string} id - Catalog identifier used by clients
+ * @property {string} name - Display name
+ * @property {string} description - Short description
+ * @property {string} provider - Registered provider id
+ * @property {string|null} model - Provider model name (null = provider default)
+ * @property {number|null} contextWindow - Context window in tokens (null = provider default)
+ * @property {number} maxOutputTokens - Maximum completion tokens
+ * @property {number} charsPerToken - Average characters per token of the model's tokenizer (for estimates)
+ * @property {{ inputPer1M: number, outputPer1M: number }} pricing - Estimated USD per million prompt/completion tokens
+ * @property {number} defaultTemperature - Suggested sampling temperature
+ * @property {boolean|null} supportsVision - Accepts image input (null = provider default)
+ * @property {boolean|null} supportsStreaming - Streams tokens (null = provider default)
+ * @property {'coding'|'vision'} useCase - Primary use case
+ */
+
+/**
+ * The single source of truth for model metadata.
+ * Served to clients from GET /api/ai/models.
+ * @type {ModelDefinition[]}
+ */
+const MODEL_CATALOG = [
+  // Gemini Models (Vision + Text)
+  {
+    id: 'gemini-2.0-pro',
+    name: 'Gemini 2.0 Pro (Vision)',
+    description: 'Google\'s latest model with vision capabilities for UI analysis',
+    provider: 'gemini',
+    model: 'gemini-2.0-flash-exp',
+    contextWindow: 1048576,
+    maxOutputTokens: 8192,
+    charsPerToken: 4,
+    pricing: { inputPer1M: 0.10, outputPer1M: 0.40 },
+    defaultTemperature: 0.7,
+    supportsVision: true,
+    supportsStreaming: true,
+    useCase: 'vision'
+  },
+  {
+    id: 'gemini-1.5-flash',
+    name: 'Gemini 1.5 Flash',
+    description: 'Fast and efficient Gemini model for coding',
+    provider: 'gemini',
+    model: 'gemini-1.5-flash',
+    contextWindow: 1048576,
+    maxOutputTokens: 8192,
+    charsPerToken: 4,
+    pricing: { inputPer1M: 0.075, outputPer1M: 0.30 },
+    defaultTemperature: 0.7,
+    supportsVision: false,
+    supportsStreaming: true,
+    useCase: 'coding'
+  },
+
+  // OpenRouter Free Models
+  {
+    id: 'deepseek-r1t2-chimera',
+    name: 'DeepSeek R1T2 Chimera',
+    description: 'Free DeepSeek model for code generation',
+    provider: 'openrouter',
+    model: 'tngtech/deepseek-r1t2-chimera:free',
+    contextWindow: 163840,
+    maxOutputTokens: 8192,
+    charsPerToken: 3.5,
+    pricing: { inputPer1M: 0, outputPer1M: 0 },
+    defaultTemperature: 0.7,
+    supportsVision: false,
+    supportsStreaming: true,
+    useCase: 'coding'
+  },
+  {
+    id: 'qwen3-coder',
+    name: 'Qwen3 Coder',
+    description: 'Free Qwen model specialized for coding',
+    provider: 'openrouter',
+    model: 'qwen/qwen3-coder:free',
+    contextWindow: 262144,
+    maxOutputTokens: 8192,
+    charsPerToken: 3.3,
+    pricing: { inputPer1M: 0, outputPer1M: 0 },
+    defaultTemperature: 0.7,
+    supportsVision: false,
+    supportsStreaming: true,
+    useCase: 'coding'
+  },
+  {
+    id: 'deepseek-r1-0528',
+    name: 'DeepSeek R1 0528',
+    description: 'Free DeepSeek model for general coding tasks',
+    provider: 'openrouter',
+    model: 'deepseek/deepseek-r1-0528:free',
+    contextWindow: 163840,
+    maxOutputTokens: 8192,
+    charsPerToken: 3.5,
+    pricing: { inputPer1M: 0, outputPer1M: 0 },
+    defaultTemperature: 0.7,
+    supportsVision: false,
+    supportsStreaming: true,
+    useCase: 'coding'
+  },
+  {
+    id: 'deepseek-r1-qwen3-8b',
+    name: 'DeepSeek R1 Qwen3 8B',
+    description: 'Free hybrid DeepSeek-Qwen model',
+    provider: 'openrouter',
+    model: 'deepseek/deepseek-r1-0528-qwen3-8b:free',
+    contextWindow: 131072,
+    maxOutputTokens: 8192,
+    charsPerToken: 3.5,
+    pricing: { inputPer1M: 0, outputPer1M: 0 },
+    defaultTemperature: 0.7,
+    supportsVision: false,
+    supportsStreaming: true,
+    useCase: 'coding'
+  },
+
+  // Self-hosted / local OpenAI-compatible server (model from OPENAI_COMPATIBLE_MODEL)
+  {
+    id: 'local',
+    name: 'Local Model',
+    description: 'Self-hosted model behind an OpenAI-compatible endpoint',
+    provider: 'openai-compatible',
+    model: null,
+    contextWindow: null,
+    maxOutputTokens: 2048,
+    charsPerToken: 4,
+    pricing: { inputPer1M: 0, outputPer1M: 0 },
+    defaultTemperature: 0.7,
+    supportsVision: null,
+    supportsStreaming: null,
+    useCase: 'coding'
+  }
+];
+
+/**
+ * Models tried in order when the requested model fails, per use case.
+ * Override with AI_FALLBACK_CHAIN_<USE_CASE>, e.g. AI_FALLBACK_CHAIN_CODING=qwen3-coder,local
+ */
+const FALLBACK_CHAINS = {
+  coding: ['qwen3-coder', 'deepseek-r1t2-chimera', 'deepseek-r1-0528', 'gemini-1.5-flash', 'deepseek-r1-qwen3-8b', 'local'],
+  vision: ['gemini-2.0-pro']
+};
+
+/**
+ * Merge a catalog entry with its provider's defaults
+ */
+function resolveDefinition(definition) {
+  const provider = getProvider(definition.provider);
+
+  return {
+    ...definition,
+    model: definition.model || provider.defaultModel?.() || null,
+    contextWindow: definition.contextWindow || provider.capabilities.contextWindow,
+    supportsVision: definition.supportsVision ?? provider.capabilities.vision,
+    supportsStreaming: definition.supportsStreaming ?? provider.capabilities.streaming,
+    available: provider.isConfigured()
+  };
+}
+
+/**
+ * Get a model definition by id, resolved against its provider
+ * @param {string} id - Catalog model id
+ * @returns {Object|null} Resolved model definition
+ */
+export function getModelDefinition(id) {
+  const definition = MODEL_CATALOG.find(entry => entry.id === id);
+  return definition ? resolveDefinition(definition) : null;
+}
+
+/**
+ * List every model in the catalog with availability based on configured keys
+ * @returns {Array} Resolved model definitions
+ */
+export function listModels() {
+  return MODEL_CATALOG.map(resolveDefinition);
+}
+
+/**
+ * Get the fallback chain of model ids for a use case
+ * @param {string} useCase - Use case ('coding' | 'vision')
+ * @returns {Array} Catalog model ids in the order they should be tried
+ */
+export function getFallbackChain(useCase) {
+  const override = process.env[`AI_FALLBACK_CHAIN_${String(useCase).toUpperCase()}`];
+  if (override) {
+    return override.split(',').map(id => id.trim()).filter(Boolean);
+  }
+  return FALLBACK_CHAINS[useCase] || [];
+}
@@ -0,0 +1,147 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// One JSON file per recorded request, grouped by provider
+const DEFAULT_CASSETTE_DIR = path.join(__dirname, '../../../cassettes');
+
+/**
+ * Directory cassettes are recorded to and replayed from (AI_CASSETTE_DIR)
+ * @returns {string} Absolute directory path
+ */
+export function getCassetteDir() {
+  return path.resolve(process.env.AI_CASSETTE_DIR || DEFAULT_CASSETTE_DIR);
+}
+
+/**
+ * The parts of a provider call that decide its answer. Abort signals, ledger
+ * labels and repository paths are left out so the same request matches across
+ * machines; images are reduced to their type and digest.
+ * @param {string} method - Adapter method ('complete' | 'stream' | 'completeWithTools')
+ * @param {Object} request - Request passed to the adapter
+ * @returns {Object} Request payload
+ */
+export function getRequestPayload(method, request) {
+  if (method === 'completeWithTools') {
+    return {
+      messages: request.messages,
+      tools: request.tools,
+      temperature: request.temperature ?? null,
+      maxTokens: request.maxTokens ?? null
+    };
+  }
+
+  return {
+    prompt: request.prompt,
+    history: request.history || [],
+    context: request.context ?? null,
+    files: (request.files || []).map(file => ({ path: file.path, content: file.content })),
+    images: (request.images || []).map(image => `${image.mimeType};sha256:${digest(image.data)}`),
+    temperature: request.temperature ?? null,
+    maxTokens: request.maxTokens ?? null,
+    responseFormat: request.responseFormat ?? null
+  };
+}
+
+/**
+ * Wrap a provider adapter so its calls are saved as cassettes (mode 'record')
+ * or answered from cassettes without touching the network (mode 'replay').
+ * A cassette is found by a hash of the provider, catalog model id, method and
+ * request payload. A missing cassette fails with status 404, so replay moves
+ * down the fallback chain to the model that answered when recording. Requests
+ * are redacted before they reach the adapter, so cassettes hold placeholders
+ * rather than secrets.
+ * @param {Object} adapter - Registered provider adapter
+ * @param {Function} getMode - Returns the current provider mode
+ * @returns {Object} Adapter methods { complete, stream, completeWithTools }
+ */
+export function withCassettes(adapter, getMode) {
+  const run = async (method, modelConfig, request, invoke, onToken) => {
+    const mode = getMode();
+    if (mode !== 'record' && mode !== 'replay') {
+      return invoke(onToken);
+    }
+
+    const key = {
+      provider: adapter.id,
+      model: modelConfig.id,
+      method,
+      request: getRequestPayload(method, request)
+    };
+    const hash = digest(stableStringify(key)).slice(0, 32);
+    const file = path.join(getCassetteDir(), adapter.id, `${method}-${hash}.json`);
+
+    if (mode === 'replay') {
+      if (!await fs.pathExists(file)) {
+        const error = new Error(
+          `No cassette for ${adapter.id} ${method} request ${hash} in ${getCassetteDir()}; record it with AI_PROVIDER_MODE=record`
+        );
+        error.status = 404;
+        throw error;
+      }
+
+      const cassette = await fs.readJson(file);
+      for (const chunk of cassette.chunks || []) {
+        onToken?.(chunk);
+      }
+      return cassette.response;
+    }
+
+    const chunks = [];
+    const response = await invoke(onToken && (token => {
+      chunks.push(token);
+      onToken(token);
+    }));
+
+    await fs.ensureDir(path.dirname(file));
+    await fs.writeJson(file, {
+      ...key,
+      hash,
+      response,
+      ...(onToken ? { chunks } : {}),
+      recordedAt: new Date().toISOString()
+    }, { spaces: 2 });
+
+    return response;
+  };
+
+  return {
+    complete: (modelConfig, request) =>
+      run('complete', modelConfig, request, () => adapter.complete(modelConfig, request)),
+
+    ...(adapter.stream ? {
+      stream: (modelConfig, request, onToken) =>
+        run('stream', modelConfig, request, emit => adapter.stream(modelConfig, request, emit), onToken)
+    } : {}),
+
+    ...(adapter.completeWithTools ? {
+      completeWithTools: (modelConfig, request) =>
+        run('completeWithTools', modelConfig, request, () => adapter.completeWithTools(modelConfig, request))
+    } : {})
+  };
+}
+
+function digest(text) {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * JSON with object keys sorted, so equal requests always hash the same
+ */
+function stableStringify(value) {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
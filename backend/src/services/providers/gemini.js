@@ -0,0 +1,277 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+
+/**
+ * Build the current user turn text for Gemini from prompt, context and files
+ */
+function buildGeminiPrompt(prompt, context, files) {
+  let fullPrompt = prompt;
+
+  if (context) {
+    fullPrompt = `Context: ${JSON.stringify(context)}\n\n${prompt}`;
+  }
+
+  if (files && files.length > 0) {
+    const fileContext = files.map(file =>
+      `File: ${file.path}\nContent:\n${file.content}\n`
+    ).join('\n');
+    fullPrompt = `${fileContext}\n\n${fullPrompt}`;
+  }
+
+  return fullPrompt;
+}
+
+/**
+ * Build a Gemini generateContent request from history and the current turn.
+ * Gemini names the assistant role "model" and takes system prompts separately.
+ */
+function buildGeminiRequest(modelConfig, request) {
+  const { prompt, history, context, files, images = [] } = request;
+
+  const systemInstruction = history
+    .filter(message => message.role === 'system')
+    .map(message => message.content)
+    .join('\n\n');
+
+  const contents = [];
+  const pushContent = (role, parts) => {
+    const previous = contents[contents.length - 1];
+    // Gemini expects alternating roles, so merge consecutive turns from the same side
+    if (previous && previous.role === role) {
+      previous.parts.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  };
+
+  for (const message of history) {
+    if (message.role === 'system') continue;
+    pushContent(message.role === 'assistant' ? 'model' : 'user', [{ text: message.content }]);
+  }
+
+  const currentParts = [{ text: buildGeminiPrompt(prompt, context, files) }];
+
+  // Handle vision requests
+  if (modelConfig.supportsVision) {
+    for (const image of images) {
+      currentParts.push({ inlineData: { data: image.data, mimeType: image.mimeType } });
+    }
+  }
+
+  pushContent('user', currentParts);
+
+  return systemInstruction ? { contents, systemInstruction } : { contents };
+}
+
+/**
+ * Convert neutral agent messages into Gemini contents.
+ * Tool results are sent back as functionResponse parts.
+ */
+function buildGeminiToolRequest(request) {
+  const systemInstruction = request.messages
+    .filter(message => message.role === 'system')
+    .map(message => message.content)
+    .join('\n\n');
+
+  const contents = [];
+  for (const message of request.messages) {
+    if (message.role === 'system') continue;
+
+    if (message.role === 'tool') {
+      contents.push({
+        role: 'function',
+        parts: [{ functionResponse: { name: message.name, response: { result: message.content } } }]
+      });
+    } else if (message.role === 'assistant') {
+      const parts = [];
+      if (message.content) parts.push({ text: message.content });
+      for (const call of message.toolCalls || []) {
+        parts.push({ functionCall: { name: call.name, args: call.arguments } });
+      }
+      contents.push({ role: 'model', parts });
+    } else {
+      contents.push({ role: 'user', parts: [{ text: message.content }] });
+    }
+  }
+
+  return {
+    contents,
+    tools: [{
+      functionDeclarations: request.tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters
+      }))
+    }],
+    ...(systemInstruction ? { systemInstruction } : {})
+  };
+}
+
+/**
+ * Normalize Gemini usage metadata
+ */
+function normalizeGeminiUsage(usageMetadata) {
+  return {
+    promptTokens: usageMetadata?.promptTokenCount || 0,
+    completionTokens: usageMetadata?.candidatesTokenCount || 0,
+    totalTokens: usageMetadata?.totalTokenCount || 0
+  };
+}
+
+/**
+ * Ask Gemini for JSON output, constrained to the schema when Gemini's schema
+ * subset can express it
+ */
+function buildGeminiResponseFormat(responseFormat) {
+  if (responseFormat?.type !== 'json') return {};
+
+  const responseSchema = responseFormat.schema ? toGeminiSchema(responseFormat.schema) : null;
+  return {
+    responseMimeType: 'application/json',
+    ...(responseSchema ? { responseSchema } : {})
+  };
+}
+
+/**
+ * Convert a JSON schema to Gemini's OpenAPI-style subset.
+ * Returns null for schemas it cannot express (free-form objects, untyped
+ * values, unions other than with null).
+ */
+function toGeminiSchema(schema) {
+  let type = schema.type;
+  let nullable = false;
+
+  if (Array.isArray(type)) {
+    const types = type.filter(entry => entry !== 'null');
+    if (types.length !== 1) return null;
+    nullable = types.length !== type.length;
+    type = types[0];
+  }
+  if (!type) return null;
+
+  const converted = {
+    type,
+    ...(nullable ? { nullable: true } : {}),
+    ...(schema.description ? { description: schema.description } : {}),
+    ...(schema.enum ? { enum: schema.enum } : {})
+  };
+
+  if (type === 'array') {
+    const items = schema.items ? toGeminiSchema(schema.items) : null;
+    if (!items) return null;
+    converted.items = items;
+  }
+
+  if (type === 'object') {
+    const entries = Object.entries(schema.properties || {});
+    if (entries.length === 0) return null;
+
+    converted.properties = {};
+    for (const [key, child] of entries) {
+      const property = toGeminiSchema(child);
+      if (!property) return null;
+      converted.properties[key] = property;
+    }
+    if (schema.required) converted.required = schema.required;
+  }
+
+  return converted;
+}
+
+/**
+ * Create the Google Gemini provider adapter
+ * @returns {Object} Provider adapter
+ */
+export function createGeminiProvider() {
+  const getApiKey = () => process.env.GEMINI_API_KEY;
+
+  const getModel = (modelConfig, request) => {
+    const genAI = new GoogleGenerativeAI(getApiKey());
+    return genAI.getGenerativeModel({
+      model: modelConfig.model,
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+        ...buildGeminiResponseFormat(request.responseFormat)
+      }
+    });
+  };
+
+  return {
+    id: 'gemini',
+    name: 'Google Gemini',
+    capabilities: {
+      vision: true,
+      streaming: true,
+      tools: true,
+      contextWindow: 1048576,
+      jsonMode: 'schema'
+    },
+
+    isConfigured() {
+      return !!getApiKey();
+    },
+
+    async complete(modelConfig, request) {
+      const model = getModel(modelConfig, request);
+      const result = await model.generateContent(buildGeminiRequest(modelConfig, request), { signal: request.signal });
+      const response = await result.response;
+
+      return {
+        content: response.text(),
+        model: modelConfig.model,
+        provider: 'gemini',
+        usage: normalizeGeminiUsage(response.usageMetadata)
+      };
+    },
+
+    async completeWithTools(modelConfig, request) {
+      const model = getModel(modelConfig, request);
+      const result = await model.generateContent(buildGeminiToolRequest(request), { signal: request.signal });
+      const response = await result.response;
+      const parts = response.candidates?.[0]?.content?.parts || [];
+
+      // Gemini does not assign ids to function calls, so derive stable ones
+      const toolCalls = parts
+        .filter(part => part.functionCall)
+        .map((part, index) => ({
+          id: `call_${Date.now()}_${index}`,
+          name: part.functionCall.name,
+          arguments: part.functionCall.args || {}
+        }));
+
+      return {
+        content: parts.filter(part => part.text).map(part => part.text).join(''),
+        toolCalls,
+        model: modelConfig.model,
+        provider: 'gemini',
+        usage: normalizeGeminiUsage(response.usageMetadata)
+      };
+    },
+
+    async stream(modelConfig, request, onToken) {
+      const model = getModel(modelConfig, request);
+      const result = await model.generateContentStream(
+        buildGeminiRequest(modelConfig, request),
+        { signal: request.signal }
+      );
+
+      let content = '';
+      for await (const chunk of result.stream) {
+        const text = chunk.text();
+        if (text) {
+          content += text;
+          onToken(text);
+        }
+      }
+
+      const response = await result.response;
+
+      return {
+        content,
+        model: modelConfig.model,
+        provider: 'gemini',
+        usage: normalizeGeminiUsage(response.usageMetadata)
+      };
+    }
+  };
+}
@@ -0,0 +1,152 @@
+import { createGeminiProvider } from './gemini.js';
+import { createOpenAICompatibleProvider } from './openaiCompatible.js';
+import { withCassettes } from './cassettes.js';
+import { withMockResponses } from './mockResponses.js';
+
+// Registered provider adapters, keyed by provider id
+const providers = new Map();
+
+// live: call providers; record: call them and save cassettes;
+// replay: answer from cassettes only; mock: answer from scripted rules
+const PROVIDER_MODES = new Set(['live', 'record', 'replay', 'mock']);
+
+/**
+ * Register an AI provider adapter
+ *
+ * An adapter is an object with:
+ * - id, name
+ * - capabilities: { vision, streaming, tools, contextWindow, jsonMode }
+ *   jsonMode is 'schema' (constrained to a JSON schema), 'object' (any JSON) or false
+ * - isConfigured(): whether credentials/endpoints are present
+ * - defaultModel() (optional): model used when a catalog entry names none
+ * - complete(modelConfig, request): resolves to { content, model, provider, usage }.
+ *   request.responseFormat ({ type: 'json', name, schema }) asks for JSON output.
+ * - stream(modelConfig, request, onToken): same result, calling onToken per chunk
+ * - completeWithTools(modelConfig, { messages, tools, ... }) (optional): resolves to
+ *   { content, toolCalls: [{ id, name, arguments }], model, provider, usage }
+ *
+ * Registering an id that already exists replaces the previous adapter.
+ * Calls go through the provider mode (AI_PROVIDER_MODE), so offline modes
+ * cover every adapter.
+ * @param {Object} adapter - Provider adapter
+ * @returns {Object} The registered adapter
+ */
+export function registerProvider(adapter) {
+  if (!adapter?.id) {
+    throw new Error('Provider adapter must have an id');
+  }
+  if (typeof adapter.complete !== 'function') {
+    throw new Error(`Provider ${adapter.id} must implement complete()`);
+  }
+
+  providers.set(adapter.id, withProviderMode({
+    isConfigured: () => true,
+    ...adapter,
+    capabilities: {
+      vision: false,
+      streaming: typeof adapter.stream === 'function',
+      contextWindow: 8192,
+      jsonMode: false,
+      ...adapter.capabilities,
+      tools: typeof adapter.completeWithTools === 'function' && adapter.capabilities?.tools !== false
+    }
+  }));
+
+  return providers.get(adapter.id);
+}
+
+/**
+ * Get a registered provider adapter
+ * @param {string} id - Provider id
+ * @returns {Object} Provider adapter
+ */
+export function getProvider(id) {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Provider ${id} not registered`);
+  }
+  return provider;
+}
+
+/**
+ * List registered providers
+ * @returns {Array} Provider summaries
+ */
+export function listProviders() {
+  return Array.from(providers.values()).map(provider => ({
+    id: provider.id,
+    name: provider.name || provider.id,
+    capabilities: provider.capabilities,
+    configured: provider.isConfigured()
+  }));
+}
+
+/**
+ * Get the provider mode selected by AI_PROVIDER_MODE
+ * @returns {string} 'live' (default), 'record', 'replay' or 'mock'
+ */
+export function getProviderMode() {
+  const mode = process.env.AI_PROVIDER_MODE || 'live';
+  if (!PROVIDER_MODES.has(mode)) {
+    throw new Error(`Unknown AI provider mode ${mode}`);
+  }
+  return mode;
+}
+
+/**
+ * Route an adapter's calls through the current provider mode. Offline modes
+ * (replay, mock) report every provider as configured so no API keys are needed.
+ */
+function withProviderMode(adapter) {
+  const recorded = withCassettes(adapter, getProviderMode);
+  const mocked = withMockResponses(adapter);
+  const current = () => getProviderMode() === 'mock' ? mocked : recorded;
+
+  return {
+    ...adapter,
+    isConfigured: () => ['replay', 'mock'].includes(getProviderMode()) || adapter.isConfigured(),
+    complete: (modelConfig, request) => current().complete(modelConfig, request),
+    ...(adapter.stream ? {
+      stream: (modelConfig, request, onToken) => current().stream(modelConfig, request, onToken)
+    } : {}),
+    ...(adapter.completeWithTools ? {
+      completeWithTools: (modelConfig, request) => current().completeWithTools(modelConfig, request)
+    } : {})
+  };
+}
+
+// Built-in providers
+registerProvider(createGeminiProvider());
+
+registerProvider(createOpenAICompatibleProvider({
+  id: 'openrouter',
+  name: 'OpenRouter',
+  getBaseUrl: () => 'https://openrouter.ai/api/v1',
+  getApiKey: () => process.env.OPENROUTER_API_KEY,
+  capabilities: {
+    vision: false,
+    streaming: true,
+    tools: true,
+    contextWindow: 131072,
+    jsonMode: 'schema'
+  }
+}));
+
+// Self-hosted or local servers exposing the OpenAI API (Ollama, vLLM, LM Studio, test stubs)
+registerProvider(createOpenAICompatibleProvider({
+  id: 'openai-compatible',
+  name: 'OpenAI-Compatible Endpoint',
+  getBaseUrl: () => process.env.OPENAI_COMPATIBLE_BASE_URL,
+  getApiKey: () => process.env.OPENAI_COMPATIBLE_API_KEY,
+  getDefaultModel: () => process.env.OPENAI_COMPATIBLE_MODEL,
+  requiresApiKey: false,
+  capabilities: {
+    vision: process.env.OPENAI_COMPATIBLE_VISION === 'true',
+    streaming: true,
+    tools: process.env.OPENAI_COMPATIBLE_TOOLS !== 'false',
+    contextWindow: parseInt(process.env.OPENAI_COMPATIBLE_CONTEXT_WINDOW || '8192', 10),
+    jsonMode: ['schema', 'object'].includes(process.env.OPENAI_COMPATIBLE_JSON_MODE)
+      ? process.env.OPENAI_COMPATIBLE_JSON_MODE
+      : false
+  }
+}));
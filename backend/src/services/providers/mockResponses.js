@@ -0,0 +1,154 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { getRequestPayload } from './cassettes.js';
+
+// Rules set from code take precedence over the AI_MOCK_RESPONSES file
+let scriptedRules = null;
+let fileRules = null;
+let loadedFrom = null;
+
+/**
+ * Script the answers given in mock mode, replacing any earlier script.
+ *
+ * Rules are checked in order and the first matching one that is not used up
+ * answers. A rule is { match, response, times }:
+ * - match (optional): every field given must hold: provider, model, method
+ *   ('complete' | 'stream' | 'completeWithTools'), feature, route, and contains
+ *   (text that must appear somewhere in the request)
+ * - response: { content } text, { json } sent as serialized JSON, and/or
+ *   { toolCalls: [{ name, arguments }] }, with optional usage; or
+ *   { error: { status, message } } to simulate a provider failure
+ * - times (optional): how many requests the rule answers before it is used up
+ * @param {Array} rules - Mock rules
+ */
+export function setMockResponses(rules) {
+  if (!Array.isArray(rules)) {
+    throw new Error('Mock responses must be an array of rules');
+  }
+  scriptedRules = rules.map(toRuleState);
+}
+
+/**
+ * Forget scripted rules and reload the AI_MOCK_RESPONSES file on next use
+ */
+export function resetMockResponses() {
+  scriptedRules = null;
+  fileRules = null;
+  loadedFrom = null;
+}
+
+/**
+ * Answer every call of a provider adapter from the mock script, keeping its
+ * id and capabilities so routes behave as they would against the real provider.
+ * A request no rule matches fails with status 404, like a missing cassette.
+ * @param {Object} adapter - Registered provider adapter
+ * @returns {Object} Adapter methods { complete, stream, completeWithTools }
+ */
+export function withMockResponses(adapter) {
+  const respond = async (method, modelConfig, request) => {
+    const response = await findResponse(method, adapter.id, modelConfig, request);
+
+    if (response.error) {
+      const error = new Error(response.error.message || `Mock ${adapter.id} error`);
+      error.status = response.error.status;
+      throw error;
+    }
+
+    const content = response.json !== undefined ? JSON.stringify(response.json) : response.content || '';
+    return {
+      content,
+      ...(method === 'completeWithTools' ? {
+        toolCalls: (response.toolCalls || []).map((call, index) => ({
+          id: call.id || `call_mock_${index + 1}`,
+          name: call.name,
+          arguments: call.arguments || {}
+        }))
+      } : {}),
+      model: modelConfig.model || adapter.id,
+      provider: adapter.id,
+      usage: {
+        promptTokens: response.usage?.promptTokens || 0,
+        completionTokens: response.usage?.completionTokens || 0,
+        totalTokens: response.usage?.totalTokens || 0
+      }
+    };
+  };
+
+  return {
+    complete: (modelConfig, request) => respond('complete', modelConfig, request),
+
+    // Streams one word at a time so streaming code paths are exercised
+    async stream(modelConfig, request, onToken) {
+      const result = await respond('stream', modelConfig, request);
+      for (const chunk of result.content.match(/\S+\s*|\s+/g) || []) {
+        onToken(chunk);
+      }
+      return result;
+    },
+
+    completeWithTools: (modelConfig, request) => respond('completeWithTools', modelConfig, request)
+  };
+}
+
+function toRuleState(rule) {
+  if (!rule?.response) {
+    throw new Error('Each mock rule needs a response');
+  }
+  return { ...rule, remaining: rule.times ?? Infinity };
+}
+
+/**
+ * Load the rules file named by AI_MOCK_RESPONSES, once per path
+ */
+async function loadRules() {
+  if (scriptedRules) return scriptedRules;
+
+  const file = process.env.AI_MOCK_RESPONSES;
+  if (!file) return [];
+
+  const resolved = path.resolve(file);
+  if (loadedFrom !== resolved) {
+    const rules = await fs.readJson(resolved);
+    if (!Array.isArray(rules)) {
+      throw new Error(`Mock responses file ${resolved} must contain an array of rules`);
+    }
+    fileRules = rules.map(toRuleState);
+    loadedFrom = resolved;
+  }
+  return fileRules;
+}
+
+async function findResponse(method, providerId, modelConfig, request) {
+  const text = collectText(getRequestPayload(method, request)).join('\n');
+  const rules = await loadRules();
+
+  const rule = rules.find(candidate => {
+    const match = candidate.match || {};
+    return candidate.remaining > 0 &&
+      (!match.provider || match.provider === providerId) &&
+      (!match.model || match.model === modelConfig.id || match.model === modelConfig.model) &&
+      (!match.method || match.method === method) &&
+      (!match.feature || match.feature === request.feature) &&
+      (!match.route || match.route === request.route) &&
+      (!match.contains || text.includes(match.contains));
+  });
+
+  if (!rule) {
+    const error = new Error(`No mock response matches this ${providerId} ${method} request`);
+    error.status = 404;
+    throw error;
+  }
+
+  rule.remaining -= 1;
+  return rule.response;
+}
+
+/**
+ * Every string in a request payload, for substring matching
+ */
+function collectText(value) {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(collectText);
+  if (value && typeof value === 'object') return Object.values(value).flatMap(collectText);
+  return [];
+}
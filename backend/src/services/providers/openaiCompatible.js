@@ -0,0 +1,310 @@
+import axios from 'axios';
+import { StringDecoder } from 'string_decoder';
+
+/**
+ * Build messages array for chat-based models.
+ * Images are sent as image_url parts of the final user message.
+ */
+export function buildMessages(prompt, context, files, history = [], images = []) {
+  const messages = [];
+
+  // Caller-supplied system messages come first
+  for (const message of history) {
+    if (message.role === 'system') {
+      messages.push(message);
+    }
+  }
+
+  // Add system message with context
+  if (context) {
+    messages.push({
+      role: 'system',
+      content: `You are an AI coding assistant. Context: ${JSON.stringify(context)}`
+    });
+  }
+
+  // Replay earlier turns of the conversation
+  for (const message of history) {
+    if (message.role !== 'system') {
+      messages.push(message);
+    }
+  }
+
+  // Add file contents as context
+  if (files && files.length > 0) {
+    const fileContext = files.map(file =>
+      `File: ${file.path}\nContent:\n${file.content}`
+    ).join('\n\n');
+
+    messages.push({
+      role: 'user',
+      content: `Here are the relevant files:\n\n${fileContext}`
+    });
+  }
+
+  // Add the main prompt
+  messages.push({
+    role: 'user',
+    content: images.length > 0
+      ? [
+        { type: 'text', text: prompt },
+        ...images.map(image => ({ type: 'image_url', image_url: { url: image.dataUrl } }))
+      ]
+      : prompt
+  });
+
+  return messages;
+}
+
+/**
+ * Normalize OpenAI-style usage
+ */
+function normalizeOpenAIUsage(usage) {
+  return {
+    promptTokens: usage?.prompt_tokens || 0,
+    completionTokens: usage?.completion_tokens || 0,
+    totalTokens: usage?.total_tokens || 0
+  };
+}
+
+/**
+ * Convert neutral agent messages into OpenAI chat messages
+ */
+function toOpenAIToolMessages(messages) {
+  return messages.map(message => {
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    }
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+        }))
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+/**
+ * Parse tool call arguments, tolerating models that return invalid JSON
+ */
+function parseToolArguments(raw) {
+  if (!raw) return {};
+  if (typeof raw === 'object') return raw;
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    return { _raw: raw };
+  }
+}
+
+/**
+ * Turn an in-band stream error ({ message, code }) into a provider error whose
+ * status drives retry and fallback; errors without an HTTP code count as 502
+ */
+function toStreamError(payload) {
+  const code = Number(payload?.code);
+  const error = new Error(payload?.message || 'Provider stream failed');
+  error.status = Number.isInteger(code) && code >= 400 && code < 600 ? code : 502;
+  error.code = payload?.code;
+  return error;
+}
+
+/**
+ * Map a JSON response format to the provider's response_format parameter
+ */
+function buildResponseFormat(responseFormat, jsonMode) {
+  if (responseFormat?.type !== 'json' || !jsonMode) return {};
+
+  if (jsonMode === 'schema' && responseFormat.schema) {
+    return {
+      response_format: {
+        type: 'json_schema',
+        json_schema: {
+          name: (responseFormat.name || 'result').replace(/[^a-zA-Z0-9_-]/g, '_'),
+          schema: responseFormat.schema,
+          strict: false
+        }
+      }
+    };
+  }
+
+  return { response_format: { type: 'json_object' } };
+}
+
+/**
+ * Create a provider adapter for any server that implements the OpenAI
+ * chat completions API (OpenRouter, vLLM, Ollama, LM Studio, llama.cpp, ...)
+ * @param {Object} options - Adapter options
+ * @param {string} options.id - Provider identifier
+ * @param {string} options.name - Display name
+ * @param {Function} options.getBaseUrl - Returns the API base URL (e.g. http://localhost:11434/v1)
+ * @param {Function} options.getApiKey - Returns the API key, if any
+ * @param {Function} options.getDefaultModel - Returns the model used when a catalog entry names none
+ * @param {boolean} options.requiresApiKey - Whether the provider is unusable without a key
+ * @param {Object} options.capabilities - Provider capabilities
+ * @returns {Object} Provider adapter
+ */
+export function createOpenAICompatibleProvider(options) {
+  const {
+    id,
+    name,
+    getBaseUrl,
+    getApiKey = () => undefined,
+    getDefaultModel = () => undefined,
+    requiresApiKey = true,
+    capabilities
+  } = options;
+
+  const buildHeaders = () => {
+    const apiKey = getApiKey();
+    return {
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      'Content-Type': 'application/json'
+    };
+  };
+
+  const buildBody = (modelConfig, request, stream) => ({
+    model: modelConfig.model || getDefaultModel(),
+    messages: buildMessages(
+      request.prompt,
+      request.context,
+      request.files,
+      request.history,
+      modelConfig.supportsVision ? request.images : []
+    ),
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+    stream,
+    ...(stream ? { stream_options: { include_usage: true } } : {}),
+    ...buildResponseFormat(request.responseFormat, capabilities?.jsonMode)
+  });
+
+  return {
+    id,
+    name,
+    capabilities,
+
+    isConfigured() {
+      return !!getBaseUrl() && (!requiresApiKey || !!getApiKey());
+    },
+
+    defaultModel() {
+      return getDefaultModel() || null;
+    },
+
+    async complete(modelConfig, request) {
+      const body = buildBody(modelConfig, request, false);
+      const response = await axios.post(`${getBaseUrl()}/chat/completions`, body, {
+        headers: buildHeaders(),
+        signal: request.signal
+      });
+
+      return {
+        content: response.data.choices[0].message.content,
+        model: body.model,
+        provider: id,
+        usage: normalizeOpenAIUsage(response.data.usage)
+      };
+    },
+
+    async completeWithTools(modelConfig, request) {
+      const model = modelConfig.model || getDefaultModel();
+      const response = await axios.post(`${getBaseUrl()}/chat/completions`, {
+        model,
+        messages: toOpenAIToolMessages(request.messages),
+        tools: request.tools.map(tool => ({
+          type: 'function',
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+        })),
+        tool_choice: 'auto',
+        temperature: request.temperature,
+        max_tokens: request.maxTokens
+      }, {
+        headers: buildHeaders(),
+        signal: request.signal
+      });
+
+      const message = response.data.choices[0].message;
+
+      return {
+        content: message.content || '',
+        toolCalls: (message.tool_calls || []).map(call => ({
+          id: call.id,
+          name: call.function.name,
+          arguments: parseToolArguments(call.function.arguments)
+        })),
+        model,
+        provider: id,
+        usage: normalizeOpenAIUsage(response.data.usage)
+      };
+    },
+
+    /**
+     * Streams use the OpenAI protocol: server-sent events whose `data:` lines
+     * carry JSON deltas, terminated by `data: [DONE]`.
+     */
+    async stream(modelConfig, request, onToken) {
+      const body = buildBody(modelConfig, request, true);
+      const response = await axios.post(`${getBaseUrl()}/chat/completions`, body, {
+        headers: buildHeaders(),
+        responseType: 'stream',
+        signal: request.signal
+      });
+
+      let content = '';
+      let usage = null;
+      let buffer = '';
+      // Characters split across network chunks are held back until complete
+      const decoder = new StringDecoder('utf8');
+
+      for await (const chunk of response.data) {
+        buffer += decoder.write(chunk);
+        const lines = buffer.split('\n');
+        buffer = lines.pop();
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+
+          const data = trimmed.slice(5).trim();
+          if (data === '[DONE]') continue;
+
+          let parsed;
+          try {
+            parsed = JSON.parse(data);
+          } catch (error) {
+            console.warn('Skipping malformed stream chunk:', data);
+            continue;
+          }
+
+          // Errors after the stream started arrive in-band with a 200 status
+          if (parsed.error) {
+            throw toStreamError(parsed.error);
+          }
+
+          const delta = parsed.choices?.[0]?.delta?.content;
+          if (delta) {
+            content += delta;
+            onToken(delta);
+          }
+          if (parsed.usage) {
+            usage = parsed.usage;
+          }
+        }
+      }
+
+      return {
+        content,
+        model: body.model,
+        provider: id,
+        usage: normalizeOpenAIUsage(usage)
+      };
+    }
+  };
+}
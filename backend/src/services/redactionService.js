@@ -0,0 +1,316 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { getDataPath } from './dataDir.js';
+
+// Append-only log of redactions, one JSON entry per line (never the secret itself)
+const redactionLog = () => getDataPath('redactions.jsonl');
+
+// Per-repository list of paths whose contents never leave the backend (gitignore syntax)
+const IGNORE_FILE = '.winkyignore';
+
+// Paths withheld in every repository
+const DEFAULT_IGNORE_PATTERNS = [
+  '.env',
+  '.env.*',
+  '!.env.example',
+  '!.env.sample',
+  '*.pem',
+  '*.key',
+  '*.p12',
+  '*.pfx',
+  '*.keystore',
+  'id_rsa*',
+  'id_ed25519*',
+  '.npmrc',
+  '.netrc',
+  'credentials.json',
+  'service-account*.json'
+];
+
+// Secret formats, most specific first. group selects the part to replace.
+const SECRET_PATTERNS = [
+  { kind: 'private-key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { kind: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { kind: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { kind: 'google-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { kind: 'slack-token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g },
+  { kind: 'stripe-key', pattern: /\b[rs]k_(?:live|test)_[0-9A-Za-z]{16,}\b/g },
+  { kind: 'api-key', pattern: /\bsk-(?:[a-z]+-)?[A-Za-z0-9_-]{20,}/g },
+  { kind: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  { kind: 'connection-password', pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/]+:([^\s@/]{3,})@/gi, group: 1 },
+  {
+    kind: 'assigned-secret',
+    pattern: /^[ \t]*(?:export[ \t]+)?[A-Z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_KEY|APIKEY|PRIVATE_KEY|ACCESS_KEY|CREDENTIALS?)[A-Z0-9_]*[ \t]*=[ \t]*["']?([^\s"'#]{6,})/gm,
+    group: 1
+  },
+  {
+    kind: 'assigned-secret',
+    pattern: /\b[\w-]*(?:secret|token|password|passwd|api[_-]?key|private[_-]?key|access[_-]?key)["']?\s*[:=]\s*["']([^"'\s]{8,})["']/gi,
+    group: 1
+  },
+  { kind: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z][A-Za-z0-9-]*(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g }
+];
+
+// Candidate high-entropy strings: long runs of base64/URL-safe characters
+const ENTROPY_CANDIDATE = /[A-Za-z0-9+/_-]{24,}={0,2}/g;
+const MIN_ENTROPY_BITS = 4.2;
+
+const PLACEHOLDER = /\[\[REDACTED:[a-z-]+:\d+\]\]/g;
+const PLACEHOLDER_PREFIX = /^\[(?:\[(?:R(?:E(?:D(?:A(?:C(?:T(?:E(?:D(?::[a-z-]*(?::\d*\]?)?)?)?)?)?)?)?)?)?)?)?$/;
+
+// Appends are chained so concurrent calls never interleave lines
+let writeQueue = Promise.resolve();
+
+/**
+ * Create a redactor for one AI request.
+ *
+ * Secrets, high-entropy strings and the contents of ignored paths are swapped
+ * for placeholders such as [[REDACTED:github-token:1]]. The same value always
+ * gets the same placeholder, and restore() puts the values back into the AI's
+ * answer. Every new redaction is logged without the value itself.
+ *
+ * Set AI_REDACTION=off to send content unchanged.
+ *
+ * @param {Object} options - Redactor options
+ * @param {string} options.repoPath - Repository whose .winkyignore applies (optional)
+ * @param {string} options.feature - Product feature making the call, for the log
+ * @param {string} options.route - API route making the call, for the log
+ * @returns {Object} Redactor
+ */
+export async function createRedactor({ repoPath, feature, route } = {}) {
+  const enabled = process.env.AI_REDACTION !== 'off';
+  const ignorePatterns = enabled ? await loadIgnorePatterns(repoPath) : [];
+  const placeholders = new Map();
+  const values = new Map();
+  const counts = {};
+  const logged = new Set();
+
+  const placeholderFor = (value, kind, source) => {
+    let placeholder = placeholders.get(value);
+    if (!placeholder) {
+      counts[kind] = (counts[kind] || 0) + 1;
+      placeholder = `[[REDACTED:${kind}:${counts[kind]}]]`;
+      placeholders.set(value, placeholder);
+      values.set(placeholder, value);
+    }
+
+    if (!logged.has(`${placeholder}\u0000${source}`)) {
+      logged.add(`${placeholder}\u0000${source}`);
+      logRedaction({ feature, route, repoPath, source, kind, placeholder, value });
+    }
+    return placeholder;
+  };
+
+  const redactText = (text, source) => {
+    if (!enabled || typeof text !== 'string' || !text) return text;
+
+    let result = text;
+    for (const { kind, pattern, group } of SECRET_PATTERNS) {
+      result = result.replace(pattern, (match, ...groups) => {
+        const value = group ? groups[group - 1] : match;
+        if (!value || value.includes('[[REDACTED:')) return match;
+        return match.replace(value, placeholderFor(value, kind, source));
+      });
+    }
+
+    return result.replace(ENTROPY_CANDIDATE, candidate =>
+      isHighEntropy(candidate) ? placeholderFor(candidate, 'high-entropy', source) : candidate
+    );
+  };
+
+  const redactValue = (value, source) => {
+    if (typeof value === 'string') return redactText(value, source);
+    if (Array.isArray(value)) return value.map(item => redactValue(item, source));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactValue(item, source)]));
+    }
+    return value;
+  };
+
+  const restore = text => typeof text === 'string' && values.size > 0
+    ? text.replace(PLACEHOLDER, placeholder => values.get(placeholder) ?? placeholder)
+    : text;
+
+  const restoreValue = value => {
+    if (typeof value === 'string') return restore(value);
+    if (Array.isArray(value)) return value.map(restoreValue);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, restoreValue(item)]));
+    }
+    return value;
+  };
+
+  return {
+    get count() {
+      return placeholders.size;
+    },
+
+    /**
+     * Whether a path's contents are withheld entirely
+     */
+    isIgnored(filePath) {
+      return enabled && isIgnoredPath(filePath, ignorePatterns);
+    },
+
+    redactText,
+    redactValue,
+
+    /**
+     * Redact a { path, content } file, withholding all of it when its path is ignored
+     */
+    redactFile(file) {
+      if (!file || typeof file.content !== 'string') return file;
+      const filePath = String(file.path || '').replace(/:\d+-\d+$/, '');
+      const source = `file:${filePath}`;
+
+      if (this.isIgnored(filePath)) {
+        return { ...file, content: placeholderFor(file.content, 'ignored-file', source) };
+      }
+      return { ...file, content: redactText(file.content, source) };
+    },
+
+    restore,
+    restoreValue,
+
+    /**
+     * Wrap a streaming callback so placeholders split across chunks are restored whole
+     * @param {Function} emit - Receives restored text
+     * @returns {Object} { push(chunk), flush() }
+     */
+    createStreamRestorer(emit) {
+      let buffer = '';
+      return {
+        push(chunk) {
+          if (values.size === 0) return emit(chunk);
+          buffer += chunk;
+
+          // Hold back a trailing partial placeholder until it completes
+          let hold = buffer.lastIndexOf('[');
+          if (hold > 0 && buffer[hold - 1] === '[') hold--;
+          if (hold === -1 || !PLACEHOLDER_PREFIX.test(buffer.slice(hold))) hold = buffer.length;
+
+          const ready = buffer.slice(0, hold);
+          buffer = buffer.slice(hold);
+          if (ready) emit(restore(ready));
+        },
+        flush() {
+          if (buffer) emit(restore(buffer));
+          buffer = '';
+        }
+      };
+    }
+  };
+}
+
+/**
+ * Read a repository's ignore patterns, after the built-in defaults
+ * @param {string} repoPath - Repository path (optional)
+ * @returns {Array} Patterns in gitignore syntax
+ */
+export async function loadIgnorePatterns(repoPath) {
+  const patterns = [...DEFAULT_IGNORE_PATTERNS];
+  if (!repoPath) return patterns;
+
+  try {
+    const file = path.join(repoPath, IGNORE_FILE);
+    if (await fs.pathExists(file)) {
+      const lines = (await fs.readFile(file, 'utf8')).split('\n');
+      patterns.push(...lines.map(line => line.trim()).filter(line => line && !line.startsWith('#')));
+    }
+  } catch (error) {
+    console.warn(`Failed to read ${IGNORE_FILE} in ${repoPath}:`, error.message);
+  }
+
+  return patterns;
+}
+
+/**
+ * Match a path against gitignore-style patterns; the last matching pattern wins
+ * @param {string} filePath - Path relative to the repository root
+ * @param {Array} patterns - Patterns (a leading ! re-includes)
+ * @returns {boolean} Whether the path is ignored
+ */
+export function isIgnoredPath(filePath, patterns) {
+  const normalized = String(filePath || '').replace(/\\/g, '/').replace(/^\.?\//, '');
+  let ignored = false;
+
+  for (const raw of patterns) {
+    const negated = raw.startsWith('!');
+    const pattern = negated ? raw.slice(1) : raw;
+    if (pattern && patternToRegExp(pattern).test(normalized)) {
+      ignored = !negated;
+    }
+  }
+
+  return ignored;
+}
+
+/**
+ * Convert a gitignore pattern into a regular expression over relative paths.
+ * Patterns without a slash match at any depth; a trailing slash matches
+ * everything under a directory.
+ */
+function patternToRegExp(pattern) {
+  const directory = pattern.endsWith('/');
+  let body = pattern.replace(/\/$/, '');
+  const anchored = body.includes('/');
+  body = body.replace(/^\//, '');
+
+  const source = body
+    .split(/(\*\*\/?|\*|\?)/)
+    .map(part => {
+      if (part === '**/') return '(?:.*/)?';
+      if (part === '**') return '.*';
+      if (part === '*') return '[^/]*';
+      if (part === '?') return '[^/]';
+      return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}${directory ? '/.*' : '(?:/.*)?'}$`);
+}
+
+/**
+ * Whether a string looks like a random secret rather than an identifier or path
+ */
+function isHighEntropy(text) {
+  if (!/[0-9]/.test(text) || !/[a-z]/.test(text) || !/[A-Z]/.test(text)) return false;
+  if (/^sha\d+-/.test(text) || text.includes('/')) return false;
+
+  const frequencies = {};
+  for (const char of text) frequencies[char] = (frequencies[char] || 0) + 1;
+  const entropy = Object.values(frequencies).reduce((sum, count) => {
+    const p = count / text.length;
+    return sum - p * Math.log2(p);
+  }, 0);
+
+  return entropy >= MIN_ENTROPY_BITS;
+}
+
+/**
+ * Log one redaction to the console and the redaction log.
+ * Only a short fingerprint of the value is kept, so the log itself holds no secrets.
+ */
+function logRedaction({ feature, route, repoPath, source, kind, placeholder, value }) {
+  const entry = {
+    timestamp: new Date().toISOString(),
+    feature: feature || 'other',
+    route: route || null,
+    repoPath: repoPath || null,
+    source,
+    kind,
+    placeholder,
+    length: value.length,
+    fingerprint: crypto.createHash('sha256').update(value).digest('hex').slice(0, 12)
+  };
+
+  console.info(`Redacted ${kind} from ${source} as ${placeholder}`);
+
+  writeQueue = writeQueue
+    .then(async () => {
+      await fs.ensureDir(path.dirname(redactionLog()));
+      await fs.appendFile(redactionLog(), `${JSON.stringify(entry)}\n`, 'utf8');
+    })
+    .catch(error => console.error('Redaction log write error:', error));
+}
@@ -0,0 +1,111 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { isIgnoredPath } from './redactionService.js';
+
+// Per-repository instructions for the AI, in Markdown at the repository root
+const RULES_FILE = '.winky/rules.md';
+
+// Headings such as "## Files: src/**/*.ts, *.tsx" scope their section to matching paths
+const SCOPED_HEADING = /^(#{1,6})\s+files?:\s*(.+?)\s*#*\s*$/i;
+const HEADING = /^(#{1,6})\s/;
+
+// Keeps a long rules file from crowding out the conversation
+const MAX_RULES_CHARS = 12000;
+
+/**
+ * Read and parse a repository's rules file.
+ *
+ * Text outside scoped sections applies to every request. A "Files:" heading
+ * starts a section that only applies when a matching file is involved; it
+ * runs until the next heading of the same or a higher level. Globs use the
+ * same gitignore-style matching as .winkyignore.
+ *
+ * @param {string} repoPath - Repository path
+ * @returns {Array} Sections of { title, globs, content }; general instructions have no globs
+ */
+export async function loadRepoRules(repoPath) {
+  if (!repoPath) return [];
+
+  let text;
+  try {
+    const file = path.join(repoPath, RULES_FILE);
+    if (!await fs.pathExists(file)) return [];
+    text = await fs.readFile(file, 'utf8');
+  } catch (error) {
+    console.warn(`Failed to read ${RULES_FILE} in ${repoPath}:`, error.message);
+    return [];
+  }
+
+  const general = [];
+  const scoped = [];
+  let current = null;
+  let inFence = false;
+
+  for (const line of text.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+
+    const heading = !inFence && line.match(HEADING);
+    if (heading) {
+      const level = heading[1].length;
+      if (current && level <= current.level) current = null;
+
+      const match = line.match(SCOPED_HEADING);
+      if (match) {
+        const globs = match[2].split(',').map(glob => glob.trim().replace(/^`|`$/g, '')).filter(Boolean);
+        current = { level, title: globs.join(', '), globs, lines: [] };
+        scoped.push(current);
+        continue;
+      }
+    }
+
+    (current ? current.lines : general).push(line);
+  }
+
+  return [
+    { title: 'General', globs: [], content: general.join('\n').trim() },
+    ...scoped.map(({ title, globs, lines }) => ({ title, globs, content: lines.join('\n').trim() }))
+  ].filter(section => section.content);
+}
+
+/**
+ * Pick the rules that apply to the files a request involves
+ * @param {string} repoPath - Repository path
+ * @param {Array} filePaths - Paths relative to the repository root
+ * @returns {Object|null} { instruction, applied: [{ title, globs, files }] }, or null without matching rules
+ */
+export async function resolveRepoRules(repoPath, filePaths = []) {
+  const sections = await loadRepoRules(repoPath);
+  const paths = [...new Set(filePaths.filter(Boolean).map(normalizePath))];
+
+  const applied = sections
+    .map(section => ({
+      ...section,
+      files: section.globs.length > 0 ? paths.filter(filePath => isIgnoredPath(filePath, section.globs)) : []
+    }))
+    .filter(section => section.globs.length === 0 || section.files.length > 0);
+
+  if (applied.length === 0) return null;
+
+  let instruction = `Follow these instructions from the repository's ${RULES_FILE}. They take precedence over general conventions.\n\n` +
+    applied.map(section => section.globs.length > 0
+      ? `Instructions for files matching ${section.globs.join(', ')}:\n${section.content}`
+      : section.content
+    ).join('\n\n');
+
+  if (instruction.length > MAX_RULES_CHARS) {
+    console.warn(`${RULES_FILE} in ${repoPath} is longer than ${MAX_RULES_CHARS} characters; truncating`);
+    instruction = `${instruction.slice(0, MAX_RULES_CHARS)}\n[...truncated]`;
+  }
+
+  return {
+    instruction,
+    applied: applied.map(({ title, globs, files }) => ({ title, globs, files }))
+  };
+}
+
+/**
+ * Strip line-range suffixes (src/a.js:10-20) and leading ./ from a path
+ */
+function normalizePath(filePath) {
+  return String(filePath).replace(/\\/g, '/').replace(/:\d+-\d+$/, '').replace(/^\.?\//, '');
+}
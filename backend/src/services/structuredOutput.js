@@ -0,0 +1,245 @@
+import { processAIRequest } from './aiService.js';
+
+// Re-prompts allowed after the first answer fails validation
+const DEFAULT_MAX_REPAIRS = 2;
+
+// Validation errors quoted back to the model per repair prompt
+const MAX_REPORTED_ERRORS = 20;
+
+/**
+ * Raised when the model's answer cannot be parsed or does not match the schema
+ * after every repair attempt
+ */
+export class StructuredOutputError extends Error {
+  /**
+   * @param {string} message - Error message
+   * @param {Object} details - Failure details
+   * @param {Array} details.errors - Validation errors of the last answer
+   * @param {number} details.attempts - Number of answers requested
+   * @param {string} details.content - Raw text of the last answer
+   */
+  constructor(message, { errors = [], attempts = 0, content = '' } = {}) {
+    super(message);
+    this.name = 'StructuredOutputError';
+    this.errors = errors;
+    this.attempts = attempts;
+    this.content = content;
+  }
+}
+
+/**
+ * Request a JSON value matching a schema from the AI.
+ *
+ * Providers with a JSON mode are asked to use it, and the schema is included
+ * in the instructions for all providers. Answers that do not parse or validate
+ * are sent back with the validation errors, up to maxRepairs times.
+ *
+ * @param {Object} params - Request parameters (as for processAIRequest)
+ * @param {Object} schema - JSON schema the answer must match
+ * @param {Object} options - Options
+ * @param {string} options.name - Name of the artifact, used in messages and by providers' schema modes
+ * @param {number} options.maxRepairs - Re-prompts allowed after an invalid answer (default 2)
+ * @param {Function} options.validate - Extra checks on a schema-valid answer, returning error strings (optional)
+ * @returns {Object} { data, response, attempts } where response is the final AI response
+ */
+export async function generateStructured(params, schema, options = {}) {
+  const { name = 'result', maxRepairs = DEFAULT_MAX_REPAIRS, validate } = options;
+
+  const instruction = {
+    role: 'system',
+    content: `Respond with a single JSON value and nothing else: no prose and no Markdown code fences. ` +
+      `It must match this JSON schema:\n${JSON.stringify(schema)}`
+  };
+
+  let messages = [instruction, ...(params.messages || [])];
+  let prompt = params.prompt;
+  let errors = [];
+  let content = '';
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const response = await processAIRequest({
+      ...params,
+      prompt,
+      messages,
+      responseFormat: { type: 'json', name, schema }
+    });
+    content = response.content || '';
+
+    const parsed = parseJsonContent(content);
+    errors = parsed.error ? [parsed.error] : validateSchema(parsed.value, schema);
+    if (errors.length === 0 && validate) {
+      errors = validate(parsed.value);
+    }
+
+    if (errors.length === 0) {
+      return { data: parsed.value, response, attempts: attempt };
+    }
+
+    console.warn(`Invalid ${name} from model ${response.modelId} (attempt ${attempt}):`, errors.slice(0, 5));
+
+    messages = [
+      ...messages,
+      { role: 'user', content: prompt },
+      { role: 'assistant', content }
+    ];
+    prompt = `Your previous answer was not valid:\n` +
+      errors.slice(0, MAX_REPORTED_ERRORS).map(error => `- ${error}`).join('\n') +
+      `\n\nReply again with the complete, corrected JSON only.`;
+  }
+
+  throw new StructuredOutputError(
+    `The AI did not return a valid ${name} after ${maxRepairs + 1} attempts: ${errors.slice(0, 3).join('; ')}`,
+    { errors, attempts: maxRepairs + 1, content }
+  );
+}
+
+/**
+ * Parse a JSON value from model output, tolerating Markdown fences and
+ * surrounding prose
+ * @param {string} content - Model output
+ * @returns {Object} { value } on success, { error } otherwise
+ */
+export function parseJsonContent(content) {
+  const text = (content || '').trim();
+  if (!text) return { error: 'The answer was empty' };
+
+  const candidates = [text];
+  const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)\n?```/i);
+  if (fenced) candidates.push(fenced[1]);
+  const balanced = findBalancedJson(text);
+  if (balanced) candidates.push(balanced);
+
+  let lastError = null;
+  for (const candidate of candidates) {
+    try {
+      return { value: JSON.parse(candidate) };
+    } catch (error) {
+      lastError = error;
+    }
+  }
+
+  return { error: `The answer is not valid JSON (${lastError.message})` };
+}
+
+/**
+ * Validate a value against a JSON schema.
+ * Supports type, enum, properties, required, additionalProperties, items,
+ * minItems, maxItems, minLength, minProperties and pattern.
+ * @param {*} value - Value to validate
+ * @param {Object} schema - JSON schema
+ * @param {string} location - Path of the value, used in messages
+ * @returns {Array} Validation errors (empty when valid)
+ */
+export function validateSchema(value, schema, location = '$') {
+  const errors = [];
+  if (!schema || typeof schema !== 'object') return errors;
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(`${location}: expected ${types.join(' or ')}, got ${describeType(value)}`);
+      return errors;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    errors.push(`${location}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${location}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${location}: must match ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${location}: must have at least ${schema.minItems} item(s)`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${location}: must have at most ${schema.maxItems} item(s)`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateSchema(item, schema.items, `${location}[${index}]`)));
+    }
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const properties = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        errors.push(`${location}.${key}: is required`);
+      }
+    }
+
+    if (schema.minProperties !== undefined && Object.keys(value).length < schema.minProperties) {
+      errors.push(`${location}: must have at least ${schema.minProperties} propert${schema.minProperties === 1 ? 'y' : 'ies'}`);
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+      if (properties[key]) {
+        errors.push(...validateSchema(child, properties[key], `${location}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${location}.${key}: is not allowed`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateSchema(child, schema.additionalProperties, `${location}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(value, type) {
+  switch (type) {
+    case 'null': return value === null;
+    case 'array': return Array.isArray(value);
+    case 'object': return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    default: return typeof value === type;
+  }
+}
+
+function describeType(value) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Find the first complete top-level JSON object or array in text,
+ * skipping brackets inside strings
+ */
+function findBalancedJson(text) {
+  const start = text.search(/[[{]/);
+  if (start === -1) return null;
+
+  const stack = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '{' || char === '[') stack.push(char === '{' ? '}' : ']');
+    else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) return null;
+      if (stack.length === 0) return text.slice(start, i + 1);
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,186 @@
+import { tokenize } from './indexService.js';
+
+// Fallback characters-per-token ratio when a model does not define one
+const DEFAULT_CHARS_PER_TOKEN = 4;
+
+// Per-message formatting overhead (role markers, separators)
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Tokens held back for estimation error
+const SAFETY_MARGIN_RATIO = 0.05;
+
+// Share of the remaining budget history may claim before files are placed
+const HISTORY_RESERVE_RATIO = 0.3;
+
+// Share of the budget the context object may use
+const CONTEXT_MAX_RATIO = 0.1;
+
+// Files truncated below this many tokens are dropped instead
+const MIN_FILE_TOKENS = 200;
+
+/**
+ * Estimate tokens for text using the model's characters-per-token ratio
+ * @param {string} text - Text to measure
+ * @param {Object} modelConfig - Resolved model definition
+ * @returns {number} Estimated token count
+ */
+export function estimateTokens(text, modelConfig) {
+  const ratio = modelConfig?.charsPerToken || DEFAULT_CHARS_PER_TOKEN;
+  return Math.ceil((text || '').length / ratio);
+}
+
+/**
+ * Clamp the requested completion size to what the model can produce
+ * @param {number} maxTokens - Requested completion tokens
+ * @param {Object} modelConfig - Resolved model definition
+ * @returns {number} Completion token limit
+ */
+export function resolveMaxOutputTokens(maxTokens, modelConfig) {
+  const requested = parseInt(maxTokens, 10) || modelConfig.maxOutputTokens;
+  return Math.max(1, Math.min(requested, modelConfig.maxOutputTokens));
+}
+
+/**
+ * Fit a request into the model's context window.
+ *
+ * The prompt and system messages are always kept. The context object is
+ * truncated to a fixed share of the window, attached files are ranked by
+ * relevance to the prompt and truncated or dropped, and the oldest
+ * conversation turns are dropped last-in-first-out.
+ *
+ * @param {Object} request - Normalized AI request ({ prompt, history, context, files, maxTokens })
+ * @param {Object} modelConfig - Resolved model definition
+ * @returns {Object} The fitted request and a budget report of what was kept and dropped
+ */
+export function assemblePrompt(request, modelConfig) {
+  const count = text => estimateTokens(text, modelConfig);
+  const maxOutputTokens = resolveMaxOutputTokens(request.maxTokens, modelConfig);
+  const contextWindow = modelConfig.contextWindow;
+  const inputBudget = Math.floor(contextWindow * (1 - SAFETY_MARGIN_RATIO)) - maxOutputTokens;
+
+  const report = {
+    contextWindow,
+    maxOutputTokens,
+    inputBudget,
+    used: { prompt: 0, system: 0, context: 0, files: 0, history: 0, total: 0 },
+    dropped: { files: [], historyMessages: 0, contextTruncated: false }
+  };
+
+  report.used.prompt = count(request.prompt) + MESSAGE_OVERHEAD_TOKENS;
+  if (report.used.prompt > inputBudget) {
+    throw new Error(`Prompt is too long for model ${request.model}: about ${report.used.prompt} tokens, ${inputBudget} available`);
+  }
+
+  const systemMessages = request.history.filter(message => message.role === 'system');
+  const turns = request.history.filter(message => message.role !== 'system');
+  report.used.system = systemMessages.reduce((sum, message) => sum + count(message.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+
+  let remaining = inputBudget - report.used.prompt - report.used.system;
+
+  // Context object
+  let context = request.context;
+  if (context) {
+    const serialized = JSON.stringify(context);
+    const limit = Math.max(0, Math.min(remaining, Math.floor(inputBudget * CONTEXT_MAX_RATIO)));
+    if (count(serialized) > limit) {
+      context = { truncated: truncateText(serialized, limit, modelConfig) };
+      report.dropped.contextTruncated = true;
+    }
+    report.used.context = count(JSON.stringify(context)) + MESSAGE_OVERHEAD_TOKENS;
+    remaining -= report.used.context;
+  }
+
+  // Hold back room for recent history so large files cannot starve the conversation
+  const historyTokens = turns.reduce((sum, message) => sum + count(message.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+  const historyReserve = Math.min(historyTokens, Math.floor(Math.max(remaining, 0) * HISTORY_RESERVE_RATIO));
+  let fileBudget = remaining - historyReserve;
+
+  // Attached files, most relevant first
+  const files = [];
+  for (const file of rankFiles(request.files || [], request.prompt)) {
+    const tokens = count(file.path) + count(file.content) + MESSAGE_OVERHEAD_TOKENS;
+
+    if (tokens <= fileBudget) {
+      files.push(file);
+      fileBudget -= tokens;
+      report.used.files += tokens;
+    } else if (fileBudget >= MIN_FILE_TOKENS) {
+      const content = truncateText(file.content, fileBudget - count(file.path) - MESSAGE_OVERHEAD_TOKENS, modelConfig);
+      const used = count(file.path) + count(content) + MESSAGE_OVERHEAD_TOKENS;
+      files.push({ ...file, content });
+      report.used.files += used;
+      report.dropped.files.push({ path: file.path, reason: 'truncated', tokens: tokens - used });
+      fileBudget = 0;
+    } else {
+      report.dropped.files.push({ path: file.path, reason: 'dropped', tokens });
+    }
+  }
+  remaining -= report.used.files;
+
+  // Conversation history, most recent turns first
+  const kept = [];
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const tokens = count(turns[i].content) + MESSAGE_OVERHEAD_TOKENS;
+    if (tokens > remaining) break;
+
+    remaining -= tokens;
+    report.used.history += tokens;
+    kept.unshift(turns[i]);
+  }
+  report.dropped.historyMessages = turns.length - kept.length;
+
+  report.used.total = report.used.prompt + report.used.system + report.used.context + report.used.files + report.used.history;
+
+  if (report.dropped.files.length > 0 || report.dropped.historyMessages > 0 || report.dropped.contextTruncated) {
+    console.warn(`Prompt for model ${request.model} exceeded its budget:`, JSON.stringify(report.dropped));
+  }
+
+  return {
+    request: {
+      ...request,
+      context,
+      files,
+      history: [...systemMessages, ...kept],
+      maxTokens: maxOutputTokens
+    },
+    report
+  };
+}
+
+/**
+ * Order files by relevance to the prompt. Files the prompt names come first,
+ * then by overlap between prompt terms and the file's path and content.
+ */
+function rankFiles(files, prompt) {
+  const promptText = (prompt || '').toLowerCase();
+  const promptTerms = new Set(tokenize(prompt));
+
+  return files
+    .map((file, position) => {
+      // Retrieved chunks carry a line range suffix (path:start-end)
+      const fileName = (file.path || '').replace(/:\d+-\d+$/, '').split('/').pop();
+      const mentioned = !!fileName && promptText.includes(fileName.toLowerCase());
+
+      let overlap = 0;
+      if (promptTerms.size > 0) {
+        const fileTerms = new Set(tokenize(`${file.path}\n${file.content}`));
+        for (const term of promptTerms) {
+          if (fileTerms.has(term)) overlap++;
+        }
+      }
+
+      return { file, position, score: (mentioned ? 1000 : 0) + overlap };
+    })
+    .sort((a, b) => b.score - a.score || a.position - b.position)
+    .map(({ file }) => file);
+}
+
+/**
+ * Cut text to roughly the given number of tokens, keeping the beginning
+ */
+function truncateText(text, maxTokens, modelConfig) {
+  const ratio = modelConfig?.charsPerToken || DEFAULT_CHARS_PER_TOKEN;
+  const marker = '\n... [truncated to fit the context window]';
+  const maxChars = Math.max(0, Math.floor(maxTokens * ratio) - marker.length);
+  return text.length <= maxChars ? text : `${text.slice(0, maxChars)}${marker}`;
+}
@@ -0,0 +1,167 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { getErrorStatus } from './aiResilience.js';
+import { getDataPath } from './dataDir.js';
+
+// Append-only ledger of AI calls, one JSON entry per line
+const ledgerFile = () => getDataPath('usage.jsonl');
+
+const GROUP_KEYS = {
+  day: entry => entry.timestamp.slice(0, 10),
+  model: entry => entry.model,
+  provider: entry => entry.provider,
+  feature: entry => entry.feature,
+  route: entry => entry.route
+};
+
+// Appends are chained so concurrent calls never interleave lines
+let writeQueue = Promise.resolve();
+
+/**
+ * Estimate the cost of a call from the model's price table
+ * @param {Object} modelConfig - Resolved model definition
+ * @param {Object} usage - { promptTokens, completionTokens }
+ * @returns {number} Estimated cost in USD
+ */
+export function estimateCost(modelConfig, usage) {
+  const { inputPer1M = 0, outputPer1M = 0 } = modelConfig?.pricing || {};
+  const cost = ((usage?.promptTokens || 0) * inputPer1M + (usage?.completionTokens || 0) * outputPer1M) / 1e6;
+  return Math.round(cost * 1e8) / 1e8;
+}
+
+/**
+ * Record one AI call in the usage ledger.
+ * Recording never fails the call it describes: write errors are only logged.
+ * @param {Object} entry - Call details
+ * @param {string} entry.feature - Product feature that made the call (chat, text-to-app, firebase, ...)
+ * @param {string} entry.route - API route that made the call
+ * @param {Object} entry.modelConfig - Resolved model definition
+ * @param {Object} entry.usage - Token usage reported by the provider
+ * @param {number} entry.latencyMs - Time spent on the call, including retries
+ * @param {Error} entry.error - Error when the call failed
+ * @returns {Object} The recorded entry
+ */
+export function recordUsage({ feature, route, modelConfig, usage, latencyMs, error = null }) {
+  const record = {
+    timestamp: new Date().toISOString(),
+    feature: feature || 'other',
+    route: route || null,
+    model: modelConfig.id,
+    providerModel: modelConfig.model,
+    provider: modelConfig.provider,
+    promptTokens: usage?.promptTokens || 0,
+    completionTokens: usage?.completionTokens || 0,
+    totalTokens: usage?.totalTokens || (usage?.promptTokens || 0) + (usage?.completionTokens || 0),
+    latencyMs: Math.round(latencyMs || 0),
+    success: !error,
+    status: error ? getErrorStatus(error) : 200,
+    error: error ? error.message : null,
+    costUsd: estimateCost(modelConfig, usage)
+  };
+
+  writeQueue = writeQueue
+    .then(async () => {
+      await fs.ensureDir(path.dirname(ledgerFile()));
+      await fs.appendFile(ledgerFile(), `${JSON.stringify(record)}\n`);
+    })
+    .catch(writeError => console.error('Usage ledger write error:', writeError));
+
+  return record;
+}
+
+/**
+ * Summarize recorded AI usage
+ * @param {Object} options - Query options
+ * @param {string} options.from - Earliest timestamp or date to include (ISO)
+ * @param {string} options.to - Latest timestamp or date to include (ISO, dates are inclusive)
+ * @param {string} options.groupBy - 'day' | 'model' | 'provider' | 'feature' | 'route'
+ * @param {string} options.feature - Only include this feature
+ * @param {string} options.model - Only include this model
+ * @returns {Object} Totals and groups of { key, calls, errors, promptTokens, completionTokens, totalTokens, costUsd, avgLatencyMs }
+ */
+export async function queryUsage(options = {}) {
+  const { from, to, groupBy = 'day', feature, model } = options;
+
+  try {
+    if (!GROUP_KEYS[groupBy]) {
+      throw new Error(`Unknown grouping ${groupBy}`);
+    }
+
+    await writeQueue;
+    const entries = await readLedger();
+
+    // A bare date as upper bound covers that whole day
+    const toBound = to && /^\d{4}-\d{2}-\d{2}$/.test(to) ? `${to}T23:59:59.999Z` : to;
+
+    const selected = entries.filter(entry =>
+      (!from || entry.timestamp >= from) &&
+      (!toBound || entry.timestamp <= toBound) &&
+      (!feature || entry.feature === feature) &&
+      (!model || entry.model === model)
+    );
+
+    const groups = new Map();
+    for (const entry of selected) {
+      const key = GROUP_KEYS[groupBy](entry) || 'unknown';
+      if (!groups.has(key)) groups.set(key, emptyTotals(key));
+      addEntry(groups.get(key), entry);
+    }
+
+    const totals = emptyTotals('total');
+    selected.forEach(entry => addEntry(totals, entry));
+
+    const sorted = [...groups.values()].sort((a, b) =>
+      groupBy === 'day' ? a.key.localeCompare(b.key) : b.costUsd - a.costUsd || b.calls - a.calls
+    );
+
+    return {
+      from: from || null,
+      to: to || null,
+      groupBy,
+      totals: finalize(totals),
+      groups: sorted.map(finalize)
+    };
+  } catch (error) {
+    console.error('Usage query error:', error);
+    throw new Error(`Failed to query usage: ${error.message}`);
+  }
+}
+
+async function readLedger() {
+  if (!await fs.pathExists(ledgerFile())) return [];
+
+  const content = await fs.readFile(ledgerFile(), 'utf8');
+  return content
+    .split('\n')
+    .filter(Boolean)
+    .map(line => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        return null;
+      }
+    })
+    .filter(Boolean);
+}
+
+function emptyTotals(key) {
+  return { key, calls: 0, errors: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, latencyMs: 0 };
+}
+
+function addEntry(totals, entry) {
+  totals.calls++;
+  if (!entry.success) totals.errors++;
+  totals.promptTokens += entry.promptTokens;
+  totals.completionTokens += entry.completionTokens;
+  totals.totalTokens += entry.totalTokens;
+  totals.costUsd += entry.costUsd;
+  totals.latencyMs += entry.latencyMs;
+}
+
+function finalize({ latencyMs, ...totals }) {
+  return {
+    ...totals,
+    costUsd: Math.round(totals.costUsd * 1e6) / 1e6,
+    avgLatencyMs: totals.calls ? Math.round(latencyMs / totals.calls) : 0
+  };
+}
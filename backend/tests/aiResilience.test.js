@@ -0,0 +1,91 @@
+import {
+  isCircuitClosed,
+  recordFailure,
+  recordError,
+  getCircuitState
+} from '../src/services/aiResilience.js';
+import { processAIRequest } from '../src/services/aiService.js';
+import { setMockResponses, resetMockResponses } from '../src/services/providers/mockResponses.js';
+
+const providerError = status => Object.assign(new Error(`status ${status}`), { status });
+const abortError = () => Object.assign(new Error('aborted'), { name: 'AbortError' });
+
+// Opens the circuit and lets the cooldown pass, so the next check starts a trial
+const openCircuit = providerId => {
+  recordFailure(providerId);
+  expect(getCircuitState(providerId).state).toBe('open');
+};
+
+beforeAll(() => {
+  process.env.AI_CIRCUIT_FAILURE_THRESHOLD = '1';
+  process.env.AI_CIRCUIT_COOLDOWN_MS = '0';
+  process.env.AI_MAX_RETRIES = '0';
+});
+
+afterEach(() => {
+  resetMockResponses();
+  delete process.env.AI_PROVIDER_MODE;
+});
+
+afterAll(() => {
+  delete process.env.AI_CIRCUIT_FAILURE_THRESHOLD;
+  delete process.env.AI_CIRCUIT_COOLDOWN_MS;
+  delete process.env.AI_MAX_RETRIES;
+});
+
+describe('half-open circuit', () => {
+  test('lets one trial through at a time', () => {
+    openCircuit('single-trial');
+
+    expect(isCircuitClosed('single-trial')).toBe(true);
+    expect(getCircuitState('single-trial').state).toBe('half-open');
+    expect(isCircuitClosed('single-trial')).toBe(false);
+  });
+
+  test('closes when the trial ends in a 400', () => {
+    openCircuit('bad-request');
+    isCircuitClosed('bad-request');
+
+    recordError('bad-request', providerError(400));
+
+    expect(getCircuitState('bad-request')).toMatchObject({ state: 'closed', failures: 0 });
+    expect(isCircuitClosed('bad-request')).toBe(true);
+  });
+
+  test('opens again when the trial fails with a provider failure', () => {
+    openCircuit('still-down');
+    isCircuitClosed('still-down');
+
+    recordError('still-down', providerError(503));
+
+    expect(getCircuitState('still-down').state).toBe('open');
+  });
+
+  test('allows a new trial when the trial was aborted', () => {
+    openCircuit('aborted');
+    isCircuitClosed('aborted');
+
+    recordError('aborted', abortError());
+
+    expect(getCircuitState('aborted').state).toBe('open');
+    expect(isCircuitClosed('aborted')).toBe(true);
+  });
+
+  test('a request whose trial gets a 400 does not block later requests', async () => {
+    process.env.AI_PROVIDER_MODE = 'mock';
+    setMockResponses([
+      { times: 1, response: { error: { status: 503, message: 'overloaded' } } },
+      { times: 1, response: { error: { status: 400, message: 'bad request' } } },
+      { response: { content: 'Back again' } }
+    ]);
+    const request = { prompt: 'Hello', model: 'gemini-1.5-flash', fallback: false };
+
+    await expect(processAIRequest(request)).rejects.toThrow('overloaded');
+    expect(getCircuitState('gemini').state).toBe('open');
+
+    await expect(processAIRequest(request)).rejects.toThrow('bad request');
+    expect(getCircuitState('gemini').state).toBe('closed');
+
+    await expect(processAIRequest(request)).resolves.toMatchObject({ content: 'Back again' });
+  });
+});
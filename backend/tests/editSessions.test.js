@@ -0,0 +1,52 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { createEditSession, getEditSession, revertEditSession } from '../src/services/editSessionService.js';
+import { deleteFile, moveFile } from '../src/services/fileService.js';
+
+// Not valid UTF-8, so a text round trip would replace bytes
+const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff, 0xfe, 0x80]);
+
+let repoPath;
+
+beforeEach(async () => {
+  repoPath = await fs.mkdtemp(path.join(os.tmpdir(), 'winky-sessions-'));
+  await fs.outputFile(path.join(repoPath, 'assets/logo.png'), png);
+  await fs.outputFile(path.join(repoPath, 'icon.png'), png);
+});
+
+afterEach(async () => {
+  await fs.remove(repoPath);
+});
+
+describe('edit sessions with binary files', () => {
+  test('revert restores deleted and moved binary files byte for byte', async () => {
+    const session = await createEditSession({ repoPath, title: 'Tidy assets' });
+    await deleteFile(repoPath, 'assets/logo.png', null, { sessionId: session.id });
+    await moveFile(repoPath, 'icon.png', 'assets/icon.png', null, { sessionId: session.id });
+
+    const { files } = await getEditSession(session.id);
+    expect(files).toEqual(expect.arrayContaining([
+      expect.objectContaining({ oldPath: 'assets/logo.png', status: 'deleted', binary: true, before: null, diff: '' }),
+      expect.objectContaining({ oldPath: 'icon.png', path: 'assets/icon.png', status: 'renamed', binary: true })
+    ]));
+
+    const reverted = await revertEditSession(session.id);
+
+    expect(reverted.conflicts).toEqual([]);
+    expect(await fs.readFile(path.join(repoPath, 'assets/logo.png'))).toEqual(png);
+    expect(await fs.readFile(path.join(repoPath, 'icon.png'))).toEqual(png);
+    expect(await fs.pathExists(path.join(repoPath, 'assets/icon.png'))).toBe(false);
+  });
+
+  test('a binary file changed after the session is a conflict', async () => {
+    const session = await createEditSession({ repoPath, title: 'Move icon' });
+    await moveFile(repoPath, 'icon.png', 'moved.png', null, { sessionId: session.id });
+    await fs.writeFile(path.join(repoPath, 'moved.png'), Buffer.concat([png, Buffer.from([0x01])]));
+
+    await expect(revertEditSession(session.id)).rejects.toMatchObject({
+      name: 'EditSessionConflictError',
+      conflicts: [{ path: 'moved.png', reason: 'File was modified after the session' }]
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { init, add, commit, branch, checkout } from 'isomorphic-git';
+import { checkoutBranch } from '../src/services/gitService.js';
+
+const author = { name: 'Test', email: 'test@example.com' };
+
+let repoPath;
+
+const write = (filePath, content) => fs.writeFile(path.join(repoPath, filePath), content);
+const read = filePath => fs.readFile(path.join(repoPath, filePath), 'utf8');
+
+const commitFiles = async (files, message) => {
+  for (const [filePath, content] of Object.entries(files)) {
+    await write(filePath, content);
+    await add({ fs, dir: repoPath, filepath: filePath });
+  }
+  await commit({ fs, dir: repoPath, message, author });
+};
+
+beforeEach(async () => {
+  repoPath = await fs.mkdtemp(path.join(os.tmpdir(), 'winky-branches-'));
+  await init({ fs, dir: repoPath, defaultBranch: 'main' });
+  await commitFiles({ 'a.txt': 'a on main\n', 'b.txt': 'b on main\n' }, 'Initial commit');
+
+  await branch({ fs, dir: repoPath, ref: 'feature', checkout: true });
+  await commitFiles({ 'a.txt': 'a on feature\n', 'c.txt': 'c on feature\n' }, 'Change a, add c');
+  await checkout({ fs, dir: repoPath, ref: 'main' });
+
+  // a.txt conflicts with feature, c.txt is untracked and in the way, b.txt does not conflict
+  await write('a.txt', 'local a\n');
+  await write('b.txt', 'local b edit\n');
+  await write('c.txt', 'local c\n');
+});
+
+afterEach(async () => {
+  await fs.remove(repoPath);
+});
+
+describe('checkoutBranch', () => {
+  test('refuses when local changes would be overwritten', async () => {
+    await expect(checkoutBranch(repoPath, 'feature')).rejects.toMatchObject({
+      reason: 'local-changes',
+      files: expect.arrayContaining(['a.txt', 'c.txt'])
+    });
+    expect(await read('a.txt')).toBe('local a\n');
+  });
+
+  test('with force discards only the conflicting files and keeps other edits', async () => {
+    const result = await checkoutBranch(repoPath, 'feature', { force: true });
+
+    expect(result).toMatchObject({ branch: 'feature', previousBranch: 'main', created: false });
+    expect(result.discarded.sort()).toEqual(['a.txt', 'c.txt']);
+    expect(await read('a.txt')).toBe('a on feature\n');
+    expect(await read('c.txt')).toBe('c on feature\n');
+    expect(await read('b.txt')).toBe('local b edit\n');
+  });
+});
@@ -0,0 +1,96 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { init, add, remove, commit, readBlob, resolveRef } from 'isomorphic-git';
+import { commitChanges, getDiff, stageChanges } from '../src/services/gitService.js';
+
+const lines = count => Array.from({ length: count }, (_, index) => `line ${index + 1}`);
+
+let repoPath;
+
+beforeEach(async () => {
+  repoPath = await fs.mkdtemp(path.join(os.tmpdir(), 'winky-hunks-'));
+  await init({ fs, dir: repoPath, defaultBranch: 'main' });
+  await fs.writeFile(path.join(repoPath, 'a.txt'), lines(10).join('\n'));
+  await add({ fs, dir: repoPath, filepath: 'a.txt' });
+  await commit({ fs, dir: repoPath, message: 'Initial commit', author: { name: 'Test', email: 'test@example.com' } });
+});
+
+afterEach(async () => {
+  await fs.remove(repoPath);
+});
+
+const getHunks = async (from, to) => {
+  const { files } = await getDiff(repoPath, { from, to, filePath: 'a.txt' });
+  return files[0].hunks;
+};
+
+describe('hunk ids', () => {
+  test('stay the same while the hunk does and stage only that hunk', async () => {
+    const edited = lines(10);
+    edited[1] = 'the second line';
+    edited[7] = 'the eighth line';
+    await fs.writeFile(path.join(repoPath, 'a.txt'), edited.join('\n'));
+
+    const hunks = await getHunks('index', 'workdir');
+    expect(hunks).toHaveLength(2);
+    expect(await getHunks('index', 'workdir')).toEqual(hunks);
+
+    await stageChanges(repoPath, [{ path: 'a.txt', hunks: [hunks[1].id] }]);
+
+    const staged = await getHunks('HEAD', 'index');
+    expect(staged).toEqual([expect.objectContaining({ newText: 'the eighth line' })]);
+    expect(staged[0].id).toBe(hunks[1].id);
+  });
+
+  test('from a stale diff fail instead of staging another hunk', async () => {
+    const edited = lines(10);
+    edited[1] = 'the second line';
+    edited[7] = 'the eighth line';
+    await fs.writeFile(path.join(repoPath, 'a.txt'), edited.join('\n'));
+    const [first] = await getHunks('index', 'workdir');
+
+    // Dropping the first change leaves one hunk, which would have reused a positional id
+    edited[1] = 'line 2';
+    await fs.writeFile(path.join(repoPath, 'a.txt'), edited.join('\n'));
+
+    await expect(stageChanges(repoPath, [{ path: 'a.txt', hunks: [first.id] }]))
+      .rejects.toThrow(`a.txt changed since its diff was loaded; unknown hunks ${first.id}`);
+    expect(await getDiff(repoPath, { from: 'HEAD', to: 'index' })).toMatchObject({ files: [] });
+  });
+});
+
+describe('commitChanges', () => {
+  test('commits only the listed files and leaves other staged changes staged', async () => {
+    await fs.writeFile(path.join(repoPath, 'c.txt'), 'to be deleted\n');
+    await add({ fs, dir: repoPath, filepath: 'c.txt' });
+    const base = await commit({ fs, dir: repoPath, message: 'Add c.txt', author: { name: 'Test', email: 'test@example.com' } });
+
+    await fs.writeFile(path.join(repoPath, 'a.txt'), lines(12).join('\n'));
+    await fs.writeFile(path.join(repoPath, 'b.txt'), 'staged elsewhere\n');
+    await add({ fs, dir: repoPath, filepath: 'b.txt' });
+    await fs.remove(path.join(repoPath, 'c.txt'));
+    await remove({ fs, dir: repoPath, filepath: 'c.txt' });
+
+    const { commitHash } = await commitChanges(repoPath, 'Update a.txt', [{ path: 'a.txt' }], null, { push: false });
+
+    expect(await resolveRef({ fs, dir: repoPath, ref: 'HEAD' })).toBe(commitHash);
+    const { files } = await getDiff(repoPath, { from: base, to: commitHash });
+    expect(files.map(file => file.path)).toEqual(['a.txt']);
+
+    const staged = await getDiff(repoPath, { from: 'HEAD', to: 'index' });
+    expect(staged.files.map(file => [file.path, file.status])).toEqual([['b.txt', 'added'], ['c.txt', 'deleted']]);
+    const { blob } = await readBlob({ fs, dir: repoPath, oid: commitHash, filepath: 'c.txt' });
+    expect(Buffer.from(blob).toString('utf8')).toBe('to be deleted\n');
+  });
+
+  test('fails when none of the listed files has changes, keeping other staged changes', async () => {
+    await fs.writeFile(path.join(repoPath, 'b.txt'), 'staged elsewhere\n');
+    await add({ fs, dir: repoPath, filepath: 'b.txt' });
+
+    await expect(commitChanges(repoPath, 'Update a.txt', [{ path: 'a.txt' }], null, { push: false }))
+      .rejects.toThrow('Nothing to commit; stage some changes first');
+    const staged = await getDiff(repoPath, { from: 'HEAD', to: 'index' });
+    expect(staged.files.map(file => file.path)).toEqual(['b.txt']);
+  });
+});
@@ -0,0 +1,96 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { jest } from '@jest/globals';
+
+// Upstream commits are made in the same repository, so pulling needs no network
+jest.unstable_mockModule('isomorphic-git', () => {
+  const actual = jest.requireActual('isomorphic-git');
+  return { ...actual, default: actual, fetch: jest.fn(async () => ({})) };
+});
+
+const git = await import('isomorphic-git');
+const { pullChanges } = await import('../src/services/gitService.js');
+
+const author = { name: 'Test', email: 'test@example.com' };
+
+let repoPath;
+
+const read = filePath => fs.readFile(path.join(repoPath, filePath), 'utf8');
+const head = () => git.resolveRef({ fs, dir: repoPath, ref: 'HEAD' });
+
+const commitFiles = async (files, message) => {
+  for (const [filePath, content] of Object.entries(files)) {
+    await fs.writeFile(path.join(repoPath, filePath), content);
+    await git.add({ fs, dir: repoPath, filepath: filePath });
+  }
+  return git.commit({ fs, dir: repoPath, message, author });
+};
+
+// Commits files on a branch started from base, then returns to main
+const commitOnBranch = async (branchName, base, files, message) => {
+  await git.branch({ fs, dir: repoPath, ref: branchName, object: base, checkout: true });
+  const oid = await commitFiles(files, message);
+  await git.checkout({ fs, dir: repoPath, ref: 'main' });
+  return oid;
+};
+
+let base;
+
+beforeEach(async () => {
+  repoPath = await fs.mkdtemp(path.join(os.tmpdir(), 'winky-pull-'));
+  await git.init({ fs, dir: repoPath, defaultBranch: 'main' });
+  await git.setConfig({ fs, dir: repoPath, path: 'remote.origin.url', value: 'https://example.com/repo.git' });
+  base = await commitFiles({ 'a.txt': 'a\n', 'b.txt': 'b\n' }, 'Initial commit');
+
+  const upstream = await commitOnBranch('upstream', base, { 'a.txt': 'a upstream\n' }, 'Upstream change');
+  await git.writeRef({ fs, dir: repoPath, ref: 'refs/remotes/origin/main', value: upstream });
+});
+
+afterEach(async () => {
+  await fs.remove(repoPath);
+});
+
+describe('pullChanges with rebase', () => {
+  test('replays local commits on top of upstream', async () => {
+    await commitFiles({ 'b.txt': 'b local\n' }, 'Local change');
+
+    const result = await pullChanges(repoPath, 'token', { strategy: 'rebase' });
+
+    expect(result).toMatchObject({ status: 'rebased', strategy: 'rebase', rebaseConflictAt: null });
+    const { commit } = await git.readCommit({ fs, dir: repoPath, oid: await head() });
+    expect(commit.parent).toEqual([result.upstream]);
+    expect(await read('a.txt')).toBe('a upstream\n');
+    expect(await read('b.txt')).toBe('b local\n');
+  });
+
+  test('merges instead when a local commit conflicts, keeping every local commit', async () => {
+    await commitFiles({ 'b.txt': 'b local\n' }, 'First local change');
+    const conflicting = await commitFiles({ 'a.txt': 'a local\n' }, 'Conflicting local change');
+
+    const result = await pullChanges(repoPath, 'token', { strategy: 'rebase' });
+
+    expect(result).toMatchObject({
+      status: 'conflicts',
+      strategy: 'merge',
+      head: conflicting,
+      rebaseConflictAt: { oid: conflicting, subject: 'Conflicting local change' },
+      conflicts: [expect.objectContaining({ path: 'a.txt', type: 'both-modified' })]
+    });
+    expect(await fs.readFile(path.join(repoPath, '.git', 'MERGE_HEAD'), 'utf8')).toBe(`${result.upstream}\n`);
+    expect(await read('b.txt')).toBe('b local\n');
+  });
+
+  test('refuses local merge commits instead of dropping what they merged', async () => {
+    await commitOnBranch('topic', base, { 'c.txt': 'c from topic\n' }, 'Topic change');
+    await commitFiles({ 'b.txt': 'b local\n' }, 'Local change');
+    await git.merge({ fs, dir: repoPath, ours: 'main', theirs: 'topic', author, message: 'Merge topic' });
+    await git.checkout({ fs, dir: repoPath, ref: 'main' });
+    const before = await head();
+
+    await expect(pullChanges(repoPath, 'token', { strategy: 'rebase' }))
+      .rejects.toMatchObject({ reason: 'local-merges', message: expect.stringContaining('Merge topic') });
+    expect(await head()).toBe(before);
+    expect(await read('c.txt')).toBe('c from topic\n');
+  });
+});
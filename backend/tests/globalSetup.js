@@ -0,0 +1,8 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+
+// Keeps sessions, indexes and ledgers written during tests out of backend/data
+export default async function globalSetup() {
+  process.env.DATA_DIR = await fs.mkdtemp(path.join(os.tmpdir(), 'winky-data-'));
+}
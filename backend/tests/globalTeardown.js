@@ -0,0 +1,7 @@
+import fs from 'fs-extra';
+
+export default async function globalTeardown() {
+  // Ledger appends are not awaited by the routes, so one may still land while
+  // the directory is removed; it is under the OS tmpdir either way
+  await fs.rm(process.env.DATA_DIR, { recursive: true, force: true, maxRetries: 5 }).catch(() => {});
+}
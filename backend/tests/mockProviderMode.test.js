@@ -0,0 +1,114 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import express from 'express';
+import request from 'supertest';
+import aiRoutes from '../src/routes/ai.js';
+import { getProvider } from '../src/services/providers/index.js';
+import { setMockResponses, resetMockResponses } from '../src/services/providers/mockResponses.js';
+import { getModelDefinition } from '../src/services/modelCatalog.js';
+
+const app = express();
+app.use(express.json());
+app.use('/api/ai', aiRoutes);
+
+let repoPath;
+
+beforeAll(async () => {
+  process.env.AI_PROVIDER_MODE = 'mock';
+  process.env.AI_MAX_RETRIES = '0';
+  repoPath = await fs.mkdtemp(path.join(os.tmpdir(), 'winky-mock-'));
+  await fs.writeFile(path.join(repoPath, 'README.md'), '# Demo\n');
+});
+
+afterEach(() => {
+  resetMockResponses();
+});
+
+afterAll(async () => {
+  delete process.env.AI_PROVIDER_MODE;
+  delete process.env.AI_MAX_RETRIES;
+  await fs.remove(repoPath);
+});
+
+describe('AI_PROVIDER_MODE=mock', () => {
+  test('POST /api/ai/chat answers from the matching rule', async () => {
+    setMockResponses([
+      { match: { feature: 'chat', contains: 'goodbye' }, response: { content: 'Wrong rule' } },
+      {
+        match: { feature: 'chat', method: 'complete', contains: 'hello' },
+        response: { content: 'Hello from the mock', usage: { promptTokens: 12, completionTokens: 4, totalTokens: 16 } }
+      }
+    ]);
+
+    const res = await request(app)
+      .post('/api/ai/chat')
+      .send({ prompt: 'Say hello', model: 'gemini-1.5-flash', fallback: false });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({
+      content: 'Hello from the mock',
+      provider: 'gemini',
+      modelId: 'gemini-1.5-flash',
+      usage: { promptTokens: 12, completionTokens: 4, totalTokens: 16 }
+    });
+  });
+
+  test('POST /api/ai/chat sends a single imageData along with images', async () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]).toString('base64');
+    setMockResponses([{ match: { contains: 'image/png;sha256:' }, response: { content: 'I see an image' } }]);
+
+    const res = await request(app)
+      .post('/api/ai/chat')
+      .send({ prompt: 'Describe this', model: 'gemini-2.0-pro', fallback: false, imageData: `data:image/png;base64,${png}` });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.content).toBe('I see an image');
+  });
+
+  test('POST /api/ai/agent/run runs the tools the mock asks for', async () => {
+    setMockResponses([
+      { match: { method: 'completeWithTools' }, times: 1, response: { toolCalls: [{ name: 'getFiles', arguments: {} }] } },
+      { match: { method: 'completeWithTools', contains: 'README.md' }, response: { content: 'The repository has a README.' } }
+    ]);
+
+    const res = await request(app)
+      .post('/api/ai/agent/run')
+      .send({ repoPath, prompt: 'What is in this repository?', model: 'gemini-1.5-flash' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ status: 'completed', steps: 2, answer: 'The repository has a README.' });
+    expect(res.body.data.transcript).toEqual([
+      expect.objectContaining({ tool: 'getFiles', status: 'ok', output: expect.stringContaining('README.md') })
+    ]);
+  });
+
+  test('a request no rule matches fails with status 404', async () => {
+    setMockResponses([{ match: { feature: 'firebase' }, response: { content: 'unused' } }]);
+
+    const modelConfig = getModelDefinition('gemini-1.5-flash');
+    await expect(getProvider('gemini').complete(modelConfig, { prompt: 'Say hello', feature: 'chat' }))
+      .rejects.toMatchObject({ status: 404, message: 'No mock response matches this gemini complete request' });
+
+    const res = await request(app)
+      .post('/api/ai/chat')
+      .send({ prompt: 'Say hello', model: 'gemini-1.5-flash', fallback: false });
+
+    expect(res.status).toBe(500);
+    expect(res.body.message).toContain('No mock response matches this gemini complete request');
+  });
+
+  test('a rule used up stops matching', async () => {
+    setMockResponses([{ times: 1, response: { content: 'Only once' } }]);
+
+    const first = await request(app)
+      .post('/api/ai/chat')
+      .send({ prompt: 'Say hello', model: 'gemini-1.5-flash', fallback: false });
+    const second = await request(app)
+      .post('/api/ai/chat')
+      .send({ prompt: 'Say hello', model: 'gemini-1.5-flash', fallback: false });
+
+    expect(first.body.data.content).toBe('Only once');
+    expect(second.status).toBe(500);
+  });
+});
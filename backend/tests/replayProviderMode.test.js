@@ -0,0 +1,130 @@
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import express from 'express';
+import request from 'supertest';
+import aiRoutes from '../src/routes/ai.js';
+import { registerProvider, getProvider } from '../src/services/providers/index.js';
+import { getCassetteDir, getRequestPayload } from '../src/services/providers/cassettes.js';
+import { getModelDefinition } from '../src/services/modelCatalog.js';
+
+const app = express();
+app.use(express.json());
+app.use('/api/ai', aiRoutes);
+
+const usage = { promptTokens: 10, completionTokens: 5, totalTokens: 15 };
+
+// Stands in for the Gemini adapter while recording, so no request reaches the network
+const recordingAdapter = {
+  id: 'gemini',
+  name: 'Recorded Gemini',
+  capabilities: { vision: true, tools: true },
+  complete: async (modelConfig) => ({ content: 'Recorded answer', model: modelConfig.model, provider: 'gemini', usage }),
+  completeWithTools: async (modelConfig) => ({ content: 'Recorded agent answer', toolCalls: [], model: modelConfig.model, provider: 'gemini', usage })
+};
+
+// Fails the test if replay reaches the adapter instead of a cassette
+const unreachableAdapter = {
+  ...recordingAdapter,
+  complete: async () => { throw new Error('Replay called the provider'); },
+  completeWithTools: async () => { throw new Error('Replay called the provider'); }
+};
+
+let cassetteDir;
+let repoPath;
+
+beforeAll(async () => {
+  process.env.AI_MAX_RETRIES = '0';
+  cassetteDir = await fs.mkdtemp(path.join(os.tmpdir(), 'winky-cassettes-'));
+  process.env.AI_CASSETTE_DIR = cassetteDir;
+  repoPath = await fs.mkdtemp(path.join(os.tmpdir(), 'winky-replay-'));
+});
+
+afterAll(async () => {
+  delete process.env.AI_PROVIDER_MODE;
+  delete process.env.AI_CASSETTE_DIR;
+  delete process.env.AI_MAX_RETRIES;
+  await fs.remove(cassetteDir);
+  await fs.remove(repoPath);
+});
+
+const record = async (send) => {
+  process.env.AI_PROVIDER_MODE = 'record';
+  registerProvider(recordingAdapter);
+  const res = await send();
+  process.env.AI_PROVIDER_MODE = 'replay';
+  registerProvider(unreachableAdapter);
+  return res;
+};
+
+describe('AI_PROVIDER_MODE=replay', () => {
+  test('POST /api/ai/chat answers from the recorded cassette', async () => {
+    const send = () => request(app)
+      .post('/api/ai/chat')
+      .send({ prompt: 'Explain closures', model: 'gemini-1.5-flash', fallback: false });
+
+    const recorded = await record(send);
+    expect(recorded.status).toBe(200);
+
+    const res = await send();
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ content: 'Recorded answer', modelId: 'gemini-1.5-flash', usage });
+  });
+
+  test('POST /api/ai/agent/run answers from the recorded cassette', async () => {
+    const send = () => request(app)
+      .post('/api/ai/agent/run')
+      .send({ repoPath, prompt: 'Summarize the repository', model: 'gemini-1.5-flash' });
+
+    const recorded = await record(send);
+    expect(recorded.body.data.status).toBe('completed');
+
+    const res = await send();
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ status: 'completed', steps: 1, answer: 'Recorded agent answer' });
+  });
+
+  test('cassettes are keyed by a hash of provider, model, method and request payload', async () => {
+    const modelConfig = getModelDefinition('gemini-1.5-flash');
+    const payload = { prompt: 'Hash me', history: [], temperature: 0.5 };
+
+    await record(() => getProvider('gemini').complete(modelConfig, payload));
+
+    const key = { method: 'complete', model: 'gemini-1.5-flash', provider: 'gemini', request: getRequestPayload('complete', payload) };
+    const sorted = JSON.stringify(key, (name, value) => value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.keys(value).sort().map(field => [field, value[field]]))
+      : value);
+    const hash = crypto.createHash('sha256').update(sorted).digest('hex').slice(0, 32);
+
+    expect(getCassetteDir()).toBe(cassetteDir);
+    const cassette = await fs.readJson(path.join(cassetteDir, 'gemini', `complete-${hash}.json`));
+    expect(cassette).toMatchObject({ hash, provider: 'gemini', model: 'gemini-1.5-flash', method: 'complete' });
+
+    // Signals, ledger labels and key order do not change the key
+    const controller = new AbortController();
+    const replayed = await getProvider('gemini').complete(modelConfig, {
+      temperature: 0.5,
+      signal: controller.signal,
+      feature: 'chat',
+      repoPath,
+      history: [],
+      prompt: 'Hash me'
+    });
+    expect(replayed.content).toBe('Recorded answer');
+  });
+
+  test('a request without a cassette fails with status 404', async () => {
+    const modelConfig = getModelDefinition('gemini-1.5-flash');
+
+    await expect(getProvider('gemini').complete(modelConfig, { prompt: 'Never recorded' }))
+      .rejects.toMatchObject({ status: 404, message: expect.stringContaining('No cassette for gemini complete request') });
+
+    const res = await request(app)
+      .post('/api/ai/chat')
+      .send({ prompt: 'Never recorded', model: 'gemini-1.5-flash', fallback: false });
+
+    expect(res.status).toBe(500);
+    expect(res.body.message).toContain('No cassette for gemini complete request');
+  });
+});
@@ -0,0 +1,139 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import express from 'express';
+import request from 'supertest';
+import textToAppRoutes from '../src/routes/textToApp.js';
+import firebaseRoutes from '../src/routes/firebase.js';
+import { registerProvider } from '../src/services/providers/index.js';
+
+const app = express();
+app.use(express.json());
+app.use('/api/text-to-app', textToAppRoutes);
+app.use('/api/firebase', firebaseRoutes);
+
+const usage = { promptTokens: 40, completionTokens: 20, totalTokens: 60 };
+
+// Answers handed out in order while recording, one per provider call
+let answers = [];
+
+// Stands in for the Gemini adapter while recording, so no request reaches the network
+const recordingAdapter = {
+  id: 'gemini',
+  name: 'Recorded Gemini',
+  capabilities: { vision: true, tools: true },
+  complete: async (modelConfig) => {
+    if (answers.length === 0) throw new Error('No answer scripted for this call');
+    return { content: answers.shift(), model: modelConfig.model, provider: 'gemini', usage };
+  }
+};
+
+// Fails the test if replay reaches the adapter instead of a cassette
+const unreachableAdapter = {
+  ...recordingAdapter,
+  complete: async () => { throw new Error('Replay called the provider'); }
+};
+
+const plan = {
+  name: 'Todo Tracker',
+  description: 'Track personal tasks',
+  screens: [{ id: 'screen1', name: 'Tasks', description: 'List of tasks', components: ['TaskList'], wireframe: 'list' }],
+  models: [{ id: 'model1', name: 'Task', fields: [{ name: 'title', type: 'string', required: true, description: 'Task title' }] }],
+  apis: [{ id: 'api1', name: 'listTasks', method: 'GET', path: '/tasks', description: 'List tasks', auth: true }],
+  functions: [],
+  dependencies: ['react'],
+  tests: [{ id: 'test1', name: 'Lists tasks', type: 'unit', description: 'Renders the task list' }],
+  costEstimate: '$0/month',
+  complexity: 'simple',
+  estimatedTime: '1 hour'
+};
+
+const rules = {
+  firestore: "rules_version = '2';\nservice cloud.firestore {\n  match /databases/{database}/documents {}\n}",
+  storage: "rules_version = '2';\nservice firebase.storage {\n  match /b/{bucket}/o {}\n}",
+  explanation: 'Everything is denied by default'
+};
+
+let cassetteDir;
+
+beforeAll(async () => {
+  process.env.AI_MAX_RETRIES = '0';
+  cassetteDir = await fs.mkdtemp(path.join(os.tmpdir(), 'winky-structured-'));
+  process.env.AI_CASSETTE_DIR = cassetteDir;
+});
+
+afterAll(async () => {
+  delete process.env.AI_PROVIDER_MODE;
+  delete process.env.AI_CASSETTE_DIR;
+  delete process.env.AI_MAX_RETRIES;
+  await fs.remove(cassetteDir);
+});
+
+const record = async (scripted, send) => {
+  answers = scripted;
+  process.env.AI_PROVIDER_MODE = 'record';
+  registerProvider(recordingAdapter);
+  const res = await send();
+  process.env.AI_PROVIDER_MODE = 'replay';
+  registerProvider(unreachableAdapter);
+  expect(answers).toEqual([]);
+  return res;
+};
+
+const generatePlan = (prompt) => () => request(app)
+  .post('/api/text-to-app/generate-plan')
+  .send({ prompt, options: { backend: 'firebase', auth: 'email', styling: 'tailwind' } });
+
+const generateRules = (prompt) => () => request(app)
+  .post('/api/firebase/generate-rules')
+  .send({ prompt, projectSnapshot: { collections: ['tasks'] } });
+
+describe('structured generation routes replayed from cassettes', () => {
+  test('POST /api/text-to-app/generate-plan returns a schema-valid plan', async () => {
+    const send = generatePlan('A todo list');
+    await record([JSON.stringify(plan)], send);
+
+    const res = await send();
+    expect(res.status).toBe(200);
+    expect(res.body.plan).toMatchObject({ name: 'Todo Tracker', complexity: 'simple' });
+    expect(res.body.plan.id).toEqual(expect.any(String));
+  });
+
+  test('POST /api/text-to-app/generate-plan re-prompts after an invalid plan', async () => {
+    const send = generatePlan('A todo list with reminders');
+    await record([
+      JSON.stringify({ ...plan, complexity: 'trivial' }),
+      `Here is the corrected plan:\n\`\`\`json\n${JSON.stringify({ ...plan, id: 'plan-1' })}\n\`\`\``
+    ], send);
+
+    const res = await send();
+    expect(res.status).toBe(200);
+    expect(res.body.plan).toMatchObject({ id: 'plan-1', name: 'Todo Tracker' });
+  });
+
+  test('POST /api/firebase/generate-rules returns schema-valid rules', async () => {
+    const send = generateRules('Only owners read their tasks');
+    await record([JSON.stringify(rules)], send);
+
+    const res = await send();
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      success: true,
+      rules: rules.firestore,
+      storageRules: rules.storage,
+      explanation: rules.explanation
+    });
+  });
+
+  test('POST /api/firebase/generate-rules fails with 422 when every repair is invalid', async () => {
+    const invalid = JSON.stringify({ ...rules, storage: 'allow read, write;' });
+    const send = generateRules('Public reads');
+    await record([invalid, invalid, invalid], send);
+
+    const res = await send();
+    expect(res.status).toBe(422);
+    expect(res.body).toMatchObject({ success: false, error: 'Failed to generate rules' });
+    expect(res.body.message).toContain('after 3 attempts');
+    expect(res.body.validationErrors).toEqual([expect.stringContaining('$.storage')]);
+  });
+});
@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import {
+  Check,
+  X,
+  ChevronDown,
+  ChevronRight,
+  Wrench,
+  FilePlus,
+  FileEdit,
+  FileSymlink,
+  AlertCircle
+} from 'lucide-react';
+import { agentAPI } from '@/services/api';
+import toast from 'react-hot-toast';
+import type { AgentRun, AgentProposal } from '@/types';
+
+interface AgentRunCardProps {
+  run: AgentRun;
+  onRunUpdated: (run: AgentRun) => void;
+}
+
+const statusStyles: Record<AgentProposal['status'], string> = {
+  pending: 'bg-yellow-500/20 text-yellow-400',
+  applied: 'bg-green-500/20 text-green-400',
+  rejected: 'bg-[#30363d] text-[#8b949e]',
+  failed: 'bg-red-500/20 text-red-400',
+};
+
+const proposalIcons = {
+  createFile: FilePlus,
+  updateFile: FileEdit,
+  moveFile: FileSymlink,
+};
+
+const AgentRunCard: React.FC<AgentRunCardProps> = ({ run, onRunUpdated }) => {
+  const [showTranscript, setShowTranscript] = useState(false);
+  const [expandedCalls, setExpandedCalls] = useState<Set<string>>(new Set());
+  const [expandedProposals, setExpandedProposals] = useState<Set<string>>(new Set());
+  const [isResolving, setIsResolving] = useState(false);
+
+  const pendingProposals = run.proposals.filter(p => p.status === 'pending');
+
+  const toggle = (set: Set<string>, id: string, update: (next: Set<string>) => void) => {
+    const next = new Set(set);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    update(next);
+  };
+
+  const resolveProposals = async (action: 'approve' | 'reject', proposalIds?: string[]) => {
+    try {
+      setIsResolving(true);
+      const updated = action === 'approve'
+        ? await agentAPI.approve(run.id, proposalIds, localStorage.getItem('github_token') || undefined)
+        : await agentAPI.reject(run.id, proposalIds);
+      onRunUpdated(updated);
+
+      const failed = updated.proposals.filter(p => p.status === 'failed' && (!proposalIds || proposalIds.includes(p.id)));
+      if (failed.length > 0) {
+        toast.error(`${failed.length} change(s) could not be applied`);
+      } else {
+        toast.success(action === 'approve' ? 'Changes applied. Undo them from Edit History.' : 'Changes rejected');
+      }
+    } catch (error) {
+      console.error('Agent proposal error:', error);
+      toast.error(`Failed to ${action} changes`);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <div className="mt-2 space-y-2 text-xs">
+      {/* Run summary */}
+      <div className="flex items-center justify-between text-[#8b949e]">
+        <span>
+          Agent {run.status === 'completed' ? 'finished' : run.status.replace('_', ' ')} in {run.steps}/{run.maxSteps} steps
+          {' • '}{run.transcript.length} tool call{run.transcript.length === 1 ? '' : 's'}
+        </span>
+        {run.transcript.length > 0 && (
+          <button
+            onClick={() => setShowTranscript(!showTranscript)}
+            className="flex items-center space-x-1 hover:text-white transition-colors"
+          >
+            {showTranscript ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+            <span>Transcript</span>
+          </button>
+        )}
+      </div>
+
+      {run.error && (
+        <div className="flex items-center space-x-2 p-2 bg-red-500/10 border border-red-500/30 rounded text-red-400">
+          <AlertCircle className="w-3 h-3 flex-shrink-0" />
+          <span>{run.error}</span>
+        </div>
+      )}
+
+      {/* Tool call transcript */}
+      {showTranscript && (
+        <div className="border border-[#30363d] rounded divide-y divide-[#30363d]">
+          {run.transcript.map((call) => (
+            <div key={`${call.step}-${call.id}`} className="p-2">
+              <button
+                onClick={() => toggle(expandedCalls, call.id, setExpandedCalls)}
+                className="w-full flex items-center justify-between text-left"
+              >
+                <div className="flex items-center space-x-2 min-w-0">
+                  <Wrench className="w-3 h-3 text-[#8b949e] flex-shrink-0" />
+                  <span className="text-[#c9d1d9] font-mono">{call.tool}</span>
+                  <span className="text-[#8b949e] truncate">
+                    {call.arguments.filePath || call.arguments.dirPath || call.arguments.query || call.arguments.oldPath || ''}
+                  </span>
+                </div>
+                <span className={call.status === 'error' ? 'text-red-400' : call.status === 'proposed' ? 'text-yellow-400' : 'text-[#8b949e]'}>
+                  {call.status} • {call.durationMs}ms
+                </span>
+              </button>
+              {expandedCalls.has(call.id) && (
+                <pre className="mt-2 p-2 bg-[#0d1117] rounded text-[#8b949e] overflow-x-auto max-h-48 whitespace-pre-wrap">
+                  {call.output}
+                </pre>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Proposed changes awaiting approval */}
+      {run.proposals.length > 0 && (
+        <div className="border border-[#30363d] rounded">
+          <div className="flex items-center justify-between px-2 py-1.5 bg-[#161b22] border-b border-[#30363d]">
+            <span className="text-[#c9d1d9] font-medium">Proposed changes</span>
+            {pendingProposals.length > 0 && (
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={() => resolveProposals('approve')}
+                  disabled={isResolving}
+                  className="px-2 py-0.5 bg-green-600 hover:bg-green-500 disabled:bg-[#21262d] text-white rounded transition-colors"
+                >
+                  Apply all
+                </button>
+                <button
+                  onClick={() => resolveProposals('reject')}
+                  disabled={isResolving}
+                  className="px-2 py-0.5 bg-[#21262d] hover:bg-[#30363d] text-[#c9d1d9] rounded transition-colors"
+                >
+                  Reject all
+                </button>
+              </div>
+            )}
+          </div>
+          {run.proposals.map((proposal) => {
+            const Icon = proposalIcons[proposal.tool] || FileEdit;
+            return (
+              <div key={proposal.id} className="p-2 border-b border-[#30363d] last:border-b-0">
+                <div className="flex items-center justify-between">
+                  <button
+                    onClick={() => toggle(expandedProposals, proposal.id, setExpandedProposals)}
+                    className="flex items-center space-x-2 min-w-0 text-left"
+                  >
+                    <Icon className="w-3 h-3 text-[#1f6feb] flex-shrink-0" />
+                    <span className="text-[#c9d1d9] font-mono truncate">
+                      {proposal.tool === 'moveFile' ? `${proposal.path} → ${proposal.newPath}` : proposal.path}
+                    </span>
+                  </button>
+                  <div className="flex items-center space-x-1 flex-shrink-0">
+                    <span className={`px-1.5 py-0.5 rounded ${statusStyles[proposal.status]}`}>{proposal.status}</span>
+                    {proposal.status === 'pending' && (
+                      <>
+                        <button
+                          onClick={() => resolveProposals('approve', [proposal.id])}
+                          disabled={isResolving}
+                          className="p-1 hover:bg-[#30363d] rounded transition-colors"
+                          title="Apply change"
+                        >
+                          <Check className="w-3 h-3 text-green-400" />
+                        </button>
+                        <button
+                          onClick={() => resolveProposals('reject', [proposal.id])}
+                          disabled={isResolving}
+                          className="p-1 hover:bg-[#30363d] rounded transition-colors"
+                          title="Reject change"
+                        >
+                          <X className="w-3 h-3 text-red-400" />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                {proposal.error && <p className="mt-1 text-red-400">{proposal.error}</p>}
+                {expandedProposals.has(proposal.id) && proposal.content !== null && (
+                  <div className={`mt-2 grid gap-2 ${proposal.originalContent !== null ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                    {proposal.originalContent !== null && (
+                      <div>
+                        <p className="mb-1 text-[#8b949e]">Current</p>
+                        <pre className="p-2 bg-[#0d1117] rounded text-red-300 overflow-auto max-h-64">{proposal.originalContent}</pre>
+                      </div>
+                    )}
+                    <div>
+                      <p className="mb-1 text-[#8b949e]">Proposed</p>
+                      <pre className="p-2 bg-[#0d1117] rounded text-green-300 overflow-auto max-h-64">{proposal.content}</pre>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AgentRunCard;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { BookOpen } from 'lucide-react';
+import type { AppliedRule } from '@/types';
+
+interface AppliedRulesProps {
+  rules?: AppliedRule[];
+  className?: string;
+}
+
+/**
+ * Show which sections of the repository's .winky/rules.md were sent with a request
+ */
+const AppliedRules: React.FC<AppliedRulesProps> = ({ rules, className = '' }) => {
+  if (!rules || rules.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap items-center gap-1 text-xs text-[#8b949e] ${className}`}>
+      <BookOpen className="w-3 h-3" />
+      <span>Rules:</span>
+      {rules.map(rule => (
+        <span
+          key={rule.title}
+          className="px-1.5 py-0.5 bg-[#21262d] border border-[#30363d] rounded font-mono"
+          title={rule.globs.length > 0 ? `Applied for ${rule.files.join(', ')}` : 'Applied to every request in this repository'}
+        >
+          {rule.globs.length > 0 ? rule.globs.join(', ') : rule.title}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default AppliedRules;
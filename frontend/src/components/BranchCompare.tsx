@@ -0,0 +1,171 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, GitCompare, GitCommit, FilePlus, FileMinus, FileEdit } from 'lucide-react';
+import { useAppStore } from '@/stores/appStore';
+import { repositoryAPI } from '@/services/api';
+import toast from 'react-hot-toast';
+import type { GitBranchComparison, GitCommitSummary } from '@/types';
+
+interface BranchCompareProps {
+  // Refs to compare; null hides the view
+  refs: { base: string; head: string } | null;
+  branches: string[];
+  onClose: () => void;
+}
+
+const FILE_ICONS = {
+  added: <FilePlus className="w-3 h-3 text-green-400 flex-shrink-0" />,
+  modified: <FileEdit className="w-3 h-3 text-yellow-400 flex-shrink-0" />,
+  deleted: <FileMinus className="w-3 h-3 text-red-400 flex-shrink-0" />,
+};
+
+/**
+ * Compare two branches: how far the head is ahead of and behind the base,
+ * the commits on each side and the files that differ
+ */
+const BranchCompare: React.FC<BranchCompareProps> = ({ refs, branches, onClose }) => {
+  const { currentRepository } = useAppStore();
+  const [base, setBase] = useState('');
+  const [head, setHead] = useState('');
+  const [comparison, setComparison] = useState<GitBranchComparison | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (refs) {
+      setBase(refs.base);
+      setHead(refs.head);
+    }
+  }, [refs]);
+
+  useEffect(() => {
+    if (refs && base && head) loadComparison();
+  }, [base, head, currentRepository?.path]);
+
+  const loadComparison = async () => {
+    if (!currentRepository) return;
+
+    try {
+      setIsLoading(true);
+      setComparison(await repositoryAPI.compareBranches(currentRepository.path, base, head));
+    } catch (error) {
+      toast.error(error instanceof Error && error.message ? error.message : 'Failed to compare branches');
+      console.error('Compare branches error:', error);
+      setComparison(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Shallow clones may not hold the history needed for exact counts
+  const count = (value: number) => `${comparison?.complete ? '' : '≥'}${value}`;
+
+  const renderCommits = (title: string, commits: GitCommitSummary[], total: number) => (
+    <div className="px-4 py-3 border-b border-[#30363d]">
+      <div className="text-xs font-semibold text-white mb-2">
+        {title} ({count(total)})
+      </div>
+      {commits.length === 0 && <div className="text-xs text-[#8b949e] px-2">None</div>}
+      {commits.map(entry => (
+        <div key={entry.oid} className="flex items-center px-2 py-1 text-xs">
+          <GitCommit className="w-3 h-3 text-[#8b949e] mr-2 flex-shrink-0" />
+          <span className="font-mono text-[#8b949e] mr-2">{entry.oid.slice(0, 7)}</span>
+          <span className="text-white truncate flex-1">{entry.subject}</span>
+          <span className="text-[#8b949e] ml-2 flex-shrink-0">{entry.author}</span>
+        </div>
+      ))}
+      {total > commits.length && (
+        <div className="text-xs text-[#8b949e] px-2 mt-1">and {total - commits.length} more</div>
+      )}
+    </div>
+  );
+
+  const selectClass = 'bg-[#21262d] border border-[#30363d] rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-[#1f6feb]';
+
+  return (
+    <AnimatePresence>
+      {refs && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: -20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: -20 }}
+            className="w-full max-w-2xl max-h-[75vh] flex flex-col bg-[#161b22] border border-[#30363d] rounded-lg shadow-2xl"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-[#30363d]">
+              <div className="flex items-center space-x-2 min-w-0">
+                <GitCompare className="w-4 h-4 text-[#1f6feb] flex-shrink-0" />
+                <h2 className="text-sm font-semibold text-white">Compare Branches</h2>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-[#21262d] rounded-md transition-colors group"
+                title="Close"
+              >
+                <X className="w-4 h-4 text-[#8b949e] group-hover:text-white" />
+              </button>
+            </div>
+
+            {/* Refs */}
+            <div className="flex items-center space-x-2 px-4 py-2 border-b border-[#30363d] text-xs text-[#8b949e]">
+              <span>base</span>
+              <select value={base} onChange={(e) => setBase(e.target.value)} className={selectClass}>
+                {branches.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+              <span>←</span>
+              <span>compare</span>
+              <select value={head} onChange={(e) => setHead(e.target.value)} className={selectClass}>
+                {branches.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+              {comparison && !isLoading && (
+                <span className="ml-auto">
+                  <span className="text-green-400">↑{count(comparison.ahead)}</span>
+                  <span className="text-red-400 ml-2">↓{count(comparison.behind)}</span>
+                </span>
+              )}
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+              {isLoading || !comparison ? (
+                <div className="p-6 text-center text-sm text-[#8b949e]">
+                  {isLoading ? 'Comparing...' : 'Pick two branches to compare.'}
+                </div>
+              ) : (
+                <>
+                  {!comparison.complete && (
+                    <div className="px-4 py-2 text-xs text-yellow-400 border-b border-[#30363d]">
+                      This clone is shallow, so counts stop at the oldest fetched commit.
+                    </div>
+                  )}
+                  {renderCommits(`Commits on ${comparison.head} not on ${comparison.base}`, comparison.aheadCommits, comparison.ahead)}
+                  {renderCommits(`Commits on ${comparison.base} not on ${comparison.head}`, comparison.behindCommits, comparison.behind)}
+
+                  <div className="px-4 py-3">
+                    <div className="text-xs font-semibold text-white mb-2">
+                      {comparison.files.length} file{comparison.files.length === 1 ? '' : 's'} differ
+                    </div>
+                    {comparison.files.map(file => (
+                      <div key={file.path} className="flex items-center space-x-2 px-2 py-1 text-xs text-white">
+                        {FILE_ICONS[file.type]}
+                        <span className="truncate">{file.path}</span>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default BranchCompare;
@@ -0,0 +1,347 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { GitBranch, Plus, RefreshCw, Pencil, Trash2, GitCompare, Check, Cloud, AlertTriangle } from 'lucide-react';
+import { useAppStore } from '@/stores/appStore';
+import { repositoryAPI, getErrorResponse } from '@/services/api';
+import BranchCompare from './BranchCompare';
+import toast from 'react-hot-toast';
+import type { GitBranchInfo, GitBranchList } from '@/types';
+
+/**
+ * Status bar branch switcher: check out, create, rename, delete and compare
+ * branches of the current repository
+ */
+const BranchSwitcher: React.FC = () => {
+  const { currentRepository, editor, setCurrentRepository, setCurrentFile } = useAppStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [branches, setBranches] = useState<GitBranchList | null>(null);
+  const [query, setQuery] = useState('');
+  const [renaming, setRenaming] = useState<{ name: string; newName: string } | null>(null);
+  const [blocked, setBlocked] = useState<{ name: string; files: string[] } | null>(null);
+  const [compareRefs, setCompareRefs] = useState<{ base: string; head: string } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (isOpen) loadBranches(false);
+  }, [isOpen, currentRepository?.path]);
+
+  // Close when clicking outside the popover
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const token = () => localStorage.getItem('github_token') || undefined;
+
+  const loadBranches = async (fetch: boolean) => {
+    if (!currentRepository) return;
+
+    try {
+      setIsBusy(true);
+      setBranches(await repositoryAPI.listBranches(currentRepository.path, token(), fetch));
+    } catch (error) {
+      toast.error(error instanceof Error && error.message ? error.message : 'Failed to load branches');
+      console.error('Load branches error:', error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      setIsBusy(true);
+      await action();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Branch action failed');
+      console.error('Branch action error:', error);
+    } finally {
+      setIsBusy(false);
+    }
+    await loadBranches(false);
+  };
+
+  const handleCheckout = async (name: string, force: boolean = false) => {
+    if (!currentRepository) return;
+    if (editor.isDirty) {
+      toast.error('Save the open file before switching branches');
+      return;
+    }
+
+    try {
+      setIsBusy(true);
+      const result = await repositoryAPI.checkoutBranch(currentRepository.path, name, force);
+      setBlocked(null);
+      setCurrentRepository({ ...currentRepository, branch: name });
+
+      // Show the open file as it is on the new branch
+      const openPath = editor.currentFile?.path;
+      if (openPath) {
+        setCurrentFile(await repositoryAPI.getFileContent(currentRepository.path, openPath).catch(() => null));
+      }
+      toast.success(result.discarded.length > 0
+        ? `Switched to ${name}, discarding changes to ${result.discarded.join(', ')}`
+        : `Switched to ${name}`);
+      setIsOpen(false);
+    } catch (error) {
+      const data = getErrorResponse(error)?.data;
+      if (data?.reason === 'local-changes') {
+        setBlocked({ name, files: data.files || [] });
+      } else {
+        toast.error(error instanceof Error && error.message ? error.message : 'Failed to switch branches');
+        console.error('Checkout branch error:', error);
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = () => runAction(async () => {
+    const name = query.trim();
+    if (!currentRepository || !name) return;
+    await repositoryAPI.createBranch(currentRepository.path, name, 'HEAD', false);
+    setQuery('');
+    toast.success(`Created ${name}`);
+    await handleCheckout(name);
+  });
+
+  const handleRename = () => runAction(async () => {
+    if (!currentRepository || !renaming || !renaming.newName.trim()) return;
+    const result = await repositoryAPI.renameBranch(currentRepository.path, renaming.name, renaming.newName.trim());
+    if (result.current) {
+      setCurrentRepository({ ...currentRepository, branch: result.name });
+    }
+    setRenaming(null);
+  });
+
+  const handleDelete = (name: string, remote: boolean) => runAction(async () => {
+    if (!currentRepository) return;
+    try {
+      await repositoryAPI.deleteBranch(currentRepository.path, name, { remote, token: token() });
+    } catch (error) {
+      if (!(error instanceof Error) || getErrorResponse(error)?.data?.reason !== 'not-merged') throw error;
+      toast.error(error.message, { duration: 6000 });
+      return;
+    }
+    toast.success(remote ? `Deleted ${name} on origin` : `Deleted ${name}`);
+  });
+
+  const handleForceDelete = (name: string) => runAction(async () => {
+    if (!currentRepository) return;
+    await repositoryAPI.deleteBranch(currentRepository.path, name, { force: true });
+    toast.success(`Deleted ${name}`);
+  });
+
+  if (!currentRepository) {
+    return (
+      <div className="flex items-center space-x-1">
+        <GitBranch className="w-3 h-3 text-white/60" />
+        <span className="text-xs">No repository</span>
+      </div>
+    );
+  }
+
+  const filter = query.trim().toLowerCase();
+  const localNames = new Set(branches?.local.map(entry => entry.name));
+  const local = (branches?.local || []).filter(entry => entry.name.toLowerCase().includes(filter));
+  const remote = (branches?.remote || []).filter(entry => entry.name.toLowerCase().includes(filter));
+  const allRefs = [...(branches?.local.map(entry => entry.name) || []), ...(branches?.remote.map(entry => entry.name) || [])];
+  const current = branches?.current || currentRepository.branch;
+
+  const renderCounts = (entry: GitBranchInfo) => {
+    if (!entry.upstream || (entry.ahead === 0 && entry.behind === 0)) return null;
+    const prefix = entry.complete ? '' : '≥';
+    return (
+      <span className="text-[10px] text-white/50 ml-1 flex-shrink-0" title={`Compared with ${entry.upstream}`}>
+        {entry.ahead > 0 && `↑${prefix}${entry.ahead}`} {entry.behind > 0 && `↓${prefix}${entry.behind}`}
+      </span>
+    );
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-1 px-1 rounded hover:bg-white/10 transition-colors"
+        title="Switch branch"
+      >
+        <GitBranch className="w-3 h-3 text-white/60" />
+        <span className="text-xs">{currentRepository.name} ({current})</span>
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: 8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 8 }}
+            className="absolute bottom-full left-0 mb-2 w-80 max-h-96 flex flex-col bg-[#161b22] border border-[#30363d] rounded-lg shadow-2xl z-50"
+          >
+            {/* Filter / new branch */}
+            <div className="flex items-center space-x-1 p-2 border-b border-[#30363d]">
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && query.trim() && !localNames.has(query.trim())) handleCreate();
+                  if (e.key === 'Escape') setIsOpen(false);
+                }}
+                placeholder="Find or create a branch..."
+                className="flex-1 px-2 py-1 bg-[#21262d] border border-[#30363d] rounded text-xs text-white focus:outline-none focus:border-[#1f6feb]"
+                autoFocus
+              />
+              <button
+                onClick={() => loadBranches(true)}
+                disabled={isBusy}
+                className="p-1 hover:bg-[#30363d] rounded"
+                title="Fetch branches from origin"
+              >
+                <RefreshCw className={`w-3.5 h-3.5 text-[#8b949e] ${isBusy ? 'animate-spin' : ''}`} />
+              </button>
+            </div>
+
+            {/* Checkout blocked by local changes */}
+            {blocked && (
+              <div className="px-3 py-2 border-b border-[#30363d] text-xs">
+                <div className="flex items-center text-yellow-400 mb-1">
+                  <AlertTriangle className="w-3 h-3 mr-1" />
+                  Switching to {blocked.name} would overwrite local changes to
+                </div>
+                <div className="text-[#8b949e] truncate mb-1">{blocked.files.join(', ')}</div>
+                <div className="text-[#8b949e] mb-1">Discarding keeps your changes to other files.</div>
+                <div className="flex space-x-2">
+                  <button onClick={() => handleCheckout(blocked.name, true)} className="text-red-400 hover:underline">
+                    Discard these and switch
+                  </button>
+                  <button onClick={() => setBlocked(null)} className="text-[#8b949e] hover:text-white">
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto py-1">
+              {query.trim() && !localNames.has(query.trim()) && (
+                <button
+                  onClick={handleCreate}
+                  disabled={isBusy}
+                  className="w-full flex items-center px-3 py-1.5 text-xs text-white hover:bg-[#21262d]"
+                >
+                  <Plus className="w-3 h-3 mr-2 text-[#1f6feb]" />
+                  Create branch <span className="font-mono mx-1">{query.trim()}</span> from {current}
+                </button>
+              )}
+
+              {local.length > 0 && <div className="px-3 pt-1 pb-0.5 text-[10px] uppercase text-[#8b949e]">Local</div>}
+              {local.map(entry => (
+                <div key={entry.name} className="group flex items-center px-3 py-1 text-xs hover:bg-[#21262d]">
+                  {renaming?.name === entry.name ? (
+                    <div className="flex items-center flex-1 space-x-1">
+                      <input
+                        type="text"
+                        value={renaming.newName}
+                        onChange={(e) => setRenaming({ ...renaming, newName: e.target.value })}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleRename();
+                          if (e.key === 'Escape') setRenaming(null);
+                        }}
+                        className="flex-1 px-2 py-0.5 bg-[#21262d] border border-[#30363d] rounded text-xs text-white focus:outline-none focus:border-[#1f6feb]"
+                        autoFocus
+                      />
+                      <button onClick={handleRename} className="p-1 hover:bg-[#30363d] rounded" title="Rename">
+                        <Check className="w-3 h-3 text-green-400" />
+                      </button>
+                    </div>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => !entry.current && handleCheckout(entry.name)}
+                        disabled={isBusy}
+                        className="flex items-center flex-1 min-w-0 text-left"
+                      >
+                        {entry.current ? <Check className="w-3 h-3 mr-2 text-green-400 flex-shrink-0" /> : <span className="w-3 mr-2 flex-shrink-0" />}
+                        <span className={`font-mono truncate ${entry.current ? 'text-white' : 'text-white/80'}`}>{entry.name}</span>
+                        {renderCounts(entry)}
+                      </button>
+                      <div className="hidden group-hover:flex items-center space-x-0.5 ml-1">
+                        <button
+                          onClick={() => setCompareRefs({ base: current, head: entry.name })}
+                          className="p-1 hover:bg-[#30363d] rounded"
+                          title={`Compare with ${current}`}
+                        >
+                          <GitCompare className="w-3 h-3 text-[#8b949e] hover:text-white" />
+                        </button>
+                        <button
+                          onClick={() => setRenaming({ name: entry.name, newName: entry.name })}
+                          className="p-1 hover:bg-[#30363d] rounded"
+                          title="Rename"
+                        >
+                          <Pencil className="w-3 h-3 text-[#8b949e] hover:text-white" />
+                        </button>
+                        {!entry.current && (
+                          <button
+                            onClick={(e) => (e.shiftKey ? handleForceDelete(entry.name) : handleDelete(entry.name, false))}
+                            className="p-1 hover:bg-[#30363d] rounded"
+                            title="Delete (Shift+click to delete even if not merged)"
+                          >
+                            <Trash2 className="w-3 h-3 text-[#8b949e] hover:text-red-400" />
+                          </button>
+                        )}
+                      </div>
+                    </>
+                  )}
+                </div>
+              ))}
+
+              {remote.length > 0 && <div className="px-3 pt-2 pb-0.5 text-[10px] uppercase text-[#8b949e]">Remote</div>}
+              {remote.map(entry => (
+                <div key={entry.name} className="group flex items-center px-3 py-1 text-xs hover:bg-[#21262d]">
+                  <button
+                    onClick={() => handleCheckout(entry.branch)}
+                    disabled={isBusy || localNames.has(entry.branch)}
+                    className="flex items-center flex-1 min-w-0 text-left disabled:cursor-default"
+                    title={localNames.has(entry.branch) ? `Tracked by local ${entry.branch}` : `Check out ${entry.branch} tracking ${entry.name}`}
+                  >
+                    <Cloud className="w-3 h-3 mr-2 text-[#8b949e] flex-shrink-0" />
+                    <span className="font-mono truncate text-white/70">{entry.name}</span>
+                  </button>
+                  <div className="hidden group-hover:flex items-center space-x-0.5 ml-1">
+                    <button
+                      onClick={() => setCompareRefs({ base: current, head: entry.name })}
+                      className="p-1 hover:bg-[#30363d] rounded"
+                      title={`Compare with ${current}`}
+                    >
+                      <GitCompare className="w-3 h-3 text-[#8b949e] hover:text-white" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(entry.branch, true)}
+                      className="p-1 hover:bg-[#30363d] rounded"
+                      title="Delete on origin"
+                    >
+                      <Trash2 className="w-3 h-3 text-[#8b949e] hover:text-red-400" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+
+              {branches && local.length === 0 && remote.length === 0 && !query.trim() && (
+                <div className="px-3 py-2 text-xs text-[#8b949e]">No branches</div>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <BranchCompare refs={compareRefs} branches={allRefs} onClose={() => setCompareRefs(null)} />
+    </div>
+  );
+};
+
+export default BranchSwitcher;
@@ -1,11 +1,10 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Send, 
   Bot, 
   User, 
   Settings, 
-  Trash2, 
   Download,
   Copy,
   Sparkles,
@@ -15,12 +14,62 @@ import {
   GitBranch,
   ChevronDown,
   X,
-  Paperclip
+  Paperclip,
+  Wrench,
+  BarChart3,
+  History,
+  FileText,
+  Folder,
+  Code,
+  Slash,
+  GitCompare,
+  MessagesSquare,
+  MessageSquarePlus,
+  Pencil
 } from 'lucide-react';
 import { useAppStore } from '@/stores/appStore';
-import { aiAPI } from '@/services/api';
+import { aiAPI, agentAPI, fileAPI, chatSessionAPI, getErrorResponse } from '@/services/api';
 import toast from 'react-hot-toast';
-import type { AIModel, ChatMessage } from '@/types';
+import AgentRunCard from './AgentRunCard';
+import UsageDashboard from './UsageDashboard';
+import EditHistory from './EditHistory';
+import AppliedRules from './AppliedRules';
+import DiffReview from './DiffReview';
+import MarkdownMessage from './MarkdownMessage';
+import ChatSessions from './ChatSessions';
+import { estimateContextUsage, formatTokens } from '@/utils/tokens';
+import { MAX_CHAT_IMAGES, getImageFiles, readImageFiles } from '@/utils/images';
+import {
+  SLASH_COMMANDS,
+  parseSlashCommand,
+  getCommandQuery,
+  getMentionQuery,
+  formatMention,
+  type MentionQuery,
+  type SlashCommand,
+  type SlashCommandName
+} from '@/utils/chatCommands';
+import type { AIModel, AgentRun, ChatAttachment, ChatMessage, CodeEditProposal, MentionCandidate, MentionType, StoredChatMessage } from '@/types';
+
+const mentionIcons: Record<MentionType, typeof FileText> = {
+  file: FileText,
+  folder: Folder,
+  symbol: Code,
+};
+
+type HistoryMessage = { role: 'user' | 'assistant'; content: string };
+type ContextFile = { path: string; content: string };
+
+// Earlier turns give the model conversation memory
+const toHistory = (messages: ChatMessage[]): HistoryMessage[] => messages
+  .filter(m => !m.streaming && m.content)
+  .map(m => ({ role: m.role, content: m.content }));
+
+const toStoredMessages = (messages: ChatMessage[]): StoredChatMessage[] =>
+  messages.map(({ streaming, ...message }) => ({ ...message, timestamp: new Date(message.timestamp).toISOString() }));
+
+const fromStoredMessages = (messages: StoredChatMessage[]): ChatMessage[] =>
+  messages.map(message => ({ ...message, timestamp: new Date(message.timestamp) }));
 
 const ChatPanel: React.FC = () => {
   const { 
@@ -28,22 +77,40 @@ const ChatPanel: React.FC = () => {
     currentRepository, 
     editor,
     addMessage, 
+    updateMessage,
     setChatLoading, 
     setSelectedModel,
     setChatTemperature,
-    setChatMaxTokens 
+    setChatMaxTokens,
+    setChatSession
   } = useAppStore();
   
   const [inputValue, setInputValue] = useState('');
   const [models, setModels] = useState<AIModel[]>([]);
   const [isLoadingModels, setIsLoadingModels] = useState(false);
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
-  const [isVisionMode, setIsVisionMode] = useState(false);
+  const [selectedImages, setSelectedImages] = useState<string[]>([]);
+  const [isDraggingImage, setIsDraggingImage] = useState(false);
   const [showModelDropdown, setShowModelDropdown] = useState(false);
   const [attachedLink, setAttachedLink] = useState<string>('');
   const [showLinkInput, setShowLinkInput] = useState(false);
+  const [isAgentMode, setIsAgentMode] = useState(false);
+  const [agentRuns, setAgentRuns] = useState<Record<string, AgentRun>>({});
+  const [showUsage, setShowUsage] = useState(false);
+  const [showEditHistory, setShowEditHistory] = useState(false);
+  const [attachments, setAttachments] = useState<ChatAttachment[]>([]);
+  const [commandSuggestions, setCommandSuggestions] = useState<SlashCommand[]>([]);
+  const [mentionQuery, setMentionQuery] = useState<MentionQuery | null>(null);
+  const [mentionSuggestions, setMentionSuggestions] = useState<MentionCandidate[]>([]);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+  const [review, setReview] = useState<{ proposal: CodeEditProposal; source: string } | null>(null);
+  const [showSessions, setShowSessions] = useState(false);
+  const [editing, setEditing] = useState<{ id: string; content: string } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
   const modelDropdownRef = useRef<HTMLDivElement>(null);
+  const streamControllerRef = useRef<AbortController | null>(null);
+  // The messages as last saved to the chat session, to skip saves that change nothing
+  const savedSnapshotRef = useRef('');
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -64,6 +131,61 @@ const ChatPanel: React.FC = () => {
     loadModels();
   }, []);
 
+  // Cancel any in-flight stream when the panel unmounts
+  useEffect(() => {
+    return () => streamControllerRef.current?.abort();
+  }, []);
+
+  // Search the repository for what follows the @ being typed
+  useEffect(() => {
+    if (!mentionQuery || !currentRepository) {
+      setMentionSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const results = await fileAPI.searchMentions(currentRepository.path, mentionQuery.query, mentionQuery.type);
+        if (!cancelled) {
+          setMentionSuggestions(results);
+          setActiveSuggestion(0);
+        }
+      } catch (error) {
+        console.error('Mention search error:', error);
+      }
+    }, 150);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [mentionQuery?.query, mentionQuery?.type, currentRepository?.path]);
+
+  // Chats are saved per repository; switching repository reopens its last chat
+  useEffect(() => {
+    const sessionId = chat.lastSessionIds[currentRepository?.path || ''] || null;
+    if (sessionId === chat.sessionId) return;
+    if (sessionId) openSession(sessionId);
+    else startNewChat();
+  }, [currentRepository?.path]);
+
+  // Save the conversation once a turn has finished
+  useEffect(() => {
+    if (chat.isLoading || chat.messages.length === 0 || chat.messages.some(m => m.streaming)) return;
+
+    const messages = toStoredMessages(chat.messages);
+    if (JSON.stringify(messages) === savedSnapshotRef.current) return;
+
+    const timer = setTimeout(() => {
+      saveChat(messages).catch(error => {
+        console.error('Save chat session error:', error);
+        toast.error('Failed to save chat');
+      });
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [chat.messages, chat.isLoading]);
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -74,34 +196,154 @@ const ChatPanel: React.FC = () => {
       setIsLoadingModels(true);
       const availableModels = await aiAPI.getModels();
       setModels(availableModels);
+
+      // Fall back to the first usable model if the saved one is gone
+      const selected = availableModels.find(m => m.id === chat.selectedModel);
+      if (!selected || !selected.available) {
+        const fallback = availableModels.find(m => m.available);
+        if (fallback) selectModel(fallback);
+      }
     } catch (error) {
       console.error('Failed to load models:', error);
-      // Fallback to default models
-      setModels([
-        { id: 'gemini-2.0-pro', name: 'Gemini 2.0 Pro (Vision)', provider: 'gemini', model: 'gemini-2.0-flash-exp', available: true, supportsVision: true },
-        { id: 'gemini-1.5-flash', name: 'Gemini 1.5 Flash', provider: 'gemini', model: 'gemini-1.5-flash', available: true, supportsVision: false },
-        { id: 'deepseek-r1t2-chimera', name: 'DeepSeek R1T2 Chimera', provider: 'openrouter', model: 'tngtech/deepseek-r1t2-chimera:free', available: true, supportsVision: false },
-        { id: 'qwen3-coder', name: 'Qwen3 Coder', provider: 'openrouter', model: 'qwen/qwen3-coder:free', available: true, supportsVision: false },
-        { id: 'deepseek-r1-0528', name: 'DeepSeek R1 0528', provider: 'openrouter', model: 'deepseek/deepseek-r1-0528:free', available: true, supportsVision: false },
-        { id: 'deepseek-r1-qwen3-8b', name: 'DeepSeek R1 Qwen3 8B', provider: 'openrouter', model: 'deepseek/deepseek-r1-0528-qwen3-8b:free', available: true, supportsVision: false },
-      ]);
+      toast.error('Failed to load AI models');
     } finally {
       setIsLoadingModels(false);
     }
   };
 
+  // Apply a model's defaults when it is selected
+  const selectModel = (model: AIModel) => {
+    setSelectedModel(model.id);
+    setChatTemperature(model.defaultTemperature);
+    if (chat.maxTokens > model.maxOutputTokens) {
+      setChatMaxTokens(model.maxOutputTokens);
+    }
+  };
+
+  const currentModel = models.find(m => m.id === chat.selectedModel);
+
+  const conversationHistory = useMemo(() => toHistory(chat.messages), [chat.messages]);
+
+  // Files sent with the next message: the open file, then everything attached through mentions
+  const contextFiles = useMemo(() => [
+    ...(editor.currentFile ? [{ path: editor.currentFile.path, content: editor.currentFile.content }] : []),
+    ...attachments.flatMap(attachment => attachment.files),
+  ].filter((file, index, all) => all.findIndex(other => other.path === file.path) === index), [editor.currentFile, attachments]);
+
+  // Estimated context-window usage of the message being typed
+  const contextUsage = useMemo(() => estimateContextUsage({
+    prompt: inputValue,
+    history: conversationHistory,
+    files: contextFiles,
+    context: {
+      repository: currentRepository?.name,
+      currentFile: editor.currentFile?.path,
+      language: editor.language,
+    },
+    maxTokens: chat.maxTokens,
+  }, currentModel), [inputValue, conversationHistory, contextFiles, editor.currentFile, editor.language, currentRepository, chat.maxTokens, currentModel]);
+
+  // Save messages to the open chat session, creating it on the first save
+  const saveChat = async (messages: StoredChatMessage[]): Promise<string> => {
+    const { sessionId } = useAppStore.getState().chat;
+    const session = sessionId
+      ? await chatSessionAPI.update(sessionId, { messages, model: chat.selectedModel })
+      : await chatSessionAPI.create({ repoPath: currentRepository?.path, model: chat.selectedModel, messages });
+
+    savedSnapshotRef.current = JSON.stringify(messages);
+    if (!sessionId) setChatSession(session.id);
+    return session.id;
+  };
+
+  const openSession = async (sessionId: string) => {
+    try {
+      const session = await chatSessionAPI.get(sessionId);
+      const messages = fromStoredMessages(session.messages);
+      savedSnapshotRef.current = JSON.stringify(toStoredMessages(messages));
+      setChatSession(session.id, messages);
+      setAttachments([]);
+      setEditing(null);
+
+      const model = models.find(m => m.id === session.model);
+      if (model?.available) selectModel(model);
+    } catch (error) {
+      console.error('Open chat session error:', error);
+      toast.error('Failed to open chat');
+      startNewChat();
+    }
+  };
+
+  const startNewChat = () => {
+    savedSnapshotRef.current = '';
+    setChatSession(null, []);
+    setAttachments([]);
+    setEditing(null);
+  };
+
+  // Editing a past message branches the conversation there and asks again, leaving the original chat intact
+  const regenerateFrom = async (messageId: string, content: string) => {
+    if (!content.trim() || chat.isLoading) return;
+    setEditing(null);
+
+    let messages: ChatMessage[];
+    try {
+      setChatLoading(true);
+      const sessionId = await saveChat(toStoredMessages(chat.messages));
+      const branch = await chatSessionAPI.branch(sessionId, messageId, content.trim());
+      messages = fromStoredMessages(branch.messages);
+      savedSnapshotRef.current = JSON.stringify(toStoredMessages(messages));
+      setChatSession(branch.id, messages);
+    } catch (error) {
+      console.error('Branch chat error:', error);
+      toast.error('Failed to edit message');
+      return;
+    } finally {
+      setChatLoading(false);
+    }
+
+    const edited = messages[messages.length - 1];
+    await respond(edited.content, toHistory(messages.slice(0, -1)), contextFiles, edited.mentions || [], edited.images || []);
+  };
+
   const handleSendMessage = async () => {
     if (!inputValue.trim() || chat.isLoading) return;
 
     const userMessage = inputValue.trim();
+    const mentions = attachments.map(attachment => attachment.mention);
+    const images = selectedImages;
+    const files = contextFiles;
     setInputValue('');
+    setAttachments([]);
+    setSelectedImages([]);
+    closeSuggestions();
+
+    const history = conversationHistory;
     
     // Add user message
     addMessage({
       role: 'user',
       content: userMessage,
+      ...(mentions.length > 0 ? { mentions } : {}),
+      ...(images.length > 0 ? { images } : {}),
     });
 
+    await respond(userMessage, history, files, mentions, images);
+  };
+
+  // Answer the user message at the end of the conversation: a slash command, an agent run or a streamed reply
+  const respond = async (userMessage: string, history: HistoryMessage[], files: ContextFile[], mentions: MentionCandidate[], images: string[] = []) => {
+    const slashCommand = parseSlashCommand(userMessage);
+    if (slashCommand) {
+      await runSlashCommand(slashCommand.command, slashCommand.args, files.filter(file => file.path !== editor.currentFile?.path));
+      return;
+    }
+
+    if (isAgentMode) {
+      // The agent reads mentioned files itself through its tools
+      await runAgent(mentions.length > 0 ? `${userMessage}\n\nReferenced: ${mentions.map(formatMention).join(', ')}` : userMessage, history);
+      return;
+    }
+
     try {
       setChatLoading(true);
       
@@ -112,89 +354,276 @@ const ChatPanel: React.FC = () => {
         language: editor.language,
       };
 
-      // Prepare files for context
-      const files = editor.currentFile ? [{
-        path: editor.currentFile.path,
-        content: editor.currentFile.content,
-      }] : [];
-
-      // Send AI request
-      const response = await aiAPI.sendRequest({
-        prompt: userMessage,
-        model: chat.selectedModel,
-        context,
-        files: files.map(f => ({
-          path: f.path,
-          content: f.content,
-          size: f.content.length,
-          modified: new Date(),
-          encoding: 'utf-8'
-        })),
-        temperature: chat.temperature,
-        maxTokens: chat.maxTokens,
-        imageData: selectedImage, // Add image data for vision
+      // Stream AI response into a placeholder message
+      const assistantMessageId = addMessage({
+        role: 'assistant',
+        content: '',
+        streaming: true,
       });
+      streamControllerRef.current = new AbortController();
+
+      let streamedContent = '';
+      try {
+        const response = await aiAPI.streamRequest({
+          prompt: userMessage,
+          messages: history,
+          model: chat.selectedModel,
+          context,
+          files: files.map(f => ({
+            path: f.path,
+            content: f.content,
+            size: f.content.length,
+            modified: new Date(),
+            encoding: 'utf-8'
+          })),
+          temperature: chat.temperature,
+          maxTokens: chat.maxTokens,
+          images: images.length > 0 ? images : undefined, // Screenshots for vision models
+          repoPath: currentRepository?.path, // Retrieve relevant repository code
+        }, {
+          onToken: (token) => {
+            streamedContent += token;
+            updateMessage(assistantMessageId, { content: streamedContent });
+          },
+          signal: streamControllerRef.current.signal,
+        });
+
+        // Record final content and usage once the stream ends
+        updateMessage(assistantMessageId, {
+          content: response.content,
+          model: response.model,
+          usage: response.usage,
+          citations: response.citations,
+          rules: response.rules,
+          budget: response.budget,
+          fallbackFrom: response.fallbackUsed ? response.requestedModel || undefined : undefined,
+          streaming: false,
+        });
+      } catch (error) {
+        updateMessage(assistantMessageId, {
+          content: streamedContent || 'Sorry, I encountered an error while processing your request. Please try again.',
+          streaming: false,
+        });
+        throw error;
+      }
+    } catch (error) {
+      console.error('AI request error:', error);
+      toast.error('Failed to get AI response');
+    } finally {
+      streamControllerRef.current = null;
+      setChatLoading(false);
+    }
+  };
+
+  // Slash commands act on the editor selection, or on the whole open file without one
+  const runSlashCommand = async (command: SlashCommandName, args: string, attachedFiles: ContextFile[]) => {
+    const file = editor.currentFile;
+    if (!file) {
+      addMessage({ role: 'assistant', content: `Open a file in the editor to use /${command}.` });
+      return;
+    }
+
+    const isEdit = command === 'fix' || command === 'refactor';
+    if (isEdit && editor.isDirty) {
+      addMessage({ role: 'assistant', content: `Save ${file.path} before using /${command}, so the suggested changes apply to the saved file.` });
+      return;
+    }
+
+    const repoPath = currentRepository?.path;
+    const selection = editor.selection?.text.trim() ? editor.selection : null;
+
+    try {
+      setChatLoading(true);
+
+      if (isEdit) {
+        // Mentioned whole files may be edited along with the open file
+        const files = [
+          { path: file.path, content: file.content },
+          ...attachedFiles.filter(attached => !/:\d+-\d+$/.test(attached.path)),
+        ];
+        const proposal = command === 'refactor'
+          ? await aiAPI.refactorCode(file.path, file.content, chat.selectedModel, 'general', { repoPath, selection, instructions: args || undefined, files })
+          : await aiAPI.fixCode(file.path, file.content, chat.selectedModel, args || 'Find and fix bugs in this code', 'runtime', { repoPath, selection, files });
+
+        const hunkCount = proposal.files.reduce((count, edited) => count + edited.hunks.length, 0);
+        addMessage({
+          role: 'assistant',
+          content: proposal.files.length > 0
+            ? `${proposal.summary}\n\n${hunkCount} change(s) proposed in ${proposal.files.length} file(s). Review them before applying.`
+            : proposal.summary || 'No changes suggested.',
+          model: proposal.model,
+          usage: proposal.usage,
+          rules: proposal.rules,
+          ...(proposal.files.length > 0 ? { codeEdit: { proposal, source: command } } : {}),
+        });
+        if (proposal.files.length > 0) {
+          setReview({ proposal, source: command });
+        }
+        return;
+      }
+
+      const options = { repoPath, selection, instructions: args || undefined, files: attachedFiles };
+      const response = command === 'explain'
+        ? await aiAPI.explainCode(file.path, file.content, chat.selectedModel, 'general', options)
+        : command === 'test'
+          ? await aiAPI.generateTests(file.path, file.content, chat.selectedModel, options)
+          : await aiAPI.generateDocs(file.path, file.content, chat.selectedModel, options);
 
-      // Add AI response
       addMessage({
         role: 'assistant',
         content: response.content,
         model: response.model,
         usage: response.usage,
+        rules: response.rules,
       });
+    } catch (error) {
+      console.error(`/${command} error:`, error);
+      addMessage({
+        role: 'assistant',
+        content: `/${command} failed: ${getErrorResponse(error)?.data?.message || (error instanceof Error ? error.message : error)}`,
+      });
+      toast.error(`Failed to run /${command}`);
+    } finally {
+      setChatLoading(false);
+    }
+  };
 
-      // Clear image after sending
-      setSelectedImage(null);
-      setIsVisionMode(false);
+  // Agent mode: the model works through repository tools and proposes file changes for approval
+  const runAgent = async (prompt: string, history: HistoryMessage[]) => {
+    if (!currentRepository) {
+      addMessage({
+        role: 'assistant',
+        content: 'Import a repository before using agent mode.',
+      });
+      return;
+    }
 
-    } catch (error) {
-      console.error('AI request error:', error);
-      toast.error('Failed to get AI response');
-      
-      // Add error message
+    try {
+      setChatLoading(true);
+
+      const run = await agentAPI.run({
+        repoPath: currentRepository.path,
+        prompt,
+        model: chat.selectedModel,
+        messages: history,
+      });
+
+      setAgentRuns(runs => ({ ...runs, [run.id]: run }));
       addMessage({
         role: 'assistant',
-        content: 'Sorry, I encountered an error while processing your request. Please try again.',
+        content: run.answer || (run.error ? 'The agent stopped with an error.' : 'The agent finished without a summary.'),
+        model: run.model,
+        usage: run.usage,
+        agentRunId: run.id,
       });
+
+      if (run.proposals.length > 0) {
+        toast(`${run.proposals.length} change(s) proposed — review them before applying`);
+      }
+    } catch (error) {
+      console.error('Agent run error:', error);
+      toast.error('Agent run failed');
     } finally {
       setChatLoading(false);
     }
   };
 
-  const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const result = e.target?.result as string;
-        setSelectedImage(result);
-        setIsVisionMode(true);
-        
-        // Auto-select vision model if available
-        const visionModel = models.find(m => m.supportsVision);
+  // Attach screenshots from the file picker, the clipboard or a drop
+  const addImages = async (files: File[]) => {
+    if (files.length === 0) return;
+
+    const room = MAX_CHAT_IMAGES - selectedImages.length;
+    if (room <= 0) {
+      toast.error(`You can attach up to ${MAX_CHAT_IMAGES} images`);
+      return;
+    }
+
+    try {
+      const { images, skipped } = await readImageFiles(files.slice(0, room));
+      if (skipped.length > 0) {
+        toast.error(`Skipped ${skipped.join(', ')}: use PNG, JPEG, GIF or WebP under 20MB`);
+      }
+      if (files.length > room) {
+        toast.error(`You can attach up to ${MAX_CHAT_IMAGES} images`);
+      }
+      if (images.length === 0) return;
+
+      setSelectedImages(prev => [...prev, ...images].slice(0, MAX_CHAT_IMAGES));
+
+      // Auto-select vision model if the current one cannot see images
+      if (!currentModel?.supportsVision) {
+        const visionModel = models.find(m => m.supportsVision && m.available);
         if (visionModel) {
-          setSelectedModel(visionModel.id);
+          selectModel(visionModel);
         }
-      };
-      reader.readAsDataURL(file);
+      }
+    } catch (error) {
+      console.error('Read image error:', error);
+      toast.error('Failed to read image');
+    }
+  };
+
+  const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    addImages(Array.from(event.target.files || []));
+    event.target.value = '';
+  };
+
+  // Pasting a screenshot attaches it; pasted text is left to the textarea
+  const handlePaste = (event: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = getImageFiles(event.clipboardData);
+    if (files.length === 0) return;
+    if (!event.clipboardData.getData('text/plain')) {
+      event.preventDefault();
+    }
+    addImages(files);
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setIsDraggingImage(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent) => {
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      setIsDraggingImage(false);
     }
   };
 
+  const handleDrop = (event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setIsDraggingImage(false);
+
+    const files = getImageFiles(event.dataTransfer);
+    if (files.length === 0) {
+      toast.error('Only images can be dropped into the chat');
+      return;
+    }
+    addImages(files);
+  };
+
+  const removeImage = (index: number) => {
+    setSelectedImages(prev => prev.filter((_, i) => i !== index));
+  };
+
   const handleVisionAnalysis = async () => {
-    if (!selectedImage) return;
+    if (selectedImages.length === 0) return;
 
+    const images = selectedImages;
     try {
       setChatLoading(true);
       
       const response = await aiAPI.analyzeVision(
-        selectedImage,
+        images,
         "Analyze this UI design and provide a detailed description of the layout, components, and styling that can be used for coding implementation.",
-        'gemini-2.0-pro'
+        currentModel?.supportsVision ? currentModel.id : undefined
       );
 
       addMessage({
         role: 'user',
-        content: 'Analyze this UI design and provide the code to recreate it',
+        content: images.length > 1 ? 'Analyze these UI designs and provide the code to recreate them' : 'Analyze this UI design and provide the code to recreate it',
+        images,
       });
 
       addMessage({
@@ -204,8 +633,7 @@ const ChatPanel: React.FC = () => {
         usage: response.usage,
       });
 
-      setSelectedImage(null);
-      setIsVisionMode(false);
+      setSelectedImages([]);
 
     } catch (error) {
       console.error('Vision analysis error:', error);
@@ -215,7 +643,75 @@ const ChatPanel: React.FC = () => {
     }
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
+  const suggestionCount = commandSuggestions.length > 0 ? commandSuggestions.length : mentionQuery ? mentionSuggestions.length : 0;
+
+  const closeSuggestions = () => {
+    setCommandSuggestions([]);
+    setMentionQuery(null);
+  };
+
+  // Offer commands while the first word starts with /, and repository matches after @
+  const updateSuggestions = (value: string, caret: number) => {
+    const commandQuery = getCommandQuery(value, caret);
+    setCommandSuggestions(commandQuery === null ? [] : SLASH_COMMANDS.filter(command => command.name.startsWith(commandQuery)));
+    setMentionQuery(commandQuery === null && currentRepository ? getMentionQuery(value, caret) : null);
+    setActiveSuggestion(0);
+  };
+
+  const selectCommand = (command: SlashCommand) => {
+    setInputValue(`/${command.name} `);
+    setCommandSuggestions([]);
+    textareaRef.current?.focus();
+  };
+
+  // Replace the typed @-mention with a chip carrying the mentioned content
+  const selectMention = async (mention: MentionCandidate) => {
+    if (!mentionQuery || !currentRepository) return;
+
+    setInputValue(inputValue.slice(0, mentionQuery.start) + inputValue.slice(mentionQuery.end));
+    setMentionQuery(null);
+    textareaRef.current?.focus();
+
+    const id = `${mention.type}:${mention.path}:${mention.line ?? ''}`;
+    if (attachments.some(attachment => attachment.id === id)) return;
+
+    try {
+      const resolved = await fileAPI.resolveMention(currentRepository.path, mention);
+      setAttachments(prev => [...prev, { id, mention, ...resolved }]);
+      if (resolved.omitted > 0) {
+        toast(`Attached ${resolved.files.length} file(s) from ${mention.path}; ${resolved.omitted} skipped`);
+      }
+    } catch (error) {
+      toast.error(getErrorResponse(error)?.data?.message || `Failed to attach ${formatMention(mention)}`);
+      console.error('Resolve mention error:', error);
+    }
+  };
+
+  const removeAttachment = (id: string) => {
+    setAttachments(prev => prev.filter(attachment => attachment.id !== id));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (suggestionCount > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveSuggestion(index => (index + step + suggestionCount) % suggestionCount);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        if (commandSuggestions.length > 0) selectCommand(commandSuggestions[activeSuggestion]);
+        else selectMention(mentionSuggestions[activeSuggestion]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        closeSuggestions();
+        return;
+      }
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSendMessage();
@@ -224,6 +720,7 @@ const ChatPanel: React.FC = () => {
 
   const handleTextareaChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setInputValue(e.target.value);
+    updateSuggestions(e.target.value, e.target.selectionStart);
     
     // Auto-resize textarea
     const textarea = e.target;
@@ -236,19 +733,11 @@ const ChatPanel: React.FC = () => {
     toast.success('Message copied to clipboard');
   };
 
-  const clearChat = () => {
-    useAppStore.getState().clearMessages();
-    toast.success('Chat history cleared');
-  };
 
-  const formatMessage = (content: string) => {
-    // Simple markdown-like formatting
-    return content
-      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-      .replace(/\*(.*?)\*/g, '<em>$1</em>')
-      .replace(/`(.*?)`/g, '<code class="bg-white/10 px-1 rounded">$1</code>')
-      .replace(/\n/g, '<br>');
-  };
+  // Review a chat code block as changes to the file it names
+  const reviewCodeBlock = useCallback((proposal: CodeEditProposal) => {
+    setReview({ proposal, source: 'chat' });
+  }, []);
 
   return (
     <div className="h-full flex flex-col bg-[#0d1117] border-l border-[#30363d]">
@@ -266,11 +755,40 @@ const ChatPanel: React.FC = () => {
           </div>
           <div className="flex items-center space-x-1">
             <button
-              onClick={clearChat}
+              onClick={() => setIsAgentMode(!isAgentMode)}
+              className={`p-2 rounded-md transition-colors group ${isAgentMode ? 'bg-[#1f6feb]/20' : 'hover:bg-[#21262d]'}`}
+              title={isAgentMode ? 'Agent mode on: the AI can read files and propose edits' : 'Enable agent mode'}
+            >
+              <Wrench className={`w-4 h-4 ${isAgentMode ? 'text-[#1f6feb]' : 'text-[#8b949e] group-hover:text-white'}`} />
+            </button>
+            <button
+              onClick={() => setShowEditHistory(true)}
+              className="p-2 hover:bg-[#21262d] rounded-md transition-colors group"
+              title="Edit History"
+            >
+              <History className="w-4 h-4 text-[#8b949e] group-hover:text-white" />
+            </button>
+            <button
+              onClick={() => setShowUsage(true)}
               className="p-2 hover:bg-[#21262d] rounded-md transition-colors group"
-              title="Clear Chat"
+              title="AI Usage"
             >
-              <Trash2 className="w-4 h-4 text-[#8b949e] group-hover:text-white" />
+              <BarChart3 className="w-4 h-4 text-[#8b949e] group-hover:text-white" />
+            </button>
+            <button
+              onClick={() => setShowSessions(true)}
+              className="p-2 hover:bg-[#21262d] rounded-md transition-colors group"
+              title="Chats"
+            >
+              <MessagesSquare className="w-4 h-4 text-[#8b949e] group-hover:text-white" />
+            </button>
+            <button
+              onClick={startNewChat}
+              disabled={chat.isLoading}
+              className="p-2 hover:bg-[#21262d] rounded-md transition-colors group disabled:opacity-50"
+              title="New Chat"
+            >
+              <MessageSquarePlus className="w-4 h-4 text-[#8b949e] group-hover:text-white" />
             </button>
             <button
               className="p-2 hover:bg-[#21262d] rounded-md transition-colors group"
@@ -290,8 +808,8 @@ const ChatPanel: React.FC = () => {
           >
             <div className="flex items-center space-x-2">
               <Sparkles className="w-4 h-4 text-blue-400" />
-              <span>{models.find(m => m.id === chat.selectedModel)?.name || 'Select Model'}</span>
-              {models.find(m => m.id === chat.selectedModel)?.supportsVision && (
+              <span>{currentModel?.name || 'Select Model'}</span>
+              {currentModel?.supportsVision && (
                 <span className="px-1.5 py-0.5 bg-blue-500/20 text-blue-400 text-xs rounded">Vision</span>
               )}
             </div>
@@ -305,9 +823,11 @@ const ChatPanel: React.FC = () => {
                 <button
                   key={model.id}
                   onClick={() => {
-                    setSelectedModel(model.id);
+                    selectModel(model);
                     setShowModelDropdown(false);
                   }}
+                  disabled={!model.available}
+                  title={model.description}
                   className={`w-full flex items-center justify-between px-3 py-2 text-sm hover:bg-[#30363d] transition-colors ${
                     chat.selectedModel === model.id ? 'bg-[#30363d] text-white' : 'text-[#c9d1d9]'
                   }`}
@@ -328,37 +848,39 @@ const ChatPanel: React.FC = () => {
         </div>
 
         {/* Vision Mode Indicator - Cursor Style */}
-        {isVisionMode && selectedImage && (
+        {selectedImages.length > 0 && (
           <div className="mt-3 p-3 bg-[#0c2d6b] border border-[#1f6feb] rounded-md">
             <div className="flex items-center gap-2 mb-2">
               <Image className="w-4 h-4 text-[#1f6feb]" />
               <span className="text-sm font-medium text-[#1f6feb]">Vision Mode Active</span>
+              <span className="text-xs text-[#8b949e]">{selectedImages.length} of {MAX_CHAT_IMAGES} images</span>
+            </div>
+            <div className="flex flex-wrap gap-2 mb-2">
+              {selectedImages.map((image, index) => (
+                <div key={index} className="relative group">
+                  <img 
+                    src={image} 
+                    alt={`Attached image ${index + 1}`} 
+                    className="w-16 h-16 object-cover rounded border border-[#30363d]"
+                  />
+                  <button
+                    onClick={() => removeImage(index)}
+                    className="absolute -top-1.5 -right-1.5 p-0.5 bg-[#21262d] border border-[#30363d] rounded-full text-[#8b949e] hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Remove image"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
             </div>
             <div className="flex items-center gap-3">
-              <img 
-                src={selectedImage} 
-                alt="Uploaded design" 
-                className="w-16 h-16 object-cover rounded border border-[#30363d]"
-              />
-              <div className="flex-1">
-                <p className="text-xs text-[#8b949e] mb-1">UI Design uploaded for analysis</p>
-                <button
-                  onClick={handleVisionAnalysis}
-                  disabled={chat.isLoading}
-                  className="px-3 py-1 bg-[#1f6feb] hover:bg-[#388bfd] disabled:bg-[#21262d] text-xs text-white rounded transition-colors"
-                >
-                  {chat.isLoading ? 'Analyzing...' : 'Analyze Design'}
-                </button>
-              </div>
+              <p className="flex-1 text-xs text-[#8b949e]">Ask about the images below, or analyze them as UI designs</p>
               <button
-                onClick={() => {
-                  setSelectedImage(null);
-                  setIsVisionMode(false);
-                }}
-                className="p-1 text-[#8b949e] hover:text-red-400 transition-colors"
-                title="Remove image"
+                onClick={handleVisionAnalysis}
+                disabled={chat.isLoading}
+                className="px-3 py-1 bg-[#1f6feb] hover:bg-[#388bfd] disabled:bg-[#21262d] text-xs text-white rounded transition-colors"
               >
-                <X className="w-4 h-4" />
+                {chat.isLoading ? 'Analyzing...' : 'Analyze Design'}
               </button>
             </div>
           </div>
@@ -386,7 +908,7 @@ const ChatPanel: React.FC = () => {
             <input
               type="number"
               min="100"
-              max="8000"
+              max={currentModel?.maxOutputTokens || 8000}
               step="100"
               value={chat.maxTokens}
               onChange={(e) => setChatMaxTokens(parseInt(e.target.value))}
@@ -426,38 +948,169 @@ const ChatPanel: React.FC = () => {
                     {message.model && (
                       <span className="text-xs text-[#8b949e] bg-[#21262d] px-2 py-0.5 rounded">({message.model})</span>
                     )}
+                    {message.fallbackFrom && (
+                      <span
+                        className="text-xs text-yellow-400 bg-yellow-500/10 px-2 py-0.5 rounded"
+                        title={`${message.fallbackFrom} was unavailable, so another model answered`}
+                      >
+                        fallback from {message.fallbackFrom}
+                      </span>
+                    )}
                   </div>
                 )}
-                <div 
-                  className={`p-3 rounded-lg text-sm leading-relaxed ${
-                    message.role === 'user' 
-                      ? 'bg-[#1f6feb] text-white' 
-                      : 'bg-[#21262d] text-[#c9d1d9] border border-[#30363d]'
-                  }`}
-                  dangerouslySetInnerHTML={{ __html: formatMessage(message.content) }}
+                {editing?.id === message.id ? (
+                  <div className="p-2 rounded-lg bg-[#21262d] border border-[#1f6feb]">
+                    <textarea
+                      value={editing.content}
+                      onChange={(e) => setEditing({ ...editing, content: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault();
+                          regenerateFrom(message.id, editing.content);
+                        }
+                        if (e.key === 'Escape') setEditing(null);
+                      }}
+                      rows={Math.min(8, editing.content.split('\n').length + 1)}
+                      className="w-full bg-transparent text-sm text-white resize-none focus:outline-none"
+                      autoFocus
+                    />
+                    <div className="flex items-center justify-end space-x-2 mt-1">
+                      <span className="text-xs text-[#8b949e] mr-auto">Saves as a new branch of this chat</span>
+                      <button onClick={() => setEditing(null)} className="btn-ghost text-xs py-1 px-2">
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => regenerateFrom(message.id, editing.content)}
+                        disabled={!editing.content.trim() || chat.isLoading}
+                        className="btn-primary text-xs py-1 px-2 disabled:opacity-50"
+                      >
+                        Save & Regenerate
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div 
+                    className={`p-3 rounded-lg text-sm leading-relaxed ${
+                      message.role === 'user' 
+                        ? 'bg-[#1f6feb] text-white whitespace-pre-wrap break-words' 
+                        : 'bg-[#21262d] text-[#c9d1d9] border border-[#30363d]'
+                    }`}
+                  >
+                    {message.role === 'user' ? (
+                      message.content
+                    ) : (
+                      <MarkdownMessage content={message.content} model={message.model} onReview={reviewCodeBlock} />
+                    )}
+                  </div>
+                )}
+                {message.images && message.images.length > 0 && (
+                  <div className="mt-2 flex flex-wrap justify-end gap-1">
+                    {message.images.map((image, index) => (
+                      <img
+                        key={index}
+                        src={image}
+                        alt={`Attached image ${index + 1}`}
+                        className="w-20 h-20 object-cover rounded border border-[#30363d]"
+                      />
+                    ))}
+                  </div>
+                )}
+                {message.mentions && message.mentions.length > 0 && (
+                  <div className="mt-2 flex flex-wrap justify-end gap-1">
+                    {message.mentions.map((mention) => {
+                      const Icon = mentionIcons[mention.type];
+                      return (
+                        <span
+                          key={`${mention.type}:${mention.path}:${mention.line ?? ''}`}
+                          className="flex items-center px-1.5 py-0.5 bg-[#21262d] border border-[#30363d] rounded text-xs text-[#8b949e] font-mono"
+                          title={mention.line ? `${mention.path}:${mention.line}` : mention.path}
+                        >
+                          <Icon className="w-3 h-3 mr-1" />
+                          {formatMention(mention)}
+                        </span>
+                      );
+                    })}
+                  </div>
+                )}
+                {message.codeEdit && (
+                  <button
+                    onClick={() => setReview(message.codeEdit!)}
+                    className="mt-2 flex items-center px-2 py-1 bg-[#21262d] hover:bg-[#30363d] border border-[#30363d] rounded text-xs text-[#c9d1d9] transition-colors"
+                  >
+                    <GitCompare className="w-3 h-3 mr-1 text-[#1f6feb]" />
+                    Review changes
+                  </button>
+                )}
+                {message.citations && message.citations.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {message.citations.map((citation) => (
+                      <span
+                        key={`${citation.path}:${citation.startLine}`}
+                        className="px-1.5 py-0.5 bg-[#21262d] border border-[#30363d] rounded text-xs text-[#8b949e] font-mono"
+                        title={`Relevance ${citation.score}`}
+                      >
+                        {citation.path}:{citation.startLine}-{citation.endLine}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <AppliedRules
+                  rules={message.agentRunId ? agentRuns[message.agentRunId]?.rules : message.rules}
+                  className="mt-2"
                 />
+                {message.agentRunId && agentRuns[message.agentRunId] && (
+                  <AgentRunCard
+                    run={agentRuns[message.agentRunId]}
+                    onRunUpdated={(run) => setAgentRuns(runs => ({ ...runs, [run.id]: run }))}
+                  />
+                )}
                 <div className="flex items-center justify-between mt-2">
                   {message.usage && (
                     <div className="text-xs text-[#8b949e] flex items-center space-x-4">
                       <span>Tokens: {message.usage.totalTokens}</span>
-                      <span>Cost: ~${((message.usage.totalTokens / 1000) * 0.002).toFixed(4)}</span>
+                      {message.usage.costUsd !== undefined && (
+                        <span>Cost: ~${message.usage.costUsd.toFixed(4)}</span>
+                      )}
+                      {message.budget && (message.budget.dropped.historyMessages > 0 || message.budget.dropped.files.length > 0) && (
+                        <span
+                          className="text-yellow-400"
+                          title={message.budget.dropped.files.map(f => `${f.path}: ${f.reason}`).join('\n')}
+                        >
+                          Trimmed to fit: {[
+                            message.budget.dropped.historyMessages > 0 && `${message.budget.dropped.historyMessages} earlier message(s)`,
+                            message.budget.dropped.files.length > 0 && `${message.budget.dropped.files.length} file(s)`,
+                          ].filter(Boolean).join(', ')}
+                        </span>
+                      )}
                     </div>
                   )}
-                  <button
-                    onClick={() => copyMessage(message.content)}
-                    className="p-1 hover:bg-[#30363d] rounded transition-colors"
-                    title="Copy message"
-                  >
-                    <Copy className="w-3 h-3 text-[#8b949e] hover:text-white" />
-                  </button>
+                  <div className="flex items-center ml-auto">
+                    {message.role === 'user' && (
+                      <button
+                        onClick={() => setEditing({ id: message.id, content: message.content })}
+                        disabled={chat.isLoading}
+                        className="p-1 hover:bg-[#30363d] rounded transition-colors disabled:opacity-50"
+                        title="Edit and regenerate"
+                      >
+                        <Pencil className="w-3 h-3 text-[#8b949e] hover:text-white" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => copyMessage(message.content)}
+                      className="p-1 hover:bg-[#30363d] rounded transition-colors"
+                      title="Copy message"
+                    >
+                      <Copy className="w-3 h-3 text-[#8b949e] hover:text-white" />
+                    </button>
+                  </div>
                 </div>
               </div>
             </motion.div>
           ))}
         </AnimatePresence>
 
-        {/* Loading indicator - Cursor Style */}
-        {chat.isLoading && (
+        {/* Loading indicator - Cursor Style (until the first streamed token arrives) */}
+        {chat.isLoading && !chat.messages.some(m => m.streaming && m.content) && (
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
@@ -484,17 +1137,27 @@ const ChatPanel: React.FC = () => {
       </div>
 
       {/* ChatGPT-style Input */}
-      <div className="p-4 border-t border-[#30363d] bg-[#0d1117]">
+      <div
+        className={`p-4 border-t bg-[#0d1117] transition-colors ${isDraggingImage ? 'border-[#1f6feb] bg-[#1f6feb]/10' : 'border-[#30363d]'}`}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        {isDraggingImage && (
+          <div className="mb-3 p-3 border border-dashed border-[#1f6feb] rounded-lg text-center text-sm text-[#58a6ff]">
+            Drop screenshots to attach them
+          </div>
+        )}
+
         {/* Attachments */}
-        {(selectedImage || attachedLink) && (
+        {(selectedImages.length > 0 || attachedLink) && (
           <div className="mb-3 p-3 bg-[#21262d] border border-[#30363d] rounded-lg">
             <div className="flex items-center justify-between mb-2">
               <span className="text-sm font-medium text-[#c9d1d9]">Attachments</span>
               <button
                 onClick={() => {
-                  setSelectedImage(null);
+                  setSelectedImages([]);
                   setAttachedLink('');
-                  setIsVisionMode(false);
                   setShowLinkInput(false);
                 }}
                 className="p-1 hover:bg-[#30363d] rounded transition-colors"
@@ -503,10 +1166,12 @@ const ChatPanel: React.FC = () => {
               </button>
             </div>
             <div className="space-y-2">
-              {selectedImage && (
+              {selectedImages.length > 0 && (
                 <div className="flex items-center space-x-2">
                   <Image className="w-4 h-4 text-[#1f6feb]" />
-                  <span className="text-sm text-[#8b949e]">Image uploaded</span>
+                  <span className="text-sm text-[#8b949e]">
+                    {selectedImages.length === 1 ? '1 image attached' : `${selectedImages.length} images attached`}
+                  </span>
                 </div>
               )}
               {attachedLink && (
@@ -540,15 +1205,83 @@ const ChatPanel: React.FC = () => {
           </div>
         )}
 
+        {/* Context attached through @-mentions */}
+        {attachments.length > 0 && (
+          <div className="mb-2 flex flex-wrap gap-1">
+            {attachments.map((attachment) => {
+              const Icon = mentionIcons[attachment.mention.type];
+              return (
+                <span
+                  key={attachment.id}
+                  className="flex items-center pl-2 pr-1 py-0.5 bg-[#21262d] border border-[#30363d] rounded text-xs text-[#c9d1d9] font-mono"
+                  title={attachment.files.map(file => file.path).join('\n')}
+                >
+                  <Icon className="w-3 h-3 mr-1 text-[#1f6feb]" />
+                  {formatMention(attachment.mention)}
+                  {attachment.mention.type === 'folder' && (
+                    <span className="ml-1 text-[#8b949e]">({attachment.files.length})</span>
+                  )}
+                  <button
+                    onClick={() => removeAttachment(attachment.id)}
+                    className="ml-1 p-0.5 hover:bg-[#30363d] rounded transition-colors"
+                    title="Remove"
+                  >
+                    <X className="w-3 h-3 text-[#8b949e]" />
+                  </button>
+                </span>
+              );
+            })}
+          </div>
+        )}
+
         {/* Main Input */}
         <div className="relative">
+          {/* Slash command and mention suggestions */}
+          {suggestionCount > 0 && (
+            <div className="absolute bottom-full left-0 right-12 mb-2 bg-[#161b22] border border-[#30363d] rounded-md shadow-lg z-10 max-h-60 overflow-y-auto">
+              {commandSuggestions.length > 0
+                ? commandSuggestions.map((command, index) => (
+                  <button
+                    key={command.name}
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => selectCommand(command)}
+                    className={`w-full flex items-center px-3 py-2 text-left text-xs transition-colors ${index === activeSuggestion ? 'bg-[#1f6feb]/20' : 'hover:bg-[#21262d]'}`}
+                  >
+                    <Slash className="w-3 h-3 mr-2 text-[#1f6feb] flex-shrink-0" />
+                    <span className="font-mono text-white">{command.usage}</span>
+                    <span className="ml-2 text-[#8b949e] truncate">{command.description}</span>
+                  </button>
+                ))
+                : mentionSuggestions.map((mention, index) => {
+                  const Icon = mentionIcons[mention.type];
+                  return (
+                    <button
+                      key={`${mention.type}:${mention.path}:${mention.line ?? ''}`}
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => selectMention(mention)}
+                      className={`w-full flex items-center px-3 py-2 text-left text-xs transition-colors ${index === activeSuggestion ? 'bg-[#1f6feb]/20' : 'hover:bg-[#21262d]'}`}
+                    >
+                      <Icon className="w-3 h-3 mr-2 text-[#1f6feb] flex-shrink-0" />
+                      <span className="text-white truncate">{mention.name}</span>
+                      <span className="ml-2 text-[#8b949e] font-mono truncate">
+                        {mention.type === 'symbol' ? `${mention.kind} • ${mention.path}:${mention.line}` : mention.path}
+                      </span>
+                    </button>
+                  );
+                })}
+            </div>
+          )}
+
           <div className="flex items-end space-x-2">
             <div className="flex-1 relative">
                              <textarea
+                 ref={textareaRef}
                  value={inputValue}
                  onChange={handleTextareaChange}
-                 onKeyPress={handleKeyPress}
-                 placeholder="Message AI Assistant..."
+                 onKeyDown={handleKeyDown}
+                 onPaste={handlePaste}
+                 onBlur={closeSuggestions}
+                                  placeholder={isAgentMode ? 'Ask the agent to explore or edit the repository...' : 'Message AI Assistant... (/ for commands, @ to mention)'}
                  className="w-full px-4 py-3 pr-12 bg-[#21262d] border border-[#30363d] rounded-lg text-sm text-white placeholder-[#8b949e] focus:outline-none focus:border-[#1f6feb] resize-none"
                  rows={1}
                  disabled={chat.isLoading}
@@ -560,14 +1293,15 @@ const ChatPanel: React.FC = () => {
                 <label className="cursor-pointer">
                   <input
                     type="file"
-                    accept="image/*"
+                    accept="image/png,image/jpeg,image/gif,image/webp"
+                    multiple
                     onChange={handleImageUpload}
                     className="hidden"
                   />
                   <button
                     type="button"
                     className="p-1.5 hover:bg-[#30363d] rounded transition-colors"
-                    title="Attach image"
+                    title="Attach images (or paste or drop screenshots)"
                   >
                     <Image className="w-4 h-4 text-[#8b949e] hover:text-[#1f6feb]" />
                   </button>
@@ -606,10 +1340,43 @@ const ChatPanel: React.FC = () => {
           </div>
         </div>
         
-        <div className="mt-2 text-xs text-[#8b949e]">
-          Press Enter to send, Shift+Enter for new line • Use attachments for images, links, or Git repos
+        <div className="mt-2 flex items-center justify-between text-xs text-[#8b949e]">
+          <span>Press Enter to send, Shift+Enter for new line • Type / for commands or @ to attach files, folders and symbols</span>
+          {/* Context usage meter */}
+          <div
+            className="flex items-center space-x-2 flex-shrink-0 ml-3"
+            title={`Prompt ${contextUsage.prompt} • History ${contextUsage.history} • Files ${contextUsage.files} • Context ${contextUsage.context} tokens (estimated)`}
+          >
+            <div className="w-20 h-1.5 bg-[#30363d] rounded-full overflow-hidden">
+              <div
+                className={`h-full rounded-full ${
+                  contextUsage.ratio >= 1 ? 'bg-red-500' : contextUsage.ratio >= 0.7 ? 'bg-yellow-500' : 'bg-green-500'
+                }`}
+                style={{ width: `${Math.min(contextUsage.ratio, 1) * 100}%` }}
+              />
+            </div>
+            <span className={contextUsage.ratio >= 1 ? 'text-red-400' : ''}>
+              ~{formatTokens(contextUsage.total)} / {formatTokens(contextUsage.inputBudget)}
+              {contextUsage.ratio >= 1 && ' • older context will be trimmed'}
+            </span>
+          </div>
         </div>
       </div>
+
+      <UsageDashboard isOpen={showUsage} onClose={() => setShowUsage(false)} />
+      <EditHistory isOpen={showEditHistory} onClose={() => setShowEditHistory(false)} />
+      <ChatSessions
+        isOpen={showSessions}
+        onClose={() => setShowSessions(false)}
+        onOpen={(sessionId) => !chat.isLoading && openSession(sessionId)}
+        onDeleted={(sessionId) => sessionId === chat.sessionId && startNewChat()}
+      />
+      <DiffReview
+        proposal={review?.proposal || null}
+        title="Review AI Changes"
+        source={review?.source}
+        onClose={() => setReview(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,265 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, MessagesSquare, Search, GitBranch, Pencil, Trash2, Download, Check } from 'lucide-react';
+import { useAppStore } from '@/stores/appStore';
+import { chatSessionAPI } from '@/services/api';
+import toast from 'react-hot-toast';
+import type { ChatSearchResult, ChatSessionSummary } from '@/types';
+
+interface ChatSessionsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpen: (sessionId: string) => void;
+  onDeleted: (sessionId: string) => void;
+}
+
+const formatTime = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+/**
+ * Browse, search, rename, export and delete the saved chats of the current
+ * repository, and reopen one in the chat panel
+ */
+const ChatSessions: React.FC<ChatSessionsProps> = ({ isOpen, onClose, onOpen, onDeleted }) => {
+  const { currentRepository, chat } = useAppStore();
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([]);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ChatSearchResult[] | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) loadSessions();
+  }, [isOpen, currentRepository?.path]);
+
+  // Search on the server once typing pauses
+  useEffect(() => {
+    if (!isOpen || !query.trim()) {
+      setResults(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const found = await chatSessionAPI.search(currentRepository?.path, query);
+        if (!cancelled) setResults(found);
+      } catch (error) {
+        console.error('Search chat sessions error:', error);
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isOpen, query, currentRepository?.path]);
+
+  const loadSessions = async () => {
+    try {
+      setIsLoading(true);
+      setSessions(await chatSessionAPI.list(currentRepository?.path));
+    } catch (error) {
+      toast.error('Failed to load chats');
+      console.error('Load chat sessions error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleOpen = (sessionId: string) => {
+    onOpen(sessionId);
+    onClose();
+  };
+
+  const handleRename = async () => {
+    if (!renaming || !renaming.title.trim()) return;
+
+    try {
+      const session = await chatSessionAPI.update(renaming.id, { title: renaming.title });
+      setSessions(prev => prev.map(candidate => candidate.id === session.id ? { ...candidate, title: session.title } : candidate));
+      setResults(prev => prev && prev.map(candidate => candidate.id === session.id ? { ...candidate, title: session.title } : candidate));
+      setRenaming(null);
+    } catch (error) {
+      toast.error('Failed to rename chat');
+      console.error('Rename chat session error:', error);
+    }
+  };
+
+  const handleDelete = async (session: ChatSessionSummary) => {
+    try {
+      await chatSessionAPI.delete(session.id);
+      setSessions(prev => prev.filter(candidate => candidate.id !== session.id));
+      setResults(prev => prev && prev.filter(candidate => candidate.id !== session.id));
+      onDeleted(session.id);
+      toast.success(`Deleted ${session.title}`);
+    } catch (error) {
+      toast.error('Failed to delete chat');
+      console.error('Delete chat session error:', error);
+    }
+  };
+
+  const handleExport = async (session: ChatSessionSummary, format: 'markdown' | 'json') => {
+    try {
+      const blob = await chatSessionAPI.export(session.id, format);
+      const slug = session.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'chat';
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${slug}.${format === 'json' ? 'json' : 'md'}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error('Failed to export chat');
+      console.error('Export chat session error:', error);
+    }
+  };
+
+  const titleOf = (sessionId: string) => sessions.find(session => session.id === sessionId)?.title;
+  const shown: (ChatSessionSummary | ChatSearchResult)[] = results ?? sessions;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: -20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: -20 }}
+            className="w-full max-w-2xl h-[75vh] flex flex-col bg-[#161b22] border border-[#30363d] rounded-lg shadow-2xl"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-[#30363d]">
+              <div className="flex items-center space-x-2 min-w-0">
+                <MessagesSquare className="w-4 h-4 text-[#1f6feb] flex-shrink-0" />
+                <h2 className="text-sm font-semibold text-white">Chats</h2>
+                <span className="text-xs text-[#8b949e] truncate">{currentRepository?.name || 'No repository'}</span>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-[#21262d] rounded-md transition-colors group"
+                title="Close"
+              >
+                <X className="w-4 h-4 text-[#8b949e] group-hover:text-white" />
+              </button>
+            </div>
+
+            {/* Search */}
+            <div className="px-4 py-2 border-b border-[#30363d]">
+              <div className="relative">
+                <Search className="w-3.5 h-3.5 text-[#8b949e] absolute left-2 top-1/2 -translate-y-1/2" />
+                <input
+                  type="text"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Search chats..."
+                  className="w-full pl-7 pr-2 py-1.5 bg-[#21262d] border border-[#30363d] rounded text-xs text-white focus:outline-none focus:border-[#1f6feb]"
+                  autoFocus
+                />
+              </div>
+            </div>
+
+            {/* Sessions */}
+            <div className="flex-1 overflow-y-auto">
+              {shown.length === 0 && (
+                <div className="h-full flex items-center justify-center text-sm text-[#8b949e]">
+                  {isLoading ? 'Loading...' : results ? 'No chats match your search.' : 'No saved chats yet.'}
+                </div>
+              )}
+
+              {shown.map(session => (
+                <div
+                  key={session.id}
+                  onClick={() => renaming?.id !== session.id && handleOpen(session.id)}
+                  className={`group px-4 py-2 border-b border-[#30363d] cursor-pointer transition-colors ${session.id === chat.sessionId ? 'bg-[#1f6feb]/20' : 'hover:bg-[#21262d]'}`}
+                >
+                  <div className="flex items-center justify-between">
+                    {renaming?.id === session.id ? (
+                      <div className="flex items-center flex-1 space-x-1" onClick={(e) => e.stopPropagation()}>
+                        <input
+                          type="text"
+                          value={renaming.title}
+                          onChange={(e) => setRenaming({ ...renaming, title: e.target.value })}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleRename();
+                            if (e.key === 'Escape') setRenaming(null);
+                          }}
+                          className="flex-1 px-2 py-0.5 bg-[#21262d] border border-[#30363d] rounded text-xs text-white focus:outline-none focus:border-[#1f6feb]"
+                          autoFocus
+                        />
+                        <button onClick={handleRename} className="p-1 hover:bg-[#30363d] rounded" title="Save title">
+                          <Check className="w-3 h-3 text-green-400" />
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center min-w-0 space-x-1">
+                        {session.parentId && <GitBranch className="w-3 h-3 text-[#8b949e] flex-shrink-0" />}
+                        <span className="text-xs text-white truncate">{session.title}</span>
+                      </div>
+                    )}
+
+                    <div className="flex items-center space-x-0.5 opacity-0 group-hover:opacity-100 flex-shrink-0 ml-2" onClick={(e) => e.stopPropagation()}>
+                      <button
+                        onClick={() => setRenaming({ id: session.id, title: session.title })}
+                        className="p-1 hover:bg-[#30363d] rounded"
+                        title="Rename"
+                      >
+                        <Pencil className="w-3 h-3 text-[#8b949e] hover:text-white" />
+                      </button>
+                      <button
+                        onClick={() => handleExport(session, 'markdown')}
+                        className="p-1 hover:bg-[#30363d] rounded flex items-center text-[10px] text-[#8b949e] hover:text-white"
+                        title="Export as Markdown"
+                      >
+                        <Download className="w-3 h-3 mr-0.5" />MD
+                      </button>
+                      <button
+                        onClick={() => handleExport(session, 'json')}
+                        className="p-1 hover:bg-[#30363d] rounded flex items-center text-[10px] text-[#8b949e] hover:text-white"
+                        title="Export as JSON"
+                      >
+                        <Download className="w-3 h-3 mr-0.5" />JSON
+                      </button>
+                      <button
+                        onClick={() => handleDelete(session)}
+                        className="p-1 hover:bg-[#30363d] rounded"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-3 h-3 text-[#8b949e] hover:text-red-400" />
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="text-xs text-[#8b949e] mt-0.5">
+                    {session.messageCount} message{session.messageCount === 1 ? '' : 's'}
+                    {session.model && ` • ${session.model}`}
+                    {` • ${formatTime(session.updatedAt)}`}
+                    {session.branchedFrom && ` • branched from ${titleOf(session.branchedFrom.sessionId) || 'a deleted chat'}`}
+                  </div>
+
+                  {'matches' in session ? (
+                    session.matches.map(match => (
+                      <div key={match.messageId} className="text-xs text-white/70 mt-1 truncate">
+                        <span className="text-[#8b949e]">{match.role === 'user' ? 'You' : 'AI'}:</span> {match.snippet}
+                      </div>
+                    ))
+                  ) : (
+                    session.preview && <div className="text-xs text-white/50 mt-1 truncate">{session.preview}</div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ChatSessions;
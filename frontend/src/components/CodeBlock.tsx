@@ -0,0 +1,223 @@
+import React, { useEffect, useState } from 'react';
+import { Copy, Check, TextCursorInput, Replace, FilePlus, GitCompare } from 'lucide-react';
+import { loader } from '@monaco-editor/react';
+import type * as Monaco from 'monaco-editor';
+import { useAppStore } from '@/stores/appStore';
+import { fileAPI, repositoryAPI, sessionAPI, getErrorResponse } from '@/services/api';
+import { insertEditorText } from '@/services/editorBridge';
+import toast from 'react-hot-toast';
+import type { CodeEditProposal } from '@/types';
+
+interface CodeBlockProps {
+  code: string;
+  language: string;
+  path?: string;
+  model?: string;
+  onReview: (proposal: CodeEditProposal) => void;
+}
+
+/**
+ * Find the Monaco language for a fence language such as "ts", "py" or "shell"
+ */
+const resolveLanguage = (monaco: typeof Monaco, language: string) => {
+  const match = monaco.languages.getLanguages().find(candidate =>
+    candidate.id === language ||
+    candidate.aliases?.some(alias => alias.toLowerCase() === language) ||
+    candidate.extensions?.includes(`.${language}`)
+  );
+  return match?.id || 'plaintext';
+};
+
+/**
+ * A fenced code block from a chat reply, highlighted by Monaco, with actions to
+ * copy it, put it in the open file, save it as a new file or diff it against
+ * the file it names
+ */
+const CodeBlock: React.FC<CodeBlockProps> = ({ code, language, path, model, onReview }) => {
+  const { editor, currentRepository, fileExplorer, setFiles, setSelectedFile } = useAppStore();
+  const [highlighted, setHighlighted] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [showCreate, setShowCreate] = useState(false);
+  const [newPath, setNewPath] = useState(path || '');
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Monaco escapes the code, so its tokenized HTML is safe to render
+  useEffect(() => {
+    let cancelled = false;
+    loader.init()
+      .then(async monaco => {
+        monaco.editor.setTheme(editor.theme);
+        const html = await monaco.editor.colorize(code, resolveLanguage(monaco, language), { tabSize: 2 });
+        if (!cancelled) setHighlighted(html);
+      })
+      .catch(error => console.error('Highlight code block error:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [code, language, editor.theme]);
+
+  useEffect(() => {
+    setNewPath(path || '');
+  }, [path]);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  const handleInsert = (target: 'cursor' | 'selection') => {
+    if (!insertEditorText(code, target)) {
+      toast.error(target === 'selection' ? 'Select some code in the editor first' : 'Open a file in the editor first');
+      return;
+    }
+    toast.success(target === 'selection' ? 'Replaced the selection' : 'Inserted at the cursor');
+  };
+
+  const handleCreate = async () => {
+    const filePath = newPath.trim();
+    if (!currentRepository || !filePath) return;
+
+    const token = localStorage.getItem('github_token');
+    if (!token) {
+      toast.error('GitHub token not found. Please add your token in settings.');
+      return;
+    }
+
+    try {
+      setIsBusy(true);
+
+      // Recorded as an edit session so it can be reverted from edit history
+      const session = await sessionAPI.create(currentRepository.path, `Create ${filePath} from chat`, 'chat');
+      await fileAPI.createFile(currentRepository.path, filePath, code.endsWith('\n') ? code : `${code}\n`, token, session.id);
+
+      setFiles(await repositoryAPI.getFiles(currentRepository.path, fileExplorer.currentPath));
+      useAppStore.getState().setCurrentFile(await repositoryAPI.getFileContent(currentRepository.path, filePath));
+      setSelectedFile(filePath);
+      setShowCreate(false);
+      toast.success(`Created ${filePath}`);
+    } catch (error) {
+      toast.error(getErrorResponse(error)?.data?.message || `Failed to create ${filePath}`);
+      console.error('Create file from code block error:', error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDiff = async () => {
+    if (!currentRepository || !path) return;
+
+    try {
+      setIsBusy(true);
+      const comparison = await fileAPI.compareFile(currentRepository.path, path, code);
+      if (comparison.hunks.length === 0) {
+        toast.success(`${path} already matches this code`);
+        return;
+      }
+
+      onReview({
+        summary: comparison.exists ? `Replace ${path} with the code from chat` : `Create ${path} from chat`,
+        files: [comparison],
+        model: model || '',
+        modelId: '',
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+        attempts: 0,
+      });
+    } catch (error) {
+      toast.error(getErrorResponse(error)?.data?.message || `Failed to compare with ${path}`);
+      console.error('Compare code block error:', error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const actionClass = 'p-1 rounded text-[#8b949e] hover:text-white hover:bg-[#30363d] transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-[#8b949e]';
+
+  return (
+    <div className="my-2 rounded-md border border-[#30363d] bg-[#0d1117] overflow-hidden">
+      <div className="flex items-center justify-between px-2 py-1 border-b border-[#30363d] bg-[#161b22]">
+        <div className="flex items-center space-x-2 min-w-0 text-xs">
+          <span className="text-[#8b949e]">{language || 'text'}</span>
+          {path && <span className="font-mono text-[#c9d1d9] truncate" title={path}>{path}</span>}
+        </div>
+        <div className="flex items-center space-x-0.5 flex-shrink-0">
+          <button onClick={handleCopy} className={actionClass} title="Copy">
+            {copied ? <Check className="w-3.5 h-3.5 text-green-400" /> : <Copy className="w-3.5 h-3.5" />}
+          </button>
+          <button
+            onClick={() => handleInsert('cursor')}
+            disabled={!editor.currentFile}
+            className={actionClass}
+            title={editor.currentFile ? `Insert at the cursor in ${editor.currentFile.path}` : 'Open a file to insert into'}
+          >
+            <TextCursorInput className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => handleInsert('selection')}
+            disabled={!editor.currentFile || !editor.selection}
+            className={actionClass}
+            title={editor.selection ? `Replace lines ${editor.selection.startLine}-${editor.selection.endLine}` : 'Select code in the editor to replace'}
+          >
+            <Replace className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => setShowCreate(!showCreate)}
+            disabled={!currentRepository}
+            className={actionClass}
+            title="Create a new file"
+          >
+            <FilePlus className="w-3.5 h-3.5" />
+          </button>
+          {path && (
+            <button
+              onClick={handleDiff}
+              disabled={!currentRepository || isBusy}
+              className={actionClass}
+              title={`Show diff against ${path}`}
+            >
+              <GitCompare className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {showCreate && (
+        <div className="flex items-center space-x-2 px-2 py-1.5 border-b border-[#30363d] bg-[#161b22]">
+          <input
+            type="text"
+            value={newPath}
+            onChange={(e) => setNewPath(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleCreate();
+              if (e.key === 'Escape') setShowCreate(false);
+            }}
+            placeholder="path/to/new-file.ts"
+            className="flex-1 px-2 py-1 bg-[#21262d] border border-[#30363d] rounded text-xs text-white font-mono focus:outline-none focus:border-[#1f6feb]"
+            autoFocus
+          />
+          <button
+            onClick={handleCreate}
+            disabled={!newPath.trim() || isBusy}
+            className="btn-primary text-xs py-1 px-2 disabled:opacity-50"
+          >
+            {isBusy ? 'Creating...' : 'Create'}
+          </button>
+        </div>
+      )}
+
+      {highlighted !== null ? (
+        <pre
+          className="p-3 overflow-x-auto text-xs leading-5 font-mono"
+          dangerouslySetInnerHTML={{ __html: highlighted }}
+        />
+      ) : (
+        <pre className="p-3 overflow-x-auto text-xs leading-5 font-mono text-[#c9d1d9]">
+          <code>{code}</code>
+        </pre>
+      )}
+    </div>
+  );
+};
+
+export default CodeBlock;
@@ -1,29 +1,92 @@
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
 import { 
   Save, 
   FileText, 
   Settings, 
   Maximize, 
-  Minimize
+  Minimize,
+  Sparkles,
+  Wand2,
+  Wrench,
+  GitCommit
 } from 'lucide-react';
 import Editor from '@monaco-editor/react';
 import * as monaco from 'monaco-editor';
 import { useAppStore } from '@/stores/appStore';
-import { repositoryAPI } from '@/services/api';
+import { repositoryAPI, aiAPI, getErrorResponse } from '@/services/api';
+import { registerInlineCompletions, type InlineCompletionContext } from '@/services/inlineCompletions';
+import { registerActiveEditor } from '@/services/editorBridge';
+import { getLanguageFromPath } from '@/utils/language';
+import DiffReview from './DiffReview';
+import CommitView from './CommitView';
 import toast from 'react-hot-toast';
-import type { FileContent } from '@/types';
+import type { AIModel, CodeEditProposal, FileContent, GitBlame } from '@/types';
+
+// Recently opened files sent as context for inline completions
+const MAX_CONTEXT_FILES = 3;
+const MAX_CONTEXT_FILE_CHARS = 4000;
+
+// Line number gutter width, in digits, while blame annotations are shown
+const BLAME_GUTTER_CHARS = 34;
+const MAX_BLAME_AUTHOR_CHARS = 12;
+
+const formatTime = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+// Monaco inserts custom line numbers as HTML
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
 
 const CodeEditor: React.FC = () => {
   const { 
     editor, 
+    chat,
     currentRepository, 
     setEditorDirty,
-    setEditorLanguage 
+    setEditorLanguage,
+    setInlineCompletions,
+    setInlineCompletionModel,
+    setEditorSelection
   } = useAppStore();
   
   const editorRef = useRef<any>(null);
+  const completionProviderRef = useRef<monaco.IDisposable | null>(null);
+  const unregisterEditorRef = useRef<(() => void) | null>(null);
+  const recentFilesRef = useRef<FileContent[]>([]);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [models, setModels] = useState<AIModel[]>([]);
+  const [showAIActions, setShowAIActions] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [aiAction, setAIAction] = useState<'refactor' | 'fix' | null>(null);
+  const [review, setReview] = useState<{ proposal: CodeEditProposal; source: 'refactor' | 'fix' } | null>(null);
+  const [showBlame, setShowBlame] = useState(false);
+  const [blame, setBlame] = useState<GitBlame | null>(null);
+  const [blameCommit, setBlameCommit] = useState<string | null>(null);
+  const blameDecorationsRef = useRef<string[]>([]);
+
+  // Blame lines match the saved file, so annotations are hidden while there are unsaved edits
+  const visibleBlame = blame && !editor.isDirty ? blame : null;
+  const visibleBlameRef = useRef<GitBlame | null>(null);
+  visibleBlameRef.current = visibleBlame;
+
+  // Read by the completion provider on every request, so it always sees current settings
+  const completionContextRef = useRef<InlineCompletionContext>({
+    enabled: false,
+    model: '',
+    filePath: '',
+    language: 'plaintext',
+    openFiles: [],
+  });
+  completionContextRef.current = {
+    enabled: editor.inlineCompletions,
+    model: editor.inlineCompletionModel,
+    filePath: editor.currentFile?.path || '',
+    language: editor.language,
+    openFiles: recentFilesRef.current.map(file => ({
+      path: file.path,
+      content: file.content.slice(0, MAX_CONTEXT_FILE_CHARS),
+    })),
+  };
 
   // Handle editor content changes
   const handleEditorChange = (value: string | undefined) => {
@@ -73,8 +136,33 @@ const CodeEditor: React.FC = () => {
     }
   };
 
+  // Ask the AI to refactor or fix the open file, then review its edits
+  const handleAIAction = async (action: 'refactor' | 'fix') => {
+    if (!editor.currentFile) return;
+    const content = editorRef.current?.getValue() ?? editor.currentFile.content;
+
+    try {
+      setAIAction(action);
+      setShowAIActions(false);
+      const result = action === 'refactor'
+        ? await aiAPI.refactorCode(editor.currentFile.path, content, chat.selectedModel, 'general', { repoPath: currentRepository?.path })
+        : await aiAPI.fixCode(editor.currentFile.path, content, chat.selectedModel, errorMessage || 'Find and fix bugs in this file', 'runtime', { repoPath: currentRepository?.path });
+
+      if (result.files.length === 0) {
+        toast.success('No changes suggested');
+        return;
+      }
+      setReview({ proposal: result, source: action });
+    } catch (error) {
+      toast.error(getErrorResponse(error)?.data?.message || `Failed to ${action} code`);
+      console.error(`AI ${action} error:`, error);
+    } finally {
+      setAIAction(null);
+    }
+  };
+
   // Handle editor mount
-  const handleEditorDidMount = (editor: any) => {
+  const handleEditorDidMount = (editor: any, monacoInstance: typeof monaco) => {
     editorRef.current = editor;
     
     // Add keyboard shortcuts
@@ -82,59 +170,42 @@ const CodeEditor: React.FC = () => {
       handleSave();
     });
 
+    // AI ghost text; Tab accepts it when shown
+    completionProviderRef.current?.dispose();
+    completionProviderRef.current = registerInlineCompletions(monacoInstance, () => completionContextRef.current);
+    editor.addCommand(monaco.KeyCode.Tab, () => {
+      editor.trigger('keyboard', 'editor.action.inlineSuggest.commit', {});
+    }, 'inlineSuggestionVisible');
+
+    // Share the selection with chat slash commands
+    editor.onDidChangeCursorSelection((e: monaco.editor.ICursorSelectionChangedEvent) => {
+      const { selection } = e;
+      setEditorSelection(selection.isEmpty() ? null : {
+        startLine: selection.startLineNumber,
+        endLine: selection.endLineNumber,
+        text: editor.getModel()?.getValueInRange(selection) || '',
+      });
+    });
+
+    // Clicking a blame annotation opens its commit
+    editor.onMouseDown((e: monaco.editor.IEditorMouseEvent) => {
+      const lineNumber = e.target.position?.lineNumber;
+      const inGutter = e.target.type === monaco.editor.MouseTargetType.GUTTER_GLYPH_MARGIN
+        || e.target.type === monaco.editor.MouseTargetType.GUTTER_LINE_NUMBERS;
+      if (!visibleBlameRef.current || !lineNumber || !inGutter) return;
+
+      const range = visibleBlameRef.current.ranges.find(entry => lineNumber >= entry.startLine && lineNumber <= entry.endLine);
+      if (range?.oid) setBlameCommit(range.oid);
+    });
+
+    // Let chat code blocks insert into this editor
+    unregisterEditorRef.current?.();
+    unregisterEditorRef.current = registerActiveEditor(editor);
+
     // Focus editor
     editor.focus();
   };
 
-  // Get language from file extension
-  const getLanguageFromPath = (path: string): string => {
-    const ext = path.split('.').pop()?.toLowerCase();
-    const languageMap: { [key: string]: string } = {
-      'js': 'javascript',
-      'jsx': 'javascript',
-      'ts': 'typescript',
-      'tsx': 'typescript',
-      'html': 'html',
-      'css': 'css',
-      'scss': 'scss',
-      'json': 'json',
-      'md': 'markdown',
-      'py': 'python',
-      'java': 'java',
-      'cpp': 'cpp',
-      'c': 'c',
-      'php': 'php',
-      'rb': 'ruby',
-      'go': 'go',
-      'rs': 'rust',
-      'swift': 'swift',
-      'kt': 'kotlin',
-      'dart': 'dart',
-      'vue': 'vue',
-      'svelte': 'svelte',
-      'astro': 'astro',
-      'sql': 'sql',
-      'yaml': 'yaml',
-      'yml': 'yaml',
-      'toml': 'toml',
-      'ini': 'ini',
-      'sh': 'shell',
-      'bash': 'shell',
-      'zsh': 'shell',
-      'fish': 'shell',
-      'ps1': 'powershell',
-      'bat': 'batch',
-      'cmd': 'batch',
-      'dockerfile': 'dockerfile',
-      'gitignore': 'gitignore',
-      'env': 'env',
-      'xml': 'xml',
-      'svg': 'svg',
-    };
-    
-    return languageMap[ext || ''] || 'plaintext';
-  };
-
   // Update language when file changes
   useEffect(() => {
     if (editor.currentFile) {
@@ -143,6 +214,90 @@ const CodeEditor: React.FC = () => {
     }
   }, [editor.currentFile]);
 
+  // Remember recently opened files as completion context
+  useEffect(() => {
+    const file = editor.currentFile;
+    if (!file) return;
+    return () => {
+      recentFilesRef.current = [
+        file,
+        ...recentFilesRef.current.filter(recent => recent.path !== file.path),
+      ].slice(0, MAX_CONTEXT_FILES);
+    };
+  }, [editor.currentFile?.path]);
+
+  // Reload blame whenever the file is opened or saved
+  useEffect(() => {
+    if (!showBlame || !editor.currentFile || !currentRepository) {
+      setBlame(null);
+      return;
+    }
+
+    let cancelled = false;
+    repositoryAPI.getBlame(currentRepository.path, editor.currentFile.path)
+      .then(result => !cancelled && setBlame(result))
+      .catch(error => {
+        if (cancelled) return;
+        toast.error(error.message || 'Failed to load blame');
+        console.error('Load blame error:', error);
+        setShowBlame(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [showBlame, editor.currentFile, currentRepository?.path]);
+
+  // Gutter marks for each blamed range, with the commit on hover
+  useEffect(() => {
+    if (!editorRef.current) return;
+
+    blameDecorationsRef.current = editorRef.current.deltaDecorations(
+      blameDecorationsRef.current,
+      (visibleBlame?.ranges || []).map(range => {
+        const commit = range.oid ? visibleBlame!.commits[range.oid] : null;
+        return {
+          range: new monaco.Range(range.startLine, 1, range.endLine, 1),
+          options: {
+            isWholeLine: true,
+            glyphMarginClassName: commit ? 'blame-glyph' : 'blame-glyph-uncommitted',
+            glyphMarginHoverMessage: {
+              value: commit
+                ? `**${commit.subject}**\n\n${commit.author}, ${formatTime(commit.date)} · \`${commit.oid.slice(0, 7)}\`\n\nClick to open the commit`
+                : 'Not committed yet',
+            },
+          },
+        };
+      })
+    );
+  }, [visibleBlame]);
+
+  // Commit, author and date beside the first line of each blamed range
+  const blameLabels = useMemo(() => {
+    if (!visibleBlame) return null;
+
+    const labels = new Map<number, string>();
+    for (const range of visibleBlame.ranges) {
+      const commit = range.oid ? visibleBlame.commits[range.oid] : null;
+      labels.set(range.startLine, commit
+        ? `${commit.oid.slice(0, 7)} ${commit.author.slice(0, MAX_BLAME_AUTHOR_CHARS)} ${new Date(commit.date).toLocaleDateString()}`
+        : 'Not committed');
+    }
+    return labels;
+  }, [visibleBlame]);
+
+  useEffect(() => () => {
+    completionProviderRef.current?.dispose();
+    unregisterEditorRef.current?.();
+  }, []);
+
+  // Load models for the completion model picker
+  useEffect(() => {
+    if (!showSettings || models.length > 0) return;
+    aiAPI.getModels()
+      .then(list => setModels(list.filter(model => model.available)))
+      .catch(error => console.error('Failed to load models:', error));
+  }, [showSettings]);
+
   // Auto-save on blur (if enabled)
   const handleEditorBlur = () => {
     if (editor.isDirty && editor.currentFile) {
@@ -194,7 +349,57 @@ const CodeEditor: React.FC = () => {
             <Save className="w-3 h-3 mr-1" />
             {isSaving ? 'Saving...' : 'Save'}
           </button>
+
+          <button
+            onClick={() => setShowBlame(!showBlame)}
+            className={`btn-ghost text-xs py-1 px-2 ${showBlame ? 'bg-white/10' : ''}`}
+            title={showBlame && editor.isDirty ? 'Blame is hidden until the file is saved' : 'Show who last changed each line'}
+          >
+            <GitCommit className="w-3 h-3 mr-1" />
+            Blame
+          </button>
           
+          <div className="relative">
+            <button
+              onClick={() => setShowAIActions(!showAIActions)}
+              disabled={aiAction !== null}
+              className="btn-ghost text-xs py-1 px-2"
+              title="AI Refactor and Fix"
+            >
+              <Wand2 className={`w-3 h-3 mr-1 ${aiAction ? 'animate-pulse' : ''}`} />
+              {aiAction === 'refactor' ? 'Refactoring...' : aiAction === 'fix' ? 'Fixing...' : 'AI'}
+            </button>
+
+            {showAIActions && (
+              <div className="absolute right-0 top-full mt-1 w-72 bg-[#161b22] border border-[#30363d] rounded-md shadow-xl z-50 p-3 space-y-3">
+                <button
+                  onClick={() => handleAIAction('refactor')}
+                  className="w-full flex items-center px-2 py-1.5 text-xs text-white/80 rounded-md hover:bg-[#21262d]"
+                >
+                  <Wand2 className="w-3 h-3 mr-2 text-[#1f6feb]" />
+                  Refactor file
+                </button>
+                <div className="space-y-2">
+                  <textarea
+                    value={errorMessage}
+                    onChange={(e) => setErrorMessage(e.target.value)}
+                    placeholder="Paste an error message (optional)"
+                    rows={3}
+                    className="w-full bg-[#0d1117] border border-[#30363d] rounded-md px-2 py-1 text-xs text-white font-mono resize-none focus:outline-none focus:border-[#1f6feb]"
+                  />
+                  <button
+                    onClick={() => handleAIAction('fix')}
+                    className="w-full flex items-center px-2 py-1.5 text-xs text-white/80 rounded-md hover:bg-[#21262d]"
+                  >
+                    <Wrench className="w-3 h-3 mr-2 text-[#1f6feb]" />
+                    Fix file
+                  </button>
+                </div>
+                <p className="text-xs text-white/40">Uses {chat.selectedModel}. Changes open for review before anything is saved.</p>
+              </div>
+            )}
+          </div>
+
           <button
             onClick={() => setIsFullscreen(!isFullscreen)}
             className="btn-ghost text-xs py-1 px-2"
@@ -207,12 +412,48 @@ const CodeEditor: React.FC = () => {
             )}
           </button>
           
-          <button
-            className="btn-ghost text-xs py-1 px-2"
-            title="Editor Settings"
-          >
-            <Settings className="w-3 h-3" />
-          </button>
+          <div className="relative">
+            <button
+              onClick={() => setShowSettings(!showSettings)}
+              className="btn-ghost text-xs py-1 px-2"
+              title="Editor Settings"
+            >
+              <Settings className="w-3 h-3" />
+            </button>
+
+            {showSettings && (
+              <div className="absolute right-0 top-full mt-1 w-64 bg-[#161b22] border border-[#30363d] rounded-md shadow-xl z-50 p-3 space-y-3">
+                <label className="flex items-center justify-between text-xs text-white/80 cursor-pointer">
+                  <span className="flex items-center">
+                    <Sparkles className="w-3 h-3 mr-1 text-[#1f6feb]" />
+                    AI inline completions
+                  </span>
+                  <input
+                    type="checkbox"
+                    checked={editor.inlineCompletions}
+                    onChange={(e) => setInlineCompletions(e.target.checked)}
+                  />
+                </label>
+                <div>
+                  <div className="text-xs text-white/60 mb-1">Completion model</div>
+                  <select
+                    value={editor.inlineCompletionModel}
+                    onChange={(e) => setInlineCompletionModel(e.target.value)}
+                    disabled={!editor.inlineCompletions}
+                    className="w-full bg-[#0d1117] border border-[#30363d] rounded-md px-2 py-1 text-xs text-white focus:outline-none focus:border-[#1f6feb] disabled:opacity-50"
+                  >
+                    {!models.some(model => model.id === editor.inlineCompletionModel) && (
+                      <option value={editor.inlineCompletionModel}>{editor.inlineCompletionModel}</option>
+                    )}
+                    {models.map(model => (
+                      <option key={model.id} value={model.id}>{model.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <p className="text-xs text-white/40">Suggestions appear as you type. Press Tab to accept.</p>
+              </div>
+            )}
+          </div>
         </div>
       </div>
 
@@ -234,7 +475,14 @@ const CodeEditor: React.FC = () => {
             },
             scrollBeyondLastLine: false,
             automaticLayout: true,
-            lineNumbers: 'on',
+            lineNumbers: blameLabels
+              ? (lineNumber: number) => {
+                  const label = blameLabels.get(lineNumber);
+                  return label ? `${escapeHtml(label)}\u00a0\u00a0${lineNumber}` : String(lineNumber);
+                }
+              : 'on',
+            lineNumbersMinChars: blameLabels ? BLAME_GUTTER_CHARS : 5,
+            glyphMargin: Boolean(blameLabels),
             roundedSelection: false,
             scrollbar: {
               vertical: 'visible',
@@ -265,6 +513,9 @@ const CodeEditor: React.FC = () => {
             lightbulb: {
               enabled: true,
             },
+            inlineSuggest: {
+              enabled: true,
+            },
             // codeActionsOnSave removed - not supported in this version
           }}
         />
@@ -284,6 +535,19 @@ const CodeEditor: React.FC = () => {
           <span>{editor.theme}</span>
         </div>
       </div>
+
+      <DiffReview
+        proposal={review?.proposal || null}
+        title="Review AI Changes"
+        source={review?.source}
+        onClose={() => setReview(null)}
+      />
+
+      <CommitView
+        commitOid={blameCommit}
+        filePath={editor.currentFile.path}
+        onClose={() => setBlameCommit(null)}
+      />
     </div>
   );
 };
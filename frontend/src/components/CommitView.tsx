@@ -0,0 +1,201 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, GitCommit, FilePlus, FileMinus, FileEdit } from 'lucide-react';
+import { DiffEditor } from '@monaco-editor/react';
+import { useAppStore } from '@/stores/appStore';
+import { repositoryAPI } from '@/services/api';
+import { getLanguageFromPath } from '@/utils/language';
+import toast from 'react-hot-toast';
+import type { GitCommitDetails, GitFileDiff } from '@/types';
+
+interface CommitViewProps {
+  // Commit to show; null hides the view
+  commitOid: string | null;
+  // File to select first, when the commit changed it
+  filePath?: string | null;
+  onClose: () => void;
+}
+
+const FILE_ICONS: Record<GitFileDiff['status'], React.ReactNode> = {
+  added: <FilePlus className="w-3 h-3 text-green-400 flex-shrink-0" />,
+  untracked: <FilePlus className="w-3 h-3 text-green-400 flex-shrink-0" />,
+  modified: <FileEdit className="w-3 h-3 text-yellow-400 flex-shrink-0" />,
+  deleted: <FileMinus className="w-3 h-3 text-red-400 flex-shrink-0" />,
+};
+
+const formatTime = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+/**
+ * One commit: its message, author and parents, the files it changed and a
+ * Monaco diff of the selected file against the first parent
+ */
+const CommitView: React.FC<CommitViewProps> = ({ commitOid, filePath, onClose }) => {
+  const { editor, currentRepository } = useAppStore();
+  const [details, setDetails] = useState<GitCommitDetails | null>(null);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [fileDiff, setFileDiff] = useState<GitFileDiff | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setDetails(null);
+    setFileDiff(null);
+    if (commitOid) loadCommit(commitOid);
+  }, [commitOid, currentRepository?.path]);
+
+  useEffect(() => {
+    setFileDiff(null);
+    if (details && selectedPath) loadFile(details.commit.oid, selectedPath);
+  }, [details, selectedPath]);
+
+  const loadCommit = async (oid: string) => {
+    if (!currentRepository) return;
+
+    try {
+      setIsLoading(true);
+      const result = await repositoryAPI.showCommit(currentRepository.path, oid);
+      setDetails(result);
+      const preferred = result.files.find(file => file.path === filePath);
+      setSelectedPath((preferred || result.files[0])?.path || null);
+    } catch (error) {
+      toast.error(error instanceof Error && error.message ? error.message : 'Failed to load commit');
+      console.error('Show commit error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadFile = async (oid: string, path: string) => {
+    if (!currentRepository) return;
+
+    try {
+      const result = await repositoryAPI.showCommit(currentRepository.path, oid, { filePath: path, includeContent: true });
+      setFileDiff(result.files.find(file => file.path === path) || null);
+    } catch (error) {
+      toast.error(error instanceof Error && error.message ? error.message : 'Failed to load diff');
+      console.error('Load commit diff error:', error);
+    }
+  };
+
+  const commit = details?.commit;
+
+  return (
+    <AnimatePresence>
+      {commitOid && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: -20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: -20 }}
+            className="w-full max-w-6xl h-[85vh] flex flex-col bg-[#161b22] border border-[#30363d] rounded-lg shadow-2xl"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-[#30363d]">
+              <div className="flex items-center space-x-2 min-w-0">
+                <GitCommit className="w-4 h-4 text-[#1f6feb] flex-shrink-0" />
+                <span className="text-xs font-mono text-[#8b949e] flex-shrink-0">{commitOid.slice(0, 7)}</span>
+                <h2 className="text-sm font-semibold text-white truncate">{commit?.subject || (isLoading ? 'Loading...' : '')}</h2>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-[#21262d] rounded-md transition-colors group"
+                title="Close"
+              >
+                <X className="w-4 h-4 text-[#8b949e] group-hover:text-white" />
+              </button>
+            </div>
+
+            {details && commit && (
+              <div className="flex-1 flex min-h-0">
+                {/* Commit and files */}
+                <div className="w-80 flex-shrink-0 border-r border-[#30363d] overflow-y-auto">
+                  <div className="px-4 py-3 border-b border-[#30363d] text-xs space-y-2">
+                    <pre className="text-white whitespace-pre-wrap font-sans">{commit.message}</pre>
+                    <div className="text-[#8b949e]">
+                      <div>{commit.author} &lt;{commit.email}&gt;</div>
+                      <div>{formatTime(commit.date)}</div>
+                      <div className="font-mono">{commit.oid}</div>
+                      {commit.parents.length > 0 && (
+                        <div>
+                          {commit.parents.length > 1 ? 'Parents' : 'Parent'}{' '}
+                          <span className="font-mono">{commit.parents.map(parent => parent.slice(0, 7)).join(', ')}</span>
+                          {commit.parents.length > 1 && ' (diff against the first)'}
+                        </div>
+                      )}
+                    </div>
+                    {commit.boundary && (
+                      <div className="text-yellow-400">
+                        The parent of this commit was not fetched, so every file shows as added.
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="py-2">
+                    <div className="px-4 pb-1 text-xs text-[#8b949e]">
+                      {details.files.length} file{details.files.length === 1 ? '' : 's'} changed
+                      <span className="text-green-400 ml-2">+{details.additions}</span>
+                      <span className="text-red-400 ml-1">-{details.deletions}</span>
+                    </div>
+                    {details.files.map(file => (
+                      <div
+                        key={file.path}
+                        onClick={() => setSelectedPath(file.path)}
+                        className={`flex items-center space-x-2 px-4 py-1 text-xs cursor-pointer hover:bg-[#21262d] ${selectedPath === file.path ? 'bg-[#21262d]' : ''}`}
+                      >
+                        {FILE_ICONS[file.status]}
+                        <span className="text-white truncate flex-1">{file.path}</span>
+                        {!file.binary && (
+                          <span className="flex-shrink-0">
+                            <span className="text-green-400">+{file.additions}</span>
+                            <span className="text-red-400 ml-1">-{file.deletions}</span>
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Diff */}
+                <div className="flex-1 min-w-0">
+                  {!fileDiff ? (
+                    <div className="h-full flex items-center justify-center text-sm text-[#8b949e]">
+                      {selectedPath ? 'Loading...' : 'This commit changed no files.'}
+                    </div>
+                  ) : fileDiff.binary ? (
+                    <div className="h-full flex items-center justify-center text-sm text-[#8b949e]">
+                      Binary file
+                    </div>
+                  ) : (
+                    <DiffEditor
+                      height="100%"
+                      original={fileDiff.originalContent ?? ''}
+                      modified={fileDiff.newContent ?? ''}
+                      language={getLanguageFromPath(fileDiff.path)}
+                      theme={editor.theme}
+                      options={{
+                        readOnly: true,
+                        renderSideBySide: true,
+                        automaticLayout: true,
+                        scrollBeyondLastLine: false,
+                        minimap: { enabled: false },
+                        fontSize: editor.fontSize,
+                      }}
+                    />
+                  )}
+                </div>
+              </div>
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default CommitView;
@@ -0,0 +1,245 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, GitCompare, Check, FileText } from 'lucide-react';
+import { DiffEditor, type MonacoDiffEditor } from '@monaco-editor/react';
+import { useAppStore } from '@/stores/appStore';
+import { repositoryAPI, sessionAPI } from '@/services/api';
+import { applyHunks } from '@/utils/diff';
+import { getLanguageFromPath } from '@/utils/language';
+import AppliedRules from './AppliedRules';
+import toast from 'react-hot-toast';
+import type { CodeEditProposal, CodeEditHunk } from '@/types';
+
+interface DiffReviewProps {
+  proposal: CodeEditProposal | null;
+  title?: string;
+  source?: string;
+  onClose: () => void;
+}
+
+const lineCount = (text: string) => (text === '' ? 0 : text.split('\n').length);
+
+/**
+ * Review AI edits hunk by hunk in a Monaco diff view, then write the accepted
+ * hunks of each file through the repository API as one edit session
+ */
+const DiffReview: React.FC<DiffReviewProps> = ({ proposal, title = 'Review Changes', source = 'ai-edit', onClose }) => {
+  const { editor, currentRepository, setCurrentFile, setEditorDirty } = useAppStore();
+  const [activePath, setActivePath] = useState('');
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+  const [isApplying, setIsApplying] = useState(false);
+  const diffEditorRef = useRef<MonacoDiffEditor | null>(null);
+
+  // Every hunk starts accepted
+  useEffect(() => {
+    setActivePath(proposal?.files[0]?.path || '');
+    setRejected(new Set());
+  }, [proposal]);
+
+  const activeFile = proposal?.files.find(file => file.path === activePath);
+  const isAccepted = (hunk: CodeEditHunk) => !rejected.has(hunk.id);
+
+  const modifiedContent = useMemo(
+    () => activeFile ? applyHunks(activeFile.originalContent, activeFile.hunks.filter(isAccepted)) : '',
+    [activeFile, rejected]
+  );
+
+  const acceptedCount = proposal?.files.reduce((count, file) => count + file.hunks.filter(isAccepted).length, 0) || 0;
+  const totalCount = proposal?.files.reduce((count, file) => count + file.hunks.length, 0) || 0;
+
+  const toggleHunk = (hunkId: string) => {
+    setRejected(prev => {
+      const next = new Set(prev);
+      if (next.has(hunkId)) next.delete(hunkId);
+      else next.add(hunkId);
+      return next;
+    });
+  };
+
+  const setAll = (accepted: boolean) => {
+    setRejected(accepted ? new Set() : new Set(proposal?.files.flatMap(file => file.hunks.map(hunk => hunk.id))));
+  };
+
+  // Scroll the modified side to a hunk, allowing for accepted hunks above it
+  const revealHunk = (hunk: CodeEditHunk) => {
+    if (!activeFile || !diffEditorRef.current) return;
+    const shift = activeFile.hunks
+      .filter(other => other.startLine < hunk.startLine && isAccepted(other))
+      .reduce((sum, other) => sum + lineCount(other.newText) - (other.endLine - other.startLine + 1), 0);
+    diffEditorRef.current.getModifiedEditor().revealLineInCenter(Math.max(1, hunk.startLine + shift));
+  };
+
+  const handleApply = async () => {
+    if (!proposal || !currentRepository) return;
+
+    const token = localStorage.getItem('github_token');
+    if (!token) {
+      toast.error('GitHub token not found. Please add your token in settings.');
+      return;
+    }
+
+    const changes = proposal.files
+      .map(file => ({ file, hunks: file.hunks.filter(isAccepted) }))
+      .filter(change => change.hunks.length > 0);
+
+    try {
+      setIsApplying(true);
+
+      // Group the writes so they can be reverted together from edit history
+      const session = await sessionAPI.create(currentRepository.path, proposal.summary, source);
+
+      for (const { file, hunks } of changes) {
+        const content = applyHunks(file.originalContent, hunks);
+        await repositoryAPI.updateFile(currentRepository.path, file.path, content, token, session.id);
+
+        if (editor.currentFile?.path === file.path) {
+          setCurrentFile({ ...editor.currentFile, content, modified: new Date() });
+          setEditorDirty(false);
+        }
+      }
+
+      toast.success(`Applied ${acceptedCount} change${acceptedCount === 1 ? '' : 's'} to ${changes.length} file${changes.length === 1 ? '' : 's'}`);
+      onClose();
+    } catch (error) {
+      toast.error(`Failed to apply changes: ${error instanceof Error ? error.message : error}`);
+      console.error('Apply edits error:', error);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {proposal && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: -20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: -20 }}
+            className="w-full max-w-6xl h-[85vh] flex flex-col bg-[#161b22] border border-[#30363d] rounded-lg shadow-2xl"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-[#30363d]">
+              <div className="flex items-center space-x-2 min-w-0">
+                <GitCompare className="w-4 h-4 text-[#1f6feb] flex-shrink-0" />
+                <h2 className="text-sm font-semibold text-white">{title}</h2>
+                <span className="text-xs text-[#8b949e] truncate">{proposal.summary}</span>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-[#21262d] rounded-md transition-colors group"
+                title="Close"
+              >
+                <X className="w-4 h-4 text-[#8b949e] group-hover:text-white" />
+              </button>
+            </div>
+
+            {proposal.files.length === 0 ? (
+              <div className="flex-1 flex items-center justify-center text-sm text-[#8b949e]">
+                The AI did not suggest any changes.
+              </div>
+            ) : (
+              <div className="flex-1 flex min-h-0">
+                {/* Files and hunks */}
+                <div className="w-72 flex-shrink-0 border-r border-[#30363d] overflow-y-auto">
+                  {proposal.files.map(file => (
+                    <div key={file.path} className="border-b border-[#30363d]">
+                      <button
+                        onClick={() => setActivePath(file.path)}
+                        className={`w-full flex items-center px-3 py-2 text-xs text-left transition-colors ${file.path === activePath ? 'bg-[#1f6feb]/20 text-white' : 'text-[#8b949e] hover:bg-[#21262d] hover:text-white'}`}
+                      >
+                        <FileText className="w-3 h-3 mr-2 flex-shrink-0" />
+                        <span className="font-mono truncate flex-1">{file.path}</span>
+                        <span className="ml-2">{file.hunks.filter(isAccepted).length}/{file.hunks.length}</span>
+                      </button>
+
+                      {file.path === activePath && file.hunks.map(hunk => (
+                        <div
+                          key={hunk.id}
+                          onClick={() => revealHunk(hunk)}
+                          className="flex items-start px-3 py-2 text-xs cursor-pointer hover:bg-[#21262d]"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={isAccepted(hunk)}
+                            onChange={() => toggleHunk(hunk.id)}
+                            onClick={(e) => e.stopPropagation()}
+                            className="mt-0.5 mr-2"
+                          />
+                          <div className="min-w-0">
+                            <div className="text-[#8b949e] font-mono">
+                              {hunk.endLine < hunk.startLine
+                                ? `Insert before line ${hunk.startLine}`
+                                : `Lines ${hunk.startLine}-${hunk.endLine}`}
+                            </div>
+                            <div className={isAccepted(hunk) ? 'text-white/80' : 'text-white/40 line-through'}>
+                              {hunk.explanation}
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+
+                {/* Diff */}
+                <div className="flex-1 min-w-0">
+                  {activeFile && (
+                    <DiffEditor
+                      height="100%"
+                      original={activeFile.originalContent}
+                      modified={modifiedContent}
+                      language={getLanguageFromPath(activeFile.path)}
+                      theme={editor.theme}
+                      onMount={(diffEditor) => { diffEditorRef.current = diffEditor; }}
+                      options={{
+                        readOnly: true,
+                        renderSideBySide: true,
+                        automaticLayout: true,
+                        scrollBeyondLastLine: false,
+                        minimap: { enabled: false },
+                        fontSize: editor.fontSize,
+                      }}
+                    />
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Footer */}
+            <div className="flex items-center justify-between px-4 py-3 border-t border-[#30363d]">
+              <div className="flex items-center space-x-3 text-xs text-[#8b949e]">
+                <span>{acceptedCount} of {totalCount} changes accepted</span>
+                <button onClick={() => setAll(true)} className="hover:text-white">Accept all</button>
+                <button onClick={() => setAll(false)} className="hover:text-white">Reject all</button>
+                <AppliedRules rules={proposal.rules} />
+              </div>
+              <div className="flex items-center space-x-2">
+                <button onClick={onClose} className="btn-ghost text-xs py-1 px-3">
+                  Discard
+                </button>
+                <button
+                  onClick={handleApply}
+                  disabled={acceptedCount === 0 || isApplying || !currentRepository}
+                  className="btn-primary text-xs py-1 px-3 flex items-center disabled:opacity-50"
+                >
+                  <Check className="w-3 h-3 mr-1" />
+                  {isApplying ? 'Applying...' : 'Apply Accepted'}
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default DiffReview;
@@ -0,0 +1,286 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, History, RefreshCw, RotateCcw, AlertTriangle, FileText } from 'lucide-react';
+import { DiffEditor } from '@monaco-editor/react';
+import { useAppStore } from '@/stores/appStore';
+import { repositoryAPI, sessionAPI, getErrorResponse } from '@/services/api';
+import { getLanguageFromPath } from '@/utils/language';
+import toast from 'react-hot-toast';
+import type { EditSession, EditSessionConflict, EditSessionFile, EditSessionSummary } from '@/types';
+
+interface EditHistoryProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const sourceLabels: Record<string, string> = {
+  agent: 'Agent',
+  refactor: 'Refactor',
+  fix: 'Fix',
+  'ai-edit': 'AI Edit',
+  manual: 'Manual',
+};
+
+const statusStyles: Record<EditSessionFile['status'], string> = {
+  added: 'text-green-400',
+  modified: 'text-yellow-400',
+  deleted: 'text-red-400',
+  renamed: 'text-blue-400',
+};
+
+const fileKey = (file: EditSessionFile) => `${file.oldPath}\u0000${file.path}`;
+
+const formatTime = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+/**
+ * Browse the edit sessions of the current repository, review each session's
+ * combined diff and revert a whole session at once
+ */
+const EditHistory: React.FC<EditHistoryProps> = ({ isOpen, onClose }) => {
+  const { currentRepository, editor, fileExplorer, setCurrentFile, setFiles } = useAppStore();
+  const [sessions, setSessions] = useState<EditSessionSummary[]>([]);
+  const [selected, setSelected] = useState<EditSession | null>(null);
+  const [activeFile, setActiveFile] = useState('');
+  const [conflicts, setConflicts] = useState<EditSessionConflict[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isReverting, setIsReverting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) loadSessions();
+  }, [isOpen, currentRepository?.path]);
+
+  const loadSessions = async () => {
+    if (!currentRepository) return;
+
+    try {
+      setIsLoading(true);
+      const list = await sessionAPI.list(currentRepository.path);
+      setSessions(list);
+      if (list.length > 0 && !list.some(session => session.id === selected?.id)) {
+        await selectSession(list[0].id);
+      }
+    } catch (error) {
+      toast.error('Failed to load edit history');
+      console.error('Load edit sessions error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectSession = async (sessionId: string) => {
+    try {
+      const session = await sessionAPI.get(sessionId);
+      setSelected(session);
+      setActiveFile(session.files[0] ? fileKey(session.files[0]) : '');
+      setConflicts([]);
+    } catch (error) {
+      toast.error('Failed to load edit session');
+      console.error('Load edit session error:', error);
+    }
+  };
+
+  const handleRevert = async (force = false) => {
+    if (!selected || !currentRepository) return;
+
+    try {
+      setIsReverting(true);
+      const result = await sessionAPI.revert(selected.id, force);
+      toast.success(`Reverted ${selected.title}`);
+
+      // Bring the file tree and open file up to date with the restored files
+      setFiles(await repositoryAPI.getFiles(currentRepository.path, fileExplorer.currentPath));
+      const openPath = editor.currentFile?.path;
+      if (openPath && result.restored.includes(openPath)) {
+        setCurrentFile(await repositoryAPI.getFileContent(currentRepository.path, openPath));
+      } else if (openPath && result.removed.includes(openPath)) {
+        setCurrentFile(null);
+      }
+
+      await selectSession(selected.id);
+      setSessions(prev => prev.map(session => session.id === result.id ? { ...session, ...result } : session));
+    } catch (error) {
+      const response = getErrorResponse(error);
+      if (response?.status === 409) {
+        setConflicts(response.data.conflicts || []);
+      } else {
+        toast.error(response?.data?.message || 'Failed to revert edit session');
+        console.error('Revert edit session error:', error);
+      }
+    } finally {
+      setIsReverting(false);
+    }
+  };
+
+  const file = selected?.files.find(candidate => fileKey(candidate) === activeFile);
+  const displayPath = file ? file.path || file.oldPath || '' : '';
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: -20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: -20 }}
+            className="w-full max-w-6xl h-[85vh] flex flex-col bg-[#161b22] border border-[#30363d] rounded-lg shadow-2xl"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-[#30363d]">
+              <div className="flex items-center space-x-2">
+                <History className="w-4 h-4 text-[#1f6feb]" />
+                <h2 className="text-sm font-semibold text-white">Edit History</h2>
+              </div>
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={loadSessions}
+                  disabled={isLoading}
+                  className="p-2 hover:bg-[#21262d] rounded-md transition-colors group"
+                  title="Refresh"
+                >
+                  <RefreshCw className={`w-4 h-4 text-[#8b949e] group-hover:text-white ${isLoading ? 'animate-spin' : ''}`} />
+                </button>
+                <button
+                  onClick={onClose}
+                  className="p-2 hover:bg-[#21262d] rounded-md transition-colors group"
+                  title="Close"
+                >
+                  <X className="w-4 h-4 text-[#8b949e] group-hover:text-white" />
+                </button>
+              </div>
+            </div>
+
+            {!currentRepository ? (
+              <div className="flex-1 flex items-center justify-center text-sm text-[#8b949e]">
+                Import a repository to see its edit history.
+              </div>
+            ) : sessions.length === 0 ? (
+              <div className="flex-1 flex items-center justify-center text-sm text-[#8b949e]">
+                {isLoading ? 'Loading...' : 'No edit sessions yet. Applied AI changes will appear here.'}
+              </div>
+            ) : (
+              <div className="flex-1 flex min-h-0">
+                {/* Sessions */}
+                <div className="w-64 flex-shrink-0 border-r border-[#30363d] overflow-y-auto">
+                  {sessions.map(session => (
+                    <button
+                      key={session.id}
+                      onClick={() => selectSession(session.id)}
+                      className={`w-full text-left px-3 py-2 border-b border-[#30363d] transition-colors ${session.id === selected?.id ? 'bg-[#1f6feb]/20' : 'hover:bg-[#21262d]'}`}
+                    >
+                      <div className={`text-xs truncate ${session.status === 'reverted' ? 'text-white/40 line-through' : 'text-white'}`}>
+                        {session.title}
+                      </div>
+                      <div className="text-xs text-[#8b949e] mt-0.5">
+                        {sourceLabels[session.source] || session.source} • {session.fileCount} file{session.fileCount === 1 ? '' : 's'}
+                      </div>
+                      <div className="text-xs text-[#8b949e]">{formatTime(session.createdAt)}</div>
+                    </button>
+                  ))}
+                </div>
+
+                {/* Selected session */}
+                {selected && (
+                  <div className="flex-1 flex flex-col min-w-0">
+                    <div className="flex items-center justify-between px-4 py-2 border-b border-[#30363d]">
+                      <div className="min-w-0">
+                        <div className="text-sm text-white truncate">{selected.title}</div>
+                        <div className="text-xs text-[#8b949e]">
+                          {selected.status === 'reverted' && selected.revertedAt
+                            ? `Reverted ${formatTime(selected.revertedAt)}`
+                            : `${selected.changeCount} change${selected.changeCount === 1 ? '' : 's'} • ${formatTime(selected.updatedAt)}`}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => handleRevert(false)}
+                        disabled={selected.status !== 'open' || isReverting}
+                        className="btn-ghost text-xs py-1 px-3 flex items-center disabled:opacity-50"
+                      >
+                        <RotateCcw className="w-3 h-3 mr-1" />
+                        {isReverting ? 'Reverting...' : 'Revert Session'}
+                      </button>
+                    </div>
+
+                    {conflicts.length > 0 && (
+                      <div className="px-4 py-2 border-b border-[#30363d] bg-yellow-500/10 text-xs">
+                        <div className="flex items-center text-yellow-400 mb-1">
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          These files changed after the session. Reverting will overwrite those changes.
+                        </div>
+                        {conflicts.map(conflict => (
+                          <div key={conflict.path} className="text-white/70">
+                            <span className="font-mono">{conflict.path}</span>: {conflict.reason}
+                          </div>
+                        ))}
+                        <div className="flex space-x-2 mt-2">
+                          <button onClick={() => handleRevert(true)} disabled={isReverting} className="btn-ghost text-xs py-1 px-2 text-yellow-400">
+                            Revert anyway
+                          </button>
+                          <button onClick={() => setConflicts([])} className="btn-ghost text-xs py-1 px-2">
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="flex-1 flex min-h-0">
+                      <div className="w-56 flex-shrink-0 border-r border-[#30363d] overflow-y-auto">
+                        {selected.files.map(candidate => (
+                          <button
+                            key={fileKey(candidate)}
+                            onClick={() => setActiveFile(fileKey(candidate))}
+                            className={`w-full flex items-center px-3 py-2 text-xs text-left transition-colors ${fileKey(candidate) === activeFile ? 'bg-[#21262d] text-white' : 'text-[#8b949e] hover:bg-[#21262d] hover:text-white'}`}
+                            title={candidate.status === 'renamed' ? `${candidate.oldPath} → ${candidate.path}` : undefined}
+                          >
+                            <FileText className="w-3 h-3 mr-2 flex-shrink-0" />
+                            <span className="font-mono truncate flex-1">{candidate.path || candidate.oldPath}</span>
+                            <span className={`ml-2 uppercase ${statusStyles[candidate.status]}`}>{candidate.status[0]}</span>
+                          </button>
+                        ))}
+                        {selected.files.length === 0 && (
+                          <div className="px-3 py-2 text-xs text-[#8b949e]">No net changes</div>
+                        )}
+                      </div>
+
+                      <div className="flex-1 min-w-0">
+                        {file?.binary ? (
+                          <div className="h-full flex items-center justify-center text-sm text-[#8b949e]">
+                            Binary file; reverting restores it as a whole.
+                          </div>
+                        ) : file && (
+                          <DiffEditor
+                            height="100%"
+                            original={file.before ?? ''}
+                            modified={file.after ?? ''}
+                            language={getLanguageFromPath(displayPath)}
+                            theme={editor.theme}
+                            options={{
+                              readOnly: true,
+                              renderSideBySide: true,
+                              automaticLayout: true,
+                              scrollBeyondLastLine: false,
+                              minimap: { enabled: false },
+                              fontSize: editor.fontSize,
+                            }}
+                          />
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default EditHistory;
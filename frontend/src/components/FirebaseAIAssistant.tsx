@@ -196,7 +196,7 @@ Include security rules and user data structure.`
         setShowPreview(true);
         toast.success('AI generation completed successfully!');
       } else {
-        toast.error('Failed to generate with AI');
+        toast.error(result.message || 'Failed to generate with AI');
       }
     } catch (error) {
       console.error('Error generating with AI:', error);
@@ -154,7 +154,7 @@ export const FirebaseRulesEditor: React.FC<FirebaseRulesEditorProps> = ({ projec
         
         toast.success('Rules generated successfully!');
       } else {
-        toast.error('Failed to generate rules');
+        toast.error(result.message || 'Failed to generate rules');
       }
     } catch (error) {
       console.error('Error generating rules:', error);
@@ -0,0 +1,192 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, GitCompare, Plus, Minus } from 'lucide-react';
+import { DiffEditor, type MonacoDiffEditor } from '@monaco-editor/react';
+import { useAppStore } from '@/stores/appStore';
+import { repositoryAPI } from '@/services/api';
+import { getLanguageFromPath } from '@/utils/language';
+import toast from 'react-hot-toast';
+import type { GitDiffHunk, GitFileDiff } from '@/types';
+
+interface GitDiffViewProps {
+  filePath: string | null;
+  // 'unstaged' diffs the working tree against the index, 'staged' the index against HEAD
+  mode: 'staged' | 'unstaged';
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const lineCount = (text: string) => (text === '' ? 0 : text.split('\n').length);
+
+/**
+ * Show a changed file in a Monaco diff view and stage or unstage its hunks one at a time
+ */
+const GitDiffView: React.FC<GitDiffViewProps> = ({ filePath, mode, onClose, onChanged }) => {
+  const { editor, currentRepository } = useAppStore();
+  const [fileDiff, setFileDiff] = useState<GitFileDiff | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const diffEditorRef = useRef<MonacoDiffEditor | null>(null);
+
+  useEffect(() => {
+    if (filePath) loadDiff();
+    else setFileDiff(null);
+  }, [filePath, mode, currentRepository?.path]);
+
+  const loadDiff = async () => {
+    if (!currentRepository || !filePath) return;
+
+    try {
+      setIsLoading(true);
+      const diff = await repositoryAPI.getDiff(currentRepository.path, {
+        from: mode === 'staged' ? 'HEAD' : 'index',
+        to: mode === 'staged' ? 'index' : 'workdir',
+        filePath,
+        includeContent: true,
+      });
+      setFileDiff(diff.files.find(file => file.path === filePath) || null);
+    } catch (error) {
+      toast.error('Failed to load diff');
+      console.error('Load diff error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleHunk = async (hunk: GitDiffHunk) => {
+    if (!currentRepository || !filePath) return;
+
+    try {
+      setIsUpdating(true);
+      const files = [{ path: filePath, hunks: [hunk.id] }];
+      if (mode === 'staged') {
+        await repositoryAPI.unstageChanges(currentRepository.path, files);
+      } else {
+        await repositoryAPI.stageChanges(currentRepository.path, files);
+      }
+      onChanged();
+
+      // Hunk ids change once a hunk moves, so always reload
+      await loadDiff();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Failed to ${mode === 'staged' ? 'unstage' : 'stage'} hunk`);
+      console.error('Stage hunk error:', error);
+      await loadDiff();
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const revealHunk = (hunk: GitDiffHunk) => {
+    diffEditorRef.current?.getOriginalEditor().revealLineInCenter(Math.max(1, hunk.startLine));
+  };
+
+  return (
+    <AnimatePresence>
+      {filePath && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: -20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: -20 }}
+            className="w-full max-w-6xl h-[85vh] flex flex-col bg-[#161b22] border border-[#30363d] rounded-lg shadow-2xl"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-[#30363d]">
+              <div className="flex items-center space-x-2 min-w-0">
+                <GitCompare className="w-4 h-4 text-[#1f6feb] flex-shrink-0" />
+                <h2 className="text-sm font-semibold text-white font-mono truncate">{filePath}</h2>
+                <span className="text-xs text-[#8b949e] flex-shrink-0">
+                  {mode === 'staged' ? 'Staged (HEAD ↔ index)' : 'Unstaged (index ↔ working tree)'}
+                </span>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-[#21262d] rounded-md transition-colors group"
+                title="Close"
+              >
+                <X className="w-4 h-4 text-[#8b949e] group-hover:text-white" />
+              </button>
+            </div>
+
+            {!fileDiff ? (
+              <div className="flex-1 flex items-center justify-center text-sm text-[#8b949e]">
+                {isLoading ? 'Loading...' : `No ${mode} changes left in this file.`}
+              </div>
+            ) : fileDiff.binary ? (
+              <div className="flex-1 flex items-center justify-center text-sm text-[#8b949e]">
+                Binary file; stage or unstage it as a whole.
+              </div>
+            ) : (
+              <div className="flex-1 flex min-h-0">
+                {/* Hunks */}
+                <div className="w-72 flex-shrink-0 border-r border-[#30363d] overflow-y-auto">
+                  {fileDiff.hunks.map(hunk => (
+                    <div
+                      key={hunk.id}
+                      onClick={() => revealHunk(hunk)}
+                      className="flex items-center justify-between px-3 py-2 border-b border-[#30363d] text-xs cursor-pointer hover:bg-[#21262d]"
+                    >
+                      <div className="min-w-0">
+                        <div className="text-[#8b949e] font-mono">
+                          {hunk.endLine < hunk.startLine
+                            ? `Insert before line ${hunk.startLine}`
+                            : `Lines ${hunk.startLine}-${hunk.endLine}`}
+                        </div>
+                        <div>
+                          <span className="text-green-400">+{lineCount(hunk.newText)}</span>
+                          <span className="text-red-400 ml-2">-{lineCount(hunk.oldText)}</span>
+                        </div>
+                      </div>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleHunk(hunk);
+                        }}
+                        disabled={isUpdating}
+                        className="btn-ghost text-xs py-0.5 px-2 flex items-center disabled:opacity-50"
+                        title={mode === 'staged' ? 'Unstage this hunk' : 'Stage this hunk'}
+                      >
+                        {mode === 'staged' ? <Minus className="w-3 h-3 mr-1" /> : <Plus className="w-3 h-3 mr-1" />}
+                        {mode === 'staged' ? 'Unstage' : 'Stage'}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+
+                {/* Diff */}
+                <div className="flex-1 min-w-0">
+                  <DiffEditor
+                    height="100%"
+                    original={fileDiff.originalContent ?? ''}
+                    modified={fileDiff.newContent ?? ''}
+                    language={getLanguageFromPath(fileDiff.path)}
+                    theme={editor.theme}
+                    onMount={(diffEditor) => { diffEditorRef.current = diffEditor; }}
+                    options={{
+                      readOnly: true,
+                      renderSideBySide: true,
+                      automaticLayout: true,
+                      scrollBeyondLastLine: false,
+                      minimap: { enabled: false },
+                      fontSize: editor.fontSize,
+                    }}
+                  />
+                </div>
+              </div>
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default GitDiffView;
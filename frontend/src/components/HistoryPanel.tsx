@@ -0,0 +1,191 @@
+import React, { useState, useEffect } from 'react';
+import { History, RefreshCw, X, GitCommit, GitMerge, Download } from 'lucide-react';
+import { useAppStore } from '@/stores/appStore';
+import { repositoryAPI } from '@/services/api';
+import CommitView from './CommitView';
+import toast from 'react-hot-toast';
+import type { GitLog, GitLogCommit } from '@/types';
+
+interface HistoryPanelProps {
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 50;
+
+const formatTime = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+/**
+ * Commit history of the current repository, of the open file or between two
+ * refs, a page at a time; a commit opens with its full diff
+ */
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ onClose }) => {
+  const { currentRepository, editor } = useAppStore();
+  const [ref, setRef] = useState('');
+  const [since, setSince] = useState('');
+  const [fileOnly, setFileOnly] = useState(false);
+  const [log, setLog] = useState<GitLog | null>(null);
+  const [commits, setCommits] = useState<GitLogCommit[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const filePath = fileOnly ? editor.currentFile?.path || '' : '';
+
+  useEffect(() => {
+    if (currentRepository) loadLog(false);
+  }, [currentRepository?.path, currentRepository?.branch, filePath]);
+
+  const loadLog = async (more: boolean) => {
+    if (!currentRepository) return;
+
+    try {
+      setIsLoading(true);
+      const page = await repositoryAPI.getLog(currentRepository.path, {
+        ref: ref.trim() || 'HEAD',
+        since: since.trim() || undefined,
+        filePath: filePath || undefined,
+        skip: more ? commits.length : 0,
+        limit: PAGE_SIZE,
+      });
+      setLog(page);
+      setCommits(more ? [...commits, ...page.commits] : page.commits);
+    } catch (error) {
+      toast.error(error instanceof Error && error.message ? error.message : 'Failed to load history');
+      console.error('Load log error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDeepen = async () => {
+    if (!currentRepository) return;
+    const token = localStorage.getItem('github_token');
+    if (!token) {
+      toast.error('GitHub token not found. Please add your token in settings.');
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const result = await repositoryAPI.deepenHistory(currentRepository.path, token);
+      toast.success(result.shallow ? 'Fetched older history' : 'Fetched the full history');
+    } catch (error) {
+      toast.error(error instanceof Error && error.message ? error.message : 'Failed to fetch history');
+      console.error('Deepen history error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+    await loadLog(false);
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-white/10">
+        <div className="flex items-center text-xs text-white/60 min-w-0">
+          <History className="w-3 h-3 mr-1 flex-shrink-0" />
+          <span className="truncate">History</span>
+        </div>
+        <div className="flex items-center">
+          <button onClick={() => loadLog(false)} className="p-1 hover:bg-white/10 rounded transition-colors" title="Refresh">
+            <RefreshCw className={`w-3.5 h-3.5 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+          <button onClick={onClose} className="p-1 hover:bg-white/10 rounded transition-colors" title="Back to files">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="p-3 border-b border-white/10 space-y-2">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={since}
+            onChange={(e) => setSince(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && loadLog(false)}
+            placeholder="since (optional)"
+            className="input-dark w-full text-xs"
+            title="Leave out commits reachable from this branch or commit"
+          />
+          <span className="text-xs text-white/40 self-center">..</span>
+          <input
+            type="text"
+            value={ref}
+            onChange={(e) => setRef(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && loadLog(false)}
+            placeholder={currentRepository?.branch || 'HEAD'}
+            className="input-dark w-full text-xs"
+            title="Branch, tag or commit to list history from"
+          />
+        </div>
+        <label className="flex items-center text-xs text-white/60 cursor-pointer min-w-0">
+          <input
+            type="checkbox"
+            checked={fileOnly}
+            onChange={(e) => setFileOnly(e.target.checked)}
+            disabled={!editor.currentFile}
+            className="mr-2"
+          />
+          <span className="truncate">
+            {editor.currentFile ? `Only ${editor.currentFile.path}` : 'Only the open file'}
+          </span>
+        </label>
+      </div>
+
+      {/* Commits */}
+      <div className="flex-1 overflow-y-auto scrollbar-thin p-2">
+        {log && commits.length === 0 && !isLoading && (
+          <div className="text-center text-white/40 text-sm p-4">No commits</div>
+        )}
+
+        {commits.map(entry => (
+          <div
+            key={entry.oid}
+            onClick={() => setSelected(entry.oid)}
+            className="px-2 py-1.5 rounded cursor-pointer hover:bg-white/5"
+            title={entry.message}
+          >
+            <div className="flex items-center text-xs min-w-0">
+              {entry.parents.length > 1
+                ? <GitMerge className="w-3 h-3 mr-1.5 text-gray-400 flex-shrink-0" />
+                : <GitCommit className="w-3 h-3 mr-1.5 text-gray-400 flex-shrink-0" />}
+              <span className="text-white/80 truncate">{entry.subject}</span>
+            </div>
+            <div className="flex items-center ml-[18px] text-[10px] text-white/40 min-w-0">
+              <span className="font-mono mr-2">{entry.oid.slice(0, 7)}</span>
+              <span className="truncate">{entry.author} • {formatTime(entry.date)}</span>
+            </div>
+          </div>
+        ))}
+
+        {log?.hasMore && (
+          <button
+            onClick={() => loadLog(true)}
+            disabled={isLoading}
+            className="btn-ghost w-full text-xs py-1 mt-2 disabled:opacity-50"
+          >
+            Load more
+          </button>
+        )}
+
+        {log && !log.complete && !log.hasMore && (
+          <div className="mt-2 px-2 text-xs text-white/40 space-y-1">
+            <p>Older history was not fetched with this clone.</p>
+            <button
+              onClick={handleDeepen}
+              disabled={isLoading}
+              className="btn-ghost text-xs py-1 px-2 flex items-center disabled:opacity-50"
+            >
+              <Download className="w-3 h-3 mr-1" />
+              Fetch older commits
+            </button>
+          </div>
+        )}
+      </div>
+
+      <CommitView commitOid={selected} filePath={filePath || null} onClose={() => setSelected(null)} />
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,59 @@
+import React, { useMemo } from 'react';
+import Markdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import CodeBlock from './CodeBlock';
+import { parseCodeFence } from '@/utils/markdown';
+import type { CodeEditProposal } from '@/types';
+
+interface MarkdownMessageProps {
+  content: string;
+  model?: string;
+  onReview: (proposal: CodeEditProposal) => void;
+}
+
+const remarkPlugins = [remarkGfm];
+
+/**
+ * Render a chat reply as GitHub-flavoured Markdown. Raw HTML in the reply is
+ * dropped and unsafe link protocols are removed; fenced code becomes an
+ * actionable CodeBlock.
+ */
+const MarkdownMessage: React.FC<MarkdownMessageProps> = ({ content, model, onReview }) => {
+  // Stable components keep code blocks (and their state) mounted while a reply streams in
+  const components = useMemo<Components>(() => ({
+    pre: ({ children }) => <>{children}</>,
+    code: ({ node, className, children }) => {
+      const text = String(children ?? '');
+      const info = className?.match(/language-(\S+)/)?.[1];
+
+      // Fenced code always ends with a newline; inline code never contains one
+      if (!info && !text.includes('\n')) {
+        return <code className="px-1 py-0.5 bg-white/10 rounded font-mono text-[0.85em]">{children}</code>;
+      }
+
+      const code = text.replace(/\n$/, '');
+      const fence = parseCodeFence(info || '', (node?.data as { meta?: string } | undefined)?.meta, code);
+      return <CodeBlock code={code} language={fence.language} path={fence.path} model={model} onReview={onReview} />;
+    },
+    a: ({ href, children }) => (
+      <a href={href} target="_blank" rel="noopener noreferrer" className="text-[#58a6ff] hover:underline">
+        {children}
+      </a>
+    ),
+    table: ({ children }) => (
+      <div className="overflow-x-auto">
+        <table>{children}</table>
+      </div>
+    ),
+  }), [model, onReview]);
+
+  return (
+    <div className="chat-markdown">
+      <Markdown remarkPlugins={remarkPlugins} skipHtml components={components}>
+        {content}
+      </Markdown>
+    </div>
+  );
+};
+
+export default React.memo(MarkdownMessage);
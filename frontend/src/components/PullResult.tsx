@@ -0,0 +1,154 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Download, AlertTriangle, GitCommit, FilePlus, FileMinus, FileEdit } from 'lucide-react';
+import type { GitPullResult } from '@/types';
+
+interface PullResultProps {
+  result: GitPullResult | null;
+  onClose: () => void;
+  onOpenFile: (filePath: string) => void;
+}
+
+const STATUS_LABELS: Record<GitPullResult['status'], string> = {
+  'up-to-date': 'Already up to date',
+  'fast-forward': 'Fast-forwarded',
+  merged: 'Merged',
+  rebased: 'Rebased',
+  conflicts: 'Conflicts to resolve',
+};
+
+const CONFLICT_LABELS: Record<GitPullResult['conflicts'][number]['type'], string> = {
+  'both-modified': 'changed on both sides',
+  'both-added': 'added on both sides',
+  'deleted-locally': 'deleted locally, changed upstream',
+  'deleted-upstream': 'changed locally, deleted upstream',
+};
+
+const FILE_ICONS = {
+  added: <FilePlus className="w-3 h-3 text-green-400 flex-shrink-0" />,
+  modified: <FileEdit className="w-3 h-3 text-yellow-400 flex-shrink-0" />,
+  deleted: <FileMinus className="w-3 h-3 text-red-400 flex-shrink-0" />,
+};
+
+const shortOid = (oid: string) => oid.slice(0, 7);
+
+/**
+ * What a pull brought in: incoming commits, changed files and any conflicts
+ * left in the working tree, each of which can be opened in the editor
+ */
+const PullResult: React.FC<PullResultProps> = ({ result, onClose, onOpenFile }) => {
+  const handleOpen = (filePath: string) => {
+    onOpenFile(filePath);
+    onClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {result && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: -20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: -20 }}
+            className="w-full max-w-2xl max-h-[75vh] flex flex-col bg-[#161b22] border border-[#30363d] rounded-lg shadow-2xl"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-[#30363d]">
+              <div className="flex items-center space-x-2 min-w-0">
+                <Download className="w-4 h-4 text-[#1f6feb] flex-shrink-0" />
+                <h2 className="text-sm font-semibold text-white">{STATUS_LABELS[result.status]}</h2>
+                <span className="text-xs text-[#8b949e] truncate">
+                  {result.branch} • {result.strategy} • {shortOid(result.previousHead)} → {shortOid(result.head)}
+                </span>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-[#21262d] rounded-md transition-colors group"
+                title="Close"
+              >
+                <X className="w-4 h-4 text-[#8b949e] group-hover:text-white" />
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+              {/* Rebase given up for a merge */}
+              {result.rebaseConflictAt && (
+                <div className="px-4 py-3 border-b border-[#30363d] text-xs text-[#8b949e]">
+                  Rebasing stopped at a conflict in {shortOid(result.rebaseConflictAt.oid)} {result.rebaseConflictAt.subject},
+                  so your branch was left as it was and upstream was merged into it instead.
+                </div>
+              )}
+
+              {/* Conflicts */}
+              {result.conflicts.length > 0 && (
+                <div className="px-4 py-3 border-b border-[#30363d]">
+                  <div className="flex items-center text-xs font-semibold text-yellow-400 mb-2">
+                    <AlertTriangle className="w-3.5 h-3.5 mr-1" />
+                    {result.conflicts.length} conflict{result.conflicts.length === 1 ? '' : 's'}
+                  </div>
+                  {result.conflicts.map(conflict => (
+                    <div
+                      key={conflict.path}
+                      onClick={() => handleOpen(conflict.path)}
+                      className="flex items-center justify-between px-2 py-1 rounded cursor-pointer hover:bg-[#21262d]"
+                    >
+                      <span className="text-xs text-white truncate">{conflict.path}</span>
+                      <span className="text-xs text-[#8b949e] flex-shrink-0 ml-2">
+                        {CONFLICT_LABELS[conflict.type]}
+                        {conflict.markers > 0 && ` • ${conflict.markers} marker${conflict.markers === 1 ? '' : 's'}`}
+                      </span>
+                    </div>
+                  ))}
+                  <p className="text-xs text-[#8b949e] mt-2">
+                    Edit the files to resolve the conflict markers, then commit them to finish the merge.
+                  </p>
+                </div>
+              )}
+
+              {/* Incoming commits */}
+              <div className="px-4 py-3 border-b border-[#30363d]">
+                <div className="text-xs font-semibold text-white mb-2">
+                  {result.commits.length} incoming commit{result.commits.length === 1 ? '' : 's'}
+                </div>
+                {result.commits.map(entry => (
+                  <div key={entry.oid} className="flex items-center px-2 py-1 text-xs">
+                    <GitCommit className="w-3 h-3 text-[#8b949e] mr-2 flex-shrink-0" />
+                    <span className="font-mono text-[#8b949e] mr-2">{shortOid(entry.oid)}</span>
+                    <span className="text-white truncate flex-1">{entry.subject}</span>
+                    <span className="text-[#8b949e] ml-2 flex-shrink-0">{entry.author}</span>
+                  </div>
+                ))}
+              </div>
+
+              {/* Changed files */}
+              <div className="px-4 py-3">
+                <div className="text-xs font-semibold text-white mb-2">
+                  {result.files.length} file{result.files.length === 1 ? '' : 's'} changed upstream
+                </div>
+                {result.files.map(file => (
+                  <div
+                    key={file.path}
+                    onClick={() => file.type !== 'deleted' && handleOpen(file.path)}
+                    className={`flex items-center space-x-2 px-2 py-1 rounded text-xs ${file.type === 'deleted' ? 'text-[#8b949e] line-through' : 'text-white cursor-pointer hover:bg-[#21262d]'}`}
+                  >
+                    {FILE_ICONS[file.type]}
+                    <span className="truncate">{file.path}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default PullResult;
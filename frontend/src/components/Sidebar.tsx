@@ -11,12 +11,16 @@ import {
   Search,
   Settings,
   ChevronRight,
-  ChevronDown
+  ChevronDown,
+  History
 } from 'lucide-react';
 import { useAppStore } from '@/stores/appStore';
 import { repositoryAPI } from '@/services/api';
 import toast from 'react-hot-toast';
-import type { FileItem } from '@/types';
+import PullResult from './PullResult';
+import SourceControl from './SourceControl';
+import HistoryPanel from './HistoryPanel';
+import type { FileItem, GitPullResult, GitPullStrategy } from '@/types';
 
 const Sidebar: React.FC = () => {
   const { 
@@ -30,6 +34,13 @@ const Sidebar: React.FC = () => {
   
   const [isLoading, setIsLoading] = useState(false);
   const [searchVisible, setSearchVisible] = useState(false);
+  const [pullStrategy, setPullStrategy] = useState<GitPullStrategy>(
+    () => (localStorage.getItem('git_pull_strategy') as GitPullStrategy) || 'merge'
+  );
+  const [pullResult, setPullResult] = useState<GitPullResult | null>(null);
+  const [view, setView] = useState<'files' | 'source-control' | 'history'>('files');
+  // Remounts the source control and history panels so they reload after a push or pull
+  const [gitVersion, setGitVersion] = useState(0);
 
   // Load files when repository changes
   useEffect(() => {
@@ -59,12 +70,16 @@ const Sidebar: React.FC = () => {
       return;
     }
 
+    await openFile(file.path);
+  };
+
+  const openFile = async (filePath: string) => {
     if (!currentRepository) return;
 
     try {
-      const content = await repositoryAPI.getFileContent(currentRepository.path, file.path);
+      const content = await repositoryAPI.getFileContent(currentRepository.path, filePath);
       useAppStore.getState().setCurrentFile(content);
-      setSelectedFile(file.path);
+      setSelectedFile(filePath);
     } catch (error) {
       toast.error('Failed to load file');
       console.error('Load file error:', error);
@@ -74,6 +89,11 @@ const Sidebar: React.FC = () => {
   const handleGitAction = async (action: 'commit' | 'push' | 'pull') => {
     if (!currentRepository) return;
 
+    if (action === 'commit') {
+      setView(view === 'source-control' ? 'files' : 'source-control');
+      return;
+    }
+
     const token = localStorage.getItem('github_token');
     if (!token) {
       toast.error('GitHub token not found. Please add your token in settings.');
@@ -84,27 +104,46 @@ const Sidebar: React.FC = () => {
       setIsLoading(true);
       
       switch (action) {
-        case 'commit':
-          // This would open a commit dialog
-          toast.success('Commit dialog would open here');
-          break;
-        case 'push':
-          await repositoryAPI.commitChanges(
-            currentRepository.path, 
-            'Auto-commit from Winky-Coder', 
-            [], 
-            token
-          );
-          toast.success('Changes pushed successfully');
+        case 'push': {
+          const result = await repositoryAPI.pushChanges(currentRepository.path, token);
+          setGitVersion(version => version + 1);
+          toast.success(`Pushed ${result.branch}`);
           break;
-        case 'pull':
-          await repositoryAPI.pullChanges(currentRepository.path, token);
+        }
+        case 'pull': {
+          const result = await repositoryAPI.pullChanges(currentRepository.path, token, pullStrategy);
+          if (result.status === 'up-to-date') {
+            toast.success('Already up to date');
+            break;
+          }
+
           await loadFiles(); // Reload files after pull
-          toast.success('Changes pulled successfully');
+
+          // Show the pulled version of the open file, unless it has unsaved edits
+          const { editor } = useAppStore.getState();
+          const openPath = editor.currentFile?.path;
+          const touched = openPath && (result.files.some(file => file.path === openPath) ||
+            result.conflicts.some(conflict => conflict.path === openPath));
+          if (touched && !editor.isDirty) {
+            if (result.files.some(file => file.path === openPath && file.type === 'deleted')) {
+              useAppStore.getState().setCurrentFile(null);
+            } else {
+              await openFile(openPath);
+            }
+          }
+
+          setPullResult(result);
+          setGitVersion(version => version + 1);
+          if (result.conflicts.length > 0) {
+            toast.error(`Pulled with ${result.conflicts.length} conflict(s) to resolve`);
+          } else {
+            toast.success(`Pulled ${result.commits.length} commit(s)`);
+          }
           break;
+        }
       }
     } catch (error) {
-      toast.error(`Failed to ${action} changes`);
+      toast.error(error instanceof Error ? error.message : `Failed to ${action} changes`);
       console.error(`${action} error:`, error);
     } finally {
       setIsLoading(false);
@@ -197,8 +236,8 @@ const Sidebar: React.FC = () => {
           <button
             onClick={() => handleGitAction('commit')}
             disabled={isLoading}
-            className="btn-ghost flex-1 text-xs py-1"
-            title="Commit Changes"
+            className={`btn-ghost flex-1 text-xs py-1 ${view === 'source-control' ? 'bg-white/10' : ''}`}
+            title="Source Control"
           >
             <GitCommit className="w-3 h-3 mr-1" />
             Commit
@@ -207,7 +246,7 @@ const Sidebar: React.FC = () => {
             onClick={() => handleGitAction('push')}
             disabled={isLoading}
             className="btn-ghost flex-1 text-xs py-1"
-            title="Push Changes"
+            title="Push Committed Changes"
           >
             <Upload className="w-3 h-3 mr-1" />
             Push
@@ -221,11 +260,54 @@ const Sidebar: React.FC = () => {
             <Download className="w-3 h-3 mr-1" />
             Pull
           </button>
+          <button
+            onClick={() => setView(view === 'history' ? 'files' : 'history')}
+            disabled={isLoading}
+            className={`btn-ghost flex-1 text-xs py-1 ${view === 'history' ? 'bg-white/10' : ''}`}
+            title="Commit History"
+          >
+            <History className="w-3 h-3 mr-1" />
+            History
+          </button>
+        </div>
+        <div className="flex items-center justify-between mt-2 text-xs text-white/60">
+          <span>Pull strategy</span>
+          <select
+            value={pullStrategy}
+            onChange={(e) => {
+              const strategy = e.target.value as GitPullStrategy;
+              setPullStrategy(strategy);
+              localStorage.setItem('git_pull_strategy', strategy);
+            }}
+            className="bg-transparent border border-white/10 rounded px-1 py-0.5 text-xs text-white/80 focus:outline-none"
+            title="How diverged history is reconciled when pulling"
+          >
+            <option value="merge">Merge</option>
+            <option value="rebase">Rebase</option>
+            <option value="ff-only">Fast-forward only</option>
+          </select>
         </div>
       </div>
 
+      {/* Source Control */}
+      {view === 'source-control' && (
+        <SourceControl
+          key={gitVersion}
+          onOpenFile={openFile}
+          onClose={() => setView('files')}
+        />
+      )}
+
+      {/* History */}
+      {view === 'history' && (
+        <HistoryPanel
+          key={gitVersion}
+          onClose={() => setView('files')}
+        />
+      )}
+
       {/* File Tree */}
-      <div className="flex-1 overflow-y-auto scrollbar-thin">
+      <div className={`flex-1 overflow-y-auto scrollbar-thin ${view === 'files' ? '' : 'hidden'}`}>
         {isLoading ? (
           <div className="flex items-center justify-center p-4">
             <div className="loading-spinner"></div>
@@ -258,6 +340,12 @@ const Sidebar: React.FC = () => {
           </button>
         </div>
       </div>
+
+      <PullResult
+        result={pullResult}
+        onClose={() => setPullResult(null)}
+        onOpenFile={openFile}
+      />
     </div>
   );
 };
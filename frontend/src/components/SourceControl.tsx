@@ -0,0 +1,248 @@
+import React, { useState, useEffect } from 'react';
+import { GitBranch, GitCommit, Upload, RefreshCw, Plus, Minus, FileText, AlertTriangle, X } from 'lucide-react';
+import { useAppStore } from '@/stores/appStore';
+import { repositoryAPI } from '@/services/api';
+import GitDiffView from './GitDiffView';
+import toast from 'react-hot-toast';
+import type { GitFileStatus, GitStatus } from '@/types';
+
+interface SourceControlProps {
+  onOpenFile: (filePath: string) => void;
+  onClose: () => void;
+}
+
+const STATUS_LETTERS: Record<string, { letter: string; className: string }> = {
+  added: { letter: 'A', className: 'text-green-400' },
+  modified: { letter: 'M', className: 'text-yellow-400' },
+  deleted: { letter: 'D', className: 'text-red-400' },
+  untracked: { letter: 'U', className: 'text-green-400' },
+};
+
+/**
+ * Changed files of the current repository: stage or unstage files (or single
+ * hunks from the diff view), write a commit message, commit the staged
+ * changes and push as a separate step
+ */
+const SourceControl: React.FC<SourceControlProps> = ({ onOpenFile, onClose }) => {
+  const { currentRepository } = useAppStore();
+  const [status, setStatus] = useState<GitStatus | null>(null);
+  const [message, setMessage] = useState('');
+  const [diffFile, setDiffFile] = useState<{ path: string; mode: 'staged' | 'unstaged' } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (currentRepository) loadStatus();
+  }, [currentRepository?.path]);
+
+  const loadStatus = async () => {
+    if (!currentRepository) return;
+
+    try {
+      setIsLoading(true);
+      setStatus(await repositoryAPI.getStatus(currentRepository.path));
+    } catch (error) {
+      toast.error('Failed to load changes');
+      console.error('Load status error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getToken = () => {
+    const token = localStorage.getItem('github_token');
+    if (!token) toast.error('GitHub token not found. Please add your token in settings.');
+    return token;
+  };
+
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      setIsBusy(true);
+      await action();
+    } catch (error) {
+      toast.error(error instanceof Error && error.message ? error.message : failure);
+      console.error(`${failure}:`, error);
+    } finally {
+      setIsBusy(false);
+      await loadStatus();
+    }
+  };
+
+  const stage = (files: GitFileStatus[]) => runAction(
+    () => repositoryAPI.stageChanges(currentRepository!.path, files.map(file => ({ path: file.path }))),
+    'Failed to stage changes'
+  );
+
+  const unstage = (files: GitFileStatus[]) => runAction(
+    () => repositoryAPI.unstageChanges(currentRepository!.path, files.map(file => ({ path: file.path }))),
+    'Failed to unstage changes'
+  );
+
+  const handleCommit = async () => {
+    if (!currentRepository || !message.trim()) return;
+    const token = getToken();
+    if (!token) return;
+
+    const unresolved = stagedFiles.filter(file => file.conflicted);
+    if (unresolved.length > 0) {
+      toast.error(`Resolve the conflict markers in ${unresolved.map(file => file.path).join(', ')} first`);
+      return;
+    }
+
+    await runAction(async () => {
+      const result = await repositoryAPI.commitChanges(
+        currentRepository.path,
+        message.trim(),
+        stagedFiles.map(file => ({ path: file.path })),
+        token,
+        false
+      );
+      setMessage('');
+      toast.success(`Committed ${result.commitHash.slice(0, 7)}`);
+    }, 'Failed to commit changes');
+  };
+
+  const handlePush = async () => {
+    if (!currentRepository) return;
+    const token = getToken();
+    if (!token) return;
+
+    await runAction(async () => {
+      const result = await repositoryAPI.pushChanges(currentRepository.path, token);
+      toast.success(`Pushed ${result.branch}`);
+    }, 'Failed to push changes');
+  };
+
+  const stagedFiles = status?.files.filter(file => file.staged) || [];
+  const unstagedFiles = status?.files.filter(file => file.unstaged) || [];
+  const canCommit = Boolean(message.trim()) && (stagedFiles.length > 0 || Boolean(status?.merging)) && !isBusy;
+
+  const renderFile = (file: GitFileStatus, mode: 'staged' | 'unstaged') => {
+    const change = STATUS_LETTERS[(mode === 'staged' ? file.staged : file.unstaged) || 'modified'];
+    const isDeleted = (mode === 'staged' ? file.staged : file.unstaged) === 'deleted';
+
+    return (
+      <div
+        key={`${mode}:${file.path}`}
+        onClick={() => setDiffFile({ path: file.path, mode })}
+        className="group flex items-center px-2 py-1 text-xs rounded cursor-pointer hover:bg-white/5"
+        title="Show diff"
+      >
+        <FileText className="w-3 h-3 mr-1.5 text-gray-400 flex-shrink-0" />
+        <span className={`truncate flex-1 ${isDeleted ? 'line-through text-white/50' : 'text-white/80'}`}>{file.path}</span>
+        {file.conflicted && <AlertTriangle className="w-3 h-3 ml-1 text-yellow-400 flex-shrink-0" aria-label="Has conflict markers" />}
+        <div className="hidden group-hover:flex items-center ml-1" onClick={(e) => e.stopPropagation()}>
+          {!isDeleted && (
+            <button onClick={() => onOpenFile(file.path)} className="p-0.5 hover:bg-white/10 rounded" title="Open file">
+              <FileText className="w-3 h-3" />
+            </button>
+          )}
+          <button
+            onClick={() => (mode === 'staged' ? unstage([file]) : stage([file]))}
+            disabled={isBusy}
+            className="p-0.5 hover:bg-white/10 rounded"
+            title={mode === 'staged' ? 'Unstage' : 'Stage'}
+          >
+            {mode === 'staged' ? <Minus className="w-3 h-3" /> : <Plus className="w-3 h-3" />}
+          </button>
+        </div>
+        <span className={`ml-2 font-mono flex-shrink-0 ${change.className}`}>{change.letter}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-white/10">
+        <div className="flex items-center text-xs text-white/60 min-w-0">
+          <GitBranch className="w-3 h-3 mr-1 flex-shrink-0" />
+          <span className="truncate">{status?.branch || 'detached HEAD'}</span>
+          {status?.merging && <span className="ml-2 text-yellow-400">merging</span>}
+        </div>
+        <div className="flex items-center">
+          <button onClick={loadStatus} className="p-1 hover:bg-white/10 rounded transition-colors" title="Refresh">
+            <RefreshCw className={`w-3.5 h-3.5 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+          <button onClick={onClose} className="p-1 hover:bg-white/10 rounded transition-colors" title="Back to files">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Commit message */}
+      <div className="p-3 border-b border-white/10 space-y-2">
+        <textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey) && canCommit) handleCommit();
+          }}
+          placeholder={status?.merging ? 'Merge commit message' : 'Commit message (Ctrl+Enter to commit)'}
+          rows={3}
+          className="input-dark w-full text-xs resize-none"
+        />
+        <div className="flex gap-2">
+          <button
+            onClick={handleCommit}
+            disabled={!canCommit}
+            className="btn-primary flex-1 text-xs py-1 flex items-center justify-center disabled:opacity-50"
+            title={stagedFiles.length === 0 && !status?.merging ? 'Stage changes to commit them' : 'Commit staged changes'}
+          >
+            <GitCommit className="w-3 h-3 mr-1" />
+            Commit{stagedFiles.length > 0 ? ` (${stagedFiles.length})` : ''}
+          </button>
+          <button
+            onClick={handlePush}
+            disabled={isBusy}
+            className="btn-ghost text-xs py-1 px-3 flex items-center disabled:opacity-50"
+            title="Push committed changes"
+          >
+            <Upload className="w-3 h-3 mr-1" />
+            Push
+          </button>
+        </div>
+      </div>
+
+      {/* Changed files */}
+      <div className="flex-1 overflow-y-auto scrollbar-thin p-2 space-y-3">
+        {status?.clean && (
+          <div className="text-center text-white/40 text-sm p-4">No changes</div>
+        )}
+
+        {stagedFiles.length > 0 && (
+          <div>
+            <div className="flex items-center justify-between px-2 mb-1 text-xs font-semibold text-white/60">
+              <span>Staged Changes ({stagedFiles.length})</span>
+              <button onClick={() => unstage(stagedFiles)} disabled={isBusy} className="p-0.5 hover:bg-white/10 rounded" title="Unstage all">
+                <Minus className="w-3 h-3" />
+              </button>
+            </div>
+            {stagedFiles.map(file => renderFile(file, 'staged'))}
+          </div>
+        )}
+
+        {unstagedFiles.length > 0 && (
+          <div>
+            <div className="flex items-center justify-between px-2 mb-1 text-xs font-semibold text-white/60">
+              <span>Changes ({unstagedFiles.length})</span>
+              <button onClick={() => stage(unstagedFiles)} disabled={isBusy} className="p-0.5 hover:bg-white/10 rounded" title="Stage all">
+                <Plus className="w-3 h-3" />
+              </button>
+            </div>
+            {unstagedFiles.map(file => renderFile(file, 'unstaged'))}
+          </div>
+        )}
+      </div>
+
+      <GitDiffView
+        filePath={diffFile?.path || null}
+        mode={diffFile?.mode || 'unstaged'}
+        onClose={() => setDiffFile(null)}
+        onChanged={loadStatus}
+      />
+    </div>
+  );
+};
+
+export default SourceControl;
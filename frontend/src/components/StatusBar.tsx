@@ -1,6 +1,5 @@
 import React from 'react';
 import { 
-  GitBranch, 
   FileText, 
   Wifi, 
   WifiOff,
@@ -8,10 +7,10 @@ import {
   Clock
 } from 'lucide-react';
 import { useAppStore } from '@/stores/appStore';
+import BranchSwitcher from './BranchSwitcher';
 
 const StatusBar: React.FC = () => {
   const { 
-    currentRepository, 
     editor, 
     fileExplorer,
     theme 
@@ -29,19 +28,11 @@ const StatusBar: React.FC = () => {
     return `${lines} lines, ${size} bytes`;
   };
 
-  const getRepositoryInfo = () => {
-    if (!currentRepository) return 'No repository';
-    return `${currentRepository.name} (${currentRepository.branch})`;
-  };
-
   return (
     <div className="status-bar">
       <div className="flex items-center space-x-4">
         {/* Repository Info */}
-        <div className="flex items-center space-x-1">
-          <GitBranch className="w-3 h-3 text-white/60" />
-          <span className="text-xs">{getRepositoryInfo()}</span>
-        </div>
+        <BranchSwitcher />
 
         {/* File Info */}
         <div className="flex items-center space-x-1">
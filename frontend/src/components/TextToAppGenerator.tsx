@@ -161,7 +161,7 @@ export const TextToAppGenerator: React.FC<TextToAppGeneratorProps> = ({
         setStep('plan');
         toast.success('App plan generated successfully!');
       } else {
-        toast.error('Failed to generate app plan');
+        toast.error(result.message || 'Failed to generate app plan');
       }
     } catch (error) {
       console.error('Error generating app plan:', error);
@@ -192,7 +192,7 @@ export const TextToAppGenerator: React.FC<TextToAppGeneratorProps> = ({
         setStep('generate');
         toast.success('App generated successfully!');
       } else {
-        toast.error('Failed to generate app');
+        toast.error(result.message || 'Failed to generate app');
       }
     } catch (error) {
       console.error('Error generating app:', error);
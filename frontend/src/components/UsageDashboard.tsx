@@ -0,0 +1,223 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, BarChart3, RefreshCw, DollarSign, Hash, Zap, AlertCircle } from 'lucide-react';
+import { aiAPI } from '@/services/api';
+import { formatTokens } from '@/utils/tokens';
+import toast from 'react-hot-toast';
+import type { AIUsageGrouping, AIUsageReport } from '@/types';
+
+interface UsageDashboardProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const ranges = [
+  { id: '1', label: 'Today' },
+  { id: '7', label: '7 days' },
+  { id: '30', label: '30 days' },
+  { id: 'all', label: 'All time' },
+];
+
+const groupings: { id: AIUsageGrouping; label: string }[] = [
+  { id: 'feature', label: 'Feature' },
+  { id: 'model', label: 'Model' },
+  { id: 'day', label: 'Day' },
+  { id: 'provider', label: 'Provider' },
+];
+
+const featureLabels: Record<string, string> = {
+  chat: 'Chat',
+  'text-to-app': 'Text to App',
+  firebase: 'Firebase',
+  agent: 'Agent',
+  analyze: 'Analyze',
+  refactor: 'Refactor',
+  fix: 'Fix',
+  explain: 'Explain',
+  vision: 'Vision',
+};
+
+const formatCost = (cost: number) => {
+  if (cost === 0) return '$0.00';
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+};
+
+const rangeStart = (range: string) => {
+  if (range === 'all') return undefined;
+  const start = new Date();
+  start.setUTCHours(0, 0, 0, 0);
+  start.setUTCDate(start.getUTCDate() - (parseInt(range, 10) - 1));
+  return start.toISOString();
+};
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ isOpen, onClose }) => {
+  const [range, setRange] = useState('7');
+  const [groupBy, setGroupBy] = useState<AIUsageGrouping>('feature');
+  const [report, setReport] = useState<AIUsageReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadUsage = async () => {
+    try {
+      setIsLoading(true);
+      setReport(await aiAPI.getUsage({ from: rangeStart(range), groupBy }));
+    } catch (error) {
+      console.error('Failed to load usage:', error);
+      toast.error('Failed to load AI usage');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) loadUsage();
+  }, [isOpen, range, groupBy]);
+
+  // Bars are scaled by cost, or by tokens when every model used was free
+  const measure = report && report.totals.costUsd > 0 ? 'costUsd' : 'totalTokens';
+  const maxValue = Math.max(1e-9, ...(report?.groups.map(group => group[measure]) || [0]));
+
+  const groupLabel = (key: string) => groupBy === 'feature' ? featureLabels[key] || key : key;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-start justify-center pt-20"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: -20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: -20 }}
+            className="w-full max-w-3xl mx-4 bg-[#161b22] border border-[#30363d] rounded-lg shadow-2xl"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-[#30363d]">
+              <div className="flex items-center space-x-2">
+                <BarChart3 className="w-4 h-4 text-[#1f6feb]" />
+                <h2 className="text-sm font-semibold text-white">AI Usage</h2>
+              </div>
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={loadUsage}
+                  disabled={isLoading}
+                  className="p-2 hover:bg-[#21262d] rounded-md transition-colors group"
+                  title="Refresh"
+                >
+                  <RefreshCw className={`w-4 h-4 text-[#8b949e] group-hover:text-white ${isLoading ? 'animate-spin' : ''}`} />
+                </button>
+                <button
+                  onClick={onClose}
+                  className="p-2 hover:bg-[#21262d] rounded-md transition-colors group"
+                  title="Close"
+                >
+                  <X className="w-4 h-4 text-[#8b949e] group-hover:text-white" />
+                </button>
+              </div>
+            </div>
+
+            {/* Filters */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-[#30363d]">
+              <div className="flex space-x-1">
+                {ranges.map(option => (
+                  <button
+                    key={option.id}
+                    onClick={() => setRange(option.id)}
+                    className={`px-2 py-1 text-xs rounded-md transition-colors ${range === option.id ? 'bg-[#1f6feb] text-white' : 'text-[#8b949e] hover:bg-[#21262d] hover:text-white'}`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center space-x-2">
+                <span className="text-xs text-[#8b949e]">Group by</span>
+                <select
+                  value={groupBy}
+                  onChange={(e) => setGroupBy(e.target.value as AIUsageGrouping)}
+                  className="bg-[#0d1117] border border-[#30363d] rounded-md px-2 py-1 text-xs text-white focus:outline-none focus:border-[#1f6feb]"
+                >
+                  {groupings.map(option => (
+                    <option key={option.id} value={option.id}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {/* Totals */}
+            <div className="grid grid-cols-4 gap-3 px-4 py-3">
+              {[
+                { label: 'Estimated cost', value: formatCost(report?.totals.costUsd || 0), icon: DollarSign },
+                { label: 'Tokens', value: formatTokens(report?.totals.totalTokens || 0), icon: Hash },
+                { label: 'Calls', value: String(report?.totals.calls || 0), icon: Zap },
+                { label: 'Errors', value: String(report?.totals.errors || 0), icon: AlertCircle },
+              ].map(card => (
+                <div key={card.label} className="bg-[#0d1117] border border-[#30363d] rounded-md p-3">
+                  <div className="flex items-center space-x-1 text-xs text-[#8b949e]">
+                    <card.icon className="w-3 h-3" />
+                    <span>{card.label}</span>
+                  </div>
+                  <div className="text-lg font-semibold text-white mt-1">{card.value}</div>
+                </div>
+              ))}
+            </div>
+
+            {/* Groups */}
+            <div className="px-4 pb-4 max-h-96 overflow-y-auto">
+              {report && report.groups.length > 0 ? (
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-[#8b949e] text-left">
+                      <th className="py-2 font-medium">{groupings.find(option => option.id === groupBy)?.label}</th>
+                      <th className="py-2 font-medium w-1/3"></th>
+                      <th className="py-2 font-medium text-right">Calls</th>
+                      <th className="py-2 font-medium text-right">Tokens</th>
+                      <th className="py-2 font-medium text-right">Avg latency</th>
+                      <th className="py-2 font-medium text-right">Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.groups.map(group => (
+                      <tr key={group.key} className="border-t border-[#21262d] text-white">
+                        <td className="py-2 truncate max-w-[10rem]" title={group.key}>{groupLabel(group.key)}</td>
+                        <td className="py-2 pr-3">
+                          <div className="h-2 bg-[#21262d] rounded-full overflow-hidden">
+                            <div
+                              className="h-full bg-[#1f6feb] rounded-full"
+                              style={{ width: `${(group[measure] / maxValue) * 100}%` }}
+                            />
+                          </div>
+                        </td>
+                        <td className="py-2 text-right">
+                          {group.calls}
+                          {group.errors > 0 && <span className="text-red-400 ml-1">({group.errors} failed)</span>}
+                        </td>
+                        <td className="py-2 text-right" title={`${group.promptTokens} prompt / ${group.completionTokens} completion`}>
+                          {formatTokens(group.totalTokens)}
+                        </td>
+                        <td className="py-2 text-right text-[#8b949e]">{(group.avgLatencyMs / 1000).toFixed(1)}s</td>
+                        <td className="py-2 text-right">{formatCost(group.costUsd)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <div className="text-center py-8 text-sm text-[#8b949e]">
+                  {isLoading ? 'Loading usage...' : 'No AI calls recorded in this period'}
+                </div>
+              )}
+              <p className="text-xs text-[#6e7681] mt-3">
+                Costs are estimates from each model's list price. Free models are counted at $0.
+              </p>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default UsageDashboard;
@@ -1,4 +1,4 @@
-import axios from 'axios';
+import axios, { type AxiosResponse } from 'axios';
 import type { 
   Repository, 
   FileItem, 
@@ -6,7 +6,41 @@ import type {
   AIRequest, 
   AIResponse, 
   AIModel,
+  AIStreamHandlers,
+  AIUsageQuery,
+  AIUsageReport,
+  CodeCompletion,
+  CodeCompletionRequest,
+  CodeEditProposal,
+  FileComparison,
+  AIFileActionOptions,
+  MentionCandidate,
+  MentionType,
+  ResolvedMention,
+  EditSession,
+  EditSessionRevert,
+  ChatSession,
+  ChatSessionSummary,
+  ChatSearchResult,
+  StoredChatMessage,
+  EditSessionSummary,
+  AgentRun,
+  CodeIndexStatus,
+  CodeChunk,
+  AgentRunRequest,
   GitCommit,
+  GitDiff,
+  GitDiffSide,
+  GitStatus,
+  GitPullResult,
+  GitPullStrategy,
+  GitPushResult,
+  GitStageFile,
+  GitBranchList,
+  GitBranchComparison,
+  GitLog,
+  GitBlame,
+  GitCommitDetails,
   SearchResult 
 } from '@/types';
 
@@ -28,15 +62,62 @@ api.interceptors.request.use((config) => {
   return config;
 });
 
-// Response interceptor for error handling
+// Response interceptor: unwrap the backend's { success, data } envelope
 api.interceptors.response.use(
-  (response) => response.data,
+  (response) => {
+    const body = response.data;
+    if (body && typeof body === 'object' && 'success' in body && 'data' in body) {
+      return body.data;
+    }
+    return body;
+  },
   (error) => {
+    // Cancelled requests were abandoned on purpose; let callers ignore them quietly
+    if (axios.isCancel(error)) throw error;
     console.error('API Error:', error.response?.data || error.message);
-    throw new Error(error.response?.data?.message || error.message);
+    // Keep the response so callers can act on status codes and details such as a refusal reason
+    throw Object.assign(new Error(error.response?.data?.message || error.message), { response: error.response });
   }
 );
 
+// Response of a failed request, kept on the error the interceptor throws
+export const getErrorResponse = (error: unknown): AxiosResponse | undefined =>
+  error instanceof Error && 'response' in error ? (error as { response?: AxiosResponse }).response : undefined;
+
+// Parse a server-sent event stream, calling onEvent for each complete event;
+// callers check the shape of each event's payload
+const readEventStream = async (
+  response: Response,
+  onEvent: (event: string, data: unknown) => void
+): Promise<void> => {
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+
+    for (const rawEvent of events) {
+      let event = 'message';
+      let data = '';
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      if (data) onEvent(event, JSON.parse(data));
+    }
+  }
+};
+
 // Repository API
 export const repositoryAPI = {
   // Import a GitHub repository
@@ -54,9 +135,9 @@ export const repositoryAPI = {
     return api.get('/repos/file', { params: { repoPath, filePath } });
   },
 
-  // Update file content
-  updateFile: async (repoPath: string, filePath: string, content: string, token: string): Promise<any> => {
-    return api.put('/repos/file', { repoPath, filePath, content, token });
+  // Update file content; pass a sessionId to record the change in an edit session
+  updateFile: async (repoPath: string, filePath: string, content: string, token: string, sessionId?: string): Promise<any> => {
+    return api.put('/repos/file', { repoPath, filePath, content, token, sessionId });
   },
 
   // Get repository branches
@@ -64,14 +145,89 @@ export const repositoryAPI = {
     return api.get('/repos/branches', { params: { repoUrl, token } });
   },
 
-  // Commit changes
-  commitChanges: async (repoPath: string, message: string, files: any[], token: string): Promise<GitCommit> => {
-    return api.post('/repos/commit', { repoPath, message, files, token });
+  // Commit changes, pushing them unless push is false
+  commitChanges: async (repoPath: string, message: string, files: any[], token: string, push: boolean = true): Promise<GitCommit> => {
+    return api.post('/repos/commit', { repoPath, message, files, token, push });
+  },
+
+  // Push the current branch
+  pushChanges: async (repoPath: string, token: string): Promise<GitPushResult> => {
+    return api.post('/repos/push', { repoPath, token });
+  },
+
+  // List local and origin branches; fetch first to see new remote branches
+  listBranches: async (repoPath: string, token?: string, fetch: boolean = false): Promise<GitBranchList> => {
+    return api.get('/repos/branches/list', { params: { repoPath, token, fetch } });
+  },
+
+  // Create a branch from any ref or commit
+  createBranch: async (repoPath: string, name: string, from: string = 'HEAD', checkout: boolean = false): Promise<any> => {
+    return api.post('/repos/branches/create', { repoPath, name, from, checkout });
+  },
+
+  // Check out a branch; force discards local changes to the files the switch would overwrite
+  checkoutBranch: async (repoPath: string, name: string, force: boolean = false): Promise<{ branch: string; head: string; previousBranch: string | null; created: boolean; discarded: string[] }> => {
+    return api.post('/repos/branches/checkout', { repoPath, name, force });
+  },
+
+  // Rename a local branch
+  renameBranch: async (repoPath: string, name: string, newName: string): Promise<{ name: string; previousName: string; current: boolean }> => {
+    return api.put('/repos/branches/rename', { repoPath, name, newName });
+  },
+
+  // Delete a local branch, or the branch on origin when remote is true
+  deleteBranch: async (repoPath: string, name: string, options: { remote?: boolean; force?: boolean; token?: string } = {}): Promise<any> => {
+    return api.delete('/repos/branches/delete', { data: { repoPath, name, ...options } });
+  },
+
+  // Commits and files that differ between two refs
+  compareBranches: async (repoPath: string, base: string, head: string): Promise<GitBranchComparison> => {
+    return api.get('/repos/branches/compare', { params: { repoPath, base, head } });
+  },
+
+  // A page of commit history, optionally for one path or between two refs (since..ref)
+  getLog: async (repoPath: string, options: { ref?: string; since?: string; filePath?: string; skip?: number; limit?: number } = {}): Promise<GitLog> => {
+    return api.get('/repos/log', { params: { repoPath, ...options } });
   },
 
-  // Pull changes
-  pullChanges: async (repoPath: string, token: string): Promise<any> => {
-    return api.post('/repos/pull', { repoPath, token });
+  // Fetch older commits into a shallow clone
+  deepenHistory: async (repoPath: string, token: string, depth: number = 100): Promise<{ branch: string; depth: number; shallow: boolean }> => {
+    return api.post('/repos/log/deepen', { repoPath, token, depth });
+  },
+
+  // Commit that last changed each line; ref defaults to the file on disk
+  getBlame: async (repoPath: string, filePath: string, ref: string = 'workdir'): Promise<GitBlame> => {
+    return api.get('/repos/blame', { params: { repoPath, filePath, ref } });
+  },
+
+  // A commit and its diff against its first parent
+  showCommit: async (repoPath: string, ref: string, options: { filePath?: string; includeContent?: boolean } = {}): Promise<GitCommitDetails> => {
+    return api.get('/repos/show', { params: { repoPath, ref, ...options } });
+  },
+
+  // Stage files or single hunks (ids from the index-to-workdir diff)
+  stageChanges: async (repoPath: string, files: GitStageFile[]): Promise<string[]> => {
+    return api.post('/repos/stage', { repoPath, files });
+  },
+
+  // Unstage files or single hunks (ids from the HEAD-to-index diff)
+  unstageChanges: async (repoPath: string, files: GitStageFile[]): Promise<string[]> => {
+    return api.post('/repos/unstage', { repoPath, files });
+  },
+
+  // Get the current branch and changed files, staged and unstaged
+  getStatus: async (repoPath: string): Promise<GitStatus> => {
+    return api.get('/repos/status', { params: { repoPath } });
+  },
+
+  // Diff two sides (default HEAD to the working tree), optionally for one file or directory
+  getDiff: async (repoPath: string, options: { from?: GitDiffSide; to?: GitDiffSide; filePath?: string; includeContent?: boolean } = {}): Promise<GitDiff> => {
+    return api.get('/repos/diff', { params: { repoPath, ...options } });
+  },
+
+  // Pull upstream changes; conflicts are reported in the result rather than thrown
+  pullChanges: async (repoPath: string, token: string, strategy: GitPullStrategy = 'merge'): Promise<GitPullResult> => {
+    return api.post('/repos/pull', { repoPath, token, strategy });
   },
 };
 
@@ -82,34 +238,130 @@ export const aiAPI = {
     return api.post('/ai/chat', request);
   },
 
+  // Stream AI request token-by-token; resolves with the final response
+  streamRequest: async (request: AIRequest, handlers: AIStreamHandlers): Promise<AIResponse> => {
+    const token = localStorage.getItem('github_token');
+    const response = await fetch(`${api.defaults.baseURL}/ai/chat/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(request),
+      signal: handlers.signal,
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || error.error || `Request failed with status ${response.status}`);
+    }
+
+    let result: AIResponse | null = null;
+    let streamError: string | null = null;
+
+    await readEventStream(response, (event, data) => {
+      if (!data || typeof data !== 'object') return;
+      if (event === 'token') {
+        if ('content' in data && typeof data.content === 'string') handlers.onToken(data.content);
+      } else if (event === 'done') {
+        result = data as AIResponse;
+      } else if (event === 'error') {
+        const text = (value: unknown) => (typeof value === 'string' ? value : '');
+        streamError = text('message' in data && data.message) || text('error' in data && data.error) || 'Streaming failed';
+      }
+    });
+
+    if (streamError) throw new Error(streamError);
+    if (!result) throw new Error('Stream ended before the response completed');
+    return result;
+  },
+
   // Get available models
   getModels: async (): Promise<AIModel[]> => {
     return api.get('/ai/models');
   },
 
   // Analyze codebase
-  analyzeCodebase: async (repoPath: string, model: string, analysisType: string = 'general'): Promise<AIResponse> => {
-    return api.post('/ai/analyze', { repoPath, model, analysisType });
+  analyzeCodebase: async (repoPath: string, model: string, analysisType: string = 'general', specificFiles: string[] = []): Promise<AIResponse> => {
+    return api.post('/ai/analyze', { repoPath, model, analysisType, specificFiles }, { timeout: 120000 });
+  },
+
+  // Build or refresh the retrieval index for a repository
+  buildIndex: async (repoPath: string): Promise<CodeIndexStatus> => {
+    return api.post('/ai/index', { repoPath }, { timeout: 300000 });
   },
 
-  // Refactor code
-  refactorCode: async (filePath: string, content: string, model: string, refactorType: string = 'general'): Promise<AIResponse> => {
-    return api.post('/ai/refactor', { filePath, content, model, refactorType });
+  // Get retrieval index status
+  getIndexStatus: async (repoPath: string): Promise<CodeIndexStatus> => {
+    return api.get('/ai/index/status', { params: { repoPath } });
   },
 
-  // Fix code issues
-  fixCode: async (filePath: string, content: string, model: string, errorMessage: string, errorType: string = 'runtime'): Promise<AIResponse> => {
-    return api.post('/ai/fix', { filePath, content, model, errorMessage, errorType });
+  // Retrieve the code chunks most relevant to a query
+  searchIndex: async (repoPath: string, query: string, limit: number = 12): Promise<CodeChunk[]> => {
+    return api.get('/ai/index/search', { params: { repoPath, query, limit } });
+  },
+
+  // Complete code at the cursor; pass a signal to cancel stale requests
+  complete: async (request: CodeCompletionRequest, signal?: AbortSignal): Promise<CodeCompletion> => {
+    return api.post('/ai/complete', request, { signal, timeout: 15000 });
+  },
+
+  // Get recorded AI usage and estimated cost
+  getUsage: async (query: AIUsageQuery = {}): Promise<AIUsageReport> => {
+    return api.get('/ai/usage', { params: query });
+  },
+
+  // Refactor code; edits come back as hunks to review before applying
+  refactorCode: async (filePath: string, content: string, model: string, refactorType: string = 'general', options: AIFileActionOptions = {}): Promise<CodeEditProposal> => {
+    return api.post('/ai/refactor', { filePath, content, model, refactorType, ...options }, { timeout: 120000 });
+  },
+
+  // Fix code issues; edits come back as hunks to review before applying
+  fixCode: async (filePath: string, content: string, model: string, errorMessage: string, errorType: string = 'runtime', options: AIFileActionOptions = {}): Promise<CodeEditProposal> => {
+    return api.post('/ai/fix', { filePath, content, model, errorMessage, errorType, ...options }, { timeout: 120000 });
   },
 
   // Explain code
-  explainCode: async (filePath: string, content: string, model: string, explanationType: string = 'general'): Promise<AIResponse> => {
-    return api.post('/ai/explain', { filePath, content, model, explanationType });
+  explainCode: async (filePath: string, content: string, model: string, explanationType: string = 'general', options: AIFileActionOptions = {}): Promise<AIResponse> => {
+    return api.post('/ai/explain', { filePath, content, model, explanationType, ...options }, { timeout: 120000 });
+  },
+
+  // Write unit tests for code
+  generateTests: async (filePath: string, content: string, model: string, options: AIFileActionOptions = {}): Promise<AIResponse> => {
+    return api.post('/ai/test', { filePath, content, model, ...options }, { timeout: 120000 });
   },
 
-  // Analyze vision/image
-  analyzeVision: async (imageData: string, prompt: string, model: string = 'gemini-2.0-pro'): Promise<AIResponse> => {
-    return api.post('/ai/vision', { imageData, prompt, model });
+  // Write documentation for code
+  generateDocs: async (filePath: string, content: string, model: string, options: AIFileActionOptions = {}): Promise<AIResponse> => {
+    return api.post('/ai/doc', { filePath, content, model, ...options }, { timeout: 120000 });
+  },
+
+  // Analyze one or more images (data URLs)
+  analyzeVision: async (images: string[], prompt: string, model: string = 'gemini-2.0-pro'): Promise<AIResponse> => {
+    return api.post('/ai/vision', { images, prompt, model });
+  },
+};
+
+// Agent API
+export const agentAPI = {
+  // Run the tool-calling agent; file writes come back as proposals awaiting approval
+  run: async (request: AgentRunRequest): Promise<AgentRun> => {
+    return api.post('/ai/agent/run', request, { timeout: 300000 });
+  },
+
+  // Get an agent run
+  getRun: async (runId: string): Promise<AgentRun> => {
+    return api.get(`/ai/agent/runs/${runId}`);
+  },
+
+  // Apply proposals (all pending when proposalIds is omitted)
+  approve: async (runId: string, proposalIds?: string[], token?: string): Promise<AgentRun> => {
+    return api.post(`/ai/agent/runs/${runId}/approve`, { proposalIds, token });
+  },
+
+  // Reject proposals (all pending when proposalIds is omitted)
+  reject: async (runId: string, proposalIds?: string[]): Promise<AgentRun> => {
+    return api.post(`/ai/agent/runs/${runId}/reject`, { proposalIds });
   },
 };
 
@@ -126,18 +378,33 @@ export const fileAPI = {
   },
 
   // Create new file
-  createFile: async (repoPath: string, filePath: string, content: string = '', token: string): Promise<any> => {
-    return api.post('/files/create', { repoPath, filePath, content, token });
+  createFile: async (repoPath: string, filePath: string, content: string = '', token: string, sessionId?: string): Promise<any> => {
+    return api.post('/files/create', { repoPath, filePath, content, token, sessionId });
   },
 
   // Delete file
-  deleteFile: async (repoPath: string, filePath: string, token: string): Promise<any> => {
-    return api.delete('/files/delete', { data: { repoPath, filePath, token } });
+  deleteFile: async (repoPath: string, filePath: string, token: string, sessionId?: string): Promise<any> => {
+    return api.delete('/files/delete', { data: { repoPath, filePath, token, sessionId } });
   },
 
   // Move/rename file
-  moveFile: async (repoPath: string, oldPath: string, newPath: string, token: string): Promise<any> => {
-    return api.put('/files/move', { repoPath, oldPath, newPath, token });
+  moveFile: async (repoPath: string, oldPath: string, newPath: string, token: string, sessionId?: string): Promise<any> => {
+    return api.put('/files/move', { repoPath, oldPath, newPath, token, sessionId });
+  },
+
+  // Autocomplete @file, @folder and @symbol mentions
+  searchMentions: async (repoPath: string, query: string, type?: MentionType): Promise<MentionCandidate[]> => {
+    return api.get('/files/mentions', { params: { repoPath, query, type } });
+  },
+
+  // Load the content a mention refers to
+  resolveMention: async (repoPath: string, mention: MentionCandidate): Promise<ResolvedMention> => {
+    return api.post('/files/mentions/resolve', { repoPath, mention });
+  },
+
+  // Diff proposed content against a file, as hunks for review
+  compareFile: async (repoPath: string, filePath: string, content: string): Promise<FileComparison> => {
+    return api.post('/files/compare', { repoPath, filePath, content });
   },
 
   // Get recent files
@@ -146,6 +413,71 @@ export const fileAPI = {
   },
 };
 
+// Edit session API: groups file changes so they can be reviewed and reverted together
+export const sessionAPI = {
+  // Start an edit session
+  create: async (repoPath: string, title: string, source: string): Promise<EditSessionSummary> => {
+    return api.post('/sessions', { repoPath, title, source });
+  },
+
+  // List a repository's edit sessions, newest first
+  list: async (repoPath: string): Promise<EditSessionSummary[]> => {
+    return api.get('/sessions', { params: { repoPath } });
+  },
+
+  // Get an edit session with its combined diff
+  get: async (sessionId: string): Promise<EditSession> => {
+    return api.get(`/sessions/${sessionId}`);
+  },
+
+  // Revert every change of an edit session; force overwrites files changed since
+  revert: async (sessionId: string, force: boolean = false): Promise<EditSessionRevert> => {
+    return api.post(`/sessions/${sessionId}/revert`, { force });
+  },
+};
+
+export const chatSessionAPI = {
+  // Start a chat session, optionally with its first messages
+  create: async (params: { repoPath?: string; title?: string; model?: string; messages?: StoredChatMessage[] }): Promise<ChatSession> => {
+    return api.post('/chats', params);
+  },
+
+  // List a repository's chat sessions, most recently updated first
+  list: async (repoPath?: string): Promise<ChatSessionSummary[]> => {
+    return api.get('/chats', { params: { repoPath } });
+  },
+
+  // Search the titles and messages of a repository's chat sessions
+  search: async (repoPath: string | undefined, query: string): Promise<ChatSearchResult[]> => {
+    return api.get('/chats/search', { params: { repoPath, query } });
+  },
+
+  // Get a chat session with its messages
+  get: async (sessionId: string): Promise<ChatSession> => {
+    return api.get(`/chats/${sessionId}`);
+  },
+
+  // Rename a session, change its model or replace its messages
+  update: async (sessionId: string, updates: { title?: string; model?: string; messages?: StoredChatMessage[] }): Promise<ChatSession> => {
+    return api.put(`/chats/${sessionId}`, updates);
+  },
+
+  // Delete a chat session
+  delete: async (sessionId: string): Promise<void> => {
+    return api.delete(`/chats/${sessionId}`);
+  },
+
+  // Edit a past user message in a new session that keeps the conversation before it
+  branch: async (sessionId: string, messageId: string, content: string): Promise<ChatSession> => {
+    return api.post(`/chats/${sessionId}/branch`, { messageId, content });
+  },
+
+  // Download a session as Markdown or JSON
+  export: async (sessionId: string, format: 'markdown' | 'json'): Promise<Blob> => {
+    return api.get(`/chats/${sessionId}/export`, { params: { format }, responseType: 'blob' });
+  },
+};
+
 // Health check
 export const healthAPI = {
   check: async (): Promise<any> => {
@@ -0,0 +1,38 @@
+import type * as Monaco from 'monaco-editor';
+
+// The code editor currently showing a file, so other panels can edit its buffer
+let activeEditor: Monaco.editor.IStandaloneCodeEditor | null = null;
+
+/**
+ * Make an editor the target of insertEditorText. Returns a function that
+ * unregisters it again.
+ */
+export function registerActiveEditor(editor: Monaco.editor.IStandaloneCodeEditor): () => void {
+  activeEditor = editor;
+  return () => {
+    if (activeEditor === editor) activeEditor = null;
+  };
+}
+
+/**
+ * Insert text into the open file at the cursor, or in place of the selection.
+ * The change is one undo step and leaves the file unsaved.
+ * Returns false when no editor is open, or there is no selection to replace.
+ */
+export function insertEditorText(text: string, target: 'cursor' | 'selection'): boolean {
+  const editor = activeEditor;
+  const selection = editor?.getSelection();
+  if (!editor || !editor.getModel() || !selection) return false;
+  if (target === 'selection' && selection.isEmpty()) return false;
+
+  const position = selection.getPosition();
+  const range = target === 'selection'
+    ? selection
+    : { startLineNumber: position.lineNumber, startColumn: position.column, endLineNumber: position.lineNumber, endColumn: position.column };
+
+  editor.pushUndoStop();
+  editor.executeEdits('chat', [{ range, text, forceMoveMarkers: true }]);
+  editor.pushUndoStop();
+  editor.focus();
+  return true;
+}
@@ -0,0 +1,132 @@
+import type * as Monaco from 'monaco-editor';
+import { aiAPI } from './api';
+
+export interface InlineCompletionContext {
+  enabled: boolean;
+  model: string;
+  filePath: string;
+  language: string;
+  openFiles: { path: string; content: string }[];
+}
+
+// Wait for typing to pause before asking the model
+const DEBOUNCE_MS = 350;
+const CACHE_SIZE = 50;
+
+// Keep well inside the backend's per-minute completion limit
+const MIN_INTERVAL_MS = 1000;
+const MAX_REQUESTS_PER_MINUTE = 30;
+
+// Characters sent either side of the cursor; the backend trims further
+const PREFIX_CHARS = 8000;
+const SUFFIX_CHARS = 2000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Register an AI inline completions (ghost text) provider for every language.
+ * Requests are debounced, spaced at least a second apart and capped per minute,
+ * cancelled when Monaco marks them stale, and cached per cursor context. Returns a disposable that unregisters the provider.
+ */
+export function registerInlineCompletions(
+  monaco: typeof Monaco,
+  getContext: () => InlineCompletionContext
+): Monaco.IDisposable {
+  const cache = new Map<string, string>();
+  let inFlight: AbortController | null = null;
+
+  // Start times of recent requests, for the interval and per-minute cap
+  let sentAt: number[] = [];
+
+  // The last suggestion shown, so typing through it does not trigger a new request
+  let last: { filePath: string; prefix: string; suffix: string; completion: string } | null = null;
+
+  const remember = (key: string, completion: string) => {
+    cache.delete(key);
+    cache.set(key, completion);
+    if (cache.size > CACHE_SIZE) {
+      cache.delete(cache.keys().next().value as string);
+    }
+  };
+
+  return monaco.languages.registerInlineCompletionsProvider('*', {
+    async provideInlineCompletions(model, position, _context, token) {
+      const settings = getContext();
+      if (!settings.enabled || !settings.model) return { items: [] };
+
+      const offset = model.getOffsetAt(position);
+      const text = model.getValue();
+      const prefix = text.slice(Math.max(0, offset - PREFIX_CHARS), offset);
+      const suffix = text.slice(offset, offset + SUFFIX_CHARS);
+
+      const range = new monaco.Range(position.lineNumber, position.column, position.lineNumber, position.column);
+      const suggest = (completion: string) => ({
+        items: completion ? [{ insertText: completion, range }] : [],
+      });
+
+      // The user typed the beginning of the last suggestion: offer the rest
+      if (last && last.filePath === settings.filePath && last.suffix === suffix && prefix.startsWith(last.prefix)) {
+        const typed = prefix.slice(last.prefix.length);
+        if (typed && last.completion.startsWith(typed) && last.completion.length > typed.length) {
+          return suggest(last.completion.slice(typed.length));
+        }
+      }
+
+      const key = `${settings.model}\u0000${settings.filePath}\u0000${prefix.slice(-500)}\u0000${suffix.slice(0, 200)}`;
+      const cached = cache.get(key);
+      if (cached !== undefined) {
+        last = { filePath: settings.filePath, prefix, suffix, completion: cached };
+        return suggest(cached);
+      }
+
+      await sleep(DEBOUNCE_MS);
+      if (token.isCancellationRequested) return { items: [] };
+
+      const wait = MIN_INTERVAL_MS - (Date.now() - (sentAt[sentAt.length - 1] ?? 0));
+      if (wait > 0) {
+        await sleep(wait);
+        if (token.isCancellationRequested) return { items: [] };
+      }
+
+      // Over the cap, skip suggestions until the minute rolls over
+      sentAt = sentAt.filter(time => Date.now() - time < 60 * 1000);
+      if (sentAt.length >= MAX_REQUESTS_PER_MINUTE) return { items: [] };
+      sentAt.push(Date.now());
+
+      // Only the newest request matters
+      inFlight?.abort();
+      const controller = new AbortController();
+      inFlight = controller;
+      const subscription = token.onCancellationRequested(() => controller.abort());
+
+      try {
+        const { completion } = await aiAPI.complete({
+          prefix,
+          suffix,
+          filePath: settings.filePath,
+          language: settings.language,
+          openFiles: settings.openFiles,
+          model: settings.model,
+        }, controller.signal);
+
+        remember(key, completion);
+        if (token.isCancellationRequested) return { items: [] };
+
+        last = { filePath: settings.filePath, prefix, suffix, completion };
+        return suggest(completion);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.warn('Inline completion failed:', error);
+        }
+        return { items: [] };
+      } finally {
+        subscription.dispose();
+        if (inFlight === controller) inFlight = null;
+      }
+    },
+
+    freeInlineCompletions() {
+      // Nothing to release: completions are plain strings
+    },
+  });
+}
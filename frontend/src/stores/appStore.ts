@@ -10,6 +10,7 @@ import type {
   FileContent, 
   FileItem, 
   ChatMessage, 
+  EditorSelection,
   AIModel,
   UserSettings 
 } from '@/types';
@@ -29,6 +30,9 @@ interface AppStore extends AppState {
   setEditorFontSize: (size: number) => void;
   setEditorWordWrap: (wrap: 'on' | 'off') => void;
   setEditorMinimap: (enabled: boolean) => void;
+  setInlineCompletions: (enabled: boolean) => void;
+  setInlineCompletionModel: (model: string) => void;
+  setEditorSelection: (selection: EditorSelection | null) => void;
   
   // File explorer actions
   setFiles: (files: FileItem[]) => void;
@@ -38,8 +42,10 @@ interface AppStore extends AppState {
   setSearchQuery: (query: string) => void;
   
   // Chat actions
-  addMessage: (message: Omit<ChatMessage, 'id' | 'timestamp'>) => void;
+  addMessage: (message: Omit<ChatMessage, 'id' | 'timestamp'>) => string;
+  updateMessage: (id: string, updates: Partial<Omit<ChatMessage, 'id'>>) => void;
   clearMessages: () => void;
+  setChatSession: (sessionId: string | null, messages?: ChatMessage[]) => void;
   setChatLoading: (loading: boolean) => void;
   setSelectedModel: (model: string) => void;
   setChatTemperature: (temperature: number) => void;
@@ -60,6 +66,9 @@ const defaultEditorState: EditorState = {
   fontSize: 14,
   wordWrap: 'off',
   minimap: true,
+  inlineCompletions: false,
+  inlineCompletionModel: 'gemini-1.5-flash',
+  selection: null,
 };
 
 const defaultFileExplorerState: FileExplorerState = {
@@ -72,6 +81,8 @@ const defaultFileExplorerState: FileExplorerState = {
 
 const defaultChatState: ChatState = {
   messages: [],
+  sessionId: null,
+  lastSessionIds: {},
   isLoading: false,
   selectedModel: 'gemini-1.5-flash',
   temperature: 0.7,
@@ -92,8 +103,24 @@ const defaultSettings: UserSettings = {
   aiModel: 'gemini-1.5-flash',
   aiTemperature: 0.7,
   aiMaxTokens: 4000,
+  inlineCompletions: false,
+  inlineCompletionModel: 'gemini-1.5-flash',
 };
 
+// Settings live in the editor and chat state; fields kept nowhere else fall back to the defaults
+const settingsFromState = (state: AppState): UserSettings => ({
+  ...defaultSettings,
+  theme: state.theme,
+  fontSize: state.editor.fontSize,
+  wordWrap: state.editor.wordWrap === 'on',
+  minimap: state.editor.minimap,
+  aiModel: state.chat.selectedModel,
+  aiTemperature: state.chat.temperature,
+  aiMaxTokens: state.chat.maxTokens,
+  inlineCompletions: state.editor.inlineCompletions,
+  inlineCompletionModel: state.editor.inlineCompletionModel,
+});
+
 export const useAppStore = create<AppStore>()(
   persist(
     (set, get) => ({
@@ -116,7 +143,7 @@ export const useAppStore = create<AppStore>()(
 
       // Editor actions
       setCurrentFile: (file) => set((state) => ({
-        editor: { ...state.editor, currentFile: file, isDirty: false }
+        editor: { ...state.editor, currentFile: file, isDirty: false, selection: null }
       })),
       setEditorDirty: (dirty) => set((state) => ({
         editor: { ...state.editor, isDirty: dirty }
@@ -136,6 +163,11 @@ export const useAppStore = create<AppStore>()(
       setEditorMinimap: (enabled) => set((state) => ({
         editor: { ...state.editor, minimap: enabled }
       })),
+      setInlineCompletions: (enabled) => get().updateSettings({ inlineCompletions: enabled }),
+      setInlineCompletionModel: (model) => get().updateSettings({ inlineCompletionModel: model }),
+      setEditorSelection: (selection) => set((state) => ({
+        editor: { ...state.editor, selection }
+      })),
 
       // File explorer actions
       setFiles: (files) => set((state) => ({
@@ -163,22 +195,46 @@ export const useAppStore = create<AppStore>()(
       })),
 
       // Chat actions
-      addMessage: (message) => set((state) => ({
+      addMessage: (message) => {
+        const id = uuidv4();
+        set((state) => ({
+          chat: {
+            ...state.chat,
+            messages: [
+              ...state.chat.messages,
+              {
+                ...message,
+                id,
+                timestamp: new Date(),
+              }
+            ]
+          }
+        }));
+        return id;
+      },
+      updateMessage: (id, updates) => set((state) => ({
         chat: {
           ...state.chat,
-          messages: [
-            ...state.chat.messages,
-            {
-              ...message,
-              id: uuidv4(),
-              timestamp: new Date(),
-            }
-          ]
+          messages: state.chat.messages.map((message) =>
+            message.id === id ? { ...message, ...updates } : message
+          )
         }
       })),
       clearMessages: () => set((state) => ({
         chat: { ...state.chat, messages: [] }
       })),
+      setChatSession: (sessionId, messages) => set((state) => {
+        const repoKey = state.currentRepository?.path || '';
+        const { [repoKey]: _previous, ...lastSessionIds } = state.chat.lastSessionIds;
+        return {
+          chat: {
+            ...state.chat,
+            sessionId,
+            messages: messages ?? state.chat.messages,
+            lastSessionIds: sessionId ? { ...lastSessionIds, [repoKey]: sessionId } : lastSessionIds,
+          }
+        };
+      }),
       setChatLoading: (loading) => set((state) => ({
         chat: { ...state.chat, isLoading: loading }
       })),
@@ -194,7 +250,7 @@ export const useAppStore = create<AppStore>()(
 
       // Settings actions
       updateSettings: (settings) => set((state) => {
-        const newSettings = { ...defaultSettings, ...settings };
+        const newSettings = { ...settingsFromState(state), ...settings };
         return {
           theme: newSettings.theme,
           editor: {
@@ -203,6 +259,8 @@ export const useAppStore = create<AppStore>()(
             fontSize: newSettings.fontSize,
             wordWrap: newSettings.wordWrap ? 'on' : 'off',
             minimap: newSettings.minimap,
+            inlineCompletions: newSettings.inlineCompletions,
+            inlineCompletionModel: newSettings.inlineCompletionModel,
           },
           chat: {
             ...state.chat,
@@ -234,13 +292,26 @@ export const useAppStore = create<AppStore>()(
           fontSize: state.editor.fontSize,
           wordWrap: state.editor.wordWrap,
           minimap: state.editor.minimap,
+          inlineCompletions: state.editor.inlineCompletions,
+          inlineCompletionModel: state.editor.inlineCompletionModel,
         },
         chat: {
           selectedModel: state.chat.selectedModel,
           temperature: state.chat.temperature,
           maxTokens: state.chat.maxTokens,
+          lastSessionIds: state.chat.lastSessionIds,
         },
       }),
+      // Only parts of editor and chat are saved, so merge them into the defaults
+      merge: (persistedState, currentState) => {
+        const persisted = persistedState as Partial<AppStore>;
+        return {
+          ...currentState,
+          ...persisted,
+          editor: { ...currentState.editor, ...persisted.editor },
+          chat: { ...currentState.chat, ...persisted.chat },
+        };
+      },
     }
   )
 );
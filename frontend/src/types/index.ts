@@ -52,20 +52,59 @@ export interface FileStats {
 export interface AIModel {
   id: string;
   name: string;
+  description: string;
   provider: string;
-  model: string;
+  model: string | null;
+  contextWindow: number;
+  maxOutputTokens: number;
+  charsPerToken: number;
+  pricing: {
+    inputPer1M: number;
+    outputPer1M: number;
+  };
+  defaultTemperature: number;
+  supportsVision: boolean;
+  supportsStreaming: boolean;
+  useCase: 'coding' | 'vision';
   available: boolean;
-  supportsVision?: boolean;
+}
+
+export interface AIConversationMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
 }
 
 export interface AIRequest {
   prompt: string;
+  messages?: AIConversationMessage[];
   model: string;
   context?: any;
   files?: FileContent[];
   temperature?: number;
   maxTokens?: number;
-  imageData?: string;
+  images?: string[];
+  useCase?: 'coding' | 'vision';
+  fallback?: boolean;
+  repoPath?: string;
+  retrieval?: false | {
+    query?: string;
+    paths?: string[];
+    maxTokens?: number;
+  };
+}
+
+export interface AICitation {
+  path: string;
+  startLine: number;
+  endLine: number;
+  score: number;
+}
+
+// A section of the repository's .winky/rules.md that was added to a request
+export interface AppliedRule {
+  title: string;
+  globs: string[];
+  files: string[];
 }
 
 export interface AIResponse {
@@ -76,6 +115,215 @@ export interface AIResponse {
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
+    // Estimated from the model's price table
+    costUsd?: number;
+  };
+  citations?: AICitation[];
+  rules?: AppliedRule[];
+  budget?: AIBudgetReport;
+  modelId?: string;
+  requestedModel?: string | null;
+  fallbackUsed?: boolean;
+  attempts?: AIAttempt[];
+}
+
+export interface AIAttempt {
+  model: string;
+  provider: string;
+  status: number | null;
+  error: string;
+}
+
+export type AIUsageGrouping = 'day' | 'model' | 'provider' | 'feature' | 'route';
+
+export interface AIUsageQuery {
+  from?: string;
+  to?: string;
+  groupBy?: AIUsageGrouping;
+  feature?: string;
+  model?: string;
+}
+
+export interface AIUsageTotals {
+  key: string;
+  calls: number;
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  avgLatencyMs: number;
+}
+
+export interface AIUsageReport {
+  from: string | null;
+  to: string | null;
+  groupBy: AIUsageGrouping;
+  totals: AIUsageTotals;
+  groups: AIUsageTotals[];
+}
+
+export interface CodeCompletionRequest {
+  prefix: string;
+  suffix: string;
+  filePath: string;
+  language?: string;
+  openFiles?: { path: string; content: string }[];
+  model: string;
+  maxTokens?: number;
+}
+
+export interface CodeCompletion {
+  completion: string;
+  model: string;
+  modelId: string;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    // Estimated from the model's price table
+    costUsd?: number;
+  };
+}
+
+export interface CodeEditHunk {
+  id: string;
+  startLine: number;
+  endLine: number;
+  oldText: string;
+  newText: string;
+  explanation: string;
+}
+
+export interface CodeEditFile {
+  path: string;
+  originalContent: string;
+  newContent: string;
+  hunks: CodeEditHunk[];
+  diff: string;
+}
+
+// Proposed content compared with a file on disk; a missing file compares as empty
+export interface FileComparison extends CodeEditFile {
+  exists: boolean;
+}
+
+export interface CodeEditProposal {
+  summary: string;
+  files: CodeEditFile[];
+  model: string;
+  modelId: string;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    // Estimated from the model's price table
+    costUsd?: number;
+  };
+  attempts: number;
+  rules?: AppliedRule[];
+}
+
+// Lines selected in the editor, sent with slash commands
+export interface EditorSelection {
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+// Options shared by the file-level AI actions (explain, test, doc, refactor, fix)
+export interface AIFileActionOptions {
+  repoPath?: string;
+  selection?: EditorSelection | null;
+  instructions?: string;
+  files?: { path: string; content: string }[];
+}
+
+export type MentionType = 'file' | 'folder' | 'symbol';
+
+export interface MentionCandidate {
+  type: MentionType;
+  path: string;
+  name: string;
+  line?: number;
+  kind?: string;
+}
+
+export interface ResolvedMention {
+  files: { path: string; content: string }[];
+  omitted: number;
+}
+
+// Context attached to the next chat message through an @-mention
+export interface ChatAttachment extends ResolvedMention {
+  id: string;
+  mention: MentionCandidate;
+}
+
+export interface EditSessionSummary {
+  id: string;
+  repoPath: string;
+  title: string;
+  source: string;
+  status: 'open' | 'reverted';
+  changeCount: number;
+  fileCount: number;
+  createdAt: string;
+  updatedAt: string;
+  revertedAt: string | null;
+}
+
+export interface EditSessionChange {
+  id: string;
+  type: 'create' | 'update' | 'delete' | 'move';
+  path: string;
+  newPath: string | null;
+  timestamp: string;
+}
+
+export interface EditSessionFile {
+  path: string | null;
+  oldPath: string | null;
+  status: 'added' | 'modified' | 'deleted' | 'renamed';
+  binary: boolean;
+  before: string | null;
+  after: string | null;
+  diff: string;
+}
+
+export interface EditSession extends EditSessionSummary {
+  changes: EditSessionChange[];
+  files: EditSessionFile[];
+  diff: string;
+}
+
+export interface EditSessionConflict {
+  path: string;
+  reason: string;
+}
+
+export interface EditSessionRevert extends EditSessionSummary {
+  restored: string[];
+  removed: string[];
+  conflicts: EditSessionConflict[];
+}
+
+export interface AIBudgetReport {
+  contextWindow: number;
+  maxOutputTokens: number;
+  inputBudget: number;
+  used: {
+    prompt: number;
+    system: number;
+    context: number;
+    files: number;
+    history: number;
+    total: number;
+  };
+  dropped: {
+    files: { path: string; reason: 'truncated' | 'dropped'; tokens: number }[];
+    historyMessages: number;
+    contextTruncated: boolean;
   };
 }
 
@@ -89,7 +337,124 @@ export interface ChatMessage {
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
+    // Estimated from the model's price table
+    costUsd?: number;
   };
+  streaming?: boolean;
+  agentRunId?: string;
+  citations?: AICitation[];
+  rules?: AppliedRule[];
+  budget?: AIBudgetReport;
+  fallbackFrom?: string;
+  mentions?: MentionCandidate[];
+  images?: string[];
+  codeEdit?: { proposal: CodeEditProposal; source: string };
+}
+
+// A chat message as stored on the server, with its timestamp serialised
+export type StoredChatMessage = Omit<ChatMessage, 'timestamp'> & { timestamp: string };
+
+export interface ChatSessionSummary {
+  id: string;
+  repoPath: string | null;
+  title: string;
+  model: string | null;
+  parentId: string | null;
+  branchedFrom: { sessionId: string; messageId: string } | null;
+  messageCount: number;
+  preview: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChatSession extends Omit<ChatSessionSummary, 'messageCount' | 'preview'> {
+  messages: StoredChatMessage[];
+}
+
+export interface ChatSearchResult extends ChatSessionSummary {
+  matches: { messageId: string; role: 'user' | 'assistant'; snippet: string }[];
+}
+
+export interface CodeIndexStatus {
+  repoPath: string;
+  indexed: boolean;
+  builtAt?: string;
+  fileCount?: number;
+  chunkCount?: number;
+  embeddings?: { provider: string; model: string } | null;
+  stale?: boolean;
+}
+
+export interface CodeChunk {
+  path: string;
+  startLine: number;
+  endLine: number;
+  content: string;
+  score: number;
+}
+
+export interface AIStreamHandlers {
+  onToken: (token: string) => void;
+  signal?: AbortSignal;
+}
+
+// Agent Types
+export interface AgentRunRequest {
+  repoPath: string;
+  prompt: string;
+  model: string;
+  messages?: AIConversationMessage[];
+  maxSteps?: number;
+}
+
+export interface AgentToolCall {
+  id: string;
+  step: number;
+  tool: string;
+  arguments: Record<string, any>;
+  status: 'ok' | 'error' | 'proposed';
+  output: string;
+  proposalId: string | null;
+  durationMs: number;
+}
+
+export interface AgentProposal {
+  id: string;
+  toolCallId: string;
+  tool: 'createFile' | 'updateFile' | 'moveFile';
+  path: string;
+  newPath: string | null;
+  content: string | null;
+  originalContent: string | null;
+  status: 'pending' | 'applied' | 'rejected' | 'failed';
+  error: string | null;
+  sessionId: string | null;
+  createdAt: string;
+  resolvedAt: string | null;
+}
+
+export interface AgentRun {
+  id: string;
+  repoPath: string;
+  model: string;
+  prompt: string;
+  status: 'running' | 'completed' | 'max_steps' | 'failed' | 'aborted';
+  steps: number;
+  maxSteps: number;
+  answer: string | null;
+  error: string | null;
+  transcript: AgentToolCall[];
+  proposals: AgentProposal[];
+  rules: AppliedRule[];
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    // Estimated from the model's price table
+    costUsd?: number;
+  };
+  createdAt: string;
+  completedAt: string | null;
 }
 
 // Git Types
@@ -97,14 +462,175 @@ export interface GitCommit {
   commitHash: string;
   message: string;
   files: string[];
+  pushed: boolean;
+  pushedAt: string | null;
+}
+
+export interface GitPushResult {
+  branch: string;
+  head: string;
   pushedAt: string;
 }
 
+export interface GitBranchInfo {
+  name: string;
+  oid: string;
+  current: boolean;
+  upstream: string | null;
+  ahead: number;
+  behind: number;
+  // False when the counts stopped at the edge of a shallow clone and are lower bounds
+  complete: boolean;
+}
+
+export interface GitBranchList {
+  current: string | null;
+  local: GitBranchInfo[];
+  remote: { name: string; branch: string; oid: string }[];
+  fetchedAt: string | null;
+}
+
+export interface GitBranchComparison {
+  base: string;
+  head: string;
+  baseOid: string;
+  headOid: string;
+  ahead: number;
+  behind: number;
+  complete: boolean;
+  aheadCommits: GitCommitSummary[];
+  behindCommits: GitCommitSummary[];
+  files: { path: string; type: 'added' | 'modified' | 'deleted' }[];
+}
+
+// A file to stage or unstage, optionally only some of its hunks (ids from its diff)
+export interface GitStageFile {
+  path: string;
+  hunks?: string[];
+}
+
+export type GitPullStrategy = 'ff-only' | 'merge' | 'rebase';
+
+export interface GitCommitSummary {
+  oid: string;
+  subject: string;
+  author: string;
+  date: string;
+}
+
+export interface GitPullConflict {
+  path: string;
+  type: 'both-modified' | 'both-added' | 'deleted-locally' | 'deleted-upstream';
+  markers: number;
+  commit?: string;
+}
+
+export interface GitPullResult {
+  branch: string;
+  strategy: GitPullStrategy;
+  status: 'up-to-date' | 'fast-forward' | 'merged' | 'rebased' | 'conflicts';
+  previousHead: string;
+  head: string;
+  upstream: string;
+  commits: GitCommitSummary[];
+  files: { path: string; type: 'added' | 'modified' | 'deleted' }[];
+  conflicts: GitPullConflict[];
+  // Set when a rebase hit a conflict at this commit and upstream was merged instead
+  rebaseConflictAt: GitCommitSummary | null;
+  pulledAt: string;
+}
+
+export interface GitFileStatus {
+  path: string;
+  staged: 'added' | 'modified' | 'deleted' | null;
+  unstaged: 'modified' | 'deleted' | 'untracked' | null;
+  conflicted: boolean;
+}
+
 export interface GitStatus {
+  branch: string | null;
+  head: string | null;
   lastCommit: any;
+  merging: boolean;
   branches: string[];
   fileCount: number;
   path: string;
+  files: GitFileStatus[];
+  summary: {
+    staged: number;
+    unstaged: number;
+    untracked: number;
+    conflicted: number;
+  };
+  clean: boolean;
+}
+
+// A ref or commit, the staging area ('index') or the working tree ('workdir')
+export type GitDiffSide = string;
+
+export type GitDiffHunk = Omit<CodeEditHunk, 'explanation'>;
+
+export interface GitFileDiff {
+  path: string;
+  status: 'added' | 'modified' | 'deleted' | 'untracked';
+  binary: boolean;
+  additions: number;
+  deletions: number;
+  hunks: GitDiffHunk[];
+  diff: string;
+  originalContent?: string;
+  newContent?: string;
+}
+
+export interface GitDiff {
+  from: GitDiffSide;
+  to: GitDiffSide;
+  fromOid: string | null;
+  toOid: string | null;
+  files: GitFileDiff[];
+  additions: number;
+  deletions: number;
+}
+
+export interface GitLogCommit extends GitCommitSummary {
+  message: string;
+  email: string;
+  parents: string[];
+  // Its parents were not fetched (shallow clone), so it stands for older history too
+  boundary?: boolean;
+}
+
+export interface GitLog {
+  ref: string;
+  since: string | null;
+  path: string | null;
+  oid: string;
+  commits: GitLogCommit[];
+  skip: number;
+  limit: number;
+  hasMore: boolean;
+  // False when the walk reached the edge of a shallow clone
+  complete: boolean;
+}
+
+// Lines startLine-endLine were last changed by commit oid, or are uncommitted when oid is null
+export interface GitBlameRange {
+  startLine: number;
+  endLine: number;
+  oid: string | null;
+}
+
+export interface GitBlame {
+  path: string;
+  ref: string;
+  lineCount: number;
+  ranges: GitBlameRange[];
+  commits: Record<string, GitLogCommit>;
+  complete: boolean;
+}
+
+export interface GitCommitDetails extends GitDiff {
+  commit: GitLogCommit;
 }
 
 // UI State Types
@@ -116,6 +642,9 @@ export interface EditorState {
   fontSize: number;
   wordWrap: 'on' | 'off';
   minimap: boolean;
+  inlineCompletions: boolean;
+  inlineCompletionModel: string;
+  selection: EditorSelection | null;
 }
 
 export interface FileExplorerState {
@@ -128,6 +657,10 @@ export interface FileExplorerState {
 
 export interface ChatState {
   messages: ChatMessage[];
+  // Server-side session the messages are saved to, once the first turn is saved
+  sessionId: string | null;
+  // Last open session of each repository ('' for chats without one), reopened on switching back
+  lastSessionIds: Record<string, string>;
   isLoading: boolean;
   selectedModel: string;
   temperature: number;
@@ -214,6 +747,8 @@ export interface UserSettings {
   aiModel: string;
   aiTemperature: number;
   aiMaxTokens: number;
+  inlineCompletions: boolean;
+  inlineCompletionModel: string;
 }
 
 // Command Palette Types
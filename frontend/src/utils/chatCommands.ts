@@ -0,0 +1,68 @@
+import type { MentionCandidate, MentionType } from '@/types';
+
+export type SlashCommandName = 'explain' | 'fix' | 'refactor' | 'test' | 'doc';
+
+export interface SlashCommand {
+  name: SlashCommandName;
+  usage: string;
+  description: string;
+}
+
+// Chat commands that act on the editor selection, or the open file without one
+export const SLASH_COMMANDS: SlashCommand[] = [
+  { name: 'explain', usage: '/explain [question]', description: 'Explain the selected code' },
+  { name: 'fix', usage: '/fix [error message]', description: 'Fix bugs and review the changes' },
+  { name: 'refactor', usage: '/refactor [focus]', description: 'Refactor and review the changes' },
+  { name: 'test', usage: '/test [what to cover]', description: 'Write unit tests' },
+  { name: 'doc', usage: '/doc [format or audience]', description: 'Write documentation' },
+];
+
+export interface MentionQuery {
+  start: number;
+  end: number;
+  type?: MentionType;
+  query: string;
+}
+
+/**
+ * Split a message into a slash command and its arguments
+ */
+export function parseSlashCommand(input: string): { command: SlashCommandName; args: string } | null {
+  const match = input.trim().match(/^\/(\w+)(?:\s+([\s\S]*))?$/);
+  const command = match && SLASH_COMMANDS.find(candidate => candidate.name === match[1].toLowerCase());
+  return command ? { command: command.name, args: (match[2] || '').trim() } : null;
+}
+
+/**
+ * The partial command name being typed, while the caret is still in the first word of a message starting with /
+ */
+export function getCommandQuery(input: string, caret: number): string | null {
+  const match = input.slice(0, caret).match(/^\/(\w*)$/);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * The @-mention being typed just before the caret. "@file:", "@folder:" and
+ * "@symbol:" narrow the search to one kind.
+ */
+export function getMentionQuery(input: string, caret: number): MentionQuery | null {
+  const before = input.slice(0, caret);
+  const match = before.match(/(^|\s)@(?:(file|folder|symbol):)?([^\s@]*)$/);
+  if (!match) return null;
+
+  return {
+    start: before.length - match[0].length + match[1].length,
+    end: caret,
+    type: match[2] as MentionType | undefined,
+    query: match[3],
+  };
+}
+
+/**
+ * Short label for a mention chip
+ */
+export function formatMention(mention: MentionCandidate): string {
+  if (mention.type === 'folder') return `${mention.path}/`;
+  if (mention.type === 'symbol') return mention.name;
+  return mention.path;
+}
@@ -0,0 +1,22 @@
+import type { CodeEditHunk } from '@/types';
+
+// Keep in sync with backend/src/services/codeEditService.js
+
+/**
+ * Apply hunks (line-range replacements of the original content) to content.
+ * Hunk line numbers refer to the original, so any subset can be applied.
+ */
+export function applyHunks(content: string, hunks: Pick<CodeEditHunk, 'startLine' | 'endLine' | 'newText'>[]): string {
+  const lines = content.split('\n');
+
+  // Apply from the bottom so earlier line numbers stay valid
+  for (const hunk of [...hunks].sort((a, b) => b.startLine - a.startLine)) {
+    lines.splice(hunk.startLine - 1, hunk.endLine - hunk.startLine + 1, ...toLines(hunk.newText));
+  }
+
+  return lines.join('\n');
+}
+
+function toLines(text: string): string[] {
+  return text === '' ? [] : text.split('\n');
+}
@@ -0,0 +1,35 @@
+// Matches the limits the backend enforces on vision requests
+export const MAX_CHAT_IMAGES = 8;
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+const SUPPORTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+/**
+ * Image files among pasted or dropped data
+ */
+export function getImageFiles(data: DataTransfer | null): File[] {
+  if (!data) return [];
+  return Array.from(data.files).filter(file => file.type.startsWith('image/'));
+}
+
+/**
+ * Read image files as data URLs, skipping unsupported or oversized files.
+ * Returns the images read and the names of the files that were skipped.
+ */
+export async function readImageFiles(files: File[]): Promise<{ images: string[]; skipped: string[] }> {
+  const skipped: string[] = [];
+  const readable = files.filter(file => {
+    const ok = SUPPORTED_IMAGE_TYPES.includes(file.type) && file.size <= MAX_IMAGE_BYTES;
+    if (!ok) skipped.push(file.name || 'image');
+    return ok;
+  });
+
+  const images = await Promise.all(readable.map(file => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  })));
+
+  return { images, skipped };
+}
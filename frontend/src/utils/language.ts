@@ -0,0 +1,50 @@
+/**
+ * Get the Monaco language id from a file extension
+ */
+export function getLanguageFromPath(path: string): string {
+  const ext = path.split('.').pop()?.toLowerCase();
+  const languageMap: { [key: string]: string } = {
+    'js': 'javascript',
+    'jsx': 'javascript',
+    'ts': 'typescript',
+    'tsx': 'typescript',
+    'html': 'html',
+    'css': 'css',
+    'scss': 'scss',
+    'json': 'json',
+    'md': 'markdown',
+    'py': 'python',
+    'java': 'java',
+    'cpp': 'cpp',
+    'c': 'c',
+    'php': 'php',
+    'rb': 'ruby',
+    'go': 'go',
+    'rs': 'rust',
+    'swift': 'swift',
+    'kt': 'kotlin',
+    'dart': 'dart',
+    'vue': 'vue',
+    'svelte': 'svelte',
+    'astro': 'astro',
+    'sql': 'sql',
+    'yaml': 'yaml',
+    'yml': 'yaml',
+    'toml': 'toml',
+    'ini': 'ini',
+    'sh': 'shell',
+    'bash': 'shell',
+    'zsh': 'shell',
+    'fish': 'shell',
+    'ps1': 'powershell',
+    'bat': 'batch',
+    'cmd': 'batch',
+    'dockerfile': 'dockerfile',
+    'gitignore': 'gitignore',
+    'env': 'env',
+    'xml': 'xml',
+    'svg': 'svg',
+  };
+
+  return languageMap[ext || ''] || 'plaintext';
+}
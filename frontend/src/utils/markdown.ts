@@ -0,0 +1,43 @@
+export interface CodeFence {
+  language: string;
+  path?: string;
+}
+
+// "path=src/a.ts", "file=src/a.ts" or 'title="src/a.ts"' in a fence's info string
+const META_PATH = /(?:^|\s)(?:path|file|filename|title)=(?:"([^"]+)"|'([^']+)'|(\S+))/i;
+
+// "// File: src/a.ts", "# path: app.py" or "<!-- file: index.html -->" on a block's first line
+const COMMENT_PATH = /^\s*(?:\/\/|#|--|\/\*|<!--)\s*(?:file(?:name)?|path)\s*:\s*([^\s*>]+)/i;
+
+/**
+ * Read the language and target file of a fenced code block. The path may
+ * follow the language ("```ts src/a.ts", "```ts:src/a.ts", "```ts path=src/a.ts")
+ * or be named in a comment on the block's first line.
+ */
+export function parseCodeFence(info: string, meta: string | null | undefined, code: string): CodeFence {
+  const colon = info.indexOf(':');
+  const language = colon === -1 ? info : info.slice(0, colon);
+  const inlinePath = colon === -1 ? undefined : info.slice(colon + 1);
+  const metaText = meta?.trim() || '';
+  const named = metaText.match(META_PATH);
+  const candidates = [
+    inlinePath,
+    named && (named[1] || named[2] || named[3]),
+    metaText.split(/\s+/).find(token => !token.includes('=')),
+    code.split('\n', 1)[0].match(COMMENT_PATH)?.[1],
+  ];
+
+  return {
+    language: language.toLowerCase(),
+    path: candidates.find((candidate): candidate is string => !!candidate && isFilePath(candidate)),
+  };
+}
+
+/**
+ * Whether text reads as a relative file path inside the repository
+ */
+function isFilePath(text: string): boolean {
+  return /^[\w@~+-][\w./@~+-]*$/.test(text)
+    && /[./]/.test(text)
+    && !text.split('/').includes('..');
+}
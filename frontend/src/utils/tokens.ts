@@ -0,0 +1,59 @@
+import type { AIModel, AIConversationMessage } from '@/types';
+
+// Keep in sync with backend/src/services/tokenBudget.js
+const DEFAULT_CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const SAFETY_MARGIN_RATIO = 0.05;
+
+export interface ContextUsageInput {
+  prompt: string;
+  history: AIConversationMessage[];
+  files: { path: string; content: string }[];
+  context?: unknown;
+  maxTokens: number;
+}
+
+export interface ContextUsage {
+  prompt: number;
+  history: number;
+  files: number;
+  context: number;
+  total: number;
+  inputBudget: number;
+  contextWindow: number;
+  ratio: number;
+}
+
+/**
+ * Estimate tokens for text using the model's characters-per-token ratio
+ */
+export function estimateTokens(text: string, model?: AIModel): number {
+  const ratio = model?.charsPerToken || DEFAULT_CHARS_PER_TOKEN;
+  return Math.ceil((text || '').length / ratio);
+}
+
+/**
+ * Estimate how much of the model's context window a request will use
+ * before the backend trims it to fit
+ */
+export function estimateContextUsage(input: ContextUsageInput, model?: AIModel): ContextUsage {
+  const count = (text: string) => estimateTokens(text, model) + MESSAGE_OVERHEAD_TOKENS;
+  const contextWindow = model?.contextWindow || 8192;
+  const maxOutputTokens = Math.min(input.maxTokens, model?.maxOutputTokens || input.maxTokens);
+  const inputBudget = Math.max(1, Math.floor(contextWindow * (1 - SAFETY_MARGIN_RATIO)) - maxOutputTokens);
+
+  const prompt = count(input.prompt);
+  const history = input.history.reduce((sum, message) => sum + count(message.content), 0);
+  const files = input.files.reduce((sum, file) => sum + estimateTokens(file.path, model) + count(file.content), 0);
+  const context = input.context ? count(JSON.stringify(input.context)) : 0;
+  const total = prompt + history + files + context;
+
+  return { prompt, history, files, context, total, inputBudget, contextWindow, ratio: total / inputBudget };
+}
+
+/**
+ * Format a token count compactly (e.g. 12.3k)
+ */
+export function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}